@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "TipoutType" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TipoutType_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TipoutType_key_key" ON "TipoutType"("key");
+
+-- Seed the tipout types that were previously hard-coded
+INSERT INTO "TipoutType" ("id", "key", "name", "description", "sortOrder", "active", "updatedAt") VALUES
+    ('tipout_type_bar', 'bar', 'Bar', 'Percentage of liquor sales', 0, true, CURRENT_TIMESTAMP),
+    ('tipout_type_host', 'host', 'Host', 'Percentage of total tips', 1, true, CURRENT_TIMESTAMP),
+    ('tipout_type_sa', 'sa', 'Server Assistant', 'Percentage of total tips', 2, true, CURRENT_TIMESTAMP);
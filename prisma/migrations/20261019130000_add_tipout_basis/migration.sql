@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "RoleConfig" ADD COLUMN     "basis" TEXT NOT NULL DEFAULT 'total_tips';
+
+-- AlterTable
+ALTER TABLE "Shift" ADD COLUMN     "foodSales" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "netSales" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- Bar tipouts were always calculated from liquor sales
+UPDATE "RoleConfig" SET "basis" = 'liquor_sales' WHERE "tipoutType" = 'bar';
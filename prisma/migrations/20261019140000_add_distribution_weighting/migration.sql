@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "RoleConfig" ADD COLUMN     "distributionWeight" DECIMAL(65,30),
+ADD COLUMN     "distributionWeighting" TEXT NOT NULL DEFAULT 'hours',
+ADD COLUMN     "poolWeight" DECIMAL(65,30),
+ADD COLUMN     "poolWeighting" TEXT NOT NULL DEFAULT 'hours';
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Shift" ADD COLUMN     "servicePeriodId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ServicePeriod" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ServicePeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Shift_servicePeriodId_idx" ON "Shift"("servicePeriodId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ServicePeriod_name_key" ON "ServicePeriod"("name");
+
+-- AddForeignKey
+ALTER TABLE "Shift" ADD CONSTRAINT "Shift_servicePeriodId_fkey" FOREIGN KEY ("servicePeriodId") REFERENCES "ServicePeriod"("id") ON DELETE SET NULL ON UPDATE CASCADE;
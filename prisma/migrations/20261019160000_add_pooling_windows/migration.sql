@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "RoleConfig" ADD COLUMN     "distributionWindow" TEXT NOT NULL DEFAULT 'shift',
+ADD COLUMN     "poolWindow" TEXT NOT NULL DEFAULT 'shift';
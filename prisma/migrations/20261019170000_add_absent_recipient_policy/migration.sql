@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "RoleConfig" ADD COLUMN     "absentPolicy" TEXT NOT NULL DEFAULT 'skip',
+ADD COLUMN     "absentRollToGroup" TEXT;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "DistributionSplit" (
+    "id" TEXT NOT NULL,
+    "tipoutType" TEXT NOT NULL,
+    "group" TEXT NOT NULL,
+    "percentage" DECIMAL(65,30) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DistributionSplit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DistributionSplit_tipoutType_group_key" ON "DistributionSplit"("tipoutType", "group");
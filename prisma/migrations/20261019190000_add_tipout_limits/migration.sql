@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "RoleConfig" ADD COLUMN     "capBasis" TEXT,
+ADD COLUMN     "capPercentage" DECIMAL(65,30),
+ADD COLUMN     "distributionMinimumHourly" DECIMAL(65,30),
+ADD COLUMN     "floorBasis" TEXT,
+ADD COLUMN     "floorPercentage" DECIMAL(65,30);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "RoleConfig" ADD COLUMN     "sourceBucket" TEXT NOT NULL DEFAULT 'credit';
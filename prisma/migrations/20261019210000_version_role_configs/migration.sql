@@ -0,0 +1,11 @@
+-- DropIndex
+DROP INDEX "RoleConfig_roleId_tipoutType_effectiveFrom_key";
+
+-- AlterTable
+ALTER TABLE "RoleConfig" ADD COLUMN     "changeReason" TEXT,
+ADD COLUMN     "changedBy" TEXT,
+ADD COLUMN     "previousVersionId" TEXT,
+ADD COLUMN     "supersededAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "RoleConfig_roleId_tipoutType_effectiveFrom_idx" ON "RoleConfig"("roleId", "tipoutType", "effectiveFrom");
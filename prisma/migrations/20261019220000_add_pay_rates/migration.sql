@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "PayRate" (
+    "id" TEXT NOT NULL,
+    "roleId" TEXT NOT NULL,
+    "employeeId" TEXT,
+    "rate" DECIMAL(65,30) NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "effectiveTo" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PayRate_roleId_employeeId_idx" ON "PayRate"("roleId", "employeeId");
+
+-- CreateIndex
+CREATE INDEX "PayRate_employeeId_idx" ON "PayRate"("employeeId");
+
+-- AddForeignKey
+ALTER TABLE "PayRate" ADD CONSTRAINT "PayRate_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "Role"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayRate" ADD CONSTRAINT "PayRate_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Each role's current rate applies to every shift worked so far
+INSERT INTO "PayRate" ("id", "roleId", "rate", "effectiveFrom", "updatedAt")
+SELECT gen_random_uuid()::text, "id", "basePayRate", '1970-01-01 00:00:00', CURRENT_TIMESTAMP FROM "Role";
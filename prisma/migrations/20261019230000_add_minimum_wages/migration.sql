@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "MinimumWage" (
+    "id" TEXT NOT NULL,
+    "minimumWage" DECIMAL(65,30) NOT NULL,
+    "tippedWage" DECIMAL(65,30) NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "effectiveTo" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MinimumWage_pkey" PRIMARY KEY ("id")
+);
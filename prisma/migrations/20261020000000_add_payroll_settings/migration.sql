@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "PayrollSettings" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "workweekStartDay" INTEGER NOT NULL DEFAULT 1,
+    "overtimeThresholdHours" DECIMAL(65,30) NOT NULL DEFAULT 40,
+    "overtimeMultiplier" DECIMAL(65,30) NOT NULL DEFAULT 1.5,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollSettings_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "PayrollSettings" ADD COLUMN "payPeriodFrequency" TEXT NOT NULL DEFAULT 'biweekly',
+ADD COLUMN "payPeriodAnchorDate" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "PayPeriod" (
+    "id" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "closedAt" TIMESTAMP(3),
+    "closedBy" TEXT,
+    "exportedAt" TIMESTAMP(3),
+    "exportedBy" TEXT,
+    "reopenedAt" TIMESTAMP(3),
+    "reopenedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayPeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayPeriod_startDate_key" ON "PayPeriod"("startDate");
+
+-- CreateIndex
+CREATE INDEX "PayPeriod_status_idx" ON "PayPeriod"("status");
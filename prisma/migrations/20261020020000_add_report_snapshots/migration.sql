@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ReportSnapshot" (
+    "id" TEXT NOT NULL,
+    "startDate" TEXT NOT NULL,
+    "endDate" TEXT NOT NULL,
+    "configuredOn" TEXT,
+    "note" TEXT,
+    "summary" JSONB,
+    "employeeSummaries" JSONB NOT NULL,
+    "shortfalls" JSONB NOT NULL,
+    "overtime" JSONB NOT NULL,
+    "inputs" JSONB NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReportSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReportSnapshot_startDate_endDate_idx" ON "ReportSnapshot"("startDate", "endDate");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Employee" ADD COLUMN "payrollId" TEXT;
+
+-- CreateTable
+CREATE TABLE "EarningCode" (
+    "format" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EarningCode_pkey" PRIMARY KEY ("format","kind")
+);
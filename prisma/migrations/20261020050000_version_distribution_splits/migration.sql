@@ -0,0 +1,13 @@
+-- DropIndex
+DROP INDEX "DistributionSplit_tipoutType_group_key";
+
+-- AlterTable
+ALTER TABLE "DistributionSplit" ADD COLUMN     "effectiveFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "effectiveTo" TIMESTAMP(3),
+ADD COLUMN     "supersededAt" TIMESTAMP(3);
+
+-- Splits saved so far apply to every shift worked so far
+UPDATE "DistributionSplit" SET "effectiveFrom" = '1970-01-01 00:00:00';
+
+-- CreateIndex
+CREATE INDEX "DistributionSplit_tipoutType_effectiveFrom_idx" ON "DistributionSplit"("tipoutType", "effectiveFrom");
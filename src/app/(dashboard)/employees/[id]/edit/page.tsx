@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import LoadingSpinner from '@/components/LoadingSpinner'
+import PayRateHistory from '@/components/PayRateHistory'
 import { use } from 'react'
 import { XCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
 
@@ -16,6 +17,8 @@ type Employee = {
   name: string
   active: boolean
   defaultRoleId: string | null
+  payrollId: string | null
+  clerkUserId: string | null
 }
 
 export default function EditEmployeePage({ params }: { params: Promise<{ id: string }> }) {
@@ -64,7 +67,9 @@ export default function EditEmployeePage({ params }: { params: Promise<{ id: str
       id: employee.id,
       name: field === 'name' ? value as string : employee.name,
       active: field === 'active' ? value as boolean : employee.active,
-      defaultRoleId: field === 'defaultRoleId' ? value as string | null : employee.defaultRoleId
+      defaultRoleId: field === 'defaultRoleId' ? value as string | null : employee.defaultRoleId,
+      payrollId: field === 'payrollId' ? value as string | null : employee.payrollId,
+      clerkUserId: field === 'clerkUserId' ? value as string | null : employee.clerkUserId
     })
   }
 
@@ -83,17 +88,20 @@ export default function EditEmployeePage({ params }: { params: Promise<{ id: str
           name: employee.name,
           active: employee.active,
           defaultRoleId: employee.defaultRoleId,
+          payrollId: employee.payrollId ?? '',
+          clerkUserId: employee.clerkUserId ?? '',
         }),
       })
 
       if (!response.ok) {
-        throw new Error('Failed to update employee')
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to update employee')
       }
 
       router.push('/employees')
       router.refresh()
     } catch (err) {
-      setError('Failed to update employee')
+      setError(err instanceof Error ? err.message : 'Failed to update employee')
       console.error('Error updating employee:', err)
     } finally {
       setIsSubmitting(false)
@@ -200,6 +208,46 @@ export default function EditEmployeePage({ params }: { params: Promise<{ id: str
                     </select>
                   </div>
                 </div>
+
+                <div className="sm:col-span-3">
+                  <label htmlFor="payrollId" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Payroll ID
+                  </label>
+                  <div className="mt-1">
+                    <input
+                      type="text"
+                      name="payrollId"
+                      id="payrollId"
+                      value={employee.payrollId || ''}
+                      onChange={(e) => handleInputChange('payrollId', e.target.value || null)}
+                      className="block w-full rounded-md border-gray-300 shadow-sm px-3 py-2 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                      placeholder="e.g. ADP file number"
+                    />
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Their ID in your payroll provider. Gusto and ADP exports need one for every employee.
+                  </p>
+                </div>
+
+                <div className="sm:col-span-3">
+                  <label htmlFor="clerkUserId" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Sign-in User ID
+                  </label>
+                  <div className="mt-1">
+                    <input
+                      type="text"
+                      name="clerkUserId"
+                      id="clerkUserId"
+                      value={employee.clerkUserId || ''}
+                      onChange={(e) => handleInputChange('clerkUserId', e.target.value || null)}
+                      className="block w-full rounded-md border-gray-300 shadow-sm px-3 py-2 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                      placeholder="e.g. user_2abc..."
+                    />
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    The user ID shown on the admin page. Signed in as that user with the staff role, they see only their own shifts and tips.
+                  </p>
+                </div>
               </div>
             </div>
             <div className="px-4 py-3 bg-gray-50 dark:bg-gray-800 text-right sm:px-6">
@@ -214,6 +262,20 @@ export default function EditEmployeePage({ params }: { params: Promise<{ id: str
           </div>
         </form>
       )}
+
+      {employee && (
+        <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Pay Rate Overrides</h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Pay this employee a different base rate than their role&apos;s, e.g. a senior bartender. Shifts outside an override are paid the role rate.
+            </p>
+            <div className="mt-4">
+              <PayRateHistory endpoint={`/api/employees/${employee.id}/pay-rates`} roles={roles} />
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,294 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import Link from 'next/link'
+import { PlusIcon } from '@heroicons/react/24/outline'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import { AdminOnly } from '@/components/RoleBasedUI'
+import { MinimumWageRate } from '@/types/reports'
+
+const EMPTY_MINIMUM_WAGE = { minimumWage: '', tippedWage: '', effectiveFrom: '', effectiveTo: '' }
+
+const formatDate = (date: string) => format(new Date(date), 'MMM d, yyyy').toLowerCase()
+
+const inputClassName = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white'
+
+export default function MinimumWagesPage() {
+  const [minimumWages, setMinimumWages] = useState<MinimumWageRate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isAddingWage, setIsAddingWage] = useState(false)
+  const [newWage, setNewWage] = useState(EMPTY_MINIMUM_WAGE)
+
+  useEffect(() => {
+    fetchMinimumWages()
+  }, [])
+
+  const fetchMinimumWages = async () => {
+    try {
+      const response = await fetch('/api/minimum-wages')
+      if (!response.ok) {
+        throw new Error('Failed to fetch minimum wages')
+      }
+      const data = await response.json()
+      setMinimumWages(data)
+    } catch (err) {
+      setError('Failed to load minimum wages')
+      console.error('Error loading minimum wages:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleAddWage = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newWage.minimumWage || !newWage.tippedWage) return
+
+    try {
+      const response = await fetch('/api/minimum-wages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          minimumWage: Number(newWage.minimumWage),
+          tippedWage: Number(newWage.tippedWage),
+          effectiveFrom: newWage.effectiveFrom || undefined,
+          effectiveTo: newWage.effectiveTo || undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to add minimum wage')
+      }
+
+      // Scheduling can end, split or replace other rates, so reload them all
+      await fetchMinimumWages()
+      setNewWage(EMPTY_MINIMUM_WAGE)
+      setIsAddingWage(false)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add minimum wage')
+      console.error('Error adding minimum wage:', err)
+    }
+  }
+
+  const handleDeleteWage = async (minimumWage: MinimumWageRate) => {
+    if (!confirm(`Are you sure you want to delete the rates from ${formatDate(minimumWage.effectiveFrom)}?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/minimum-wages?id=${minimumWage.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to delete minimum wage')
+      }
+
+      setMinimumWages(minimumWages.filter(wage => wage.id !== minimumWage.id))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete minimum wage')
+      console.error('Error deleting minimum wage:', err)
+    }
+  }
+
+  if (isLoading) {
+    return <LoadingSpinner />
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-[var(--foreground)]">minimum wages</h1>
+          <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+            the hourly wages every employee must earn. each <Link href="/payroll-settings" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">workweek</Link>,
+            base pay plus tips must reach the minimum wage and base pay alone the tipped wage; reports flag any shortfall
+            and add the make-up to the payroll total.
+          </p>
+        </div>
+        <AdminOnly>
+          <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none">
+            <button
+              type="button"
+              onClick={() => setIsAddingWage(true)}
+              className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+            >
+              <PlusIcon className="h-5 w-5 inline-block mr-1" />
+              schedule rates
+            </button>
+          </div>
+        </AdminOnly>
+      </div>
+
+      {error && (
+        <div className="mt-8 rounded-md bg-red-50 dark:bg-red-900/50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800 dark:text-red-200">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isAddingWage && (
+        <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700 transition-all hover:shadow-md">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-base font-medium text-[var(--foreground)] mb-4">schedule new rates</h3>
+            <form onSubmit={handleAddWage} className="space-y-4">
+              <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-4">
+                <div>
+                  <label htmlFor="minimumWage" className="block text-sm font-medium text-[var(--foreground)]">
+                    minimum wage ($/hr) <span className="text-red-500">*</span>
+                  </label>
+                  <div className="mt-2">
+                    <input
+                      type="number"
+                      name="minimumWage"
+                      id="minimumWage"
+                      value={newWage.minimumWage}
+                      onChange={(e) => setNewWage({ ...newWage, minimumWage: e.target.value })}
+                      className={inputClassName}
+                      min="0"
+                      step="0.01"
+                      required
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label htmlFor="tippedWage" className="block text-sm font-medium text-[var(--foreground)]">
+                    tipped wage ($/hr) <span className="text-red-500">*</span>
+                  </label>
+                  <div className="mt-2">
+                    <input
+                      type="number"
+                      name="tippedWage"
+                      id="tippedWage"
+                      value={newWage.tippedWage}
+                      onChange={(e) => setNewWage({ ...newWage, tippedWage: e.target.value })}
+                      className={inputClassName}
+                      min="0"
+                      step="0.01"
+                      required
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label htmlFor="effectiveFrom" className="block text-sm font-medium text-[var(--foreground)]">
+                    effective from
+                  </label>
+                  <div className="mt-2">
+                    <input
+                      type="date"
+                      name="effectiveFrom"
+                      id="effectiveFrom"
+                      title="today if left empty"
+                      value={newWage.effectiveFrom}
+                      onChange={(e) => setNewWage({ ...newWage, effectiveFrom: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label htmlFor="effectiveTo" className="block text-sm font-medium text-[var(--foreground)]">
+                    effective to
+                  </label>
+                  <div className="mt-2">
+                    <input
+                      type="date"
+                      name="effectiveTo"
+                      id="effectiveTo"
+                      title="until the next rates if left empty"
+                      value={newWage.effectiveTo}
+                      onChange={(e) => setNewWage({ ...newWage, effectiveTo: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsAddingWage(false)
+                    setNewWage(EMPTY_MINIMUM_WAGE)
+                  }}
+                  className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-white dark:ring-gray-700 dark:hover:bg-gray-700"
+                >
+                  cancel
+                </button>
+                <button
+                  type="submit"
+                  className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+                >
+                  schedule
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-300 dark:divide-gray-700">
+            <thead className="bg-gray-50/75 dark:bg-gray-800/75">
+              <tr>
+                <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 dark:text-white sm:pl-6">
+                  effective
+                </th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                  minimum wage
+                </th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                  tipped wage
+                </th>
+                <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6">
+                  <span className="sr-only">actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {minimumWages.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="py-4 pl-4 pr-3 text-sm text-gray-500 dark:text-gray-400 sm:pl-6">
+                    no minimum wages yet. without them, reports do not check for shortfalls.
+                  </td>
+                </tr>
+              )}
+              {minimumWages.map((minimumWage) => (
+                <tr key={minimumWage.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                  <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-[var(--foreground)] sm:pl-6">
+                    {formatDate(minimumWage.effectiveFrom)} to {minimumWage.effectiveTo ? formatDate(minimumWage.effectiveTo) : 'now'}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
+                    ${minimumWage.minimumWage.toFixed(2)}/hr
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
+                    ${minimumWage.tippedWage.toFixed(2)}/hr
+                  </td>
+                  <AdminOnly>
+                  <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
+                    <button
+                      onClick={() => handleDeleteWage(minimumWage)}
+                      className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
+                    >
+                      delete
+                    </button>
+                  </td>
+                  </AdminOnly>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { format, subDays } from 'date-fns'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import TipStatementView from '@/components/TipStatementView'
+import { totalTipStatementByDay } from '@/utils/tipStatements'
+import { Employee, PayPeriod, TipStatement, TipoutTypeDefinition } from '@/types/reports'
+
+type StatementData = {
+  statements: TipStatement[]
+  tipoutTypes: TipoutTypeDefinition[]
+}
+
+// Pay period and shift dates are plain days, so read them without shifting into local time
+const formatDay = (date: string) => format(new Date(date.slice(0, 10) + 'T12:00:00'), 'MMM d, yyyy').toLowerCase()
+const formatWeekday = (date: string) => format(new Date(date + 'T12:00:00'), 'EEE MMM d').toLowerCase()
+const formatMoney = (amount: number) => `$${amount.toFixed(2)}`
+const sumAmounts = (amounts: Record<string, number>) => Object.values(amounts).reduce((acc, amount) => acc + amount, 0)
+
+const inputClassName = 'block w-full rounded-md border-gray-300 shadow-sm px-3 py-2 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white'
+const headerClassName = 'px-3 py-3.5 text-right text-sm font-semibold text-gray-900 dark:text-white'
+const cellClassName = 'whitespace-nowrap px-3 py-3 text-right text-sm text-gray-700 dark:text-gray-300'
+
+// Staff view: the signed-in employee's own shifts and tips for a pay period, or for a date range until pay periods
+// are set up. The API only ever returns their own.
+export default function MyTipsPage() {
+  const [employee, setEmployee] = useState<Employee | null>(null)
+  const [payPeriods, setPayPeriods] = useState<PayPeriod[]>([])
+  const [payPeriodId, setPayPeriodId] = useState('')
+  // Used while there are no pay periods: the last two weeks to start with
+  const [dates, setDates] = useState(() => ({
+    startDate: format(subDays(new Date(), 13), 'yyyy-MM-dd'),
+    endDate: format(new Date(), 'yyyy-MM-dd'),
+  }))
+  const [data, setData] = useState<StatementData | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isStatementLoading, setIsStatementLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [employeesResponse, payPeriodsResponse] = await Promise.all([fetch('/api/employees'), fetch('/api/pay-periods')])
+        if (!employeesResponse.ok || !payPeriodsResponse.ok) {
+          throw new Error('Failed to fetch your pay periods')
+        }
+        // Staff get back only the employee linked to them, or none
+        const [self] = await employeesResponse.json()
+        const periods: PayPeriod[] = await payPeriodsResponse.json()
+        setEmployee(self ?? null)
+        setPayPeriods(periods)
+        // The period covering today, else the latest
+        const today = format(new Date(), 'yyyy-MM-dd')
+        const current = periods.find(period => period.startDate.slice(0, 10) <= today && today <= period.endDate.slice(0, 10)) ?? periods[0]
+        if (current) setPayPeriodId(current.id)
+      } catch (err) {
+        setError('Failed to load your pay periods')
+        console.error('Error loading pay periods:', err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [])
+
+  const fetchStatement = useCallback(async (params: Record<string, string>) => {
+    setIsStatementLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/reports/statements?${new URLSearchParams(params)}`)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || 'Failed to fetch your tips')
+      }
+      setData(await response.json())
+    } catch (err) {
+      console.error('Error loading tips:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load your tips')
+      setData(null)
+    } finally {
+      setIsStatementLoading(false)
+    }
+  }, [])
+
+  const hasPayPeriods = payPeriods.length > 0
+  useEffect(() => {
+    if (!employee) return
+    if (payPeriodId) fetchStatement({ payPeriodId })
+    else if (!hasPayPeriods) fetchStatement(dates)
+  }, [employee, payPeriodId, hasPayPeriods, dates, fetchStatement])
+
+  if (isLoading) {
+    return <LoadingSpinner />
+  }
+
+  const statement = data?.statements[0]
+  const typeName = (key: string) => (data?.tipoutTypes.find(type => type.key === key)?.name ?? key).toLowerCase()
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto print:px-0">
+      <div className="sm:flex sm:items-end print:hidden">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-[var(--foreground)]">my tips</h1>
+          <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+            {employee
+              ? `${employee.name.toLowerCase()}'s shifts, tips and payroll tips for a ${hasPayPeriods ? 'pay period' : 'date range'}.`
+              : 'your sign-in is not linked to an employee yet. ask a manager to link it from your employee page.'}
+          </p>
+        </div>
+        {employee && hasPayPeriods && (
+          <div className="mt-4 sm:ml-16 sm:mt-0 sm:w-72">
+            <label htmlFor="payPeriod" className="block text-sm font-medium text-[var(--foreground)]">pay period</label>
+            <select
+              id="payPeriod"
+              value={payPeriodId}
+              onChange={(e) => setPayPeriodId(e.target.value)}
+              className={`mt-2 ${inputClassName}`}
+            >
+              {payPeriods.map(period => (
+                <option key={period.id} value={period.id}>{formatDay(period.startDate)} to {formatDay(period.endDate)}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        {employee && !hasPayPeriods && (
+          <div className="mt-4 grid grid-cols-2 gap-4 sm:ml-16 sm:mt-0 sm:w-96">
+            <div>
+              <label htmlFor="startDate" className="block text-sm font-medium text-[var(--foreground)]">start date</label>
+              <input
+                type="date"
+                id="startDate"
+                value={dates.startDate}
+                onChange={(e) => e.target.value && setDates({ ...dates, startDate: e.target.value })}
+                className={`mt-2 ${inputClassName}`}
+              />
+            </div>
+            <div>
+              <label htmlFor="endDate" className="block text-sm font-medium text-[var(--foreground)]">end date</label>
+              <input
+                type="date"
+                id="endDate"
+                value={dates.endDate}
+                min={dates.startDate}
+                onChange={(e) => e.target.value && setDates({ ...dates, endDate: e.target.value })}
+                className={`mt-2 ${inputClassName}`}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-8 rounded-md bg-red-50 dark:bg-red-900/50 p-4 print:hidden">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800 dark:text-red-200">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isStatementLoading ? (
+        <div className="mt-8 flex justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : employee && data && !statement ? (
+        <p className="mt-8 text-sm text-gray-500 dark:text-gray-400">no shifts in this {hasPayPeriods ? 'pay period' : 'date range'}.</p>
+      ) : statement && (
+        <>
+          <dl className="mt-8 grid grid-cols-2 gap-4 sm:grid-cols-5 print:hidden">
+            {[
+              ['shifts', String(statement.totals.shifts)],
+              ['hours', statement.totals.hours.toFixed(2)],
+              ['cash kept', formatMoney(statement.totals.cashTips)],
+              ['payroll tips', formatMoney(statement.totals.payrollTips)],
+              ['tips per hour', statement.totals.hours > 0 ? formatMoney((statement.totals.cashTips + statement.totals.payrollTips) / statement.totals.hours) : '-'],
+            ].map(([label, value]) => (
+              <div key={label} className="bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700 px-4 py-5">
+                <dt className="text-sm text-gray-500 dark:text-gray-400">{label}</dt>
+                <dd className="mt-1 text-2xl font-semibold text-[var(--foreground)]">{value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700 print:hidden">
+            <h3 className="px-4 pt-5 text-base font-medium text-[var(--foreground)] sm:px-6">Daily tips</h3>
+            <div className="mt-2 overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-300 dark:divide-gray-700">
+                <thead className="bg-gray-50/75 dark:bg-gray-800/75">
+                  <tr>
+                    <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 dark:text-white sm:pl-6">day</th>
+                    <th scope="col" className={headerClassName}>hours</th>
+                    <th scope="col" className={headerClassName}>tips collected</th>
+                    <th scope="col" className={headerClassName}>tipouts paid</th>
+                    <th scope="col" className={headerClassName}>tipouts received</th>
+                    <th scope="col" className={headerClassName}>cash kept</th>
+                    <th scope="col" className={`${headerClassName} pr-4 sm:pr-6`}>payroll tips</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {totalTipStatementByDay(statement).map(({ date, totals }) => (
+                    <tr key={date}>
+                      <td className="whitespace-nowrap py-3 pl-4 pr-3 text-sm font-medium text-[var(--foreground)] sm:pl-6">{formatWeekday(date)}</td>
+                      <td className={cellClassName}>{totals.hours.toFixed(2)}</td>
+                      <td className={cellClassName}>{formatMoney(totals.grossCashTips + totals.grossCreditTips)}</td>
+                      <td className={cellClassName}>{formatMoney(sumAmounts(totals.tipoutsPaid))}</td>
+                      <td className={cellClassName}>{formatMoney(sumAmounts(totals.tipoutsReceived))}</td>
+                      <td className={cellClassName}>{formatMoney(totals.cashTips)}</td>
+                      <td className={`${cellClassName} pr-4 font-medium sm:pr-6`}>{formatMoney(totals.payrollTips)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <TipStatementView statement={statement} typeName={typeName} />
+          <div className="mt-4 flex justify-end print:hidden">
+            <button
+              type="button"
+              onClick={() => window.print()}
+              className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-white dark:ring-gray-700 dark:hover:bg-gray-700"
+            >
+              print statement
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,289 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { PlusIcon } from '@heroicons/react/24/outline'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import { AdminOnly } from '@/components/RoleBasedUI'
+import { PayPeriod, PayPeriodStatus } from '@/types/reports'
+import { PAY_PERIOD_FREQUENCIES, PayPeriodAction } from '@/utils/payPeriods'
+
+const STATUS_CLASSES: Record<PayPeriodStatus, string> = {
+  open: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200',
+  closed: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-200',
+  exported: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200',
+}
+
+// Pay period dates are stored in UTC, so read their day without shifting it into local time
+const formatDay = (date: string) => format(new Date(date.slice(0, 10) + 'T12:00:00'), 'MMM d, yyyy').toLowerCase()
+const formatMoment = (date: string) => format(new Date(date), 'MMM d, yyyy h:mm a').toLowerCase()
+
+// Who moved the period into its current status, and when
+const describeStatus = (payPeriod: PayPeriod) => {
+  const [at, by] = payPeriod.status === 'exported'
+    ? [payPeriod.exportedAt, payPeriod.exportedBy]
+    : payPeriod.status === 'closed'
+      ? [payPeriod.closedAt, payPeriod.closedBy]
+      : [payPeriod.reopenedAt, payPeriod.reopenedBy]
+  if (!at) return null
+  return `${payPeriod.status === 'open' ? 'reopened' : payPeriod.status} ${formatMoment(at)}${by ? ` by ${by}` : ''}`
+}
+
+export default function PayPeriodsPage() {
+  const [payPeriods, setPayPeriods] = useState<PayPeriod[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isOpeningPeriod, setIsOpeningPeriod] = useState(false)
+  const [openDate, setOpenDate] = useState('')
+
+  useEffect(() => {
+    fetchPayPeriods()
+  }, [])
+
+  const fetchPayPeriods = async () => {
+    try {
+      const response = await fetch('/api/pay-periods')
+      if (!response.ok) {
+        throw new Error('Failed to fetch pay periods')
+      }
+      const data = await response.json()
+      setPayPeriods(data)
+    } catch (err) {
+      setError('Failed to load pay periods')
+      console.error('Error loading pay periods:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleOpenPeriod = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const response = await fetch('/api/pay-periods', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ date: openDate || undefined }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to open pay period')
+      }
+
+      const created = await response.json()
+      setPayPeriods([...payPeriods, created].sort((a, b) => b.startDate.localeCompare(a.startDate)))
+      setOpenDate('')
+      setIsOpeningPeriod(false)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open pay period')
+      console.error('Error opening pay period:', err)
+    }
+  }
+
+  const handleAction = async (payPeriod: PayPeriod, action: PayPeriodAction) => {
+    if (action === 'reopen' && !confirm(`Reopen the pay period starting ${formatDay(payPeriod.startDate)}? Its shifts and role configs can be changed again.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/pay-periods/${payPeriod.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to update pay period')
+      }
+
+      const updated = await response.json()
+      setPayPeriods(payPeriods.map(period => period.id === updated.id ? updated : period))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update pay period')
+      console.error('Error updating pay period:', err)
+    }
+  }
+
+  if (isLoading) {
+    return <LoadingSpinner />
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-[var(--foreground)]">pay periods</h1>
+          <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+            close a pay period once payroll is run on it, and mark it exported once it is sent to payroll. while a period is
+            closed or exported, its shifts and the role configs in effect during it cannot be changed; an admin can reopen it.
+          </p>
+          <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+            how long new periods are is set on the <Link href="/payroll-settings" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">payroll settings</Link> page.
+          </p>
+        </div>
+        <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none">
+          <button
+            type="button"
+            onClick={() => setIsOpeningPeriod(true)}
+            className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+          >
+            <PlusIcon className="h-5 w-5 inline-block mr-1" />
+            open pay period
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-8 rounded-md bg-red-50 dark:bg-red-900/50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800 dark:text-red-200">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isOpeningPeriod && (
+        <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700 transition-all hover:shadow-md">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-base font-medium text-[var(--foreground)] mb-4">open pay period</h3>
+            <form onSubmit={handleOpenPeriod} className="space-y-4">
+              <div className="sm:w-1/3">
+                <label htmlFor="openDate" className="block text-sm font-medium text-[var(--foreground)]">
+                  any day in the period
+                </label>
+                <div className="mt-2">
+                  <input
+                    type="date"
+                    name="openDate"
+                    id="openDate"
+                    title="today if left empty"
+                    value={openDate}
+                    onChange={(e) => setOpenDate(e.target.value)}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsOpeningPeriod(false)
+                    setOpenDate('')
+                  }}
+                  className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-white dark:ring-gray-700 dark:hover:bg-gray-700"
+                >
+                  cancel
+                </button>
+                <button
+                  type="submit"
+                  className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+                >
+                  open
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-300 dark:divide-gray-700">
+            <thead className="bg-gray-50/75 dark:bg-gray-800/75">
+              <tr>
+                <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 dark:text-white sm:pl-6">
+                  dates
+                </th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                  frequency
+                </th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                  status
+                </th>
+                <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6">
+                  <span className="sr-only">actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {payPeriods.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="py-4 pl-4 pr-3 text-sm text-gray-500 dark:text-gray-400 sm:pl-6">
+                    no pay periods yet. until one is closed, every shift can be changed.
+                  </td>
+                </tr>
+              )}
+              {payPeriods.map((payPeriod) => (
+                <tr key={payPeriod.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                  <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-[var(--foreground)] sm:pl-6">
+                    <Link
+                      href={`/reports?startDate=${payPeriod.startDate.slice(0, 10)}&endDate=${payPeriod.endDate.slice(0, 10)}`}
+                      className="hover:text-indigo-600 dark:hover:text-indigo-400"
+                    >
+                      {formatDay(payPeriod.startDate)} to {formatDay(payPeriod.endDate)}
+                    </Link>
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
+                    {PAY_PERIOD_FREQUENCIES.find(frequency => frequency.value === payPeriod.frequency)?.label ?? payPeriod.frequency}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm">
+                    <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${STATUS_CLASSES[payPeriod.status]}`}>
+                      {payPeriod.status}
+                    </span>
+                    {describeStatus(payPeriod) && (
+                      <span className="block text-xs text-gray-400 dark:text-gray-500">{describeStatus(payPeriod)}</span>
+                    )}
+                  </td>
+                  <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
+                    <Link
+                      href={`/reports/statements?startDate=${payPeriod.startDate.slice(0, 10)}&endDate=${payPeriod.endDate.slice(0, 10)}`}
+                      className="mr-4 text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300"
+                    >
+                      statements
+                    </Link>
+                    {payPeriod.status === 'open' && (
+                      <button
+                        onClick={() => handleAction(payPeriod, 'close')}
+                        className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300"
+                      >
+                        close
+                      </button>
+                    )}
+                    {payPeriod.status === 'closed' && (
+                      <button
+                        onClick={() => handleAction(payPeriod, 'export')}
+                        className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300"
+                      >
+                        mark exported
+                      </button>
+                    )}
+                    {payPeriod.status !== 'open' && (
+                      <AdminOnly>
+                        <button
+                          onClick={() => handleAction(payPeriod, 'reopen')}
+                          className="ml-4 text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
+                        >
+                          reopen
+                        </button>
+                      </AdminOnly>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,238 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import { AdminOnly } from '@/components/RoleBasedUI'
+import EarningCodesForm from '@/components/EarningCodesForm'
+import { WEEKDAYS } from '@/utils/workweek'
+import { PAY_PERIOD_FREQUENCIES } from '@/utils/payPeriods'
+
+const inputClassName = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white'
+
+export default function PayrollSettingsPage() {
+  const [settings, setSettings] = useState({ workweekStartDay: '1', overtimeThresholdHours: '', overtimeMultiplier: '', payPeriodFrequency: 'biweekly', payPeriodAnchorDate: '' })
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    fetchSettings()
+  }, [])
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/payroll-settings')
+      if (!response.ok) {
+        throw new Error('Failed to fetch payroll settings')
+      }
+      const data = await response.json()
+      setSettings({
+        workweekStartDay: String(data.workweekStartDay),
+        overtimeThresholdHours: String(data.overtimeThresholdHours),
+        overtimeMultiplier: String(data.overtimeMultiplier),
+        payPeriodFrequency: data.payPeriodFrequency,
+        payPeriodAnchorDate: data.payPeriodAnchorDate,
+      })
+    } catch (err) {
+      setError('Failed to load payroll settings')
+      console.error('Error loading payroll settings:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setSaved(false)
+
+    try {
+      const response = await fetch('/api/payroll-settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          workweekStartDay: Number(settings.workweekStartDay),
+          overtimeThresholdHours: Number(settings.overtimeThresholdHours),
+          overtimeMultiplier: Number(settings.overtimeMultiplier),
+          payPeriodFrequency: settings.payPeriodFrequency,
+          payPeriodAnchorDate: settings.payPeriodAnchorDate || undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to save payroll settings')
+      }
+
+      setError(null)
+      setSaved(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save payroll settings')
+      console.error('Error saving payroll settings:', err)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return <LoadingSpinner />
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-[var(--foreground)]">payroll settings</h1>
+          <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+            the workweek overtime and <Link href="/minimum-wages" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">minimum wages</Link> are
+            worked out over. each employee&apos;s hours are combined across every role they worked that week; hours past the threshold
+            are paid the multiplier times their regular rate, blended across the roles and rates they were paid.
+          </p>
+          <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+            the pay period frequency sizes the <Link href="/pay-periods" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">pay periods</Link> opened
+            from now on; periods already opened keep their dates. while any pay period is closed or exported these rules can&apos;t be
+            changed, since its payroll was run by them.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-8 rounded-md bg-red-50 dark:bg-red-900/50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800 dark:text-red-200">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700">
+        <div className="px-4 py-5 sm:p-6">
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-3">
+              <div>
+                <label htmlFor="workweekStartDay" className="block text-sm font-medium text-[var(--foreground)]">
+                  workweek starts on
+                </label>
+                <div className="mt-2">
+                  <select
+                    name="workweekStartDay"
+                    id="workweekStartDay"
+                    value={settings.workweekStartDay}
+                    onChange={(e) => setSettings({ ...settings, workweekStartDay: e.target.value })}
+                    className={inputClassName}
+                  >
+                    {WEEKDAYS.map((day, index) => (
+                      <option key={day} value={index}>{day}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label htmlFor="overtimeThresholdHours" className="block text-sm font-medium text-[var(--foreground)]">
+                  overtime after (hours per week)
+                </label>
+                <div className="mt-2">
+                  <input
+                    type="number"
+                    name="overtimeThresholdHours"
+                    id="overtimeThresholdHours"
+                    value={settings.overtimeThresholdHours}
+                    onChange={(e) => setSettings({ ...settings, overtimeThresholdHours: e.target.value })}
+                    className={inputClassName}
+                    min="0"
+                    step="0.25"
+                    required
+                  />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="overtimeMultiplier" className="block text-sm font-medium text-[var(--foreground)]">
+                  overtime multiplier
+                </label>
+                <div className="mt-2">
+                  <input
+                    type="number"
+                    name="overtimeMultiplier"
+                    id="overtimeMultiplier"
+                    value={settings.overtimeMultiplier}
+                    onChange={(e) => setSettings({ ...settings, overtimeMultiplier: e.target.value })}
+                    className={inputClassName}
+                    min="1"
+                    step="0.05"
+                    required
+                  />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="payPeriodFrequency" className="block text-sm font-medium text-[var(--foreground)]">
+                  pay period frequency
+                </label>
+                <div className="mt-2">
+                  <select
+                    name="payPeriodFrequency"
+                    id="payPeriodFrequency"
+                    value={settings.payPeriodFrequency}
+                    onChange={(e) => setSettings({ ...settings, payPeriodFrequency: e.target.value })}
+                    className={inputClassName}
+                  >
+                    {PAY_PERIOD_FREQUENCIES.map(frequency => (
+                      <option key={frequency.value} value={frequency.value}>{frequency.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {settings.payPeriodFrequency !== 'semi_monthly' && (
+                <div>
+                  <label htmlFor="payPeriodAnchorDate" className="block text-sm font-medium text-[var(--foreground)]">
+                    a pay period starts on
+                  </label>
+                  <div className="mt-2">
+                    <input
+                      type="date"
+                      name="payPeriodAnchorDate"
+                      id="payPeriodAnchorDate"
+                      value={settings.payPeriodAnchorDate}
+                      onChange={(e) => setSettings({ ...settings, payPeriodAnchorDate: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    must fall on the workweek start day, so every pay period holds whole workweeks.
+                  </p>
+                </div>
+              )}
+            </div>
+            <AdminOnly>
+              <div className="flex items-center justify-end space-x-3">
+                {saved && <span className="text-sm text-green-600 dark:text-green-400">saved</span>}
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600 disabled:opacity-50"
+                >
+                  {isSaving ? 'saving...' : 'save'}
+                </button>
+              </div>
+            </AdminOnly>
+          </form>
+        </div>
+      </div>
+
+      <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-base font-medium text-[var(--foreground)]">earning codes</h3>
+          <p className="mt-1 mb-4 text-sm text-gray-500 dark:text-gray-400">
+            the codes (or columns, or payroll items) each payroll export puts base hours, overtime premium, minimum wage make-up
+            and tips under. match them to the ones set up in your payroll provider; employees are matched on their payroll id.
+          </p>
+          <EarningCodesForm />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,11 @@
 'use client'
 
 import { useState, useEffect, useCallback, Suspense } from 'react'
-import { format } from 'date-fns'
+import { format, parseISO } from 'date-fns'
 import Link from 'next/link'
 import { useSearchParams, useRouter, usePathname } from 'next/navigation'
 import LoadingSpinner from '@/components/LoadingSpinner'
+import CalculationTraceDrawer, { TraceTarget } from '@/components/CalculationTraceDrawer'
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -19,19 +20,50 @@ import {
   LineElement
 } from 'chart.js'
 import { Bar, Doughnut } from 'react-chartjs-2'
-import { ReportSummary, EmployeeRoleSummary, Employee } from '@/types/reports';
+import { ReportSummary, EmployeeRoleSummary, Employee, TipoutTypeDefinition, AbsentTipout, WeeklyShortfall, PayrollExportFormat, ReportExportFormat } from '@/types/reports';
+import { getPoolingWindowLabel } from '@/utils/tipoutCalculations';
+import { PAYROLL_EXPORT_ADAPTERS, PAYROLL_EXPORT_FORMATS } from '@/utils/payrollExport';
+import { groupSummariesByEmployee, summarizeTipPools } from '@/utils/reportGrouping';
+import { REPORT_EXPORT_FORMATS } from '@/utils/reportExport';
 
 // API Response structure
 type ReportData = {
     summary: ReportSummary | null;
     employeeSummaries: EmployeeRoleSummary[];
-    roleConfigs: Record<string, {
-        barTipout: number;
-        hostTipout: number;
-        sa: number;
-    }>;
+    // Percentage rates per role, keyed by tipout type
+    roleConfigs: Record<string, Record<string, number>>;
+    tipoutTypes: TipoutTypeDefinition[];
+    // Workweeks an employee fell short of the minimum wage; the make-up is already in payrollTotal
+    shortfalls?: WeeklyShortfall[];
 }
 
+// Where a tipout paid while no one receiving it worked ended up
+const describeAbsentTipout = (tipout: AbsentTipout) => {
+  switch (tipout.policy) {
+    case 'house':
+      return 'the house'
+    case 'roll_to_group':
+      return `rolled to ${tipout.group}`
+    case 'carry_forward':
+      return `carried to ${tipout.group} on ${format(parseISO(tipout.receivedDate!), 'MMM d').toLowerCase()}`
+  }
+}
+
+// What a cap (negative) or floor (positive) changed a paid tipout by
+const describeLimitAdjustment = (amount: number) =>
+  amount < 0 ? `capped -$${Math.abs(amount).toFixed(2)}` : `floored +$${amount.toFixed(2)}`
+
+// Chart colors cycled across the admin-defined tipout types
+const TIPOUT_TYPE_COLORS = [
+  { background: 'rgba(255, 99, 132, 0.7)', border: 'rgba(255, 99, 132, 1)' },   // Red
+  { background: 'rgba(255, 206, 86, 0.7)', border: 'rgba(255, 206, 86, 1)' },   // Yellow
+  { background: 'rgba(75, 192, 192, 0.7)', border: 'rgba(75, 192, 192, 1)' },   // Teal
+  { background: 'rgba(153, 102, 255, 0.7)', border: 'rgba(153, 102, 255, 1)' }, // Purple
+  { background: 'rgba(255, 159, 64, 0.7)', border: 'rgba(255, 159, 64, 1)' },   // Orange
+]
+
+const getTipoutTypeColor = (index: number) => TIPOUT_TYPE_COLORS[index % TIPOUT_TYPE_COLORS.length]
+
 // Register Chart.js components
 ChartJS.register(
   CategoryScale,
@@ -71,10 +103,17 @@ function ReportsContent() {
       startDate: start,
       endDate: end,
       employeeId: searchParams.get('employeeId') || '',
+      // Reruns the report with role configs as they were saved on this date; empty for the current ones
+      configuredOn: searchParams.get('configuredOn') || '',
     }
   });
   const [groupByEmployee, setGroupByEmployee] = useState(true)
   const [showPoolSummaries, setShowPoolSummaries] = useState(false)
+  // Employee/role whose payroll tips are being explained in the drill-down drawer
+  const [traceTarget, setTraceTarget] = useState<TraceTarget | null>(null)
+  const closeTrace = useCallback(() => setTraceTarget(null), [])
+  const [isFreezing, setIsFreezing] = useState(false)
+  const [exportFormat, setExportFormat] = useState<PayrollExportFormat>('csv')
 
   // Update filters when search params change (e.g., back/forward navigation)
   useEffect(() => {
@@ -84,6 +123,7 @@ function ReportsContent() {
       startDate: start,
       endDate: end,
       employeeId: searchParams.get('employeeId') || '',
+      configuredOn: searchParams.get('configuredOn') || '',
     })
   }, [searchParams])
 
@@ -99,6 +139,7 @@ function ReportsContent() {
             // We don't need to pass employeeId here, filtering happens client-side if needed
             // Or the API could handle it if preferred, but client-side is fine for display toggle
         });
+        if (currentFilters.configuredOn) queryParams.set('configuredOn', currentFilters.configuredOn);
 
         const response = await fetch(`/api/reports?${queryParams}`);
         if (!response.ok) {
@@ -122,6 +163,76 @@ function ReportsContent() {
     }
 }, []); // No dependencies, relies on passed-in filters
 
+  // Saves the report as it calculates now, with its inputs, so it can be compared with later recalculations
+  const handleFreezeReport = async () => {
+    setIsFreezing(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/reports/snapshots', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          startDate: filters.startDate,
+          endDate: isDateRange ? filters.endDate : filters.startDate,
+          configuredOn: filters.configuredOn || undefined,
+        }),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || 'Failed to freeze report')
+      }
+      const snapshot = await response.json()
+      router.push(`/reports/snapshots/${snapshot.id}`)
+    } catch (err) {
+      console.error('Error freezing report:', err)
+      setError(err instanceof Error ? err.message : 'Failed to freeze report')
+    } finally {
+      setIsFreezing(false)
+    }
+  }
+
+  // Downloads a file exported from the report's date range, showing the server's message when it cannot be made
+  const downloadExport = async (endpoint: string, params: Record<string, string>, fallbackName: string) => {
+    setError(null)
+    try {
+      const queryParams = new URLSearchParams({
+        startDate: filters.startDate,
+        endDate: isDateRange ? filters.endDate : filters.startDate,
+        ...params,
+      })
+      if (filters.configuredOn) queryParams.set('configuredOn', filters.configuredOn)
+
+      const response = await fetch(`${endpoint}?${queryParams}`)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || 'Failed to export')
+      }
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? fallbackName
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error('Error exporting:', err)
+      setError(err instanceof Error ? err.message : 'Failed to export')
+    }
+  }
+
+  // The report's totals as a payroll import file in the chosen format
+  const handleExportPayroll = () =>
+    downloadExport('/api/reports/payroll-export', { format: exportFormat }, `payroll-${exportFormat}.csv`)
+
+  // The report as shown: grouped or by role, and narrowed to the selected employee
+  const handleExportReport = (fileFormat: ReportExportFormat) =>
+    downloadExport('/api/reports/export', {
+      format: fileFormat,
+      groupByEmployee: String(groupByEmployee),
+      ...(filters.employeeId ? { employeeId: filters.employeeId } : {}),
+    }, `tip-report.${fileFormat}`)
+
   // Fetch employees for the filter dropdown (only once on mount)
   useEffect(() => {
     fetchEmployees();
@@ -136,6 +247,7 @@ function ReportsContent() {
     if (filters.startDate) params.set('startDate', filters.startDate)
     if (filters.endDate && (isDateRange || filters.startDate !== filters.endDate)) params.set('endDate', filters.endDate)
     if (filters.employeeId) params.set('employeeId', filters.employeeId)
+    if (filters.configuredOn) params.set('configuredOn', filters.configuredOn)
     const newUrl = `${pathname}${params.toString() ? `?${params.toString()}` : ''}`
     // Use replace instead of push to avoid polluting browser history on every filter change
     router.replace(newUrl, { scroll: false });
@@ -160,63 +272,6 @@ function ReportsContent() {
   // Removed calculateSummary and calculateEmployeeRoleSummaries functions
   // Calculations are now done on the server via the API route
 
-  // Helper: Group EmployeeRoleSummaries by employeeId (remains on client for display toggle)
-  function groupSummariesByEmployee(summaries: EmployeeRoleSummary[]): EmployeeRoleSummary[] {
-    const grouped = new Map<string, EmployeeRoleSummary[]>()
-    for (const summary of summaries) {
-      const key = summary.employeeId
-      if (!grouped.has(key)) grouped.set(key, [])
-      grouped.get(key)!.push(summary)
-    }
-    const result: EmployeeRoleSummary[] = []
-    for (const [employeeId, summariesForEmployee] of grouped.entries()) {
-      if (summariesForEmployee.length === 1) {
-        result.push(summariesForEmployee[0])
-      } else {
-        const agg = {
-          employeeId,
-          employeeName: summariesForEmployee[0].employeeName,
-          roleName: 'All Roles',
-          totalHours: 0,
-          totalCashTips: 0,
-          totalCreditTips: 0,
-          totalGrossCreditTips: 0,
-          totalBarTipout: 0,
-          totalHostTipout: 0,
-          totalSaTipout: 0,
-          cashTipsPerHour: 0,
-          creditTipsPerHour: 0,
-          totalTipsPerHour: 0,
-          basePayRate: 0,
-          totalPayrollTips: 0,
-          totalLiquorSales: 0,
-          payrollTotal: 0,
-        } as EmployeeRoleSummary
-        for (const summary of summariesForEmployee) {
-          agg.totalHours += summary.totalHours
-          agg.totalCashTips += summary.totalCashTips
-          agg.totalCreditTips += summary.totalCreditTips
-          agg.totalGrossCreditTips += summary.totalGrossCreditTips
-          agg.totalBarTipout += summary.totalBarTipout
-          agg.totalHostTipout += summary.totalHostTipout
-          agg.totalSaTipout += summary.totalSaTipout
-          agg.totalLiquorSales += summary.totalLiquorSales
-          agg.basePayRate += summary.basePayRate * summary.totalHours
-          agg.totalPayrollTips = (agg.totalPayrollTips || 0) + (summary.totalPayrollTips || 0)
-          agg.payrollTotal = (agg.payrollTotal || 0) + (summary.payrollTotal || 0)
-        }
-        agg.cashTipsPerHour = agg.totalHours > 0 ? agg.totalCashTips / agg.totalHours : 0;
-        agg.creditTipsPerHour = agg.totalHours > 0 ? (agg.totalPayrollTips ?? 0) / agg.totalHours : 0;
-        agg.totalTipsPerHour = agg.totalHours > 0
-          ? (agg.totalCashTips + (agg.totalPayrollTips ?? 0)) / agg.totalHours
-          : 0
-        agg.basePayRate = agg.totalHours > 0 ? agg.basePayRate / agg.totalHours : 0
-        result.push(agg)
-      }
-    }
-    return result
-  }
-
   // --- Chart Components --- 
   // Need to be updated to receive reportData or necessary parts of it as props
   // or access it via context if preferred.
@@ -225,32 +280,27 @@ function ReportsContent() {
   const TipoutBreakdownChart = ({ summary }: { summary: ReportSummary | null }) => {
       if (!summary) return <div className="text-center text-gray-500">No summary data</div>;
 
-      // Use summary.totalHostTipoutPaid, etc.
-      const serverTipsNet = summary.totalCashTips + summary.totalCreditTips -
-                            (summary.totalBarTipoutPaid + summary.totalHostTipoutPaid + summary.totalSaTipoutPaid);
+      // One slice per tipout type paid, plus what the servers keep
+      const tipoutTypes = reportData?.tipoutTypes || [];
+      const totalTipoutsPaid = Object.values(summary.totalTipoutsPaid).reduce((acc, amount) => acc + amount, 0);
+      const serverTipsNet = summary.totalCashTips + summary.totalCreditTips - totalTipoutsPaid;
 
       const data = {
-        labels: ['Net Server Tips', 'Bar Tipout Paid', 'Host Tipout Paid', 'SA Tipout Paid'],
+        labels: ['Net Server Tips', ...tipoutTypes.map(type => `${type.name} Tipout Paid`)],
         datasets: [
           {
             label: 'Tip Distribution',
             data: [
                 serverTipsNet > 0 ? serverTipsNet : 0, // Ensure non-negative
-                summary.totalBarTipoutPaid,
-                summary.totalHostTipoutPaid,
-                summary.totalSaTipoutPaid,
+                ...tipoutTypes.map(type => summary.totalTipoutsPaid[type.key] || 0),
             ],
             backgroundColor: [
               'rgba(54, 162, 235, 0.7)',  // Blue for server tips
-              'rgba(255, 99, 132, 0.7)',  // Red for bar tipout
-              'rgba(255, 206, 86, 0.7)',  // Yellow for host tipout
-              'rgba(75, 192, 192, 0.7)',   // Teal for SA tipout
+              ...tipoutTypes.map((_, index) => getTipoutTypeColor(index).background),
             ],
             borderColor: [
               'rgba(54, 162, 235, 1)',
-              'rgba(255, 99, 132, 1)',
-              'rgba(255, 206, 86, 1)',
-              'rgba(75, 192, 192, 1)',
+              ...tipoutTypes.map((_, index) => getTipoutTypeColor(index).border),
             ],
             borderWidth: 1,
           },
@@ -479,14 +529,10 @@ function ReportsContent() {
       // Use the net tipout amounts calculated daily
       // Negative net means more paid out than received for that type
       // Positive net means more received than paid out for that type
-      if (summary.totalBarTipout < 0) acc[summary.employeeName].paid += Math.abs(summary.totalBarTipout);
-      else if (summary.totalBarTipout > 0) acc[summary.employeeName].received += summary.totalBarTipout;
-
-      if (summary.totalHostTipout < 0) acc[summary.employeeName].paid += Math.abs(summary.totalHostTipout);
-      else if (summary.totalHostTipout > 0) acc[summary.employeeName].received += summary.totalHostTipout;
-
-      if (summary.totalSaTipout < 0) acc[summary.employeeName].paid += Math.abs(summary.totalSaTipout);
-      else if (summary.totalSaTipout > 0) acc[summary.employeeName].received += summary.totalSaTipout;
+      Object.values(summary.totalTipouts).forEach(amount => {
+        if (amount < 0) acc[summary.employeeName].paid += Math.abs(amount);
+        else if (amount > 0) acc[summary.employeeName].received += amount;
+      });
 
       return acc;
     }, {} as Record<string, { paid: number, received: number }>);
@@ -590,39 +636,25 @@ function ReportsContent() {
     // Get roleConfigs from reportData
     const roleConfigs = reportData?.roleConfigs || {};
     
+    const tipoutTypes = reportData?.tipoutTypes || [];
+    
     // Get the roles in a sorted array
     const roles = Object.keys(roleConfigs).sort();
 
     const data = {
       labels: roles,
-      datasets: [
-        {
-          label: 'Bar Tipout (% of Liquor Sales)',
-          data: roles.map(role => roleConfigs[role].barTipout),
-          backgroundColor: 'rgba(255, 99, 132, 0.7)',
-          borderColor: 'rgba(255, 99, 132, 1)',
-          borderWidth: 1,
-        },
-        {
-          label: 'Host Tipout (% of Tips)',
-          data: roles.map(role => roleConfigs[role].hostTipout),
-          backgroundColor: 'rgba(75, 192, 192, 0.7)',
-          borderColor: 'rgba(75, 192, 192, 1)',
-          borderWidth: 1,
-        },
-        {
-          label: 'SA Tipout (% of Tips)',
-          data: roles.map(role => roleConfigs[role].sa),
-          backgroundColor: 'rgba(153, 102, 255, 0.7)',
-          borderColor: 'rgba(153, 102, 255, 1)',
-          borderWidth: 1,
-        },
-      ],
+      datasets: tipoutTypes.map((type, index) => ({
+        label: type.description ? `${type.name} Tipout (${type.description})` : `${type.name} Tipout`,
+        data: roles.map(role => roleConfigs[role][type.key] || 0),
+        backgroundColor: getTipoutTypeColor(index).background,
+        borderColor: getTipoutTypeColor(index).border,
+        borderWidth: 1,
+      })),
     };
 
     // If no rates found, show a more informative message
     if (roles.length === 0 || !roles.some(role => 
-      roleConfigs[role].barTipout > 0 || roleConfigs[role].hostTipout > 0 || roleConfigs[role].sa > 0
+      tipoutTypes.some(type => (roleConfigs[role][type.key] || 0) > 0)
     )) {
       return (
         <div className="h-full flex items-center justify-center">
@@ -824,9 +856,10 @@ function ReportsContent() {
   const allEmployeeRoleSummaries = reportData?.employeeSummaries || [];
 
   // Filter the fetched summaries for display if an employee filter is active
-  let displayedEmployeeSummaries = filters.employeeId
+  const filteredEmployeeSummaries = filters.employeeId
     ? allEmployeeRoleSummaries.filter(s => s.employeeId === filters.employeeId)
     : allEmployeeRoleSummaries;
+  let displayedEmployeeSummaries = filteredEmployeeSummaries;
 
   // Grouping logic remains the same, operates on fetched summaries
   if (groupByEmployee) {
@@ -834,19 +867,17 @@ function ReportsContent() {
   }
   // Sorting logic remains the same
   displayedEmployeeSummaries = displayedEmployeeSummaries.slice().sort((a, b) => a.employeeName.localeCompare(b.employeeName))
-
-  // Option B: compute per-pool aggregates
-  const poolSummaries: [string, { totalHours: number; totalGrossCreditTips: number; totalNetCreditShare: number }][] = Object.entries(
-    displayedEmployeeSummaries.reduce((acc, s) => {
-      if (s.tipPoolGroup) {
-        if (!acc[s.tipPoolGroup]) acc[s.tipPoolGroup] = { totalHours: 0, totalGrossCreditTips: 0, totalNetCreditShare: 0 };
-        acc[s.tipPoolGroup].totalHours += s.totalHours;
-        acc[s.tipPoolGroup].totalGrossCreditTips += s.totalGrossCreditTips;
-        acc[s.tipPoolGroup].totalNetCreditShare += s.totalCreditTips;
-      }
-      return acc;
-    }, {} as Record<string, { totalHours: number; totalGrossCreditTips: number; totalNetCreditShare: number }>)
-  );
+  // The house top-up column is only shown when a distribution group's minimum guarantee was topped up
+  const hasHouseTopUps = displayedEmployeeSummaries.some(s => (s.totalHouseTopUp || 0) > 0)
+  // Likewise the make-up column, only when someone fell short of the minimum wage
+  const hasComplianceMakeUps = displayedEmployeeSummaries.some(s => (s.totalComplianceMakeUp || 0) > 0)
+  // And the overtime column, only when someone worked past the weekly threshold
+  const hasOvertime = displayedEmployeeSummaries.some(s => (s.totalOvertimePremium || 0) > 0)
+  const shortfalls = (reportData?.shortfalls || []).filter(s => !filters.employeeId || s.employeeId === filters.employeeId)
+  const limitAdjustments = Object.entries(reportData?.summary?.totalTipoutLimitAdjustments || {}).filter(([, amount]) => amount !== 0)
+
+  // Option B: compute per-pool aggregates, from the per-role rows so grouping by employee does not hide pools
+  const poolSummaries = summarizeTipPools(filteredEmployeeSummaries);
 
   return (
     <div className="px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
@@ -854,7 +885,7 @@ function ReportsContent() {
 
       {error && (
         <div className="mt-4 rounded-md bg-red-50 dark:bg-red-900/50 p-4">
-          {/* ... Error display ... */}
+          <h3 className="text-sm font-medium text-red-800 dark:text-red-200">{error}</h3>
         </div>
       )}
 
@@ -885,7 +916,7 @@ function ReportsContent() {
             </button>
             <span className="text-sm text-gray-700 dark:text-gray-300">date range</span>
           </div>
-          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
             <div>
               <label htmlFor="startDate" className="block text-sm font-medium text-[var(--foreground)]">
                 {isDateRange ? 'start date' : 'date'}
@@ -939,6 +970,90 @@ function ReportsContent() {
                 </select>
               </div>
             </div>
+            <div>
+              <label htmlFor="configuredOn" className="block text-sm font-medium text-[var(--foreground)]">
+                as configured on
+              </label>
+              <div className="mt-1">
+                <input
+                  type="date"
+                  id="configuredOn"
+                  value={filters.configuredOn}
+                  onChange={(e) => setFilters({ ...filters, configuredOn: e.target.value })}
+                  disabled={isFilterLoading}
+                  className="block w-full rounded-md border-gray-300 shadow-sm px-3 py-2 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                />
+              </div>
+            </div>
+          </div>
+          {filters.configuredOn && (
+            <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
+              using role rates and settings as they were saved on {format(parseISO(filters.configuredOn), 'MMMM d, yyyy').toLowerCase()}.{' '}
+              <button
+                type="button"
+                onClick={() => setFilters({ ...filters, configuredOn: '' })}
+                className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300"
+              >
+                use current settings
+              </button>
+            </p>
+          )}
+          <div className="mt-4 flex items-center gap-4 text-sm">
+            <button
+              type="button"
+              onClick={handleFreezeReport}
+              disabled={isFilterLoading || isFreezing || !reportData?.summary}
+              className="rounded-md bg-indigo-600 px-3 py-2 font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isFreezing ? 'freezing...' : 'freeze report'}
+            </button>
+            <Link href="/reports/snapshots" className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300">
+              frozen reports
+            </Link>
+            <Link
+              href={`/reports/statements?${new URLSearchParams({
+                startDate: filters.startDate,
+                endDate: isDateRange ? filters.endDate : filters.startDate,
+                ...(filters.employeeId ? { employeeId: filters.employeeId } : {}),
+              })}`}
+              className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300"
+            >
+              tip statements
+            </Link>
+            <span className="flex items-center gap-2 text-gray-500 dark:text-gray-400">
+              export
+              {REPORT_EXPORT_FORMATS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => handleExportReport(option.value)}
+                  disabled={isFilterLoading || !reportData?.summary}
+                  className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {option.label}
+                </button>
+              ))}
+            </span>
+            <span className="ml-auto flex items-center gap-2">
+              <select
+                aria-label="payroll export format"
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as PayrollExportFormat)}
+                className="rounded-md border-gray-300 shadow-sm px-3 py-2 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+              >
+                {PAYROLL_EXPORT_FORMATS.map(format => (
+                  <option key={format} value={format}>{PAYROLL_EXPORT_ADAPTERS[format].label}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleExportPayroll}
+                disabled={isFilterLoading || !reportData?.summary}
+                className="rounded-md bg-white px-3 py-2 font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-white dark:ring-gray-700 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                export payroll
+              </button>
+            </span>
           </div>
         </div>
       </div>
@@ -1038,7 +1153,7 @@ function ReportsContent() {
                     <dl>
                       <dt className="text-sm font-medium text-gray-500 dark:text-gray-400 truncate">total tipouts paid</dt>
                       <dd className="text-base sm:text-lg font-medium text-[var(--foreground)]">
-                         ${(reportData.summary.totalBarTipoutPaid + reportData.summary.totalHostTipoutPaid + reportData.summary.totalSaTipoutPaid).toFixed(2)}
+                         ${Object.values(reportData.summary.totalTipoutsPaid).reduce((acc, amount) => acc + amount, 0).toFixed(2)}
                       </dd>
                     </dl>
                   </div>
@@ -1112,10 +1227,14 @@ function ReportsContent() {
               </div>
               {showPoolSummaries && poolSummaries.length > 0 && (
                 <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {poolSummaries.map(([group, { totalHours, totalGrossCreditTips, totalNetCreditShare }]) => (
+                  {poolSummaries.map(({ group, totalHours, totalGrossCreditTips, totalNetCreditShare, window }) => (
                     <div key={group} className="p-4 bg-white/50 dark:bg-gray-800/50 rounded-lg border border-gray-200 dark:border-gray-700">
                       <div className="flex justify-between font-medium">
-                        <span>{group}</span><span>{totalHours.toFixed(2)} hrs</span>
+                        <span>
+                          {group}
+                          {window && <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">pooled {getPoolingWindowLabel(window)}</span>}
+                        </span>
+                        <span>{totalHours.toFixed(2)} hrs</span>
                       </div>
                       <div className="mt-2 flex justify-between text-sm">
                         <span>Gross Credit Tips</span><span>${totalGrossCreditTips.toFixed(2)}</span>
@@ -1128,6 +1247,74 @@ function ReportsContent() {
                 </div>
               )}
             </div>
+            {/* Tipouts paid while no one receiving them worked */}
+            {reportData.summary && reportData.summary.absentTipouts.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-lg font-medium text-[var(--foreground)]">Absent Recipient Tipouts</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  tipouts paid on days no one receiving them worked, and where the money went.
+                </p>
+                <ul className="mt-4 divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700 bg-white/50 dark:bg-gray-800/50">
+                  {reportData.summary.absentTipouts.map(tipout => (
+                    <li key={`${tipout.shiftId}-${tipout.tipoutType}`} className="flex flex-wrap justify-between gap-2 px-4 py-2 text-sm">
+                      <span className="text-[var(--foreground)]">
+                        {format(parseISO(tipout.date), 'MMM d').toLowerCase()} · {tipout.employeeName} ({tipout.roleName.toLowerCase()}) · {tipout.tipoutType} tipout
+                      </span>
+                      <span className="text-gray-500 dark:text-gray-400">
+                        ${tipout.amount.toFixed(2)} → {describeAbsentTipout(tipout)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {/* Tipouts changed by a cap or floor, and what the house paid to meet minimum guarantees */}
+            {reportData.summary && (limitAdjustments.length > 0 || reportData.summary.totalHouseTopUps > 0) && (
+              <div className="mb-6">
+                <h3 className="text-lg font-medium text-[var(--foreground)]">Caps, Floors and House Top-Ups</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  how much tipout caps and floors changed the tipouts paid, and what the house added to meet minimum guarantees.
+                </p>
+                <ul className="mt-4 divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700 bg-white/50 dark:bg-gray-800/50">
+                  {limitAdjustments.map(([type, amount]) => (
+                    <li key={type} className="flex flex-wrap justify-between gap-2 px-4 py-2 text-sm">
+                      <span className="text-[var(--foreground)]">{type} tipout</span>
+                      <span className="text-gray-500 dark:text-gray-400">{describeLimitAdjustment(amount)}</span>
+                    </li>
+                  ))}
+                  {reportData.summary.totalHouseTopUps > 0 && (
+                    <li className="flex flex-wrap justify-between gap-2 px-4 py-2 text-sm">
+                      <span className="text-[var(--foreground)]">house top-ups</span>
+                      <span className="text-gray-500 dark:text-gray-400">${reportData.summary.totalHouseTopUps.toFixed(2)}</span>
+                    </li>
+                  )}
+                </ul>
+              </div>
+            )}
+            {/* Workweeks base pay and tips fell short of the minimum wage, and what the house made up */}
+            {shortfalls.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-lg font-medium text-red-600 dark:text-red-400">Minimum Wage Shortfalls</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  workweeks where base pay plus tips came to less than the <Link href="/minimum-wages" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">minimum wage</Link>,
+                  or base pay alone to less than the tipped wage. the make-up is included in the payroll total.
+                </p>
+                <ul className="mt-4 divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-red-200 dark:border-red-900 bg-red-50/50 dark:bg-red-900/20">
+                  {shortfalls.map(shortfall => (
+                    <li key={`${shortfall.employeeId}-${shortfall.weekStart}`} className="flex flex-wrap justify-between gap-2 px-4 py-2 text-sm">
+                      <span className="text-[var(--foreground)]">
+                        week of {format(parseISO(shortfall.weekStart), 'MMM d').toLowerCase()} · {shortfall.employeeName} · {shortfall.hours.toFixed(2)} hrs
+                      </span>
+                      <span className="text-gray-500 dark:text-gray-400">
+                        earned ${(shortfall.basePay + shortfall.tips).toFixed(2)} (${shortfall.basePay.toFixed(2)} base) of ${shortfall.minimumWageDue.toFixed(2)} due →{' '}
+                        <span className="font-medium text-red-600 dark:text-red-400">+${shortfall.makeUpInRange.toFixed(2)} make-up</span>
+                        {shortfall.makeUpInRange !== shortfall.makeUp && ` (of $${shortfall.makeUp.toFixed(2)} for the week; the rest is paid with its other shifts)`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             {/* Mobile card view */}
             <div className="block md:hidden space-y-4">
               {displayedEmployeeSummaries.map((summary) => (
@@ -1166,6 +1353,9 @@ function ReportsContent() {
                       <p className="text-sm font-medium text-[var(--foreground)]">
                         ${summary.totalCashTips.toFixed(2)}
                       </p>
+                      {summary.totalTipoutsPaidFromCash > 0 && (
+                        <p className="text-xs text-gray-400 dark:text-gray-500">after ${summary.totalTipoutsPaidFromCash.toFixed(2)} cash tipouts</p>
+                      )}
                     </div>
                     <div>
                       <p className="text-xs text-gray-500 dark:text-gray-400">gross credit tips</p>
@@ -1190,42 +1380,56 @@ function ReportsContent() {
                   <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
                     <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">tipouts</p>
                     <div className="grid grid-cols-3 gap-4">
-                      <div>
-                        <p className="text-xs text-gray-500 dark:text-gray-400">bar</p>
-                        <p className={`text-sm font-medium ${
-                          summary.totalBarTipout !== 0 
-                            ? (summary.totalBarTipout < 0 
-                                ? 'text-red-600 dark:text-red-400' 
-                                : 'text-green-600 dark:text-green-400')
-                            : 'text-gray-500 dark:text-gray-400'
-                        }`}>
-                          ${summary.totalBarTipout.toFixed(2)}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-gray-500 dark:text-gray-400">host</p>
-                        <p className={`text-sm font-medium ${
-                          summary.totalHostTipout !== 0 
-                            ? (summary.totalHostTipout < 0 
-                                ? 'text-red-600 dark:text-red-400' 
-                                : 'text-green-600 dark:text-green-400')
-                            : 'text-gray-500 dark:text-gray-400'
-                        }`}>
-                          ${summary.totalHostTipout.toFixed(2)}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-xs text-gray-500 dark:text-gray-400">sa</p>
-                        <p className={`text-sm font-medium ${
-                          summary.totalSaTipout !== 0 
-                            ? (summary.totalSaTipout < 0 
-                                ? 'text-red-600 dark:text-red-400' 
-                                : 'text-green-600 dark:text-green-400')
-                            : 'text-gray-500 dark:text-gray-400'
-                        }`}>
-                          ${summary.totalSaTipout.toFixed(2)}
-                        </p>
-                      </div>
+                      {(reportData.tipoutTypes || []).map(type => {
+                        const amount = summary.totalTipouts[type.key] || 0
+                        return (
+                          <div key={type.key}>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">{type.name.toLowerCase()}</p>
+                            <p className={`text-sm font-medium ${
+                              amount !== 0 
+                                ? (amount < 0 
+                                    ? 'text-red-600 dark:text-red-400' 
+                                    : 'text-green-600 dark:text-green-400')
+                                : 'text-gray-500 dark:text-gray-400'
+                            }`}>
+                              ${amount.toFixed(2)}
+                            </p>
+                            {summary.tipoutWindows?.[type.key] && (
+                              <p className="text-xs text-gray-400 dark:text-gray-500">pooled {getPoolingWindowLabel(summary.tipoutWindows[type.key])}</p>
+                            )}
+                            {!!summary.totalTipoutLimitAdjustments?.[type.key] && (
+                              <p className="text-xs text-gray-400 dark:text-gray-500">{describeLimitAdjustment(summary.totalTipoutLimitAdjustments[type.key])}</p>
+                            )}
+                          </div>
+                        )
+                      })}
+                      {hasHouseTopUps && (
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">house top-up</p>
+                          <p className="text-sm font-medium text-green-600 dark:text-green-400">
+                            ${(summary.totalHouseTopUp || 0).toFixed(2)}
+                          </p>
+                        </div>
+                      )}
+                      {hasOvertime && (
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">overtime</p>
+                          <p className="text-sm font-medium text-[var(--foreground)]">
+                            ${(summary.totalOvertimePremium || 0).toFixed(2)}
+                          </p>
+                          {(summary.totalOvertimeHours || 0) > 0 && (
+                            <p className="text-xs text-gray-400 dark:text-gray-500">{summary.totalOvertimeHours.toFixed(2)} hrs</p>
+                          )}
+                        </div>
+                      )}
+                      {hasComplianceMakeUps && (
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">minimum wage make-up</p>
+                          <p className={`text-sm font-medium ${(summary.totalComplianceMakeUp || 0) > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                            ${(summary.totalComplianceMakeUp || 0).toFixed(2)}
+                          </p>
+                        </div>
+                      )}
                     </div>
                   </div>
                   {/* Rates Section */}
@@ -1255,6 +1459,22 @@ function ReportsContent() {
                           ${summary.payrollTotal?.toFixed(2) ?? 'n/a'}
                         </p>
                       </div>
+                      <div>
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            setTraceTarget({
+                              employeeId: summary.employeeId,
+                              employeeName: summary.employeeName,
+                              ...(groupByEmployee ? {} : { roleName: summary.roleName }),
+                            })
+                          }}
+                          className="text-xs font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400"
+                        >
+                          explain payroll tips
+                        </button>
+                      </div>
                     </div>
                       </div>
                     </div>
@@ -1290,21 +1510,20 @@ function ReportsContent() {
                         <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
                           liquor sales
                         </th>
-                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white"
-                          title="Net Bar Tipout: Positive if received, negative if paid. $0 for pooled roles as tipouts are handled pre-distribution."
-                        >
-                          bar tipout
-                        </th>
-                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white"
-                          title="Net Host Tipout: Positive if received, negative if paid. $0 for pooled roles as tipouts are handled pre-distribution."
-                        >
-                          host tipout
-                        </th>
-                        <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white"
-                          title="Net SA Tipout: Positive if received, negative if paid. $0 for pooled roles as tipouts are handled pre-distribution."
-                        >
-                          sa tipout
-                        </th>
+                        {(reportData.tipoutTypes || []).map(type => (
+                          <th key={type.key} scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white"
+                            title={`Net ${type.name} Tipout: Positive if received, negative if paid. $0 for pooled roles as tipouts are handled pre-distribution.`}
+                          >
+                            {type.name.toLowerCase()} tipout
+                          </th>
+                        ))}
+                        {hasHouseTopUps && (
+                          <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white"
+                            title="Paid by the house to bring sharing pools up to their guaranteed amount per hour. Included in payroll tips."
+                          >
+                            house top-up
+                          </th>
+                        )}
                         <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white"
                           title="Total tips allocated for payroll: (Adjusted/Pooled Credit Tips) + (Net Received/Paid Distribution Tipouts)."
                         >
@@ -1321,8 +1540,22 @@ function ReportsContent() {
                         <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
                           total $/hour
                         </th>
+                        {hasOvertime && (
+                          <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white"
+                            title="Premium for hours past the weekly overtime threshold, across all roles, on the blended regular rate. Included in payroll total."
+                          >
+                            overtime
+                          </th>
+                        )}
+                        {hasComplianceMakeUps && (
+                          <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white"
+                            title="Paid by the house for workweeks where base pay plus tips fell short of the minimum wage. Included in payroll total."
+                          >
+                            min. wage make-up
+                          </th>
+                        )}
                         <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white"
-                          title="Calculated as (Base Pay Rate * Hours) + Payroll Tips."
+                          title="Calculated as (Base Pay Rate * Hours) + Payroll Tips + Overtime + Minimum Wage Make-Up."
                         >
                           payroll total
                         </th>
@@ -1356,6 +1589,9 @@ function ReportsContent() {
                           </td>
                           <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
                             ${summary.totalCashTips.toFixed(2)}
+                            {summary.totalTipoutsPaidFromCash > 0 && (
+                              <span className="block text-xs text-gray-400 dark:text-gray-500">after ${summary.totalTipoutsPaidFromCash.toFixed(2)} tipouts paid in cash</span>
+                            )}
                           </td>
                           <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
                             ${summary.totalGrossCreditTips.toFixed(2)}
@@ -1366,33 +1602,31 @@ function ReportsContent() {
                           <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
                             ${summary.totalLiquorSales.toFixed(2)}
                           </td>
-                          <td className={`whitespace-nowrap px-3 py-4 text-sm ${
-                            summary.totalBarTipout !== 0 
-                              ? (summary.totalBarTipout < 0 
-                                  ? 'text-red-600 dark:text-red-400' 
-                                  : 'text-green-600 dark:text-green-400')
-                              : 'text-gray-500 dark:text-gray-400'
-                          }`}>
-                            ${summary.totalBarTipout.toFixed(2)}
-                          </td>
-                          <td className={`whitespace-nowrap px-3 py-4 text-sm ${
-                            summary.totalHostTipout !== 0 
-                              ? (summary.totalHostTipout < 0 
-                                  ? 'text-red-600 dark:text-red-400' 
-                                  : 'text-green-600 dark:text-green-400')
-                              : 'text-gray-500 dark:text-gray-400'
-                          }`}>
-                            ${summary.totalHostTipout.toFixed(2)}
-                          </td>
-                          <td className={`whitespace-nowrap px-3 py-4 text-sm ${
-                            summary.totalSaTipout !== 0 
-                              ? (summary.totalSaTipout < 0 
-                                  ? 'text-red-600 dark:text-red-400' 
-                                  : 'text-green-600 dark:text-green-400')
-                              : 'text-gray-500 dark:text-gray-400'
-                          }`}>
-                            ${summary.totalSaTipout.toFixed(2)}
-                          </td>
+                          {(reportData.tipoutTypes || []).map(type => {
+                            const amount = summary.totalTipouts[type.key] || 0
+                            return (
+                              <td key={type.key} className={`whitespace-nowrap px-3 py-4 text-sm ${
+                                amount !== 0 
+                                  ? (amount < 0 
+                                      ? 'text-red-600 dark:text-red-400' 
+                                      : 'text-green-600 dark:text-green-400')
+                                  : 'text-gray-500 dark:text-gray-400'
+                              }`}>
+                                ${amount.toFixed(2)}
+                                {summary.tipoutWindows?.[type.key] && (
+                                  <span className="block text-xs text-gray-400 dark:text-gray-500">pooled {getPoolingWindowLabel(summary.tipoutWindows[type.key])}</span>
+                                )}
+                                {!!summary.totalTipoutLimitAdjustments?.[type.key] && (
+                                  <span className="block text-xs text-gray-400 dark:text-gray-500">{describeLimitAdjustment(summary.totalTipoutLimitAdjustments[type.key])}</span>
+                                )}
+                              </td>
+                            )
+                          })}
+                          {hasHouseTopUps && (
+                            <td className="whitespace-nowrap px-3 py-4 text-sm text-green-600 dark:text-green-400">
+                              ${(summary.totalHouseTopUp || 0).toFixed(2)}
+                            </td>
+                          )}
                           <td className={`whitespace-nowrap px-3 py-4 text-sm ${
                             summary.totalPayrollTips !== undefined 
                               ? (summary.totalPayrollTips !== 0 
@@ -1403,6 +1637,21 @@ function ReportsContent() {
                               : 'text-gray-500 dark:text-gray-400'
                           }`}>
                             ${summary.totalPayrollTips !== undefined ? summary.totalPayrollTips.toFixed(2) : 'n/a'}
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                setTraceTarget({
+                                  employeeId: summary.employeeId,
+                                  employeeName: summary.employeeName,
+                                  ...(groupByEmployee ? {} : { roleName: summary.roleName }),
+                                })
+                              }}
+                              className="ml-2 text-xs font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400"
+                              title="Show how this amount was calculated"
+                            >
+                              explain
+                            </button>
                           </td>
                           <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
                             ${summary.totalTipsPerHour.toFixed(2)}
@@ -1413,6 +1662,19 @@ function ReportsContent() {
                           <td className="whitespace-nowrap px-3 py-4 text-sm font-medium text-green-600 dark:text-green-400">
                             ${(summary.totalTipsPerHour + summary.basePayRate).toFixed(2)}
                           </td>
+                          {hasOvertime && (
+                            <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
+                              ${(summary.totalOvertimePremium || 0).toFixed(2)}
+                              {(summary.totalOvertimeHours || 0) > 0 && (
+                                <span className="block text-xs text-gray-400 dark:text-gray-500">{summary.totalOvertimeHours.toFixed(2)} hrs</span>
+                              )}
+                            </td>
+                          )}
+                          {hasComplianceMakeUps && (
+                            <td className={`whitespace-nowrap px-3 py-4 text-sm ${(summary.totalComplianceMakeUp || 0) > 0 ? 'font-medium text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                              ${(summary.totalComplianceMakeUp || 0).toFixed(2)}
+                            </td>
+                          )}
                           <td className="whitespace-nowrap px-3 py-4 text-sm font-medium text-blue-600 dark:text-blue-400">
                             ${summary.payrollTotal?.toFixed(2) ?? 'n/a'}
                           </td>
@@ -1458,6 +1720,15 @@ function ReportsContent() {
 
           {/* Render the fullscreen modal */}
           <FullscreenModal />
+
+          {/* Drill-down drawer explaining an employee's payroll tips */}
+          <CalculationTraceDrawer
+            target={traceTarget}
+            startDate={filters.startDate}
+            endDate={isDateRange ? filters.endDate : filters.startDate}
+            configuredOn={filters.configuredOn || undefined}
+            onClose={closeTrace}
+          />
         </>
       )}
     </div>
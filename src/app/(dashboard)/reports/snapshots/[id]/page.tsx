@@ -0,0 +1,231 @@
+'use client'
+
+import { use, useState, useEffect } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import { ReportDiff, ReportFieldChange, ReportSnapshot } from '@/types/reports'
+
+type SnapshotDiffResponse = {
+  recalculatedAt: string
+  diff: ReportDiff
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  totalShifts: 'shifts',
+  totalHours: 'hours',
+  totalCashTips: 'cash tips',
+  totalCreditTips: 'credit tips',
+  totalLiquorSales: 'liquor sales',
+  totalHouseTopUps: 'house top-ups',
+  totalHouseTopUp: 'house top-up',
+  totalPayrollTips: 'payroll tips',
+  totalBasePay: 'base pay',
+  totalComplianceMakeUp: 'min. wage make-up',
+  totalOvertimeHours: 'overtime hours',
+  totalOvertimePremium: 'overtime premium',
+  payrollTotal: 'payroll total',
+}
+
+// Per-type fields read e.g. 'totalTipouts.bar'
+const labelField = (field: string) => {
+  const [name, tipoutType] = field.split('.')
+  if (tipoutType) return `${tipoutType} ${name === 'totalTipoutsPaid' ? 'tipouts paid' : 'tipouts'}`
+  return FIELD_LABELS[name] ?? name
+}
+
+// Hours and shift counts are not money
+const formatValue = (field: string, value: number) =>
+  /hours|shifts/i.test(field) ? value.toFixed(2).replace(/\.00$/, '') : `$${value.toFixed(2)}`
+
+const formatDifference = (field: string, value: number) => `${value > 0 ? '+' : value < 0 ? '-' : ''}${formatValue(field, Math.abs(value))}`
+
+const formatDay = (date: string) => format(new Date(date + 'T12:00:00'), 'MMM d, yyyy').toLowerCase()
+
+function ChangesTable({ changes }: { changes: (ReportFieldChange & { roleName?: string })[] }) {
+  return (
+    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+      <thead>
+        <tr className="text-left text-gray-500 dark:text-gray-400">
+          {changes.some(change => change.roleName !== undefined) && <th className="py-2 pr-3 font-medium">role</th>}
+          <th className="py-2 pr-3 font-medium">total</th>
+          <th className="py-2 pr-3 text-right font-medium">frozen</th>
+          <th className="py-2 pr-3 text-right font-medium">now</th>
+          <th className="py-2 text-right font-medium">change</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+        {changes.map(change => (
+          <tr key={`${change.roleName ?? ''}-${change.field}`}>
+            {change.roleName !== undefined && <td className="py-2 pr-3 text-[var(--foreground)]">{change.roleName.toLowerCase()}</td>}
+            <td className="py-2 pr-3 text-[var(--foreground)]">{labelField(change.field)}</td>
+            <td className="py-2 pr-3 text-right text-gray-500 dark:text-gray-400">{formatValue(change.field, change.before)}</td>
+            <td className="py-2 pr-3 text-right text-gray-500 dark:text-gray-400">{formatValue(change.field, change.after)}</td>
+            <td className={`py-2 text-right font-medium ${change.difference < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+              {formatDifference(change.field, change.difference)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export default function ReportSnapshotPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params)
+  const [snapshot, setSnapshot] = useState<ReportSnapshot | null>(null)
+  const [comparison, setComparison] = useState<SnapshotDiffResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isComparing, setIsComparing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchSnapshot = async () => {
+      try {
+        const response = await fetch(`/api/reports/snapshots/${id}`)
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}))
+          throw new Error(errorData.message || 'Failed to fetch report snapshot')
+        }
+        setSnapshot(await response.json())
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load frozen report')
+        console.error('Error loading report snapshot:', err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchSnapshot()
+  }, [id])
+
+  const handleCompare = async () => {
+    setIsComparing(true)
+    try {
+      const response = await fetch(`/api/reports/snapshots/${id}/diff`)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || 'Failed to recalculate report')
+      }
+      setComparison(await response.json())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to recalculate report')
+      console.error('Error diffing report snapshot:', err)
+    } finally {
+      setIsComparing(false)
+    }
+  }
+
+  if (isLoading) {
+    return <LoadingSpinner />
+  }
+
+  const payrollTotal = snapshot?.employeeSummaries.reduce((acc, row) => acc + Math.round(row.payrollTotal * 100), 0) ?? 0
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-[var(--foreground)]">frozen report</h1>
+          {snapshot && (
+            <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+              {formatDay(snapshot.startDate)}{snapshot.endDate !== snapshot.startDate && ` to ${formatDay(snapshot.endDate)}`}
+              {snapshot.configuredOn && `, as configured on ${formatDay(snapshot.configuredOn)}`}.
+              frozen {format(new Date(snapshot.createdAt), 'MMM d, yyyy h:mm a').toLowerCase()}
+              {snapshot.createdBy && ` by ${snapshot.createdBy}`}.
+              {snapshot.note && <span className="block mt-1 italic">{snapshot.note}</span>}
+            </p>
+          )}
+        </div>
+        <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none space-x-4">
+          <Link href="/reports/snapshots" className="text-sm text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300">
+            all frozen reports
+          </Link>
+          {snapshot && (
+            <button
+              type="button"
+              onClick={handleCompare}
+              disabled={isComparing}
+              className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isComparing ? 'recalculating...' : 'compare with current data'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-8 rounded-md bg-red-50 dark:bg-red-900/50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800 dark:text-red-200">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {snapshot && (
+        <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-lg font-medium text-[var(--foreground)] mb-4">As Frozen</h3>
+            <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4 text-sm">
+              <div>
+                <dt className="text-gray-500 dark:text-gray-400">shifts</dt>
+                <dd className="font-medium text-[var(--foreground)]">{snapshot.summary?.totalShifts ?? 0}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500 dark:text-gray-400">hours</dt>
+                <dd className="font-medium text-[var(--foreground)]">{snapshot.summary?.totalHours.toFixed(2) ?? '0'}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500 dark:text-gray-400">employees</dt>
+                <dd className="font-medium text-[var(--foreground)]">{new Set(snapshot.employeeSummaries.map(row => row.employeeId)).size}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500 dark:text-gray-400">payroll total</dt>
+                <dd className="font-medium text-[var(--foreground)]">${(payrollTotal / 100).toFixed(2)}</dd>
+              </div>
+            </dl>
+          </div>
+        </div>
+      )}
+
+      {comparison && (
+        <div className="mt-8 space-y-6">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            recalculated {format(new Date(comparison.recalculatedAt), 'MMM d, yyyy h:mm a').toLowerCase()}.{' '}
+            {comparison.diff.unchanged
+              ? 'nothing has changed since the report was frozen.'
+              : `${comparison.diff.employees.length} employee${comparison.diff.employees.length === 1 ? '' : 's'} changed since the report was frozen.`}
+          </p>
+
+          {comparison.diff.summaryChanges.length > 0 && (
+            <div className="bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700 px-4 py-5 sm:p-6">
+              <h3 className="text-lg font-medium text-[var(--foreground)] mb-2">Overall Changes</h3>
+              <ChangesTable changes={comparison.diff.summaryChanges} />
+            </div>
+          )}
+
+          {comparison.diff.employees.map(employee => (
+            <div key={employee.employeeId} className="bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700 px-4 py-5 sm:p-6">
+              <div className="flex items-baseline justify-between mb-2">
+                <h3 className="text-base font-medium text-[var(--foreground)]">
+                  {employee.employeeName}
+                  {employee.status !== 'changed' && (
+                    <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                      {employee.status === 'added' ? 'not in the frozen report' : 'no longer in the report'}
+                    </span>
+                  )}
+                </h3>
+                <span className={`text-sm font-medium ${employee.payrollTotalDifference < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                  payroll total {formatDifference('payrollTotal', employee.payrollTotalDifference)}
+                </span>
+              </div>
+              <ChangesTable changes={employee.changes} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
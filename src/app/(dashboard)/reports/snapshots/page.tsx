@@ -0,0 +1,118 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import { ReportSnapshot } from '@/types/reports'
+
+type SnapshotListing = Pick<ReportSnapshot, 'id' | 'startDate' | 'endDate' | 'configuredOn' | 'note' | 'createdBy' | 'createdAt'>
+
+// Snapshot dates are plain yyyy-MM-dd days, so read them without shifting into local time
+const formatDay = (date: string) => format(new Date(date + 'T12:00:00'), 'MMM d, yyyy').toLowerCase()
+
+export default function ReportSnapshotsPage() {
+  const [snapshots, setSnapshots] = useState<SnapshotListing[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchSnapshots()
+  }, [])
+
+  const fetchSnapshots = async () => {
+    try {
+      const response = await fetch('/api/reports/snapshots')
+      if (!response.ok) {
+        throw new Error('Failed to fetch report snapshots')
+      }
+      const data = await response.json()
+      setSnapshots(data)
+    } catch (err) {
+      setError('Failed to load frozen reports')
+      console.error('Error loading report snapshots:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (isLoading) {
+    return <LoadingSpinner />
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-[var(--foreground)]">frozen reports</h1>
+          <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+            reports saved exactly as they calculated when frozen, with the shifts, rates and settings they were worked out from.
+            open one to compare it with the same report calculated from today&apos;s data. freeze a report from the{' '}
+            <Link href="/reports" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">reports</Link> page.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-8 rounded-md bg-red-50 dark:bg-red-900/50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800 dark:text-red-200">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-300 dark:divide-gray-700">
+            <thead className="bg-gray-50/75 dark:bg-gray-800/75">
+              <tr>
+                <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 dark:text-white sm:pl-6">
+                  dates
+                </th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                  as configured on
+                </th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                  note
+                </th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                  frozen
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {snapshots.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="py-4 pl-4 pr-3 text-sm text-gray-500 dark:text-gray-400 sm:pl-6">
+                    no frozen reports yet.
+                  </td>
+                </tr>
+              )}
+              {snapshots.map((snapshot) => (
+                <tr key={snapshot.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                  <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-[var(--foreground)] sm:pl-6">
+                    <Link href={`/reports/snapshots/${snapshot.id}`} className="hover:text-indigo-600 dark:hover:text-indigo-400">
+                      {formatDay(snapshot.startDate)}{snapshot.endDate !== snapshot.startDate && ` to ${formatDay(snapshot.endDate)}`}
+                    </Link>
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
+                    {snapshot.configuredOn ? formatDay(snapshot.configuredOn) : 'current settings'}
+                  </td>
+                  <td className="px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
+                    {snapshot.note || '-'}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
+                    {format(new Date(snapshot.createdAt), 'MMM d, yyyy h:mm a').toLowerCase()}
+                    {snapshot.createdBy && ` by ${snapshot.createdBy}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+'use client'
+
+import { useState, useEffect, useCallback, Suspense } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { useSearchParams, useRouter, usePathname } from 'next/navigation'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import TipStatementView from '@/components/TipStatementView'
+import { Employee, PayPeriod, TipStatement, TipoutTypeDefinition } from '@/types/reports'
+
+type StatementData = {
+  startDate: string
+  endDate: string
+  statements: TipStatement[]
+  tipoutTypes: TipoutTypeDefinition[]
+}
+
+// Pay period dates are stored in UTC, so read their day without shifting it into local time
+const formatDay = (date: string) => format(new Date(date.slice(0, 10) + 'T12:00:00'), 'MMM d, yyyy').toLowerCase()
+
+const inputClassName = 'block w-full rounded-md border-gray-300 shadow-sm px-3 py-2 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white'
+
+function StatementsContent() {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const pathname = usePathname()
+  const [employees, setEmployees] = useState<Employee[]>([])
+  const [payPeriods, setPayPeriods] = useState<PayPeriod[]>([])
+  const [data, setData] = useState<StatementData | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [filters, setFilters] = useState(() => {
+    const start = searchParams.get('startDate') || format(new Date(), 'yyyy-MM-dd')
+    return {
+      startDate: start,
+      endDate: searchParams.get('endDate') || start,
+      // Everyone who worked when empty
+      employeeId: searchParams.get('employeeId') || '',
+    }
+  })
+
+  const fetchStatements = useCallback(async (currentFilters: typeof filters) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const queryParams = new URLSearchParams({ startDate: currentFilters.startDate, endDate: currentFilters.endDate })
+      if (currentFilters.employeeId) queryParams.set('employeeId', currentFilters.employeeId)
+      const response = await fetch(`/api/reports/statements?${queryParams}`)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || 'Failed to fetch tip statements')
+      }
+      setData(await response.json())
+    } catch (err) {
+      console.error('Error loading tip statements:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load tip statements')
+      setData(null)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchStatements(filters)
+
+    const params = new URLSearchParams({ startDate: filters.startDate, endDate: filters.endDate })
+    if (filters.employeeId) params.set('employeeId', filters.employeeId)
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false })
+  }, [filters, pathname, router, fetchStatements])
+
+  // Employees and pay periods for the pickers; the statements still load without them
+  useEffect(() => {
+    Promise.all([fetch('/api/employees'), fetch('/api/pay-periods')])
+      .then(async ([employeesResponse, payPeriodsResponse]) => {
+        if (employeesResponse.ok) setEmployees(await employeesResponse.json())
+        if (payPeriodsResponse.ok) setPayPeriods(await payPeriodsResponse.json())
+      })
+      .catch(err => console.error('Error loading employees and pay periods:', err))
+  }, [])
+
+  const handleDownloadPdf = async () => {
+    setError(null)
+    try {
+      const queryParams = new URLSearchParams({ startDate: filters.startDate, endDate: filters.endDate, format: 'pdf' })
+      if (filters.employeeId) queryParams.set('employeeId', filters.employeeId)
+      const response = await fetch(`/api/reports/statements?${queryParams}`)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.message || 'Failed to download tip statements')
+      }
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? 'tip-statements.pdf'
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      console.error('Error downloading tip statements:', err)
+      setError(err instanceof Error ? err.message : 'Failed to download tip statements')
+    }
+  }
+
+  const selectedPayPeriod = payPeriods.find(period =>
+    period.startDate.slice(0, 10) === filters.startDate && period.endDate.slice(0, 10) === filters.endDate)
+  const typeName = (key: string) => (data?.tipoutTypes.find(type => type.key === key)?.name ?? key).toLowerCase()
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto print:px-0">
+      <div className="sm:flex sm:items-center print:hidden">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-[var(--foreground)]">tip statements</h1>
+          <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+            every shift an employee worked, with their tips, pool share and each tipout paid and received, adding up to the payroll tips on the{' '}
+            <Link href={`/reports?startDate=${filters.startDate}&endDate=${filters.endDate}`} className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">report</Link>.
+            leave the employee empty for everyone&apos;s, one per page when printed.
+          </p>
+        </div>
+        <div className="mt-4 flex gap-3 sm:ml-16 sm:mt-0 sm:flex-none">
+          <button
+            type="button"
+            onClick={() => window.print()}
+            disabled={isLoading || !data?.statements.length}
+            className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            print
+          </button>
+          <button
+            type="button"
+            onClick={handleDownloadPdf}
+            disabled={isLoading || !data?.statements.length}
+            className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-white dark:ring-gray-700 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            download pdf
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-8 grid grid-cols-1 gap-4 sm:grid-cols-4 print:hidden">
+        <div>
+          <label htmlFor="payPeriod" className="block text-sm font-medium text-[var(--foreground)]">pay period</label>
+          <select
+            id="payPeriod"
+            value={selectedPayPeriod?.id ?? ''}
+            onChange={(e) => {
+              const period = payPeriods.find(entry => entry.id === e.target.value)
+              if (period) setFilters({ ...filters, startDate: period.startDate.slice(0, 10), endDate: period.endDate.slice(0, 10) })
+            }}
+            className={`mt-2 ${inputClassName}`}
+          >
+            <option value="">custom dates</option>
+            {payPeriods.map(period => (
+              <option key={period.id} value={period.id}>{formatDay(period.startDate)} to {formatDay(period.endDate)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="startDate" className="block text-sm font-medium text-[var(--foreground)]">start date</label>
+          <input
+            type="date"
+            id="startDate"
+            value={filters.startDate}
+            onChange={(e) => e.target.value && setFilters({ ...filters, startDate: e.target.value })}
+            className={`mt-2 ${inputClassName}`}
+          />
+        </div>
+        <div>
+          <label htmlFor="endDate" className="block text-sm font-medium text-[var(--foreground)]">end date</label>
+          <input
+            type="date"
+            id="endDate"
+            value={filters.endDate}
+            min={filters.startDate}
+            onChange={(e) => e.target.value && setFilters({ ...filters, endDate: e.target.value })}
+            className={`mt-2 ${inputClassName}`}
+          />
+        </div>
+        <div>
+          <label htmlFor="employeeId" className="block text-sm font-medium text-[var(--foreground)]">employee</label>
+          <select
+            id="employeeId"
+            value={filters.employeeId}
+            onChange={(e) => setFilters({ ...filters, employeeId: e.target.value })}
+            className={`mt-2 ${inputClassName}`}
+          >
+            <option value="">everyone</option>
+            {employees.map(employee => (
+              <option key={employee.id} value={employee.id}>{employee.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-8 rounded-md bg-red-50 dark:bg-red-900/50 p-4 print:hidden">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800 dark:text-red-200">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="mt-8 flex justify-center">
+          <LoadingSpinner />
+        </div>
+      ) : data && data.statements.length === 0 ? (
+        <p className="mt-8 text-sm text-gray-500 dark:text-gray-400">no shifts in this date range.</p>
+      ) : (
+        data?.statements.map(statement => (
+          <TipStatementView key={statement.employeeId} statement={statement} typeName={typeName} />
+        ))
+      )}
+    </div>
+  )
+}
+
+export default function TipStatementsPage() {
+  return (
+    <Suspense fallback={<LoadingSpinner />}>
+      <StatementsContent />
+    </Suspense>
+  )
+}
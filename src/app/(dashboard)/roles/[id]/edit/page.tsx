@@ -3,17 +3,55 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import LoadingSpinner from '@/components/LoadingSpinner'
+import RoleConfigHistory from '@/components/RoleConfigHistory'
+import PayRateHistory from '@/components/PayRateHistory'
+import { AbsentRecipientPolicy, DistributionSplit, DistributionWeighting, PoolingWindow, TipoutBasis, TipoutSourceBucket, TipoutTypeDefinition } from '@/types/reports'
+import { ABSENT_RECIPIENT_POLICIES, DISTRIBUTION_WEIGHTINGS, POOLING_WINDOWS, TIPOUT_BASES, TIPOUT_SOURCE_BUCKETS, getDefaultTipoutBasis } from '@/utils/tipoutCalculations'
 
 type RoleConfig = {
   id?: string
   tipoutType: string
   percentageRate: number
+  basis?: TipoutBasis
   effectiveFrom: string
   effectiveTo: string | null
   receivesTipout: boolean
   paysTipout: boolean
   distributionGroup: string | null
   tipPoolGroup?: string | null
+  poolWeighting?: DistributionWeighting
+  poolWeight?: number | null
+  distributionWeighting?: DistributionWeighting
+  distributionWeight?: number | null
+  poolWindow?: PoolingWindow
+  distributionWindow?: PoolingWindow
+  absentPolicy?: AbsentRecipientPolicy
+  absentRollToGroup?: string | null
+  capPercentage?: number | null
+  capBasis?: TipoutBasis | null
+  floorPercentage?: number | null
+  floorBasis?: TipoutBasis | null
+  distributionMinimumHourly?: number | null
+  sourceBucket?: TipoutSourceBucket
+}
+
+// Cap and floor inputs of a paying config, each a percentage of its own basis
+const TIPOUT_LIMITS = [
+  { percentageField: 'capPercentage', basisField: 'capBasis', label: 'at most' },
+  { percentageField: 'floorPercentage', basisField: 'floorBasis', label: 'at least' },
+] as const
+
+// Label for the per-role weight a weighting needs, if any
+const WEIGHT_LABELS: Partial<Record<DistributionWeighting, string>> = {
+  points: 'points/hour',
+  fixed_percentage: '% of pool',
+}
+
+// Sharing pool suggested when a role starts receiving one of the built-in tipout types
+const DEFAULT_DISTRIBUTION_GROUPS: Record<string, string> = {
+  bar: 'bartenders',
+  host: 'hosts',
+  sa: 'support',
 }
 
 export default function EditRolePage() {
@@ -28,9 +66,16 @@ export default function EditRolePage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [existingPoolGroups, setExistingPoolGroups] = useState<string[]>([])
+  const [tipoutTypes, setTipoutTypes] = useState<TipoutTypeDefinition[]>([])
+  const [distributionSplits, setDistributionSplits] = useState<DistributionSplit[]>([])
+  // Recorded with the new config versions, shown in the history below
+  const [changeReason, setChangeReason] = useState('')
   
-  const tipoutTypes = ['bar', 'host', 'sa']
-  const distributionGroups = ['bartenders', 'hosts', 'servers', 'support']
+  // Built-in sharing pools plus any custom ones already used by this role
+  const distributionGroups = Array.from(new Set([
+    'bartenders', 'hosts', 'servers', 'support',
+    ...configs.map(c => c.distributionGroup).filter((group): group is string => !!group)
+  ]))
 
   const fetchRole = useCallback(async () => {
     try {
@@ -68,7 +113,9 @@ export default function EditRolePage() {
         percentageRate: Number(config.percentageRate),
         effectiveFrom: new Date(config.effectiveFrom).toISOString().split('T')[0],
         effectiveTo: config.effectiveTo ? new Date(config.effectiveTo).toISOString().split('T')[0] : null,
-        tipPoolGroup: config.tipPoolGroup || null
+        tipPoolGroup: config.tipPoolGroup || null,
+        poolWeight: config.poolWeight != null ? Number(config.poolWeight) : null,
+        distributionWeight: config.distributionWeight != null ? Number(config.distributionWeight) : null
       })))
     } catch (err) {
       console.error('Error fetching configs:', err)
@@ -92,7 +139,38 @@ export default function EditRolePage() {
     }
   }, [])
 
+  const fetchTipoutTypes = useCallback(async () => {
+    try {
+      const response = await fetch('/api/tipout-types?active=true');
+      if (!response.ok) {
+        throw new Error('Failed to fetch tipout types');
+      }
+      const data = await response.json();
+      setTipoutTypes(data);
+    } catch (err) {
+      console.error('Error fetching tipout types:', err);
+      setError(`Failed to load tipout types: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }, [])
+
+  const fetchDistributionSplits = useCallback(async () => {
+    try {
+      const response = await fetch('/api/distribution-splits');
+      if (!response.ok) {
+        throw new Error('Failed to fetch distribution splits');
+      }
+      const data = await response.json();
+      setDistributionSplits(data);
+    } catch (err) {
+      console.error('Error fetching distribution splits:', err);
+      // Non-critical, the split is only shown for reference
+    }
+  }, [])
+
   useEffect(() => {
+    fetchTipoutTypes()
+    fetchDistributionSplits()
+
     if (params.id === 'new') {
       // Creating a new role
       setLoading(false)
@@ -103,7 +181,29 @@ export default function EditRolePage() {
     fetchRole()
     fetchConfigs()
     fetchExistingPoolGroups()
-  }, [params.id, fetchRole, fetchConfigs, fetchExistingPoolGroups])
+  }, [params.id, fetchRole, fetchConfigs, fetchExistingPoolGroups, fetchTipoutTypes, fetchDistributionSplits])
+
+  // Updates this role's receiving config for a tipout type (it exists once the type is checked)
+  const updateReceivingConfig = (type: string, changes: Partial<RoleConfig>) => {
+    setConfigs(configs.map(c =>
+      c.tipoutType === type && c.receivesTipout && !c.paysTipout ? { ...c, ...changes } : c
+    ))
+  }
+
+  // Updates this role's paying config for a tipout type (it exists once the type is checked)
+  const updatePayingConfig = (type: string, changes: Partial<RoleConfig>) => {
+    setConfigs(configs.map(c =>
+      c.tipoutType === type && c.paysTipout && !c.receivesTipout ? { ...c, ...changes } : c
+    ))
+  }
+
+  // Pool settings are role-wide, so they are kept the same on every config, like tipPoolGroup
+  const poolWeighting = configs.find(c => c.tipPoolGroup)?.poolWeighting ?? 'hours'
+  const poolWeight = configs.find(c => c.tipPoolGroup)?.poolWeight ?? null
+  const poolWindow = configs.find(c => c.tipPoolGroup)?.poolWindow ?? 'shift'
+  const updatePoolSettings = (changes: Partial<RoleConfig>) => {
+    setConfigs(configs.map(c => ({ ...c, ...changes })))
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -135,7 +235,7 @@ export default function EditRolePage() {
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify(configs),
+          body: JSON.stringify({ configs, changeReason }),
         })
         
         if (!configResponse.ok) {
@@ -242,7 +342,7 @@ export default function EditRolePage() {
                 </p>
 
                 <div className="mt-4 space-y-6">
-                  {tipoutTypes.map(type => {
+                  {tipoutTypes.map(({ key: type, name }) => {
                     const config = configs.find(c => 
                       c.tipoutType === type && c.paysTipout && !c.receivesTipout
                     ) || {
@@ -291,9 +391,7 @@ export default function EditRolePage() {
                             className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded dark:border-gray-600"
                           />
                           <label htmlFor={`pays-${type}`} className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                            {type === 'bar' ? 'Bar Tipout' : 
-                             type === 'host' ? 'Host Tipout' : 
-                             'SA Tipout'}
+                            {name} Tipout
                           </label>
                         </div>
                         <div className={`flex flex-wrap items-center gap-3 transition-opacity duration-200 ${config.paysTipout ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
@@ -330,7 +428,103 @@ export default function EditRolePage() {
                             />
                             <span className="text-sm text-gray-500 dark:text-gray-400">%</span>
                           </div>
-                          <span className="text-sm text-gray-500 dark:text-gray-400">of {type === 'bar' ? 'liquor sales' : 'total tips'}</span>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm text-gray-500 dark:text-gray-400">of</span>
+                            <select
+                              value={config.basis ?? getDefaultTipoutBasis(type)}
+                              onChange={(e) => {
+                                const updatedConfigs = [...configs]
+                                const index = configs.findIndex(c => 
+                                  c.tipoutType === type && c.paysTipout && !c.receivesTipout
+                                )
+                                
+                                if (index !== -1) {
+                                  updatedConfigs[index] = {
+                                    ...updatedConfigs[index],
+                                    basis: e.target.value as TipoutBasis
+                                  }
+                                  setConfigs(updatedConfigs)
+                                }
+                              }}
+                              className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2"
+                            >
+                              {TIPOUT_BASES.map(({ value, label }) => (
+                                <option key={value} value={value}>{label}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm text-gray-500 dark:text-gray-400">paid from</span>
+                            <select
+                              value={config.sourceBucket ?? 'credit'}
+                              onChange={(e) => updatePayingConfig(type, { sourceBucket: e.target.value as TipoutSourceBucket })}
+                              aria-label={`Tips the ${name} tipout is paid from`}
+                              className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2"
+                            >
+                              {TIPOUT_SOURCE_BUCKETS.map(({ value, label }) => (
+                                <option key={value} value={value}>{label}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm text-gray-500 dark:text-gray-400">if no one receives it:</span>
+                            <select
+                              value={config.absentPolicy ?? 'skip'}
+                              onChange={(e) => {
+                                const absentPolicy = e.target.value as AbsentRecipientPolicy
+                                updatePayingConfig(type, {
+                                  absentPolicy,
+                                  absentRollToGroup: absentPolicy === 'roll_to_group' ? config.absentRollToGroup ?? distributionGroups[0] : null
+                                })
+                              }}
+                              className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2"
+                            >
+                              {ABSENT_RECIPIENT_POLICIES.map(({ value, label }) => (
+                                <option key={value} value={value}>{label}</option>
+                              ))}
+                            </select>
+                            {config.absentPolicy === 'roll_to_group' && (
+                              <select
+                                value={config.absentRollToGroup ?? ''}
+                                onChange={(e) => updatePayingConfig(type, { absentRollToGroup: e.target.value })}
+                                aria-label={`Group ${name} tipouts roll to`}
+                                className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2"
+                              >
+                                {distributionGroups.map(group => (
+                                  <option key={group} value={group}>{group}</option>
+                                ))}
+                              </select>
+                            )}
+                          </div>
+                          {TIPOUT_LIMITS.map(({ percentageField, basisField, label }) => (
+                            <div key={percentageField} className="flex items-center gap-2">
+                              <span className="text-sm text-gray-500 dark:text-gray-400">{label}</span>
+                              <input
+                                type="number"
+                                value={config[percentageField] ?? ''}
+                                onChange={(e) => updatePayingConfig(type, {
+                                  [percentageField]: e.target.value === '' ? null : parseFloat(e.target.value)
+                                })}
+                                step="0.1"
+                                min="0"
+                                max="100"
+                                placeholder="none"
+                                aria-label={`${name} tipout ${label} percentage`}
+                                className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2"
+                              />
+                              <span className="text-sm text-gray-500 dark:text-gray-400">% of</span>
+                              <select
+                                value={config[basisField] ?? config.basis ?? getDefaultTipoutBasis(type)}
+                                onChange={(e) => updatePayingConfig(type, { [basisField]: e.target.value as TipoutBasis })}
+                                aria-label={`What the ${name} tipout ${label} percentage applies to`}
+                                className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2"
+                              >
+                                {TIPOUT_BASES.map(({ value, label: basisLabel }) => (
+                                  <option key={value} value={value}>{basisLabel}</option>
+                                ))}
+                              </select>
+                            </div>
+                          ))}
                         </div>
                       </div>
                     )
@@ -346,7 +540,7 @@ export default function EditRolePage() {
                 </p>
 
                 <div className="mt-4 space-y-6">
-                  {tipoutTypes.map(type => {
+                  {tipoutTypes.map(({ key: type, name }) => {
                     const config = configs.find(c => 
                       c.tipoutType === type && c.receivesTipout && !c.paysTipout
                     ) || {
@@ -358,6 +552,7 @@ export default function EditRolePage() {
                       effectiveTo: null,
                       distributionGroup: null
                     }
+                    const typeSplits = distributionSplits.filter(split => split.tipoutType === type)
 
                     return (
                       <div key={type} className="flex flex-col sm:flex-row sm:items-center gap-4">
@@ -378,9 +573,7 @@ export default function EditRolePage() {
                                     ...config,
                                     receivesTipout: true,
                                     paysTipout: false,
-                                    distributionGroup: type === 'bar' ? 'bartenders' :
-                                                     type === 'host' ? 'hosts' :
-                                                     'support'
+                                    distributionGroup: DEFAULT_DISTRIBUTION_GROUPS[type] || type
                                   })
                                 } else {
                                   updatedConfigs[index] = {
@@ -398,9 +591,7 @@ export default function EditRolePage() {
                             className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded dark:border-gray-600"
                           />
                           <label htmlFor={`receives-${type}`} className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                            {type === 'bar' ? 'Bar Tipout' : 
-                             type === 'host' ? 'Host Tipout' : 
-                             'SA Tipout'}
+                            {name} Tipout
                           </label>
                         </div>
                         <div className={`flex flex-wrap items-center gap-3 transition-opacity duration-200 ${config.receivesTipout ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
@@ -438,6 +629,65 @@ export default function EditRolePage() {
                             ))}
                           </select>
                           <span className="text-sm text-gray-500 dark:text-gray-400">sharing pool</span>
+                          <select
+                            value={config.distributionWeighting ?? 'hours'}
+                            onChange={(e) => updateReceivingConfig(type, { distributionWeighting: e.target.value as DistributionWeighting })}
+                            className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2"
+                            aria-label={`How the ${name} sharing pool is split`}
+                          >
+                            {DISTRIBUTION_WEIGHTINGS.map(({ value, label }) => (
+                              <option key={value} value={value}>split by {label}</option>
+                            ))}
+                          </select>
+                          {WEIGHT_LABELS[config.distributionWeighting ?? 'hours'] && (
+                            <div className="flex items-center gap-2">
+                              <input
+                                type="number"
+                                value={config.distributionWeight ?? ''}
+                                onChange={(e) => updateReceivingConfig(type, {
+                                  distributionWeight: e.target.value === '' ? null : parseFloat(e.target.value)
+                                })}
+                                step="0.1"
+                                min="0"
+                                className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2"
+                              />
+                              <span className="text-sm text-gray-500 dark:text-gray-400">{WEIGHT_LABELS[config.distributionWeighting ?? 'hours']}</span>
+                            </div>
+                          )}
+                          <select
+                            value={config.distributionWindow ?? 'shift'}
+                            onChange={(e) => updateReceivingConfig(type, { distributionWindow: e.target.value as PoolingWindow })}
+                            className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2"
+                            aria-label={`How often the ${name} sharing pool is pooled`}
+                          >
+                            {POOLING_WINDOWS.map(({ value, label }) => (
+                              <option key={value} value={value}>pooled {label}</option>
+                            ))}
+                          </select>
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm text-gray-500 dark:text-gray-400">guaranteed $</span>
+                            <input
+                              type="number"
+                              value={config.distributionMinimumHourly ?? ''}
+                              onChange={(e) => updateReceivingConfig(type, {
+                                distributionMinimumHourly: e.target.value === '' ? null : parseFloat(e.target.value)
+                              })}
+                              step="0.25"
+                              min="0"
+                              placeholder="none"
+                              aria-label={`Tipout per hour the house guarantees the ${name} sharing pool`}
+                              className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2"
+                            />
+                            <span className="text-sm text-gray-500 dark:text-gray-400">/hour</span>
+                          </div>
+                          {typeSplits.length > 0 && (
+                            <p className="w-full text-xs text-gray-500 dark:text-gray-400">
+                              {name} pool split: {typeSplits.map(split => `${split.group} ${split.percentage}%`).join(' · ')}
+                              {config.distributionGroup && !typeSplits.some(split => split.group === config.distributionGroup) && (
+                                <span className="text-yellow-700 dark:text-yellow-300"> — {config.distributionGroup} is not in the split and only receives when none of these pools worked</span>
+                              )}
+                            </p>
+                          )}
                         </div>
                       </div>
                     )
@@ -449,7 +699,7 @@ export default function EditRolePage() {
               <div className="mt-6 p-4 bg-white/50 dark:bg-gray-800/50 rounded-lg border border-gray-200 dark:border-gray-700">
                 <h4 className="text-md font-medium text-gray-900 dark:text-white">Tip Pooling</h4>
                 <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-                  Optionally assign this role to a tip pool group (e.g., "servers", "bartenders"). Roles within the same group on the same day will have their tips pooled and distributed based on hours worked.
+                  Optionally assign this role to a tip pool group (e.g., "servers", "bartenders"). Roles within the same group will have their tips pooled over the window and distributed by the split chosen below.
                   Leave blank if this role's tips should not be pooled.
                 </p>
 
@@ -492,6 +742,62 @@ export default function EditRolePage() {
                      Start typing to see existing groups or enter a new name. Leave blank for no pooling.
                    </p>
                 </div>
+
+                <div className={`mt-4 flex flex-wrap items-end gap-4 ${configs.some(c => c.tipPoolGroup) ? '' : 'opacity-50 pointer-events-none'}`}>
+                  <div>
+                    <label htmlFor="poolWeighting" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Split Pool By
+                    </label>
+                    <select
+                      id="poolWeighting"
+                      value={poolWeighting}
+                      onChange={(e) => updatePoolSettings({ poolWeighting: e.target.value as DistributionWeighting })}
+                      className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2"
+                    >
+                      {DISTRIBUTION_WEIGHTINGS.map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {WEIGHT_LABELS[poolWeighting] && (
+                    <div>
+                      <label htmlFor="poolWeight" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        This Role&apos;s {poolWeighting === 'points' ? 'Points Per Hour' : 'Percentage'}
+                      </label>
+                      <div className="mt-1 flex items-center gap-2">
+                        <input
+                          type="number"
+                          id="poolWeight"
+                          value={poolWeight ?? ''}
+                          onChange={(e) => updatePoolSettings({ poolWeight: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                          step="0.1"
+                          min="0"
+                          className="block w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2"
+                        />
+                        <span className="text-sm text-gray-500 dark:text-gray-400">{WEIGHT_LABELS[poolWeighting]}</span>
+                      </div>
+                    </div>
+                  )}
+                  <div>
+                    <label htmlFor="poolWindow" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Pool Tips
+                    </label>
+                    <select
+                      id="poolWindow"
+                      value={poolWindow}
+                      onChange={(e) => updatePoolSettings({ poolWindow: e.target.value as PoolingWindow })}
+                      className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2"
+                    >
+                      {POOLING_WINDOWS.map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  The split and pooling window apply to every role in the pool; each role sets its own points or percentage.
+                  Per shift pools each service period separately; per week and per pay period follow the payroll settings.
+                </p>
               </div>
 
               <div className="mt-6 rounded-md bg-yellow-50 dark:bg-yellow-900/50 border border-yellow-200 dark:border-yellow-800 p-4">
@@ -505,9 +811,17 @@ export default function EditRolePage() {
                     <h3 className="text-sm font-medium text-yellow-800 dark:text-yellow-200">Important Notes</h3>
                     <div className="mt-2 text-sm text-yellow-700 dark:text-yellow-300">
                       <ul className="list-disc pl-5 space-y-1">
-                        <li>Bar tipout is calculated as a percentage of liquor sales</li>
-                        <li>Host and SA tipouts are calculated as a percentage of total tips</li>
-                        <li>Roles in the same sharing pool split their tipouts based on hours worked</li>
+                        <li>Each tipout is calculated as a percentage of the basis selected next to its rate</li>
+                        <li>Tipouts based on tips come out of the tip pool; tipouts based on sales are paid by each employee individually</li>
+                        <li>Tipouts paid from credit tips come out of payroll tips; paying from cash first or pro rata takes some or all of it from the cash tips instead, so payroll and cash-outs match what is handed over on the floor</li>
+                        <li>A tipout can be held to at most and at least a percentage of another amount, e.g. a bar tipout on liquor sales of at most 40% of tips; the cap wins when the two disagree</li>
+                        <li>When a sharing pool has a guaranteed amount per hour, the house tops up anyone who received less; the guarantee applies to every role in that pool</li>
+                        <li>When a tipout type is split between sharing pools on the tipout types page, each pool takes its percentage whatever hours it worked; otherwise pools share it by hours</li>
+                        <li>Tipouts based on tipouts received are paid after those tipouts are split, e.g. bartenders tipping out barbacks from their bar tipout; roles cannot pay tipouts out of each other in a loop</li>
+                        <li>Roles in the same sharing pool split their tipouts by the pool&apos;s split setting (hours worked unless changed)</li>
+                        <li>Changing how a pool is split or how often it is pooled changes it for every role in that pool</li>
+                        <li>Saving never overwrites the old rates: changes are kept as new versions, listed under Change History, and reports can be rerun as configured on an earlier date</li>
+                        <li>A tipout no one was there to receive stays with this role unless set to roll to another group, go to the house, or carry to the next day it can be received; rolled and carried tipouts stay with this role when that group or day is outside the report</li>
                       </ul>
                     </div>
                   </div>
@@ -517,6 +831,15 @@ export default function EditRolePage() {
           </div>
 
           <div className="px-4 py-3 md:px-6 bg-gray-50 dark:bg-gray-800 sm:px-6 flex justify-end space-x-3 border-t border-gray-200 dark:border-gray-700">
+            <input
+              type="text"
+              id="changeReason"
+              aria-label="reason for change"
+              placeholder="reason for change (optional)"
+              value={changeReason}
+              onChange={(e) => setChangeReason(e.target.value)}
+              className="block w-full sm:w-1/2 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2"
+            />
             <button
               type="button"
               onClick={() => router.push('/roles')}
@@ -533,6 +856,34 @@ export default function EditRolePage() {
           </div>
         </div>
       </form>
+
+      {params.id !== 'new' && (
+        <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700">
+          <div className="px-4 py-5 md:p-6">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Pay Rate History</h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Each shift is paid the base rate in effect on its date. Schedule a raise ahead of time or correct a past rate here; changing the base pay rate above takes effect today.
+            </p>
+            <div className="mt-4">
+              <PayRateHistory endpoint={`/api/roles/${params.id}/pay-rates`} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {params.id !== 'new' && (
+        <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700">
+          <div className="px-4 py-5 md:p-6">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Change History</h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Every saved version of this role&apos;s tipout settings, with who saved it and why.
+            </p>
+            <div className="mt-4">
+              <RoleConfigHistory roleId={params.id as string} />
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 } 
\ No newline at end of file
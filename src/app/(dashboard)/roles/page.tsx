@@ -5,6 +5,8 @@ import { PlusIcon, XCircleIcon } from '@heroicons/react/24/outline'
 import { format } from 'date-fns'
 import LoadingSpinner from '@/components/LoadingSpinner'
 import { AdminOnly } from '@/components/RoleBasedUI'
+import Link from 'next/link'
+import { TipoutTypeDefinition } from '@/types/reports'
 
 type Role = {
   id: string
@@ -21,14 +23,9 @@ type RoleConfiguration = {
   effectiveTo: string | null
 }
 
-const TIPOUT_TYPES = [
-  { id: 'bar', name: 'Bar Tipout', description: 'Percentage of liquor sales' },
-  { id: 'host', name: 'Host Tipout', description: 'Percentage of total tips' },
-  { id: 'sa', name: 'Server Assistant Tipout', description: 'Percentage of total tips' },
-]
-
 export default function RolesPage() {
   const [roles, setRoles] = useState<Role[]>([])
+  const [tipoutTypes, setTipoutTypes] = useState<TipoutTypeDefinition[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isAddingRole, setIsAddingRole] = useState(false)
@@ -49,12 +46,19 @@ export default function RolesPage() {
 
   const fetchRoles = async () => {
     try {
-      const response = await fetch('/api/roles')
+      const [response, tipoutTypesResponse] = await Promise.all([
+        fetch('/api/roles'),
+        fetch('/api/tipout-types?active=true'),
+      ])
       if (!response.ok) {
         throw new Error('Failed to fetch roles')
       }
+      if (!tipoutTypesResponse.ok) {
+        throw new Error('Failed to fetch tipout types')
+      }
       const data = await response.json()
       setRoles(data)
+      setTipoutTypes(await tipoutTypesResponse.json())
     } catch (err) {
       setError('Failed to load roles')
       console.error('Error loading roles:', err)
@@ -249,6 +253,20 @@ export default function RolesPage() {
           <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
             use the <span className="font-medium">edit role</span> button to access advanced configuration options including whether roles pay or receive tipouts.
           </p>
+          <AdminOnly>
+            <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+              tipout types are managed on the <Link href="/tipout-types" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">tipout types</Link> page.
+            </p>
+            <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+              lunch, dinner and other pooling windows are managed on the <Link href="/service-periods" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">service periods</Link> page.
+            </p>
+            <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+              the wages reports hold each workweek to are managed on the <Link href="/minimum-wages" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">minimum wages</Link> page.
+            </p>
+            <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+              the workweek and overtime rules are managed on the <Link href="/payroll-settings" className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">payroll settings</Link> page.
+            </p>
+          </AdminOnly>
         </div>
         <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none">
           <AdminOnly>
@@ -355,9 +373,9 @@ export default function RolesPage() {
                   <th scope="col" className="px-3 py-3 text-left text-sm font-semibold text-gray-900 dark:text-white">
                     base pay rate
                   </th>
-                  {TIPOUT_TYPES.map((type) => (
-                    <th key={type.id} scope="col" className="px-3 py-3 text-left text-sm font-semibold text-gray-900 dark:text-white">
-                      {type.name.toLowerCase()}
+                  {tipoutTypes.map((type) => (
+                    <th key={type.key} scope="col" className="px-3 py-3 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                      {type.name.toLowerCase()} tipout
                     </th>
                   ))}
                   <th scope="col" className="relative py-3 pl-3 pr-6">
@@ -414,12 +432,12 @@ export default function RolesPage() {
                         </div>
                       )}
                     </td>
-                    {TIPOUT_TYPES.map((type) => {
-                      const config = getActiveConfig(role, type.id)
+                    {tipoutTypes.map((type) => {
+                      const config = getActiveConfig(role, type.key)
                       return (
-                        <td key={type.id} className="whitespace-nowrap px-3 py-3 text-sm text-gray-500 dark:text-gray-400">
-                          {editingConfig?.roleId === role.id && editingConfig?.tipoutType === type.id ? (
-                            <form onSubmit={(e) => handleAddConfig(e, role.id, type.id)} className="flex items-center space-x-2">
+                        <td key={type.key} className="whitespace-nowrap px-3 py-3 text-sm text-gray-500 dark:text-gray-400">
+                          {editingConfig?.roleId === role.id && editingConfig?.tipoutType === type.key ? (
+                            <form onSubmit={(e) => handleAddConfig(e, role.id, type.key)} className="flex items-center space-x-2">
                               <input
                                 type="number"
                                 value={editingConfig.percentageRate}
@@ -458,7 +476,7 @@ export default function RolesPage() {
                                       <button
                                         onClick={() => setEditingConfig({
                                           roleId: role.id,
-                                          tipoutType: type.id,
+                                          tipoutType: type.key,
                                           percentageRate: config.percentageRate.toString(),
                                         })}
                                         className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300"
@@ -466,7 +484,7 @@ export default function RolesPage() {
                                         edit
                                       </button>
                                       <button
-                                        onClick={() => handleRemoveConfig(role.id, type.id)}
+                                        onClick={() => handleRemoveConfig(role.id, type.key)}
                                         className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
                                       >
                                         remove
@@ -479,7 +497,7 @@ export default function RolesPage() {
                                   <button
                                     onClick={() => setEditingConfig({
                                       roleId: role.id,
-                                      tipoutType: type.id,
+                                      tipoutType: type.key,
                                       percentageRate: '',
                                     })}
                                     className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
@@ -596,19 +614,19 @@ export default function RolesPage() {
                         </dd>
                       </div>
 
-                      {TIPOUT_TYPES.map((type) => {
-                        const config = getActiveConfig(role, type.id)
+                      {tipoutTypes.map((type) => {
+                        const config = getActiveConfig(role, type.key)
                         return (
-                          <div key={type.id} className="py-4">
+                          <div key={type.key} className="py-4">
                             <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">
-                              {type.name.toLowerCase()}
+                              {type.name.toLowerCase()} tipout
                               <span className="block text-xs text-gray-400 dark:text-gray-500 mt-0.5">
                                 {type.description}
                               </span>
                             </dt>
                             <dd className="mt-1">
-                              {editingConfig?.roleId === role.id && editingConfig?.tipoutType === type.id ? (
-                                <form onSubmit={(e) => handleAddConfig(e, role.id, type.id)} className="flex items-center space-x-2">
+                              {editingConfig?.roleId === role.id && editingConfig?.tipoutType === type.key ? (
+                                <form onSubmit={(e) => handleAddConfig(e, role.id, type.key)} className="flex items-center space-x-2">
                                   <input
                                     type="number"
                                     value={editingConfig.percentageRate}
@@ -647,7 +665,7 @@ export default function RolesPage() {
                                           <button
                                             onClick={() => setEditingConfig({
                                               roleId: role.id,
-                                              tipoutType: type.id,
+                                              tipoutType: type.key,
                                               percentageRate: config.percentageRate.toString(),
                                             })}
                                             className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300 text-sm font-medium"
@@ -655,7 +673,7 @@ export default function RolesPage() {
                                             edit
                                           </button>
                                           <button
-                                            onClick={() => handleRemoveConfig(role.id, type.id)}
+                                            onClick={() => handleRemoveConfig(role.id, type.key)}
                                             className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 text-sm font-medium"
                                           >
                                             remove
@@ -669,7 +687,7 @@ export default function RolesPage() {
                                         <button
                                           onClick={() => setEditingConfig({
                                             roleId: role.id,
-                                            tipoutType: type.id,
+                                            tipoutType: type.key,
                                             percentageRate: '',
                                           })}
                                           className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300 text-sm font-medium"
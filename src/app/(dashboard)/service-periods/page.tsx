@@ -0,0 +1,284 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { PlusIcon } from '@heroicons/react/24/outline'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import { AdminOnly } from '@/components/RoleBasedUI'
+import { ServicePeriod } from '@/types/reports'
+
+const EMPTY_SERVICE_PERIOD = { name: '', sortOrder: '' }
+
+export default function ServicePeriodsPage() {
+  const [servicePeriods, setServicePeriods] = useState<ServicePeriod[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isAddingPeriod, setIsAddingPeriod] = useState(false)
+  const [newPeriod, setNewPeriod] = useState(EMPTY_SERVICE_PERIOD)
+
+  useEffect(() => {
+    fetchServicePeriods()
+  }, [])
+
+  const fetchServicePeriods = async () => {
+    try {
+      const response = await fetch('/api/service-periods')
+      if (!response.ok) {
+        throw new Error('Failed to fetch service periods')
+      }
+      const data = await response.json()
+      setServicePeriods(data)
+    } catch (err) {
+      setError('Failed to load service periods')
+      console.error('Error loading service periods:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleAddPeriod = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newPeriod.name.trim()) return
+
+    try {
+      const response = await fetch('/api/service-periods', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: newPeriod.name.trim(),
+          sortOrder: newPeriod.sortOrder ? Number(newPeriod.sortOrder) : servicePeriods.length,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to add service period')
+      }
+
+      const created = await response.json()
+      setServicePeriods([...servicePeriods, created].sort((a, b) => a.sortOrder - b.sortOrder))
+      setNewPeriod(EMPTY_SERVICE_PERIOD)
+      setIsAddingPeriod(false)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add service period')
+      console.error('Error adding service period:', err)
+    }
+  }
+
+  const handleToggleActive = async (servicePeriod: ServicePeriod) => {
+    try {
+      const response = await fetch(`/api/service-periods/${servicePeriod.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ active: !servicePeriod.active }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to update service period')
+      }
+
+      const updated = await response.json()
+      setServicePeriods(servicePeriods.map(period => period.id === updated.id ? updated : period))
+    } catch (err) {
+      setError('Failed to update service period')
+      console.error('Error updating service period:', err)
+    }
+  }
+
+  const handleDeletePeriod = async (servicePeriod: ServicePeriod) => {
+    if (!confirm(`Are you sure you want to delete the ${servicePeriod.name} service period?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/service-periods/${servicePeriod.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to delete service period')
+      }
+
+      setServicePeriods(servicePeriods.filter(period => period.id !== servicePeriod.id))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete service period')
+      console.error('Error deleting service period:', err)
+    }
+  }
+
+  if (isLoading) {
+    return <LoadingSpinner />
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-[var(--foreground)]">service periods</h1>
+          <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+            the services a day is split into, such as lunch and dinner. shifts are assigned a service period when entered,
+            and tips and tipouts are only pooled between shifts worked on the same day and service period.
+          </p>
+        </div>
+        <AdminOnly>
+          <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none">
+            <button
+              type="button"
+              onClick={() => setIsAddingPeriod(true)}
+              className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+            >
+              <PlusIcon className="h-5 w-5 inline-block mr-1" />
+              add service period
+            </button>
+          </div>
+        </AdminOnly>
+      </div>
+
+      {error && (
+        <div className="mt-8 rounded-md bg-red-50 dark:bg-red-900/50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800 dark:text-red-200">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isAddingPeriod && (
+        <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700 transition-all hover:shadow-md">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-base font-medium text-[var(--foreground)] mb-4">add new service period</h3>
+            <form onSubmit={handleAddPeriod} className="space-y-4">
+              <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
+                <div className="sm:col-span-4">
+                  <label htmlFor="name" className="block text-sm font-medium text-[var(--foreground)]">
+                    name <span className="text-red-500">*</span>
+                  </label>
+                  <div className="mt-2">
+                    <input
+                      type="text"
+                      name="name"
+                      id="name"
+                      value={newPeriod.name}
+                      onChange={(e) => setNewPeriod({ ...newPeriod, name: e.target.value })}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                      placeholder="e.g. Dinner"
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="sm:col-span-2">
+                  <label htmlFor="sortOrder" className="block text-sm font-medium text-[var(--foreground)]">
+                    order
+                  </label>
+                  <div className="mt-2">
+                    <input
+                      type="number"
+                      name="sortOrder"
+                      id="sortOrder"
+                      value={newPeriod.sortOrder}
+                      onChange={(e) => setNewPeriod({ ...newPeriod, sortOrder: e.target.value })}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                      min="0"
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsAddingPeriod(false)
+                    setNewPeriod(EMPTY_SERVICE_PERIOD)
+                  }}
+                  className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-white dark:ring-gray-700 dark:hover:bg-gray-700"
+                >
+                  cancel
+                </button>
+                <button
+                  type="submit"
+                  className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+                >
+                  add
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-300 dark:divide-gray-700">
+            <thead className="bg-gray-50/75 dark:bg-gray-800/75">
+              <tr>
+                <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 dark:text-white sm:pl-6">
+                  name
+                </th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                  order
+                </th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                  status
+                </th>
+                <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6">
+                  <span className="sr-only">actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {servicePeriods.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="py-4 pl-4 pr-3 text-sm text-gray-500 dark:text-gray-400 sm:pl-6">
+                    no service periods yet. without them, each day is pooled as a whole.
+                  </td>
+                </tr>
+              )}
+              {servicePeriods.map((servicePeriod) => (
+                <tr key={servicePeriod.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                  <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-[var(--foreground)] sm:pl-6">
+                    {servicePeriod.name}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
+                    {servicePeriod.sortOrder}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm">
+                    <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${
+                      servicePeriod.active
+                        ? 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200'
+                        : 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200'
+                    }`}>
+                      {servicePeriod.active ? 'active' : 'inactive'}
+                    </span>
+                  </td>
+                  <AdminOnly>
+                  <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
+                    <button
+                      onClick={() => handleToggleActive(servicePeriod)}
+                      className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300 mr-4"
+                    >
+                      {servicePeriod.active ? 'deactivate' : 'activate'}
+                    </button>
+                    <button
+                      onClick={() => handleDeletePeriod(servicePeriod)}
+                      className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
+                    >
+                      delete
+                    </button>
+                  </td>
+                  </AdminOnly>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
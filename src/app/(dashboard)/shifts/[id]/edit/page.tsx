@@ -7,6 +7,7 @@ import { format } from 'date-fns'
 import { use } from 'react'
 import LoadingSpinner from '@/components/LoadingSpinner'
 import { calculateTipouts, roleReceivesTipoutType } from '@/utils/tipoutCalculations'
+import { DailyRolePresence, TipoutBasis, TipoutTypeDefinition } from '@/types/reports'
 
 type Employee = {
   id: string
@@ -21,6 +22,7 @@ type Role = {
     id: string
     tipoutType: string
     percentageRate: number
+    basis?: TipoutBasis
     effectiveFrom: string
     effectiveTo: string | null
   }[]
@@ -34,6 +36,9 @@ type ShiftFormData = {
   cashTips: number
   creditTips: number
   liquorSales: number
+  foodSales: number
+  netSales: number
+  servicePeriodId?: string | null
 }
 
 type Shift = ShiftFormData & {
@@ -48,8 +53,8 @@ export default function EditShiftPage({ params }: { params: Promise<{ id: string
   const [shift, setShift] = useState<Shift | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [hasHost, setHasHost] = useState(false)
-  const [hasSA, setHasSA] = useState(false)
+  const [tipoutTypes, setTipoutTypes] = useState<TipoutTypeDefinition[]>([])
+  const [presence, setPresence] = useState<DailyRolePresence>({})
   const [isTipoutsExpanded, setIsTipoutsExpanded] = useState(true)
   const [contentHeight, setContentHeight] = useState<number | null>(null)
   const contentRef = useRef<HTMLDivElement>(null)
@@ -63,7 +68,7 @@ export default function EditShiftPage({ params }: { params: Promise<{ id: string
   useEffect(() => {
     const fetchShift = async () => {
       try {
-        // Fetch the shift and all shifts for the same date to determine if hosts/SAs worked
+        // Fetch the shift and all shifts for the same date to determine which receiving roles worked
         const response = await fetch(`/api/shifts/${resolvedParams.id}`)
         if (!response.ok) {
           throw new Error('Failed to fetch shift')
@@ -79,22 +84,31 @@ export default function EditShiftPage({ params }: { params: Promise<{ id: string
         }
         setShift(formattedData)
 
-        // Fetch all shifts for the same date
+        // Fetch all shifts for the same date; presence is per service period
         const date = format(shiftDate, 'yyyy-MM-dd')
         const shiftsResponse = await fetch(`/api/shifts?startDate=${date}&endDate=${date}`)
         if (!shiftsResponse.ok) {
           throw new Error('Failed to fetch shifts')
         }
-        const shiftsData = await shiftsResponse.json()
+        const shiftsData = (await shiftsResponse.json()).filter(
+          (s: Shift) => (s.servicePeriodId ?? null) === (data.servicePeriodId ?? null)
+        )
 
-        // Check if hosts/SAs worked that day using role configurations
-        const hasAnyHost = shiftsData.some((s: Shift) => roleReceivesTipoutType(s, 'host'));
-        const hasAnySA = shiftsData.some((s: Shift) => roleReceivesTipoutType(s, 'sa'));
+        const tipoutTypesResponse = await fetch('/api/tipout-types?active=true')
+        if (!tipoutTypesResponse.ok) {
+          throw new Error('Failed to fetch tipout types')
+        }
+        const tipoutTypesData: TipoutTypeDefinition[] = await tipoutTypesResponse.json()
+
+        // Check which receiving roles worked that service using role configurations
+        const dailyPresence: DailyRolePresence = Object.fromEntries(
+          tipoutTypesData.map(type => [type.key, shiftsData.some((s: Shift) => roleReceivesTipoutType(s, type.key))])
+        );
         
-        console.log('Found hosts/SAs by role configs?', { hasAnyHost, hasAnySA });
+        console.log('Found receiving roles by role configs?', dailyPresence);
         
-        setHasHost(hasAnyHost);
-        setHasSA(hasAnySA);
+        setTipoutTypes(tipoutTypesData);
+        setPresence(dailyPresence);
         
         console.log('Shifts for date:', shiftsData.length, 'shifts found');
       } catch (err) {
@@ -119,13 +133,15 @@ export default function EditShiftPage({ params }: { params: Promise<{ id: string
       })
 
       if (!response.ok) {
-        throw new Error('Failed to update shift')
+        // e.g. the shift is in a closed pay period
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to update shift')
       }
 
       router.push('/shifts')
     } catch (err) {
       console.error('Error updating shift:', err)
-      setError('Failed to update shift')
+      setError(err instanceof Error ? err.message : 'Failed to update shift')
     }
   }
 
@@ -141,16 +157,11 @@ export default function EditShiftPage({ params }: { params: Promise<{ id: string
     return <div>Shift not found</div>
   }
 
-  // Check if this shift is a bartender using role configurations
-  const hasBar = roleReceivesTipoutType(shift, 'bar');
-
-  const { barTipout, hostTipout, saTipout } = calculateTipouts(shift, hasHost, hasSA, hasBar)
+  const tipouts = calculateTipouts(shift, presence)
   
   // Debug logging
   console.log('Final values used for calculation:', { 
-    hasHost, 
-    hasSA,
-    hasBar,
+    presence,
     role: shift.role?.name,
     configCount: shift.role?.configs?.length,
     cashTips: shift.cashTips,
@@ -158,23 +169,7 @@ export default function EditShiftPage({ params }: { params: Promise<{ id: string
     liquorSales: shift.liquorSales
   });
   
-  // Check for host tipout config specifically
-  const hasHostTipoutConfig = shift.role?.configs?.some(config => 
-    config.tipoutType === 'host'
-  );
-  
-  console.log('Host tipout configuration check:', {
-    hasHostTipoutConfig,
-    totalTips: Number(shift.cashTips) + Number(shift.creditTips),
-    hostConfigDetails: shift.role?.configs
-      ?.filter(config => config.tipoutType === 'host')
-      ?.map(config => ({
-        percentageRate: config.percentageRate,
-        tipoutType: config.tipoutType
-      }))
-  });
-  
-  console.log('Calculated tipouts:', { barTipout, hostTipout, saTipout });
+  console.log('Calculated tipouts:', tipouts);
 
   return (
     <div className="space-y-6">
@@ -210,18 +205,12 @@ export default function EditShiftPage({ params }: { params: Promise<{ id: string
               }}
             >
               <div ref={contentRef} className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 mb-4">
-                <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
-                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">bar tipout</dt>
-                  <dd className="mt-1 text-2xl font-semibold text-[var(--foreground)]">${barTipout.toFixed(2)}</dd>
-                </div>
-                <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
-                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">host tipout</dt>
-                  <dd className="mt-1 text-2xl font-semibold text-[var(--foreground)]">${hostTipout.toFixed(2)}</dd>
-                </div>
-                <div className="bg-white dark:bg-gray-800 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
-                  <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">sa tipout</dt>
-                  <dd className="mt-1 text-2xl font-semibold text-[var(--foreground)]">${saTipout.toFixed(2)}</dd>
-                </div>
+                {tipoutTypes.map(type => (
+                  <div key={type.key} className="bg-white dark:bg-gray-800 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                    <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">{type.name.toLowerCase()} tipout</dt>
+                    <dd className="mt-1 text-2xl font-semibold text-[var(--foreground)]">${(tipouts[type.key] || 0).toFixed(2)}</dd>
+                  </div>
+                ))}
               </div>
             </div>
           </div>
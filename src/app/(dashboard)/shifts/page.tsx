@@ -7,6 +7,7 @@ import { useSearchParams, useRouter, usePathname } from 'next/navigation'
 import LoadingSpinner from '@/components/LoadingSpinner'
 import { AdminOnly } from '@/components/RoleBasedUI'
 import { calculateTipouts, roleReceivesTipoutType } from '@/utils/tipoutCalculations'
+import { TipoutTypeDefinition } from '@/types/reports'
 
 type Employee = {
   id: string
@@ -35,6 +36,7 @@ type Shift = {
   cashTips: number
   creditTips: number
   liquorSales: number
+  servicePeriod?: { id: string; name: string } | null
 }
 
 // Create a new client component for the shifts content
@@ -43,6 +45,7 @@ function ShiftsContent() {
   const router = useRouter()
   const pathname = usePathname()
   const [shifts, setShifts] = useState<Shift[]>([])
+  const [tipoutTypes, setTipoutTypes] = useState<TipoutTypeDefinition[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isFilterLoading, setIsFilterLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -108,6 +111,22 @@ function ShiftsContent() {
     fetchShifts()
   }, [filters])
 
+  // Fetch the tipout types once, they define the tipout columns
+  useEffect(() => {
+    const fetchTipoutTypes = async () => {
+      try {
+        const response = await fetch('/api/tipout-types?active=true')
+        if (!response.ok) {
+          throw new Error('Failed to fetch tipout types')
+        }
+        setTipoutTypes(await response.json())
+      } catch (err) {
+        console.error('Error loading tipout types:', err)
+      }
+    }
+    fetchTipoutTypes()
+  }, [])
+
   const handleDelete = async (shiftId: string) => {
     if (!confirm('Are you sure you want to delete this shift?')) {
       return
@@ -119,28 +138,35 @@ function ShiftsContent() {
       })
 
       if (!response.ok) {
-        throw new Error('Failed to delete shift')
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to delete shift')
       }
 
       // Refresh the shifts list
       fetchShifts()
     } catch (err) {
       console.error('Error deleting shift:', err)
-      alert('Failed to delete shift')
+      alert(err instanceof Error ? err.message : 'Failed to delete shift')
     }
   }
 
-  // Group shifts by date to determine if hosts/SAs worked each day
-  const shiftsByDate = shifts.reduce((acc, shift) => {
+  // Key of the day and service period a shift was worked in; presence is checked per service
+  const getServiceKey = (shift: Shift) => {
     // Parse the date and adjust for timezone
     const date = new Date(shift.date)
     // Add timezone offset to get to local time
     date.setMinutes(date.getMinutes() + date.getTimezoneOffset())
     const dateStr = format(date, 'yyyy-MM-dd')
-    if (!acc[dateStr]) {
-      acc[dateStr] = []
+    return shift.servicePeriod ? `${dateStr}:${shift.servicePeriod.id}` : dateStr
+  }
+
+  // Group shifts by service to determine if hosts/SAs worked each day and service period
+  const shiftsByService = shifts.reduce((acc, shift) => {
+    const key = getServiceKey(shift)
+    if (!acc[key]) {
+      acc[key] = []
     }
-    acc[dateStr].push(shift)
+    acc[key].push(shift)
     return acc
   }, {} as Record<string, Shift[]>)
 
@@ -355,15 +381,11 @@ function ShiftsContent() {
                   <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
                     liquor sales
                   </th>
-                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
-                    bar tipout
-                  </th>
-                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
-                    host tipout
-                  </th>
-                  <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
-                    sa tipout
-                  </th>
+                  {tipoutTypes.map(type => (
+                    <th key={type.key} scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                      {type.name.toLowerCase()} tipout
+                    </th>
+                  ))}
                   <AdminOnly>
                     <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6">
                       actions
@@ -377,20 +399,24 @@ function ShiftsContent() {
                   const date = new Date(shift.date)
                   // Add timezone offset to get to local time
                   date.setMinutes(date.getMinutes() + date.getTimezoneOffset())
-                  const dateStr = format(date, 'yyyy-MM-dd')
-                  const dayShifts = shiftsByDate[dateStr]
+                  const dayShifts = shiftsByService[getServiceKey(shift)]
                   
                   // Check for role types based on role configurations rather than name matching
-                  const hasHost = dayShifts.some(s => roleReceivesTipoutType(s, 'host'))
-                  const hasSA = dayShifts.some(s => roleReceivesTipoutType(s, 'sa'))
-                  const hasBar = dayShifts.some(s => roleReceivesTipoutType(s, 'bar'))
+                  const presence = Object.fromEntries(
+                    tipoutTypes.map(type => [type.key, dayShifts.some(s => roleReceivesTipoutType(s, type.key))])
+                  )
                   
-                  const { barTipout, hostTipout, saTipout } = calculateTipouts(shift, hasHost, hasSA, hasBar)
+                  const tipouts = calculateTipouts(shift, presence)
 
                   return (
                     <tr key={shift.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
                       <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-[var(--foreground)] sm:pl-6">
                         {format(date, 'MMM d, yyyy')}
+                        {shift.servicePeriod && (
+                          <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                            {shift.servicePeriod.name.toLowerCase()}
+                          </span>
+                        )}
                       </td>
                       <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
                         {shift.employee.name}
@@ -410,15 +436,14 @@ function ShiftsContent() {
                       <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
                         ${shift.liquorSales.toFixed(2)}
                       </td>
-                      <td className={`whitespace-nowrap px-3 py-4 text-sm ${barTipout !== 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
-                        ${barTipout.toFixed(2)}
-                      </td>
-                      <td className={`whitespace-nowrap px-3 py-4 text-sm ${hostTipout !== 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
-                        ${hostTipout.toFixed(2)}
-                      </td>
-                      <td className={`whitespace-nowrap px-3 py-4 text-sm ${saTipout !== 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
-                        ${saTipout.toFixed(2)}
-                      </td>
+                      {tipoutTypes.map(type => {
+                        const amount = tipouts[type.key] || 0
+                        return (
+                          <td key={type.key} className={`whitespace-nowrap px-3 py-4 text-sm ${amount !== 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                            ${amount.toFixed(2)}
+                          </td>
+                        )
+                      })}
                       <AdminOnly>
                         <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
                           <Link
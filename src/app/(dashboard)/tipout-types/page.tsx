@@ -0,0 +1,490 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { PlusIcon } from '@heroicons/react/24/outline'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import { AdminOnly } from '@/components/RoleBasedUI'
+import { DistributionSplit, TipoutTypeDefinition } from '@/types/reports'
+
+const EMPTY_TIPOUT_TYPE = { key: '', name: '', description: '', sortOrder: '' }
+
+type SplitRow = { group: string; percentage: string }
+
+export default function TipoutTypesPage() {
+  const [tipoutTypes, setTipoutTypes] = useState<TipoutTypeDefinition[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isAddingType, setIsAddingType] = useState(false)
+  const [newType, setNewType] = useState(EMPTY_TIPOUT_TYPE)
+  const [splits, setSplits] = useState<DistributionSplit[]>([])
+  const [editingSplit, setEditingSplit] = useState<{ tipoutType: TipoutTypeDefinition; rows: SplitRow[]; effectiveFrom: string } | null>(null)
+
+  useEffect(() => {
+    fetchTipoutTypes()
+    fetchSplits()
+  }, [])
+
+  const fetchSplits = async () => {
+    try {
+      const response = await fetch('/api/distribution-splits')
+      if (!response.ok) {
+        throw new Error('Failed to fetch distribution splits')
+      }
+      setSplits(await response.json())
+    } catch (err) {
+      setError('Failed to load distribution splits')
+      console.error('Error loading distribution splits:', err)
+    }
+  }
+
+  const handleEditSplit = (tipoutType: TipoutTypeDefinition) => {
+    const rows = splits
+      .filter(split => split.tipoutType === tipoutType.key)
+      .map(split => ({ group: split.group, percentage: split.percentage.toString() }))
+    setEditingSplit({
+      tipoutType,
+      rows: rows.length > 0 ? rows : [{ group: '', percentage: '' }],
+      effectiveFrom: new Date().toISOString().split('T')[0],
+    })
+  }
+
+  const updateSplitRow = (index: number, changes: Partial<SplitRow>) => {
+    if (!editingSplit) return
+    setEditingSplit({
+      ...editingSplit,
+      rows: editingSplit.rows.map((row, rowIndex) => rowIndex === index ? { ...row, ...changes } : row),
+    })
+  }
+
+  const handleSaveSplit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editingSplit) return
+
+    try {
+      const key = editingSplit.tipoutType.key
+      const response = await fetch(`/api/distribution-splits/${key}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          splits: editingSplit.rows
+            .filter(row => row.group.trim() || row.percentage)
+            .map(row => ({ group: row.group.trim(), percentage: Number(row.percentage) })),
+          effectiveFrom: editingSplit.effectiveFrom,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to save distribution split')
+      }
+
+      // A split dated ahead is not in effect yet, so reload the ones that are
+      await fetchSplits()
+      setEditingSplit(null)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save distribution split')
+      console.error('Error saving distribution split:', err)
+    }
+  }
+
+  const splitTotal = editingSplit?.rows.reduce((acc, row) => acc + (Number(row.percentage) || 0), 0) ?? 0
+
+  const fetchTipoutTypes = async () => {
+    try {
+      const response = await fetch('/api/tipout-types')
+      if (!response.ok) {
+        throw new Error('Failed to fetch tipout types')
+      }
+      const data = await response.json()
+      setTipoutTypes(data)
+    } catch (err) {
+      setError('Failed to load tipout types')
+      console.error('Error loading tipout types:', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleAddType = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newType.key.trim() || !newType.name.trim()) return
+
+    try {
+      const response = await fetch('/api/tipout-types', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          key: newType.key.trim(),
+          name: newType.name.trim(),
+          description: newType.description.trim(),
+          sortOrder: newType.sortOrder ? Number(newType.sortOrder) : tipoutTypes.length,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to add tipout type')
+      }
+
+      const created = await response.json()
+      setTipoutTypes([...tipoutTypes, created].sort((a, b) => a.sortOrder - b.sortOrder))
+      setNewType(EMPTY_TIPOUT_TYPE)
+      setIsAddingType(false)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add tipout type')
+      console.error('Error adding tipout type:', err)
+    }
+  }
+
+  const handleToggleActive = async (tipoutType: TipoutTypeDefinition) => {
+    try {
+      const response = await fetch(`/api/tipout-types/${tipoutType.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ active: !tipoutType.active }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to update tipout type')
+      }
+
+      const updated = await response.json()
+      setTipoutTypes(tipoutTypes.map(type => type.id === updated.id ? updated : type))
+    } catch (err) {
+      setError('Failed to update tipout type')
+      console.error('Error updating tipout type:', err)
+    }
+  }
+
+  const handleDeleteType = async (tipoutType: TipoutTypeDefinition) => {
+    if (!confirm(`Are you sure you want to delete the ${tipoutType.name} tipout type?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/tipout-types/${tipoutType.id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to delete tipout type')
+      }
+
+      setTipoutTypes(tipoutTypes.filter(type => type.id !== tipoutType.id))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete tipout type')
+      console.error('Error deleting tipout type:', err)
+    }
+  }
+
+  if (isLoading) {
+    return <LoadingSpinner />
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-[var(--foreground)]">tipout types</h1>
+          <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+            the kinds of tipouts roles can pay and receive. rates are configured per role on the roles page.
+          </p>
+        </div>
+        <AdminOnly>
+          <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none">
+            <button
+              type="button"
+              onClick={() => setIsAddingType(true)}
+              className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+            >
+              <PlusIcon className="h-5 w-5 inline-block mr-1" />
+              add tipout type
+            </button>
+          </div>
+        </AdminOnly>
+      </div>
+
+      {error && (
+        <div className="mt-8 rounded-md bg-red-50 dark:bg-red-900/50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800 dark:text-red-200">{error}</h3>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isAddingType && (
+        <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700 transition-all hover:shadow-md">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-base font-medium text-[var(--foreground)] mb-4">add new tipout type</h3>
+            <form onSubmit={handleAddType} className="space-y-4">
+              <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
+                <div className="sm:col-span-2">
+                  <label htmlFor="key" className="block text-sm font-medium text-[var(--foreground)]">
+                    key <span className="text-red-500">*</span>
+                  </label>
+                  <div className="mt-2">
+                    <input
+                      type="text"
+                      name="key"
+                      id="key"
+                      value={newType.key}
+                      onChange={(e) => setNewType({ ...newType, key: e.target.value.toLowerCase() })}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                      placeholder="e.g. kitchen"
+                      pattern="[a-z][a-z0-9_]*"
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="sm:col-span-3">
+                  <label htmlFor="name" className="block text-sm font-medium text-[var(--foreground)]">
+                    name <span className="text-red-500">*</span>
+                  </label>
+                  <div className="mt-2">
+                    <input
+                      type="text"
+                      name="name"
+                      id="name"
+                      value={newType.name}
+                      onChange={(e) => setNewType({ ...newType, name: e.target.value })}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                      placeholder="e.g. Kitchen"
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="sm:col-span-1">
+                  <label htmlFor="sortOrder" className="block text-sm font-medium text-[var(--foreground)]">
+                    order
+                  </label>
+                  <div className="mt-2">
+                    <input
+                      type="number"
+                      name="sortOrder"
+                      id="sortOrder"
+                      value={newType.sortOrder}
+                      onChange={(e) => setNewType({ ...newType, sortOrder: e.target.value })}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                      min="0"
+                    />
+                  </div>
+                </div>
+                <div className="sm:col-span-6">
+                  <label htmlFor="description" className="block text-sm font-medium text-[var(--foreground)]">
+                    description
+                  </label>
+                  <div className="mt-2">
+                    <input
+                      type="text"
+                      name="description"
+                      id="description"
+                      value={newType.description}
+                      onChange={(e) => setNewType({ ...newType, description: e.target.value })}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                      placeholder="e.g. Percentage of total tips"
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsAddingType(false)
+                    setNewType(EMPTY_TIPOUT_TYPE)
+                  }}
+                  className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-white dark:ring-gray-700 dark:hover:bg-gray-700"
+                >
+                  cancel
+                </button>
+                <button
+                  type="submit"
+                  className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+                >
+                  add
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {editingSplit && (
+        <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700 transition-all hover:shadow-md">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-base font-medium text-[var(--foreground)]">split the {editingSplit.tipoutType.name.toLowerCase()} pool</h3>
+            <p className="mt-1 mb-4 text-sm text-gray-500 dark:text-gray-400">
+              each sharing pool takes its percentage no matter how many hours it worked. leave every row empty to share the pool by hours.
+              shifts before the effective date keep the split they had.
+            </p>
+            <form onSubmit={handleSaveSplit} className="space-y-3">
+              <div className="flex items-center gap-3">
+                <label htmlFor="splitEffectiveFrom" className="text-sm text-gray-500 dark:text-gray-400">effective from</label>
+                <input
+                  type="date"
+                  id="splitEffectiveFrom"
+                  value={editingSplit.effectiveFrom}
+                  onChange={(e) => e.target.value && setEditingSplit({ ...editingSplit, effectiveFrom: e.target.value })}
+                  className="block w-40 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                />
+              </div>
+              {editingSplit.rows.map((row, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <input
+                    type="text"
+                    value={row.group}
+                    onChange={(e) => updateSplitRow(index, { group: e.target.value })}
+                    className="block w-48 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                    placeholder="sharing pool, e.g. bussers"
+                    aria-label="sharing pool"
+                  />
+                  <input
+                    type="number"
+                    value={row.percentage}
+                    onChange={(e) => updateSplitRow(index, { percentage: e.target.value })}
+                    className="block w-24 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    aria-label="percentage"
+                  />
+                  <span className="text-sm text-gray-500 dark:text-gray-400">%</span>
+                  <button
+                    type="button"
+                    onClick={() => setEditingSplit({ ...editingSplit, rows: editingSplit.rows.filter((_, rowIndex) => rowIndex !== index) })}
+                    className="text-sm text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
+                  >
+                    remove
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() => setEditingSplit({ ...editingSplit, rows: [...editingSplit.rows, { group: '', percentage: '' }] })}
+                  className="text-sm text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300"
+                >
+                  add sharing pool
+                </button>
+                <span className={`text-sm ${splitTotal === 0 || Math.abs(splitTotal - 100) < 0.001 ? 'text-gray-500 dark:text-gray-400' : 'text-red-600 dark:text-red-400'}`}>
+                  total {Number(splitTotal.toFixed(2))}%
+                </span>
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setEditingSplit(null)}
+                  className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 dark:bg-gray-800 dark:text-white dark:ring-gray-700 dark:hover:bg-gray-700"
+                >
+                  cancel
+                </button>
+                <button
+                  type="submit"
+                  className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+                >
+                  save split
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-300 dark:divide-gray-700">
+            <thead className="bg-gray-50/75 dark:bg-gray-800/75">
+              <tr>
+                <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 dark:text-white sm:pl-6">
+                  name
+                </th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                  key
+                </th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                  description
+                </th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                  split
+                </th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                  order
+                </th>
+                <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">
+                  status
+                </th>
+                <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-6">
+                  <span className="sr-only">actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {tipoutTypes.map((tipoutType) => (
+                <tr key={tipoutType.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                  <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-[var(--foreground)] sm:pl-6">
+                    {tipoutType.name}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm font-mono text-gray-500 dark:text-gray-400">
+                    {tipoutType.key}
+                  </td>
+                  <td className="px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
+                    {tipoutType.description || '—'}
+                  </td>
+                  <td className="px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
+                    {splits.filter(split => split.tipoutType === tipoutType.key).map(split => `${split.group} ${split.percentage}%`).join(' · ') || 'by hours'}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500 dark:text-gray-400">
+                    {tipoutType.sortOrder}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-4 text-sm">
+                    <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${
+                      tipoutType.active
+                        ? 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200'
+                        : 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200'
+                    }`}>
+                      {tipoutType.active ? 'active' : 'inactive'}
+                    </span>
+                  </td>
+                  <AdminOnly>
+                  <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
+                    <button
+                      onClick={() => handleEditSplit(tipoutType)}
+                      className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300 mr-4"
+                    >
+                      split
+                    </button>
+                    <button
+                      onClick={() => handleToggleActive(tipoutType)}
+                      className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300 mr-4"
+                    >
+                      {tipoutType.active ? 'deactivate' : 'activate'}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteType(tipoutType)}
+                      className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
+                    >
+                      delete
+                    </button>
+                  </td>
+                  </AdminOnly>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -82,6 +82,10 @@ export function UserItem({ user, assignRole, removeRole, userRoleEnum }: UserIte
             <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
               <span className="font-medium">Roles:</span> {userRoles.length > 0 ? userRoles.join(", ") : "No roles assigned"}
             </div>
+            {/* Entered on an employee's page to link them, for staff to see their own tips */}
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              <span className="font-medium">User ID:</span> <span className="font-mono select-all">{user.id}</span>
+            </div>
           </div>
         </div>
           
@@ -105,6 +109,16 @@ export function UserItem({ user, assignRole, removeRole, userRoleEnum }: UserIte
             disabled={userRoles.includes(userRoleEnum.USER)}
             buttonClass="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 w-full sm:w-auto"
           />
+
+          <UserRoleForm
+            action={assignRole}
+            userId={user.id}
+            role={userRoleEnum.STAFF}
+            buttonText="Make Staff"
+            loadingText="Making Staff..."
+            disabled={userRoles.includes(userRoleEnum.STAFF)}
+            buttonClass="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded-md shadow-sm text-white bg-gray-600 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 w-full sm:w-auto"
+          />
           
           {userRoles.map((role) => (
             <UserRoleForm
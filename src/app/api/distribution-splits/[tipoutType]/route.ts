@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server'
+import { prisma, runInOrder } from '@/lib/prisma'
+import { findUnknownTipoutTypes } from '@/lib/tipoutTypes'
+import { getDistributionSplitError } from '@/lib/poolSettings'
+import { planDistributionSplit } from '@/lib/distributionSplits'
+import { findLockedPayPeriodError } from '@/lib/payPeriods'
+import { requireRole } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
+
+/**
+ * Sets how a tipout type's pool is split between distribution groups from `effectiveFrom` (today when not given)
+ * to `effectiveTo`, or until the next split scheduled after it when open-ended.
+ * An empty list removes the split over those dates, so every group receiving the type shares it by hours again.
+ * Earlier splits stay on record, so shifts before `effectiveFrom` keep theirs.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { tipoutType: string } }
+) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const { tipoutType } = await params
+    const body = await request.json()
+    const splits: { group: string; percentage: number }[] = Array.isArray(body.splits) ? body.splits : []
+
+    const unknownTypes = await findUnknownTipoutTypes([tipoutType])
+    if (unknownTypes.length > 0) {
+      return NextResponse.json({ error: `Unknown tipout type: ${tipoutType}` }, { status: 400 })
+    }
+
+    const splitError = getDistributionSplitError(splits)
+    if (splitError) {
+      return NextResponse.json({ error: splitError }, { status: 400 })
+    }
+
+    // Shift dates are stored at midnight UTC, so a split from today covers today's shifts
+    const now = new Date()
+    const effectiveFrom = new Date(body.effectiveFrom || now.toISOString().split('T')[0])
+    const requestedTo = body.effectiveTo ? new Date(body.effectiveTo) : null
+    if (isNaN(effectiveFrom.getTime()) || (requestedTo && isNaN(requestedTo.getTime()))) {
+      return NextResponse.json({ error: 'Invalid effective date' }, { status: 400 })
+    }
+    if (requestedTo && requestedTo < effectiveFrom) {
+      return NextResponse.json({ error: 'effectiveTo cannot be before effectiveFrom' }, { status: 400 })
+    }
+
+    // Planned, checked against closed pay periods and written in one transaction
+    const outcome = await prisma.$transaction(async tx => {
+      const { effectiveTo, writes } = await planDistributionSplit(tipoutType, splits, effectiveFrom, requestedTo, now, tx)
+      const lockedError = await findLockedPayPeriodError([{ from: effectiveFrom, to: effectiveTo }], tx)
+      if (lockedError) return { error: lockedError }
+      return { results: await runInOrder(writes) }
+    })
+    if ('error' in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: 409 })
+    }
+    const saved = outcome.results.slice(outcome.results.length - splits.length)
+
+    return NextResponse.json(saved.map(split => ({ ...split, percentage: Number(split.percentage) })))
+  } catch (error) {
+    console.error('Error updating distribution split:', error)
+    return NextResponse.json({ error: 'Failed to update distribution split' }, { status: 500 })
+  }
+}
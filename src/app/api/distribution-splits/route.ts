@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireSession } from '@/lib/auth'
+import { getSplitsInEffectFilter } from '@/lib/distributionSplits'
+
+/**
+ * The splits in effect on `date` (yyyy-MM-dd, today when not given), optionally for one tipout type.
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireSession()
+  if (denied) return denied
+
+  try {
+    const tipoutType = request.nextUrl.searchParams.get('tipoutType')
+    const date = new Date(request.nextUrl.searchParams.get('date') || new Date().toISOString().split('T')[0])
+    if (isNaN(date.getTime())) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 })
+    }
+
+    const splits = await prisma.distributionSplit.findMany({
+      where: { ...getSplitsInEffectFilter(date), ...(tipoutType ? { tipoutType } : {}) },
+      orderBy: [{ tipoutType: 'asc' }, { percentage: 'desc' }, { group: 'asc' }],
+    })
+    return NextResponse.json(splits.map(split => ({ ...split, percentage: Number(split.percentage) })))
+  } catch (error) {
+    console.error('Error fetching distribution splits:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch distribution splits' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getEarningCodes, getEarningCodesError, updateEarningCodes } from '@/lib/earningCodes'
+import { isPayrollExportFormat } from '@/utils/payrollExport'
+import { requireRole, requireSession } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
+
+/**
+ * The earning codes each payroll export format imports base hours, overtime premium, make-up and tips under.
+ */
+export async function GET() {
+  const denied = await requireSession()
+  if (denied) return denied
+
+  try {
+    return NextResponse.json(await getEarningCodes())
+  } catch (error) {
+    console.error('Error fetching earning codes:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch earning codes' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const { format, codes } = await request.json()
+    if (!isPayrollExportFormat(format)) {
+      return NextResponse.json({ error: `Invalid export format: ${format}` }, { status: 400 })
+    }
+
+    const codesError = getEarningCodesError(codes ?? {})
+    if (codesError) {
+      return NextResponse.json({ error: codesError }, { status: 400 })
+    }
+
+    return NextResponse.json(await updateEarningCodes(format, codes ?? {}))
+  } catch (error) {
+    console.error('Error saving earning codes:', error)
+    return NextResponse.json(
+      { error: 'Failed to save earning codes' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getPayRateError, schedulePayRate } from '@/lib/payRates'
+import { requireRole } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
+
+/**
+ * The employee's overrides of their roles' base pay rates.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+
+    const payRates = await prisma.payRate.findMany({
+      where: { employeeId: id },
+      include: { role: { select: { id: true, name: true, basePayRate: true } } },
+      orderBy: [{ roleId: 'asc' }, { effectiveFrom: 'desc' }],
+    })
+
+    return NextResponse.json(payRates.map(payRate => ({
+      ...payRate,
+      rate: Number(payRate.rate),
+      role: { ...payRate.role, basePayRate: Number(payRate.role.basePayRate) },
+    })))
+  } catch (error) {
+    console.error('Error fetching employee pay rates:', error)
+    return NextResponse.json({ error: 'Failed to fetch employee pay rates' }, { status: 500 })
+  }
+}
+
+/**
+ * Pays the employee a different base rate than their role's over a span of dates, e.g. a senior bartender.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const { roleId, rate, effectiveFrom: effectiveFromInput, effectiveTo: effectiveToInput } = await request.json()
+
+    if (!roleId) {
+      return NextResponse.json({ error: 'Role is required' }, { status: 400 })
+    }
+
+    const effectiveFrom = effectiveFromInput ? new Date(effectiveFromInput) : new Date()
+    const effectiveTo = effectiveToInput ? new Date(effectiveToInput) : null
+    const payRateError = getPayRateError(rate, effectiveFrom, effectiveTo)
+    if (payRateError) {
+      return NextResponse.json({ error: payRateError }, { status: 400 })
+    }
+
+    const payRate = await schedulePayRate({ roleId, employeeId: id, rate: Number(rate), effectiveFrom, effectiveTo })
+
+    return NextResponse.json({ ...payRate, rate: Number(payRate.rate) })
+  } catch (error) {
+    console.error('Error saving employee pay rate:', error)
+    return NextResponse.json({ error: 'Failed to save employee pay rate' }, { status: 500 })
+  }
+}
+
+/**
+ * Removes one of the employee's overrides, so those dates are paid at the role's rate again.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const payRateId = new URL(request.url).searchParams.get('payRateId')
+
+    if (!payRateId) {
+      return NextResponse.json({ error: 'Pay rate is required' }, { status: 400 })
+    }
+
+    const { count } = await prisma.payRate.deleteMany({ where: { id: payRateId, employeeId: id } })
+    if (count === 0) {
+      return NextResponse.json({ error: 'Pay rate not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing employee pay rate:', error)
+    return NextResponse.json({ error: 'Failed to remove employee pay rate' }, { status: 500 })
+  }
+}
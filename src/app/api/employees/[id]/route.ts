@@ -1,11 +1,22 @@
 import { NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
+import { getEmployeeScope, requireRole, requireSession } from '@/lib/auth'
+import { canSeeEmployee } from '@/utils/access'
+import { MANAGER_ROLES } from '@/lib/roles'
 
 export async function GET(
   request: Request,
   { params }: { params: { id: string } }
 ) {
+  const denied = await requireSession()
+  if (denied) return denied
+
   try {
+    if (!canSeeEmployee(await getEmployeeScope(), params.id)) {
+      return NextResponse.json({ error: 'Employee not found' }, { status: 404 })
+    }
+
     const employee = await prisma.employee.findUnique({
       where: { id: params.id },
       include: {
@@ -28,9 +39,12 @@ export async function PUT(
   request: Request,
   { params }: { params: { id: string } }
 ) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
   try {
     const body = await request.json()
-    const { name, active, defaultRoleId } = body
+    const { name, active, defaultRoleId, payrollId, clerkUserId } = body
 
     const employee = await prisma.employee.update({
       where: { id: params.id },
@@ -38,6 +52,9 @@ export async function PUT(
         name,
         active,
         defaultRoleId,
+        // Blank clears it; left out keeps it
+        payrollId: payrollId === undefined ? undefined : String(payrollId).trim() || null,
+        clerkUserId: clerkUserId === undefined ? undefined : String(clerkUserId).trim() || null,
       },
       include: {
         defaultRole: true,
@@ -46,6 +63,9 @@ export async function PUT(
 
     return NextResponse.json(employee)
   } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json({ error: 'That user is already linked to another employee' }, { status: 409 })
+    }
     console.error('Error updating employee:', error)
     return NextResponse.json({ error: 'Failed to update employee' }, { status: 500 })
   }
@@ -55,6 +75,9 @@ export async function DELETE(
   request: Request,
   { params }: { params: { id: string } }
 ) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
   try {
     await prisma.employee.delete({
       where: { id: params.id },
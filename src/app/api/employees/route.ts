@@ -1,9 +1,17 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { getEmployeeScope, requireRole, requireSession } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
 
 export async function GET() {
+  const denied = await requireSession()
+  if (denied) return denied
+
   try {
+    // Staff only see themselves
+    const scope = await getEmployeeScope()
     const employees = await prisma.employee.findMany({
+      where: scope.all ? undefined : { id: scope.employeeId ?? { in: [] } },
       include: {
         defaultRole: true,
       },
@@ -22,6 +30,9 @@ export async function GET() {
 }
 
 export async function POST(request: Request) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
   try {
     const body = await request.json()
     const { name } = body
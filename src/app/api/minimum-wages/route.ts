@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getMinimumWageError, scheduleMinimumWage } from '@/lib/minimumWages'
+import { requireRole, requireSession } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
+
+const toResponse = <T extends { minimumWage: unknown; tippedWage: unknown }>(wage: T) => ({
+  ...wage,
+  minimumWage: Number(wage.minimumWage),
+  tippedWage: Number(wage.tippedWage),
+})
+
+/**
+ * The minimum and tipped wage rates reports hold each employee's workweeks to, newest first.
+ */
+export async function GET() {
+  const denied = await requireSession()
+  if (denied) return denied
+
+  try {
+    const wages = await prisma.minimumWage.findMany({ orderBy: { effectiveFrom: 'desc' } })
+    return NextResponse.json(wages.map(toResponse))
+  } catch (error) {
+    console.error('Error fetching minimum wages:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch minimum wages' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Schedules new wage rates, e.g. a yearly increase. Rates already recorded for those dates give way to them.
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const { minimumWage, tippedWage, effectiveFrom: effectiveFromInput, effectiveTo: effectiveToInput } = await request.json()
+
+    const effectiveFrom = effectiveFromInput ? new Date(effectiveFromInput) : new Date()
+    const effectiveTo = effectiveToInput ? new Date(effectiveToInput) : null
+    const wageError = getMinimumWageError(minimumWage, tippedWage, effectiveFrom, effectiveTo)
+    if (wageError) {
+      return NextResponse.json({ error: wageError }, { status: 400 })
+    }
+
+    const wage = await scheduleMinimumWage({
+      minimumWage: Number(minimumWage),
+      tippedWage: Number(tippedWage),
+      effectiveFrom,
+      effectiveTo,
+    })
+
+    return NextResponse.json(toResponse(wage))
+  } catch (error) {
+    console.error('Error saving minimum wage:', error)
+    return NextResponse.json(
+      { error: 'Failed to save minimum wage' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Removes a pair of wage rates, so reports stop checking those dates.
+ */
+export async function DELETE(request: NextRequest) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const id = request.nextUrl.searchParams.get('id')
+    if (!id) {
+      return NextResponse.json({ error: 'Minimum wage is required' }, { status: 400 })
+    }
+
+    const { count } = await prisma.minimumWage.deleteMany({ where: { id } })
+    if (count === 0) {
+      return NextResponse.json({ error: 'Minimum wage not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing minimum wage:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove minimum wage' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getCurrentUserLabel, isAdmin, requireRole } from '@/lib/auth'
+import { getPayPeriodTransition, isPayPeriodAction } from '@/utils/payPeriods'
+import { MANAGER_ROLES } from '@/lib/roles'
+
+/**
+ * Moves a pay period on: `close` once payroll is run, `export` once it is sent to the payroll provider,
+ * or `reopen` (admins only) to allow changes to its shifts and role configs again.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const { action } = await request.json()
+
+    if (!isPayPeriodAction(action)) {
+      return NextResponse.json({ error: `Invalid pay period action: ${action}` }, { status: 400 })
+    }
+    if (action === 'reopen' && !(await isAdmin())) {
+      return NextResponse.json({ error: 'Only admins can reopen a pay period' }, { status: 403 })
+    }
+
+    const payPeriod = await prisma.payPeriod.findUnique({ where: { id } })
+    if (!payPeriod) {
+      return NextResponse.json({ error: 'Pay period not found' }, { status: 404 })
+    }
+
+    const status = getPayPeriodTransition(payPeriod.status, action)
+    if (!status) {
+      return NextResponse.json({ error: `Cannot ${action} a pay period that is ${payPeriod.status}` }, { status: 409 })
+    }
+
+    const now = new Date()
+    const user = await getCurrentUserLabel()
+    const updated = await prisma.payPeriod.update({
+      where: { id },
+      data: {
+        status,
+        ...(action === 'close' ? { closedAt: now, closedBy: user } : {}),
+        ...(action === 'export' ? { exportedAt: now, exportedBy: user } : {}),
+        ...(action === 'reopen' ? { reopenedAt: now, reopenedBy: user } : {}),
+      },
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Error updating pay period:', error)
+    return NextResponse.json(
+      { error: 'Failed to update pay period' },
+      { status: 500 }
+    )
+  }
+}
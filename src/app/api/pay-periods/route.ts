@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { openPayPeriod } from '@/lib/payPeriods'
+import { requireRole, requireSession } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
+
+/**
+ * Pay periods on record, newest first.
+ */
+export async function GET() {
+  const denied = await requireSession()
+  if (denied) return denied
+
+  try {
+    const payPeriods = await prisma.payPeriod.findMany({ orderBy: { startDate: 'desc' } })
+    return NextResponse.json(payPeriods)
+  } catch (error) {
+    console.error('Error fetching pay periods:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch pay periods' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Opens the pay period a date (today when not given) falls in.
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const { date } = await request.json().catch(() => ({}))
+    const day = date || new Date().toISOString().split('T')[0]
+    if (isNaN(new Date(day).getTime())) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 })
+    }
+
+    const result = await openPayPeriod(day)
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 409 })
+    }
+
+    return NextResponse.json(result.payPeriod)
+  } catch (error) {
+    console.error('Error opening pay period:', error)
+    return NextResponse.json(
+      { error: 'Failed to open pay period' },
+      { status: 500 }
+    )
+  }
+}
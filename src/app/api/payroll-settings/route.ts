@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getPayrollSettings, getPayrollSettingsError, isPayrollSettingsChange, updatePayrollSettings } from '@/lib/payrollSettings'
+import { changeUnlessPayPeriodLocked } from '@/lib/payPeriods'
+import { requireRole, requireSession } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
+
+/**
+ * The workweek, overtime and pay period rules payroll is run by.
+ */
+export async function GET() {
+  const denied = await requireSession()
+  if (denied) return denied
+
+  try {
+    return NextResponse.json(await getPayrollSettings())
+  } catch (error) {
+    console.error('Error fetching payroll settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch payroll settings' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const { workweekStartDay, overtimeThresholdHours, overtimeMultiplier, payPeriodFrequency, payPeriodAnchorDate } = await request.json()
+    const changes = { workweekStartDay, overtimeThresholdHours, overtimeMultiplier, payPeriodFrequency, payPeriodAnchorDate }
+
+    // Checked as they will be once saved, since the anchor date has to fall on the workweek start day
+    const current = await getPayrollSettings()
+    const settingsError = getPayrollSettingsError({
+      ...current,
+      ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+    })
+    if (settingsError) {
+      return NextResponse.json({ error: settingsError }, { status: 400 })
+    }
+
+    // Closed and exported periods were paid under the current rules, and reports on them are worked out by the
+    // saved rules, so the rules stay as they are until every such period is reopened
+    const outcome = await changeUnlessPayPeriodLocked(
+      isPayrollSettingsChange(current, changes) ? [{ from: new Date(0), to: null }] : [],
+      tx => updatePayrollSettings(changes, tx)
+    )
+    if ('error' in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: 409 })
+    }
+    return NextResponse.json(outcome.result)
+  } catch (error) {
+    console.error('Error saving payroll settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to save payroll settings' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { explainShiftCalculations } from '@/utils/reportCalculations';
+import { loadReportInputs, parseConfiguredOn } from '@/lib/reportShifts';
+import { requireRole } from '@/lib/auth';
+import { MANAGER_ROLES } from '@/lib/roles';
+
+/**
+ * Explains how an employee's payroll tips were calculated over a date range.
+ * Pools are shared, so every shift of each day is run through the calculation;
+ * only the requested employee's shift traces are returned, next to that day's pool totals.
+ */
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(MANAGER_ROLES);
+    if (denied) return denied;
+
+    const searchParams = request.nextUrl.searchParams;
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    const employeeId = searchParams.get('employeeId');
+    const roleName = searchParams.get('role');
+
+    if (!startDate || !endDate || !employeeId) {
+        return NextResponse.json({ message: 'Missing required parameters (startDate, endDate, employeeId)' }, { status: 400 });
+    }
+
+    // Reruns the report with the role configs as they were saved on that date
+    const configuredOnParam = searchParams.get('configuredOn');
+    if (configuredOnParam && !parseConfiguredOn(configuredOnParam)) {
+        return NextResponse.json({ message: 'Invalid configuredOn date' }, { status: 400 });
+    }
+
+    try {
+        // Shifts around the range are loaded too, so week and pay period pools are explained as they were paid
+        const { shifts, payrollSettings } = await loadReportInputs(startDate, endDate, configuredOnParam);
+        const trace = explainShiftCalculations(shifts, { payrollSettings, range: { startDate, endDate } });
+
+        const days = trace
+            .map(day => ({
+                ...day,
+                shifts: day.shifts.filter(shift =>
+                    shift.employeeId === employeeId && (!roleName || shift.roleName === roleName)
+                ),
+            }))
+            .filter(day => day.shifts.length > 0);
+
+        return NextResponse.json({ employeeId, roleName, startDate, endDate, configuredOn: configuredOnParam, days });
+    } catch (error) {
+        console.error("Error explaining report calculation:", error);
+        return NextResponse.json({ message: 'Error explaining report data' }, { status: 500 });
+    }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format, parseISO } from 'date-fns';
+import { buildReportExportTables, isReportExportFormat, renderReportCsv, REPORT_EXPORT_FORMATS } from '@/utils/reportExport';
+import { parseConfiguredOn } from '@/lib/reportShifts';
+import { getReportData } from '@/lib/reportData';
+import { renderReportPdf, renderReportXlsx } from '@/lib/reportFiles';
+import { requireRole } from '@/lib/auth';
+import { MANAGER_ROLES } from '@/lib/roles';
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM d, yyyy').toLowerCase();
+
+/**
+ * Exports the report for a date range as CSV, XLSX or a paginated PDF, from the same data /api/reports returns:
+ * the overall summary, the employee breakdown (per role, or grouped by employee with groupByEmployee=true)
+ * and the tip pool summaries. employeeId narrows the breakdown to one employee, as on the page.
+ */
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(MANAGER_ROLES);
+    if (denied) return denied;
+
+    const searchParams = request.nextUrl.searchParams;
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    const fileFormat = searchParams.get('format') || 'csv';
+
+    if (!startDate || !endDate) {
+        return NextResponse.json({ message: 'Missing required date parameters (startDate, endDate)' }, { status: 400 });
+    }
+    if (!isReportExportFormat(fileFormat)) {
+        return NextResponse.json({ message: `Invalid export format: ${fileFormat}` }, { status: 400 });
+    }
+
+    const configuredOn = searchParams.get('configuredOn');
+    if (configuredOn && parseConfiguredOn(configuredOn) === null) {
+        return NextResponse.json({ message: 'Invalid configuredOn date' }, { status: 400 });
+    }
+
+    try {
+        const data = await getReportData(startDate, endDate, configuredOn);
+        const tables = buildReportExportTables(data, {
+            groupByEmployee: searchParams.get('groupByEmployee') === 'true',
+            employeeId: searchParams.get('employeeId'),
+        });
+
+        const heading = {
+            title: 'tip report',
+            subtitle: [
+                startDate === endDate ? formatDay(startDate) : `${formatDay(startDate)} to ${formatDay(endDate)}`,
+                ...(configuredOn ? [`as configured on ${formatDay(configuredOn)}`] : []),
+                `generated ${format(new Date(), 'MMM d, yyyy h:mm a').toLowerCase()}`,
+            ].join(' · '),
+        };
+
+        const body = fileFormat === 'csv'
+            ? renderReportCsv(tables)
+            : fileFormat === 'xlsx'
+                ? await renderReportXlsx(tables, heading)
+                : await renderReportPdf(tables, heading);
+
+        return new NextResponse(body, {
+            headers: {
+                'Content-Type': REPORT_EXPORT_FORMATS.find(option => option.value === fileFormat)!.contentType,
+                'Content-Disposition': `attachment; filename="tip-report-${startDate}-to-${endDate}.${fileFormat}"`,
+            },
+        });
+    } catch (error) {
+        console.error("Error exporting report:", error);
+        return NextResponse.json({ message: 'Error exporting report' }, { status: 500 });
+    }
+}
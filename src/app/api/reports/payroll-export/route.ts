@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calculateReport } from '@/utils/reportCalculations';
+import { buildPayrollExportLines, findMissingExternalIds, isPayrollExportFormat, renderPayrollExport } from '@/utils/payrollExport';
+import { prisma as db } from '@/lib/prisma';
+import { loadReportInputs, parseConfiguredOn } from '@/lib/reportShifts';
+import { getEarningCodes } from '@/lib/earningCodes';
+import { requireRole } from '@/lib/auth';
+import { MANAGER_ROLES } from '@/lib/roles';
+
+/**
+ * Exports a report's employee/role totals as a payroll import file: base hours, overtime premium,
+ * minimum wage make-up, cash tips and payroll tips, each under the format's earning code.
+ */
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(MANAGER_ROLES);
+    if (denied) return denied;
+
+    const searchParams = request.nextUrl.searchParams;
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    const format = searchParams.get('format') || 'csv';
+
+    if (!startDate || !endDate) {
+        return NextResponse.json({ message: 'Missing required date parameters (startDate, endDate)' }, { status: 400 });
+    }
+    if (!isPayrollExportFormat(format)) {
+        return NextResponse.json({ message: `Invalid export format: ${format}` }, { status: 400 });
+    }
+
+    // Exports the report as it calculates with the role configs saved on that date
+    const configuredOn = searchParams.get('configuredOn');
+    if (configuredOn && parseConfiguredOn(configuredOn) === null) {
+        return NextResponse.json({ message: 'Invalid configuredOn date' }, { status: 400 });
+    }
+
+    try {
+        const inputs = await loadReportInputs(startDate, endDate, configuredOn);
+        const { employeeSummaries } = calculateReport(inputs);
+
+        const employees = await db.employee.findMany({
+            where: { id: { in: Array.from(new Set(employeeSummaries.map(summary => summary.employeeId))) } },
+            select: { id: true, payrollId: true },
+        });
+        const externalIds = Object.fromEntries(employees.map(employee => [employee.id, employee.payrollId]));
+        const codes = (await getEarningCodes())[format];
+        const lines = buildPayrollExportLines(employeeSummaries, externalIds, codes);
+
+        const missing = findMissingExternalIds(format, lines);
+        if (missing.length > 0) {
+            return NextResponse.json({ message: `Add a payroll ID for ${missing.join(', ')} before exporting` }, { status: 400 });
+        }
+
+        return new NextResponse(renderPayrollExport(format, lines, { startDate, endDate }), {
+            headers: {
+                'Content-Type': 'text/csv; charset=utf-8',
+                'Content-Disposition': `attachment; filename="payroll-${format}-${startDate}-to-${endDate}.csv"`,
+            },
+        });
+    } catch (error) {
+        console.error("Error exporting payroll:", error);
+        return NextResponse.json({ message: 'Error exporting payroll' }, { status: 500 });
+    }
+}
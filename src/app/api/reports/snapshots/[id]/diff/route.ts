@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma as db } from '@/lib/prisma';
+import { diffReportSnapshot, toReportSnapshot } from '@/lib/reportSnapshots';
+import { requireRole } from '@/lib/auth';
+import { MANAGER_ROLES } from '@/lib/roles';
+
+/**
+ * Recalculates a snapshot's report from the current data and lists what changed since it was frozen,
+ * overall and per employee, to the cent.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const denied = await requireRole(MANAGER_ROLES);
+    if (denied) return denied;
+
+    const { id } = await params;
+
+    try {
+        const row = await db.reportSnapshot.findUnique({ where: { id } });
+        if (!row) {
+            return NextResponse.json({ message: 'Report snapshot not found' }, { status: 404 });
+        }
+
+        const snapshot = toReportSnapshot(row);
+        const { recalculated, diff } = await diffReportSnapshot(snapshot);
+        return NextResponse.json({
+            snapshotId: snapshot.id,
+            startDate: snapshot.startDate,
+            endDate: snapshot.endDate,
+            configuredOn: snapshot.configuredOn,
+            recalculatedAt: new Date().toISOString(),
+            recalculated,
+            diff,
+        });
+    } catch (error) {
+        console.error("Error diffing report snapshot:", error);
+        return NextResponse.json({ message: 'Error diffing report snapshot' }, { status: 500 });
+    }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma as db } from '@/lib/prisma';
+import { toReportSnapshot } from '@/lib/reportSnapshots';
+import { requireRole } from '@/lib/auth';
+import { MANAGER_ROLES } from '@/lib/roles';
+
+/**
+ * A snapshot with the figures it froze and the inputs they were calculated from.
+ * Snapshots cannot be changed, so there is no PUT or DELETE.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const denied = await requireRole(MANAGER_ROLES);
+    if (denied) return denied;
+
+    const { id } = await params;
+
+    try {
+        const row = await db.reportSnapshot.findUnique({ where: { id } });
+        if (!row) {
+            return NextResponse.json({ message: 'Report snapshot not found' }, { status: 404 });
+        }
+        return NextResponse.json(toReportSnapshot(row));
+    } catch (error) {
+        console.error("Error fetching report snapshot:", error);
+        return NextResponse.json({ message: 'Error fetching report snapshot' }, { status: 500 });
+    }
+}
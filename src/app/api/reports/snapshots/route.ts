@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma as db } from '@/lib/prisma';
+import { parseConfiguredOn } from '@/lib/reportShifts';
+import { createReportSnapshot } from '@/lib/reportSnapshots';
+import { requireRole } from '@/lib/auth';
+import { MANAGER_ROLES } from '@/lib/roles';
+
+const isDay = (value: unknown): value is string =>
+    typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+/**
+ * Snapshots on record, newest first. Only what identifies each is returned; fetch one for its figures and inputs.
+ * Narrowed to one date range with startDate and endDate.
+ */
+export async function GET(request: NextRequest) {
+    const denied = await requireRole(MANAGER_ROLES);
+    if (denied) return denied;
+
+    const searchParams = request.nextUrl.searchParams;
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+
+    try {
+        const snapshots = await db.reportSnapshot.findMany({
+            where: {
+                ...(startDate ? { startDate } : {}),
+                ...(endDate ? { endDate } : {}),
+            },
+            select: { id: true, startDate: true, endDate: true, configuredOn: true, note: true, createdBy: true, createdAt: true },
+            orderBy: { createdAt: 'desc' },
+        });
+        return NextResponse.json(snapshots);
+    } catch (error) {
+        console.error("Error fetching report snapshots:", error);
+        return NextResponse.json({ message: 'Error fetching report snapshots' }, { status: 500 });
+    }
+}
+
+/**
+ * Freezes the report for a date range as it calculates right now.
+ */
+export async function POST(request: NextRequest) {
+    const denied = await requireRole(MANAGER_ROLES);
+    if (denied) return denied;
+
+    const { startDate, endDate, configuredOn, note } = await request.json().catch(() => ({}));
+
+    if (!isDay(startDate) || !isDay(endDate)) {
+        return NextResponse.json({ message: 'Missing required date parameters (startDate, endDate)' }, { status: 400 });
+    }
+    if (endDate < startDate) {
+        return NextResponse.json({ message: 'endDate cannot be before startDate' }, { status: 400 });
+    }
+    if (configuredOn && (!isDay(configuredOn) || parseConfiguredOn(configuredOn) === null)) {
+        return NextResponse.json({ message: 'Invalid configuredOn date' }, { status: 400 });
+    }
+
+    try {
+        const snapshot = await createReportSnapshot({
+            startDate,
+            endDate,
+            configuredOn: configuredOn || null,
+            note: typeof note === 'string' && note.trim() ? note.trim() : null,
+        });
+        return NextResponse.json(snapshot, { status: 201 });
+    } catch (error) {
+        console.error("Error freezing report:", error);
+        return NextResponse.json({ message: 'Error freezing report' }, { status: 500 });
+    }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format, parseISO } from 'date-fns';
+import { buildTipStatementTables } from '@/utils/tipStatements';
+import { getPayPeriodDates, getTipStatements } from '@/lib/tipStatements';
+import { renderReportPdf } from '@/lib/reportFiles';
+import { getEmployeeScope, requireSession } from '@/lib/auth';
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM d, yyyy').toLowerCase();
+
+/**
+ * Tip statements for a date range, or for a pay period with payPeriodId: every shift an employee worked with
+ * its hours, tips, pool share, tipouts paid and received by type and payroll tips, totalled to match the report.
+ * employeeId gives one employee's statement; without it there is one for everyone who worked.
+ * format=pdf returns them as a PDF with each statement starting on a new page.
+ * Staff only ever get their own statement, whatever employeeId asks for.
+ */
+export async function GET(request: NextRequest) {
+    const denied = await requireSession();
+    if (denied) return denied;
+
+    const searchParams = request.nextUrl.searchParams;
+    const payPeriodId = searchParams.get('payPeriodId');
+    let employeeId = searchParams.get('employeeId');
+    let startDate = searchParams.get('startDate');
+    let endDate = searchParams.get('endDate');
+
+    try {
+        const scope = await getEmployeeScope();
+        if (!scope.all) {
+            if (!scope.employeeId) {
+                return NextResponse.json({ message: 'Your account is not linked to an employee yet' }, { status: 404 });
+            }
+            employeeId = scope.employeeId;
+        }
+        if (payPeriodId) {
+            const dates = await getPayPeriodDates(payPeriodId);
+            if (!dates) {
+                return NextResponse.json({ message: 'Pay period not found' }, { status: 404 });
+            }
+            ({ startDate, endDate } = dates);
+        }
+        if (!startDate || !endDate) {
+            return NextResponse.json({ message: 'Missing required parameters (startDate and endDate, or payPeriodId)' }, { status: 400 });
+        }
+
+        const data = await getTipStatements(startDate, endDate, employeeId);
+        if (searchParams.get('format') !== 'pdf') {
+            return NextResponse.json(data);
+        }
+        if (data.statements.length === 0) {
+            return NextResponse.json({ message: 'No shifts in the date range' }, { status: 404 });
+        }
+
+        const tipoutTypeNames = Object.fromEntries(data.tipoutTypes.map(type => [type.key, type.name]));
+        const pdf = await renderReportPdf(
+            data.statements.flatMap(statement => buildTipStatementTables(statement, tipoutTypeNames)),
+            {
+                title: 'tip statement',
+                subtitle: [
+                    startDate === endDate ? formatDay(startDate) : `${formatDay(startDate)} to ${formatDay(endDate)}`,
+                    `generated ${format(new Date(), 'MMM d, yyyy h:mm a').toLowerCase()}`,
+                ].join(' · '),
+            },
+        );
+        const name = employeeId ? `tip-statement-${data.statements[0].employeeName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}` : 'tip-statements';
+
+        return new NextResponse(pdf, {
+            headers: {
+                'Content-Type': 'application/pdf',
+                'Content-Disposition': `attachment; filename="${name}-${startDate}-to-${endDate}.pdf"`,
+            },
+        });
+    } catch (error) {
+        console.error("Error generating tip statements:", error);
+        return NextResponse.json({ message: 'Error generating tip statements' }, { status: 500 });
+    }
+}
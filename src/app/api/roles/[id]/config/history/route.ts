@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireSession } from '@/lib/auth'
+
+/**
+ * Every version of a role's configs, newest change first, including the ones since superseded.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const denied = await requireSession()
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+
+    const versions = await prisma.roleConfig.findMany({
+      where: {
+        roleId: id
+      },
+      orderBy: [{ createdAt: 'desc' }, { tipoutType: 'asc' }]
+    })
+
+    return NextResponse.json(versions)
+  } catch (error) {
+    console.error('Error fetching role config history:', error)
+    return NextResponse.json({ error: 'Failed to fetch role config history' }, { status: 500 })
+  }
+}
@@ -1,17 +1,42 @@
 import { NextResponse } from 'next/server'
-import { prisma } from '@/lib/prisma'
+import { prisma, runInOrder } from '@/lib/prisma'
 import { RoleConfig as FrontendRoleConfig } from '@/types/reports'
+import { findTipoutCycleError, findUnknownTipoutTypes } from '@/lib/tipoutTypes'
+import { getDefaultTipoutBasis, isTipoutBasis } from '@/utils/tipoutCalculations'
+import { DatedPoolSettingsConfig, findPoolSettingsError, planSharedPoolSettings } from '@/lib/poolSettings'
+import {
+  createConfigVersion,
+  findConfigOverlapError,
+  getConfigChangeTag,
+  isConfigVersionChanged,
+  retireConfig,
+  reviseConfig,
+} from '@/lib/roleConfigs'
+import { DateWindow, findLockedPayPeriodError } from '@/lib/payPeriods'
+import { requireRole, requireSession } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
+
+// Reads a submitted date, keeping the saved one when only its day was sent back unchanged
+const toVersionDate = (submitted: string, saved?: Date | null): Date | null => {
+  if (!submitted) return null
+  if (saved && submitted === saved.toISOString().split('T')[0]) return saved
+  return new Date(submitted)
+}
 
 export async function GET(
   request: Request,
   { params }: { params: { id: string } }
 ) {
+  const denied = await requireSession()
+  if (denied) return denied
+
   try {
     const { id } = await params
     
     const configs = await prisma.roleConfig.findMany({
       where: {
-        roleId: id
+        roleId: id,
+        supersededAt: null
       }
     })
     
@@ -26,36 +51,119 @@ export async function PUT(
   request: Request,
   { params }: { params: { id: string } }
 ) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
   try {
     const { id } = await params
-    const data = await request.json()
-    
-    // Delete existing configs for this role
-    await prisma.roleConfig.deleteMany({
-      where: {
-        roleId: id
-      }
-    })
-    
-    // Create new configs
-    const configs = await Promise.all(
-      data.map((config: FrontendRoleConfig) => 
-        prisma.roleConfig.create({
-          data: {
-            roleId: id,
-            tipoutType: config.tipoutType,
-            percentageRate: config.percentageRate,
-            effectiveFrom: new Date(config.effectiveFrom),
-            effectiveTo: config.effectiveTo ? new Date(config.effectiveTo) : null,
-            receivesTipout: config.receivesTipout,
-            paysTipout: config.paysTipout,
-            distributionGroup: config.distributionGroup,
-            tipPoolGroup: config.tipPoolGroup
-          }
-        })
+    // Either the configs alone, or { configs, changeReason } to record why they changed
+    const body = await request.json()
+    const data: FrontendRoleConfig[] = Array.isArray(body) ? body : body.configs
+    const tag = await getConfigChangeTag(Array.isArray(body) ? null : body.changeReason)
+
+    const unknownTypes = await findUnknownTipoutTypes(data.map((config: FrontendRoleConfig) => config.tipoutType))
+    if (unknownTypes.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown tipout type: ${unknownTypes.join(', ')}` },
+        { status: 400 }
       )
-    )
+    }
+
+    const invalidBasis = data.find((config: FrontendRoleConfig) => config.basis !== undefined && !isTipoutBasis(config.basis))
+    if (invalidBasis) {
+      return NextResponse.json(
+        { error: `Invalid tipout basis: ${invalidBasis.basis}` },
+        { status: 400 }
+      )
+    }
+
+    const poolSettingsError = findPoolSettingsError(data)
+    if (poolSettingsError) {
+      return NextResponse.json({ error: poolSettingsError }, { status: 400 })
+    }
+
+    const cycleError = await findTipoutCycleError(id, data)
+    if (cycleError) {
+      return NextResponse.json({ error: cycleError }, { status: 400 })
+    }
+
+    const overlapError = findConfigOverlapError(data)
+    if (overlapError) {
+      return NextResponse.json({ error: overlapError }, { status: 409 })
+    }
     
+    // Changed configs are recorded as new versions and removed ones retired, so past reports keep their rates
+    const now = new Date()
+    // Planned, checked against closed pay periods and written in one transaction
+    const lockedError = await prisma.$transaction(async tx => {
+      const currentConfigs = await tx.roleConfig.findMany({
+        where: { roleId: id, supersededAt: null }
+      })
+      // Every window a new, changed or removed config covers, before and after the change
+      const touched: DateWindow[] = []
+      // New and changed configs, whose pool settings the other roles pick up
+      const savedConfigs: DatedPoolSettingsConfig[] = []
+      const writes = data.flatMap(config => {
+        const current = currentConfigs.find(existing => existing.id === config.id)
+        const versionData = {
+          tipoutType: config.tipoutType,
+          percentageRate: config.percentageRate,
+          basis: config.basis ?? getDefaultTipoutBasis(config.tipoutType),
+          // The edit page sends dates without a time, so a date left as it was keeps the saved moment
+          effectiveFrom: toVersionDate(config.effectiveFrom, current?.effectiveFrom) ?? now,
+          effectiveTo: config.effectiveTo ? toVersionDate(config.effectiveTo, current?.effectiveTo) : null,
+          receivesTipout: config.receivesTipout,
+          paysTipout: config.paysTipout,
+          distributionGroup: config.distributionGroup,
+          tipPoolGroup: config.tipPoolGroup,
+          poolWeighting: config.poolWeighting,
+          poolWeight: config.poolWeight ?? null,
+          distributionWeighting: config.distributionWeighting,
+          distributionWeight: config.distributionWeight ?? null,
+          poolWindow: config.poolWindow,
+          distributionWindow: config.distributionWindow,
+          absentPolicy: config.absentPolicy,
+          absentRollToGroup: config.absentPolicy === 'roll_to_group' ? config.absentRollToGroup : null,
+          capPercentage: config.capPercentage ?? null,
+          capBasis: config.capBasis ?? null,
+          floorPercentage: config.floorPercentage ?? null,
+          floorBasis: config.floorBasis ?? null,
+          distributionMinimumHourly: config.distributionMinimumHourly ?? null,
+          sourceBucket: config.sourceBucket
+        }
+        if (!current) {
+          touched.push({ from: versionData.effectiveFrom, to: versionData.effectiveTo })
+          savedConfigs.push(versionData)
+          return [createConfigVersion(id, versionData, tag, now, tx)]
+        }
+        if (!isConfigVersionChanged(current, versionData)) return []
+        touched.push({ from: current.effectiveFrom, to: current.effectiveTo }, { from: versionData.effectiveFrom, to: versionData.effectiveTo })
+        savedConfigs.push(versionData)
+        return reviseConfig(current, versionData, tag, now, tx)
+      })
+      const submittedIds = new Set(data.map(config => config.id))
+      currentConfigs
+        .filter(config => !submittedIds.has(config.id))
+        .forEach(config => {
+          touched.push({ from: config.effectiveFrom, to: config.effectiveTo })
+          writes.push(retireConfig(config, now, tx))
+        })
+
+      // Other roles in the same pools and groups pick up the shared settings, in the same transaction and lock check
+      const shared = await planSharedPoolSettings(id, savedConfigs, tag, now, tx)
+
+      const error = await findLockedPayPeriodError([...touched, ...shared.touched], tx)
+      if (error) return error
+      await runInOrder([...writes, ...shared.writes])
+      return null
+    })
+    if (lockedError) {
+      return NextResponse.json({ error: lockedError }, { status: 409 })
+    }
+
+    const configs = await prisma.roleConfig.findMany({
+      where: { roleId: id, supersededAt: null }
+    })
     return NextResponse.json(configs)
   } catch (error) {
     console.error('Error updating role configs:', error)
@@ -1,10 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { prisma } from '@/lib/prisma'
+import { prisma, runInOrder } from '@/lib/prisma'
+import { findTipoutCycleError, findUnknownTipoutTypes } from '@/lib/tipoutTypes'
+import { getDefaultTipoutBasis, isTipoutBasis } from '@/utils/tipoutCalculations'
+import {
+  getAbsentPolicyError,
+  getMinimumGuaranteeError,
+  getPoolingWindowError,
+  getSourceBucketError,
+  getTipoutLimitError,
+  getWeightingError,
+  planSharedPoolSettings,
+} from '@/lib/poolSettings'
+import {
+  createConfigVersion,
+  findAffectedShifts,
+  findConfigOverlapError,
+  getConfigChangeTag,
+  reviseConfig,
+  reviseConfigWindow,
+} from '@/lib/roleConfigs'
+import { planConfigWindow } from '@/utils/effectiveConfig'
+import { getRevisedWindows } from '@/utils/configVersions'
+import { changeUnlessPayPeriodLocked, findLockedPayPeriodError } from '@/lib/payPeriods'
+import { requireRole, requireSession } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
 
 export async function GET(
   request: NextRequest,
   context: { params: { id: string } }
 ) {
+  const denied = await requireSession()
+  if (denied) return denied
+
   try {
     // Get the id from params
     const { id } = context.params;
@@ -13,6 +40,7 @@ export async function GET(
       where: {
         roleId: id,
         effectiveTo: null, // Get current active configurations
+        supersededAt: null,
       },
       orderBy: {
         effectiveFrom: 'desc',
@@ -32,12 +60,17 @@ export async function POST(
   request: NextRequest,
   context: { params: { id: string } }
 ) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
   try {
     // Get the id from params
     const { id } = context.params;
     
     const body = await request.json()
-    const { tipoutType, percentageRate, receivesTipout, paysTipout, distributionGroup } = body
+    const { tipoutType, percentageRate, basis, receivesTipout, paysTipout, distributionGroup, distributionWeighting, distributionWeight, distributionWindow, absentPolicy, absentRollToGroup } = body
+    const { capPercentage, capBasis, floorPercentage, floorBasis, distributionMinimumHourly, sourceBucket } = body
+    const { effectiveFrom: effectiveFromInput, effectiveTo: effectiveToInput, changeReason } = body
 
     if (!tipoutType || percentageRate === undefined) {
       return NextResponse.json(
@@ -46,32 +79,119 @@ export async function POST(
       )
     }
 
-    // End any existing configuration for this tipout type
-    await prisma.roleConfig.updateMany({
-      where: {
-        roleId: id,
-        tipoutType,
-        effectiveTo: null,
-      },
-      data: {
-        effectiveTo: new Date(),
-      },
+    const unknownTypes = await findUnknownTipoutTypes([tipoutType])
+    if (unknownTypes.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown tipout type: ${tipoutType}` },
+        { status: 400 }
+      )
+    }
+
+    if (basis !== undefined && !isTipoutBasis(basis)) {
+      return NextResponse.json(
+        { error: `Invalid tipout basis: ${basis}` },
+        { status: 400 }
+      )
+    }
+
+    const poolSettingsError = getWeightingError(distributionWeighting, distributionWeight)
+      ?? getPoolingWindowError(distributionWindow)
+      ?? getAbsentPolicyError(absentPolicy, absentRollToGroup)
+      ?? getTipoutLimitError({ basis, capPercentage, capBasis, floorPercentage, floorBasis })
+      ?? getMinimumGuaranteeError(distributionMinimumHourly)
+      ?? getSourceBucketError(sourceBucket)
+    if (poolSettingsError) {
+      return NextResponse.json({ error: poolSettingsError }, { status: 400 })
+    }
+
+    // The new configuration replaces the role's current one for its tipout type
+    const otherCurrentConfigs = await prisma.roleConfig.findMany({
+      where: { roleId: id, tipoutType: { not: tipoutType }, effectiveTo: null, supersededAt: null },
     })
+    const cycleError = await findTipoutCycleError(id, [
+      ...otherCurrentConfigs,
+      { tipoutType, basis, paysTipout: paysTipout ?? true, receivesTipout: receivesTipout ?? false },
+    ])
+    if (cycleError) {
+      return NextResponse.json({ error: cycleError }, { status: 400 })
+    }
 
-    // Create new configuration
-    const configuration = await prisma.roleConfig.create({
-      data: {
-        roleId: id,
-        tipoutType,
-        percentageRate: parseFloat(percentageRate),
-        effectiveFrom: new Date(),
-        receivesTipout: receivesTipout !== undefined ? receivesTipout : false,
-        paysTipout: paysTipout !== undefined ? paysTipout : true,
-        distributionGroup,
-      },
+    // Windows are inclusive: a new configuration without an effectiveTo runs until the next one scheduled after it
+    const now = new Date()
+    const effectiveFrom = effectiveFromInput ? new Date(effectiveFromInput) : now
+    const requestedTo = effectiveToInput ? new Date(effectiveToInput) : null
+    if (isNaN(effectiveFrom.getTime()) || (requestedTo && isNaN(requestedTo.getTime()))) {
+      return NextResponse.json({ error: 'Invalid effective date' }, { status: 400 })
+    }
+    if (requestedTo && requestedTo < effectiveFrom) {
+      return NextResponse.json({ error: 'effectiveTo cannot be before effectiveFrom' }, { status: 400 })
+    }
+
+    // Existing configurations for this tipout type are ended, split or replaced around the new one
+    const sameTypeConfigs = await prisma.roleConfig.findMany({
+      where: { roleId: id, tipoutType, supersededAt: null },
     })
+    const { effectiveTo, changes } = planConfigWindow(sameTypeConfigs, effectiveFrom, requestedTo)
+    const changedIds = new Set(changes.map(change => change.config.id))
+    const overlapError = findConfigOverlapError([
+      ...sameTypeConfigs.filter(config => !changedIds.has(config.id)),
+      ...changes.flatMap(change => getRevisedWindows(change).map(window => ({ ...change.config, ...window }))),
+      { tipoutType, effectiveFrom, effectiveTo },
+    ])
+    if (overlapError) {
+      return NextResponse.json({ error: overlapError }, { status: 409 })
+    }
+
+    const tag = await getConfigChangeTag(changeReason)
+    const outcome = await prisma.$transaction(async tx => {
+      // Other roles in the same distribution group pick up its shared settings over the new window, in the same
+      // transaction and lock check
+      const shared = await planSharedPoolSettings(id, [{
+        tipoutType, distributionGroup, distributionWeighting, distributionWindow, distributionMinimumHourly, effectiveFrom, effectiveTo,
+      }], tag, now, tx)
 
-    return NextResponse.json(configuration)
+      // The role's existing configurations only change inside the new window, so that and the shared changes are all
+      // a closed pay period needs checking against
+      const lockedError = await findLockedPayPeriodError([{ from: effectiveFrom, to: effectiveTo }, ...shared.touched], tx)
+      if (lockedError) return { error: lockedError }
+
+      // Existing configurations get new versions with their new windows; the old versions stay on record
+      const results = await runInOrder([
+        ...shared.writes,
+        ...changes.flatMap(change => reviseConfigWindow(change, tag, now, tx)),
+        createConfigVersion(id, {
+          tipoutType,
+          percentageRate: parseFloat(percentageRate),
+          basis: basis ?? getDefaultTipoutBasis(tipoutType),
+          effectiveFrom,
+          effectiveTo,
+          receivesTipout: receivesTipout !== undefined ? receivesTipout : false,
+          paysTipout: paysTipout !== undefined ? paysTipout : true,
+          distributionGroup,
+          distributionWeighting,
+          distributionWeight: distributionWeight ?? null,
+          distributionWindow,
+          absentPolicy,
+          absentRollToGroup: absentPolicy === 'roll_to_group' ? absentRollToGroup : null,
+          capPercentage: capPercentage ?? null,
+          capBasis: capBasis ?? null,
+          floorPercentage: floorPercentage ?? null,
+          floorBasis: floorBasis ?? null,
+          distributionMinimumHourly: distributionMinimumHourly ?? null,
+          sourceBucket,
+        }, tag, now, tx),
+      ])
+      return { results }
+    })
+    if ('error' in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: 409 })
+    }
+    const configuration = outcome.results[outcome.results.length - 1]
+
+    // A backdated change recalculates shifts already worked, so list which ones
+    const affectedShifts = await findAffectedShifts(id, effectiveFrom, effectiveTo && effectiveTo < now ? effectiveTo : now)
+
+    return NextResponse.json({ configuration, affectedShifts })
   } catch (error) {
     console.error('Error creating role configuration:', error)
     return NextResponse.json(
@@ -85,6 +205,9 @@ export async function DELETE(
   request: NextRequest,
   context: { params: { id: string } }
 ) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
   try {
     // Get the id from params
     const { id } = context.params;
@@ -100,17 +223,24 @@ export async function DELETE(
       );
     }
     
-    // End all configurations for this tipout type
-    await prisma.roleConfig.updateMany({
+    // End all configurations for this tipout type, as new versions so the old ones stay on record
+    const now = new Date();
+    const currentConfigs = await prisma.roleConfig.findMany({
       where: {
         roleId: id,
         tipoutType,
         effectiveTo: null,
-      },
-      data: {
-        effectiveTo: new Date(),
+        supersededAt: null,
       },
     });
+    // Configurations end from now on, so only a closed pay period still running would be touched
+    const tag = await getConfigChangeTag(searchParams.get('changeReason'));
+    const outcome = await changeUnlessPayPeriodLocked(currentConfigs.length > 0 ? [{ from: now, to: null }] : [], tx =>
+      runInOrder(currentConfigs.flatMap(config => reviseConfig(config, { effectiveTo: now }, tag, now, tx)))
+    );
+    if ('error' in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: 409 });
+    }
     
     return NextResponse.json({ success: true });
   } catch (error) {
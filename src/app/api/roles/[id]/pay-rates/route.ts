@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getPayRateError, schedulePayRate } from '@/lib/payRates'
+import { requireRole, requireSession } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const denied = await requireSession()
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+
+    const payRates = await prisma.payRate.findMany({
+      where: { roleId: id, employeeId: null },
+      orderBy: { effectiveFrom: 'desc' },
+    })
+
+    return NextResponse.json(payRates.map(payRate => ({ ...payRate, rate: Number(payRate.rate) })))
+  } catch (error) {
+    console.error('Error fetching pay rates:', error)
+    return NextResponse.json({ error: 'Failed to fetch pay rates' }, { status: 500 })
+  }
+}
+
+/**
+ * Records the role's base pay rate over a span of dates, e.g. next month's raise or a correction to last week's rate.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const { rate, effectiveFrom: effectiveFromInput, effectiveTo: effectiveToInput } = await request.json()
+
+    const effectiveFrom = effectiveFromInput ? new Date(effectiveFromInput) : new Date()
+    const effectiveTo = effectiveToInput ? new Date(effectiveToInput) : null
+    const payRateError = getPayRateError(rate, effectiveFrom, effectiveTo)
+    if (payRateError) {
+      return NextResponse.json({ error: payRateError }, { status: 400 })
+    }
+
+    const payRate = await schedulePayRate({ roleId: id, employeeId: null, rate: Number(rate), effectiveFrom, effectiveTo })
+
+    return NextResponse.json({ ...payRate, rate: Number(payRate.rate) })
+  } catch (error) {
+    console.error('Error saving pay rate:', error)
+    return NextResponse.json({ error: 'Failed to save pay rate' }, { status: 500 })
+  }
+}
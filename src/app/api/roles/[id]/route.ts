@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { changeBasePayRate } from '@/lib/payRates'
+import { requireRole, requireSession } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const denied = await requireSession()
+  if (denied) return denied
+
   try {
     // Await params before accessing its properties
     const { id } = await params;
@@ -17,6 +23,7 @@ export async function GET(
         configs: {
           where: {
             effectiveTo: null,
+            supersededAt: null,
           },
         },
       },
@@ -53,12 +60,19 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
   try {
     // Await params before accessing its properties
     const { id } = await params;
     
     const body = await request.json();
     const { name, basePayRate } = body;
+
+    if (basePayRate !== undefined) {
+      await changeBasePayRate(id, parseFloat(basePayRate));
+    }
     
     const updatedRole = await prisma.role.update({
       where: {
@@ -66,12 +80,12 @@ export async function PATCH(
       },
       data: {
         ...(name && { name }),
-        ...(basePayRate !== undefined && { basePayRate: parseFloat(basePayRate) }),
       },
       include: {
         configs: {
           where: {
             effectiveTo: null,
+            supersededAt: null,
           },
         },
       },
@@ -101,6 +115,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
   try {
     // Await params before accessing its properties
     const { id } = await params;
@@ -133,6 +150,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
   try {
     // Await params before accessing its properties
     const { id } = await params;
@@ -147,18 +167,22 @@ export async function PUT(
       );
     }
     
+    if (basePayRate !== undefined) {
+      await changeBasePayRate(id, parseFloat(basePayRate.toString()));
+    }
+    
     const updatedRole = await prisma.role.update({
       where: {
         id: id,
       },
       data: {
         name,
-        basePayRate: basePayRate !== undefined ? parseFloat(basePayRate.toString()) : undefined,
       },
       include: {
         configs: {
           where: {
             effectiveTo: null,
+            supersededAt: null,
           },
         },
       },
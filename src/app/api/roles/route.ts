@@ -1,7 +1,13 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { EARLIEST_PAY_RATE_DATE } from '@/lib/payRates'
+import { requireRole, requireSession } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
 
 export async function GET() {
+  const denied = await requireSession()
+  if (denied) return denied
+
   try {
     const roles = await prisma.role.findMany({
       orderBy: {
@@ -14,11 +20,13 @@ export async function GET() {
         configs: {
           where: {
             effectiveTo: null,
+            supersededAt: null,
           },
           select: {
             id: true,
             tipoutType: true,
             percentageRate: true,
+            basis: true,
             effectiveFrom: true,
             effectiveTo: true,
             paysTipout: true,
@@ -48,6 +56,9 @@ export async function GET() {
 }
 
 export async function POST(request: Request) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
   try {
     const body = await request.json()
     const { name, basePayRate } = body
@@ -63,6 +74,9 @@ export async function POST(request: Request) {
       data: {
         name,
         basePayRate: parseFloat(basePayRate),
+        payRates: {
+          create: { rate: parseFloat(basePayRate), effectiveFrom: EARLIEST_PAY_RATE_DATE },
+        },
       },
       select: {
         id: true,
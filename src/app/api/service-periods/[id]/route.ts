@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireRole } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const { name, sortOrder, active } = body
+
+    if (name !== undefined && !name.trim()) {
+      return NextResponse.json({ error: 'Name cannot be empty' }, { status: 400 })
+    }
+
+    if (name !== undefined) {
+      const existing = await prisma.servicePeriod.findUnique({ where: { name: name.trim() } })
+      if (existing && existing.id !== id) {
+        return NextResponse.json(
+          { error: `Service period "${name.trim()}" already exists` },
+          { status: 409 }
+        )
+      }
+    }
+
+    const servicePeriod = await prisma.servicePeriod.update({
+      where: { id },
+      data: {
+        name: name?.trim(),
+        sortOrder: sortOrder !== undefined ? Number(sortOrder) : undefined,
+        active,
+      },
+    })
+
+    return NextResponse.json(servicePeriod)
+  } catch (error) {
+    console.error('Error updating service period:', error)
+    return NextResponse.json({ error: 'Failed to update service period' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+
+    const servicePeriod = await prisma.servicePeriod.findUnique({ where: { id } })
+    if (!servicePeriod) {
+      return NextResponse.json({ error: 'Service period not found' }, { status: 404 })
+    }
+
+    // Removing a period from past shifts would change how they were pooled, so only unused periods can be removed
+    const shiftCount = await prisma.shift.count({
+      where: { servicePeriodId: id },
+    })
+    if (shiftCount > 0) {
+      return NextResponse.json(
+        { error: 'Service period is used by shifts. Deactivate it instead.' },
+        { status: 409 }
+      )
+    }
+
+    await prisma.servicePeriod.delete({ where: { id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting service period:', error)
+    return NextResponse.json({ error: 'Failed to delete service period' }, { status: 500 })
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireRole, requireSession } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
+
+export async function GET(request: NextRequest) {
+  const denied = await requireSession()
+  if (denied) return denied
+
+  try {
+    const activeOnly = request.nextUrl.searchParams.get('active') === 'true'
+
+    const servicePeriods = await prisma.servicePeriod.findMany({
+      where: activeOnly ? { active: true } : undefined,
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    })
+    return NextResponse.json(servicePeriods)
+  } catch (error) {
+    console.error('Error fetching service periods:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch service periods' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const body = await request.json()
+    const { name, sortOrder } = body
+
+    if (!name?.trim()) {
+      return NextResponse.json(
+        { error: 'Name is required' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.servicePeriod.findUnique({ where: { name: name.trim() } })
+    if (existing) {
+      return NextResponse.json(
+        { error: `Service period "${name.trim()}" already exists` },
+        { status: 409 }
+      )
+    }
+
+    const servicePeriod = await prisma.servicePeriod.create({
+      data: {
+        name: name.trim(),
+        sortOrder: sortOrder !== undefined ? Number(sortOrder) : 0,
+      },
+    })
+
+    return NextResponse.json(servicePeriod)
+  } catch (error) {
+    console.error('Error creating service period:', error)
+    return NextResponse.json(
+      { error: 'Failed to create service period' },
+      { status: 500 }
+    )
+  }
+}
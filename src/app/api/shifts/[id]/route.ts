@@ -1,5 +1,9 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { changeUnlessPayPeriodLocked } from '@/lib/payPeriods'
+import { getEmployeeScope, requireRole, requireSession } from '@/lib/auth'
+import { canSeeEmployee } from '@/utils/access'
+import { MANAGER_ROLES } from '@/lib/roles'
 
 // Define types for prisma role configuration
 type RoleConfig = {
@@ -18,6 +22,9 @@ export async function GET(
   request: Request,
   { params }: { params: { id: string } }
 ) {
+  const denied = await requireSession()
+  if (denied) return denied
+
   try {
     // First, get the shift
     const shift = await prisma.shift.findUnique({
@@ -26,11 +33,13 @@ export async function GET(
       },
       include: {
         employee: true,
+        servicePeriod: true,
         role: true,
       },
     })
 
-    if (!shift) {
+    // Staff are told someone else's shift does not exist rather than that it is hidden
+    if (!shift || !canSeeEmployee(await getEmployeeScope(), shift.employeeId)) {
       return NextResponse.json(
         { error: 'Shift not found' },
         { status: 404 }
@@ -44,6 +53,7 @@ export async function GET(
     const roleConfigs = await prisma.roleConfig.findMany({
       where: {
         roleId: shift.roleId,
+        supersededAt: null,
         OR: [
           { effectiveTo: null },
           {
@@ -68,6 +78,8 @@ export async function GET(
       cashTips: Number(shift.cashTips),
       creditTips: Number(shift.creditTips),
       liquorSales: Number(shift.liquorSales),
+      foodSales: Number(shift.foodSales),
+      netSales: Number(shift.netSales),
       role: shift.role ? {
         ...shift.role,
         basePayRate: Number(shift.role.basePayRate),
@@ -92,6 +104,9 @@ export async function PUT(
   request: Request,
   { params }: { params: { id: string } }
 ) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
   try {
     const body = await request.json()
     const {
@@ -102,6 +117,9 @@ export async function PUT(
       cashTips,
       creditTips,
       liquorSales,
+      foodSales,
+      netSales,
+      servicePeriodId,
     } = body
 
     // Validate required fields
@@ -112,46 +130,70 @@ export async function PUT(
       )
     }
 
+    // Neither the day the shift was on nor the day it moves to may be in a closed pay period
+    const existing = await prisma.shift.findUnique({ where: { id: params.id }, select: { date: true } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Shift not found' },
+        { status: 404 }
+      )
+    }
+
     // Update shift without tipout calculations
-    const shift = await prisma.shift.update({
-      where: {
-        id: params.id,
-      },
-      data: {
-        employeeId,
-        roleId,
-        date: new Date(date),
-        hours: Number(hours),
-        cashTips: Number(cashTips || 0),
-        creditTips: Number(creditTips || 0),
-        liquorSales: Number(liquorSales || 0),
-      },
-      include: {
-        employee: true,
-        role: {
-          include: {
-            configs: {
-              where: {
-                OR: [
-                  { effectiveTo: null },
-                  {
-                    AND: [
-                      { effectiveFrom: { lte: new Date(date) } },
-                      {
-                        OR: [
-                          { effectiveTo: { gte: new Date(date) } },
-                          { effectiveTo: null }
-                        ]
-                      }
-                    ]
-                  }
-                ]
+    const outcome = await changeUnlessPayPeriodLocked([
+      { from: existing.date, to: existing.date },
+      { from: new Date(date), to: new Date(date) },
+    ], tx =>
+      tx.shift.update({
+        where: {
+          id: params.id,
+        },
+        data: {
+          employeeId,
+          roleId,
+          date: new Date(date),
+          hours: Number(hours),
+          cashTips: Number(cashTips || 0),
+          creditTips: Number(creditTips || 0),
+          liquorSales: Number(liquorSales || 0),
+          foodSales: Number(foodSales || 0),
+          netSales: Number(netSales || 0),
+          // Leave the period alone when the client does not send one
+          servicePeriodId: servicePeriodId === undefined ? undefined : (servicePeriodId || null),
+        },
+        include: {
+          employee: true,
+          servicePeriod: true,
+          role: {
+            include: {
+              configs: {
+                where: {
+                  supersededAt: null,
+                  OR: [
+                    { effectiveTo: null },
+                    {
+                      AND: [
+                        { effectiveFrom: { lte: new Date(date) } },
+                        {
+                          OR: [
+                            { effectiveTo: { gte: new Date(date) } },
+                            { effectiveTo: null }
+                          ]
+                        }
+                      ]
+                    }
+                  ]
+                }
               }
             }
           }
-        }
-      },
-    })
+        },
+      })
+    )
+    if ('error' in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: 409 })
+    }
+    const shift = outcome.result
 
     // Convert Decimal values to numbers for JSON serialization
     const serializedShift = {
@@ -160,6 +202,8 @@ export async function PUT(
       cashTips: Number(shift.cashTips),
       creditTips: Number(shift.creditTips),
       liquorSales: Number(shift.liquorSales),
+      foodSales: Number(shift.foodSales),
+      netSales: Number(shift.netSales),
       role: {
         ...shift.role,
         basePayRate: Number(shift.role.basePayRate),
@@ -184,12 +228,27 @@ export async function DELETE(
   request: Request,
   { params }: { params: { id: string } }
 ) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
   try {
-    await prisma.shift.delete({
-      where: {
-        id: params.id,
-      },
-    })
+    const existing = await prisma.shift.findUnique({ where: { id: params.id }, select: { date: true } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Shift not found' },
+        { status: 404 }
+      )
+    }
+    const outcome = await changeUnlessPayPeriodLocked([{ from: existing.date, to: existing.date }], tx =>
+      tx.shift.delete({
+        where: {
+          id: params.id,
+        },
+      })
+    )
+    if ('error' in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: 409 })
+    }
 
     return NextResponse.json({ success: true })
   } catch (error) {
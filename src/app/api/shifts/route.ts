@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { changeUnlessPayPeriodLocked } from '@/lib/payPeriods'
+import { getEmployeeScope, requireRole, requireSession } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
 
 // Helper function to ensure consistent date handling
 function parseDate(dateString: string): Date {
@@ -16,6 +19,9 @@ function getEndOfDay(dateString: string): Date {
 }
 
 export async function GET(request: Request) {
+  const denied = await requireSession()
+  if (denied) return denied
+
   try {
     const { searchParams } = new URL(request.url)
     const startDate = searchParams.get('startDate')
@@ -23,10 +29,18 @@ export async function GET(request: Request) {
     const employeeId = searchParams.get('employeeId')
     const role = searchParams.get('role')
 
+    // Staff only ever get their own shifts, whatever employee is asked for
+    const scope = await getEmployeeScope()
+    if (!scope.all && !scope.employeeId) {
+      return NextResponse.json([])
+    }
+
     // Modified where clause for date handling
     let where: any = {}
     
-    if (employeeId) {
+    if (!scope.all) {
+      where.employeeId = scope.employeeId
+    } else if (employeeId) {
       where.employeeId = employeeId
     }
     
@@ -61,10 +75,12 @@ export async function GET(request: Request) {
       where,
       include: {
         employee: true,
+        servicePeriod: true,
         role: {
           include: {
             configs: {
               where: {
+                supersededAt: null,
                 OR: [
                   { effectiveTo: null },
                   {
@@ -96,6 +112,8 @@ export async function GET(request: Request) {
       cashTips: Number(shift.cashTips),
       creditTips: Number(shift.creditTips),
       liquorSales: Number(shift.liquorSales),
+      foodSales: Number(shift.foodSales),
+      netSales: Number(shift.netSales),
       role: {
         ...shift.role,
         basePayRate: Number(shift.role.basePayRate),
@@ -117,6 +135,9 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
   try {
     const body = await request.json()
     const {
@@ -127,6 +148,9 @@ export async function POST(request: Request) {
       cashTips,
       creditTips,
       liquorSales,
+      foodSales,
+      netSales,
+      servicePeriodId,
     } = body
 
     // Validate required fields
@@ -137,43 +161,54 @@ export async function POST(request: Request) {
       )
     }
 
-    // Create shift without tipout calculations
-    const shift = await prisma.shift.create({
-      data: {
-        employeeId,
-        roleId,
-        date: parseDate(date),
-        hours: Number(hours),
-        cashTips: Number(cashTips || 0),
-        creditTips: Number(creditTips || 0),
-        liquorSales: Number(liquorSales || 0),
-      },
-      include: {
-        employee: true,
-        role: {
-          include: {
-            configs: {
-              where: {
-                OR: [
-                  { effectiveTo: null },
-                  {
-                    AND: [
-                      { effectiveFrom: { lte: getEndOfDay(date) } },
-                      {
-                        OR: [
-                          { effectiveTo: { gte: parseDate(date) } },
-                          { effectiveTo: null }
-                        ]
-                      }
-                    ]
-                  }
-                ]
+    // Create shift without tipout calculations, unless its day is in a closed pay period
+    const outcome = await changeUnlessPayPeriodLocked([{ from: parseDate(date), to: parseDate(date) }], tx =>
+      tx.shift.create({
+        data: {
+          employeeId,
+          roleId,
+          date: parseDate(date),
+          hours: Number(hours),
+          cashTips: Number(cashTips || 0),
+          creditTips: Number(creditTips || 0),
+          liquorSales: Number(liquorSales || 0),
+          foodSales: Number(foodSales || 0),
+          netSales: Number(netSales || 0),
+          servicePeriodId: servicePeriodId || null,
+        },
+        include: {
+          employee: true,
+          servicePeriod: true,
+          role: {
+            include: {
+              configs: {
+                where: {
+                  supersededAt: null,
+                  OR: [
+                    { effectiveTo: null },
+                    {
+                      AND: [
+                        { effectiveFrom: { lte: getEndOfDay(date) } },
+                        {
+                          OR: [
+                            { effectiveTo: { gte: parseDate(date) } },
+                            { effectiveTo: null }
+                          ]
+                        }
+                      ]
+                    }
+                  ]
+                }
               }
             }
           }
-        }
-      },
-    })
+        },
+      })
+    )
+    if ('error' in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: 409 })
+    }
+    const shift = outcome.result
 
     // Convert Decimal values to numbers for JSON serialization
     const serializedShift = {
@@ -182,6 +217,8 @@ export async function POST(request: Request) {
       cashTips: Number(shift.cashTips),
       creditTips: Number(shift.creditTips),
       liquorSales: Number(shift.liquorSales),
+      foodSales: Number(shift.foodSales),
+      netSales: Number(shift.netSales),
       role: {
         ...shift.role,
         basePayRate: Number(shift.role.basePayRate),
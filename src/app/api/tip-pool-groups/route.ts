@@ -1,10 +1,15 @@
 import { NextResponse } from 'next/server';
 import { prisma as db } from '@/lib/prisma';
+import { requireSession } from '@/lib/auth';
 
 export async function GET() {
+  const denied = await requireSession();
+  if (denied) return denied;
+
   try {
     const configsWithGroups = await db.roleConfig.findMany({
       where: {
+        supersededAt: null,
         tipPoolGroup: {
           not: null, // Exclude null values
           notIn: [''], // Exclude empty strings if necessary
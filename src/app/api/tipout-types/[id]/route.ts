@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireRole } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    // The key is referenced by role configurations and cannot be changed
+    const { name, description, sortOrder, active } = body
+
+    if (name !== undefined && !name.trim()) {
+      return NextResponse.json({ error: 'Name cannot be empty' }, { status: 400 })
+    }
+
+    const tipoutType = await prisma.tipoutType.update({
+      where: { id },
+      data: {
+        name: name?.trim(),
+        description: description !== undefined ? (description?.trim() || null) : undefined,
+        sortOrder: sortOrder !== undefined ? Number(sortOrder) : undefined,
+        active,
+      },
+    })
+
+    return NextResponse.json(tipoutType)
+  } catch (error) {
+    console.error('Error updating tipout type:', error)
+    return NextResponse.json({ error: 'Failed to update tipout type' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+
+    const tipoutType = await prisma.tipoutType.findUnique({ where: { id } })
+    if (!tipoutType) {
+      return NextResponse.json({ error: 'Tipout type not found' }, { status: 404 })
+    }
+
+    // Historical configurations still reference the key, so only unused types can be removed
+    const configCount = await prisma.roleConfig.count({
+      where: { tipoutType: tipoutType.key },
+    })
+    if (configCount > 0) {
+      return NextResponse.json(
+        { error: 'Tipout type is used by role configurations. Deactivate it instead.' },
+        { status: 409 }
+      )
+    }
+
+    await prisma.tipoutType.delete({ where: { id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting tipout type:', error)
+    return NextResponse.json({ error: 'Failed to delete tipout type' }, { status: 500 })
+  }
+}
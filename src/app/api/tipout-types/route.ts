@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireRole, requireSession } from '@/lib/auth'
+import { MANAGER_ROLES } from '@/lib/roles'
+
+// Keys are stored on role configurations, so keep them short and URL safe
+const TIPOUT_TYPE_KEY_PATTERN = /^[a-z][a-z0-9_]*$/
+
+export async function GET(request: NextRequest) {
+  const denied = await requireSession()
+  if (denied) return denied
+
+  try {
+    const activeOnly = request.nextUrl.searchParams.get('active') === 'true'
+
+    const tipoutTypes = await prisma.tipoutType.findMany({
+      where: activeOnly ? { active: true } : undefined,
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    })
+    return NextResponse.json(tipoutTypes)
+  } catch (error) {
+    console.error('Error fetching tipout types:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch tipout types' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = await requireRole(MANAGER_ROLES)
+  if (denied) return denied
+
+  try {
+    const body = await request.json()
+    const { key, name, description, sortOrder } = body
+
+    if (!key || !name) {
+      return NextResponse.json(
+        { error: 'Key and name are required' },
+        { status: 400 }
+      )
+    }
+
+    if (!TIPOUT_TYPE_KEY_PATTERN.test(key)) {
+      return NextResponse.json(
+        { error: 'Key must start with a letter and contain only lowercase letters, numbers and underscores' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.tipoutType.findUnique({ where: { key } })
+    if (existing) {
+      return NextResponse.json(
+        { error: `Tipout type "${key}" already exists` },
+        { status: 409 }
+      )
+    }
+
+    const tipoutType = await prisma.tipoutType.create({
+      data: {
+        key,
+        name: name.trim(),
+        description: description?.trim() || null,
+        sortOrder: sortOrder !== undefined ? Number(sortOrder) : 0,
+      },
+    })
+
+    return NextResponse.json(tipoutType)
+  } catch (error) {
+    console.error('Error creating tipout type:', error)
+    return NextResponse.json(
+      { error: 'Failed to create tipout type' },
+      { status: 500 }
+    )
+  }
+}
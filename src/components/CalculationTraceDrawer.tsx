@@ -0,0 +1,222 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import { CalculationTraceStep, DailyCalculationTrace, PoolingWindowRange } from '@/types/reports'
+import { getPoolingWindowLabel } from '@/utils/tipoutCalculations'
+
+export type TraceTarget = {
+  employeeId: string
+  employeeName: string
+  roleName?: string
+}
+
+type CalculationTraceDrawerProps = {
+  target: TraceTarget | null
+  startDate: string
+  endDate: string
+  configuredOn?: string
+  onClose: () => void
+}
+
+const formatMoney = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`
+
+const formatInput = (value: string | number | boolean | null) => {
+  if (value === null) return 'none'
+  if (typeof value === 'boolean') return value ? 'yes' : 'no'
+  if (typeof value === 'number') return Number.isInteger(value) ? value.toString() : value.toFixed(2)
+  return value.replace(/_/g, ' ')
+}
+
+// Names the window a pool's totals came from, with its dates when it spans more than one day
+const formatWindow = ({ window, windowStart, windowEnd }: PoolingWindowRange) => {
+  const label = getPoolingWindowLabel(window)
+  if (windowStart === windowEnd) return label
+  return `${label}, ${format(parseISO(windowStart), 'MMM d').toLowerCase()} – ${format(parseISO(windowEnd), 'MMM d').toLowerCase()}`
+}
+
+// Splits camelCase input names into words for display
+const formatInputName = (name: string) => name.replace(/([A-Z])/g, ' $1').toLowerCase()
+
+function TraceStep({ step }: { step: CalculationTraceStep }) {
+  return (
+    <li className="py-2">
+      <div className="flex justify-between gap-4">
+        <span className="text-sm text-[var(--foreground)]">
+          {step.label}
+          {step.rate !== undefined && <span className="text-gray-500 dark:text-gray-400"> @ {step.rate}%</span>}
+        </span>
+        <span className={`text-sm font-medium ${
+          step.amount > 0
+            ? 'text-green-600 dark:text-green-400'
+            : step.amount < 0
+              ? 'text-red-600 dark:text-red-400'
+              : 'text-gray-500 dark:text-gray-400'
+        }`}>
+          {formatMoney(step.amount)}
+        </span>
+      </div>
+      <dl className="mt-1 grid grid-cols-2 gap-x-4 text-xs text-gray-500 dark:text-gray-400">
+        {Object.entries(step.inputs).map(([name, value]) => (
+          <div key={name} className="flex justify-between gap-2">
+            <dt>{formatInputName(name)}</dt>
+            <dd>{formatInput(value)}</dd>
+          </div>
+        ))}
+      </dl>
+      {step.configIds.length > 0 && (
+        <p className="mt-1 text-xs text-gray-400 dark:text-gray-500 truncate" title={step.configIds.join(', ')}>
+          config {step.configIds.join(', ')}
+        </p>
+      )}
+    </li>
+  )
+}
+
+export default function CalculationTraceDrawer({ target, startDate, endDate, configuredOn, onClose }: CalculationTraceDrawerProps) {
+  const [days, setDays] = useState<DailyCalculationTrace[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!target) return
+
+    const fetchTrace = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const params = new URLSearchParams({
+          startDate,
+          endDate,
+          employeeId: target.employeeId,
+          ...(target.roleName ? { role: target.roleName } : {}),
+          ...(configuredOn ? { configuredOn } : {}),
+        })
+        const response = await fetch(`/api/reports/explain?${params}`)
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}))
+          throw new Error(errorData.message || 'Failed to fetch calculation trace')
+        }
+        const data = await response.json()
+        setDays(data.days)
+      } catch (err) {
+        console.error('Error loading calculation trace:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load calculation trace')
+        setDays([])
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchTrace()
+  }, [target, startDate, endDate, configuredOn])
+
+  useEffect(() => {
+    if (!target) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [target, onClose])
+
+  if (!target) return null
+
+  const totalPayrollTips = days.reduce(
+    (acc, day) => acc + day.shifts.reduce((dayAcc, shift) => dayAcc + Math.round(shift.payrollTips * 100), 0),
+    0
+  ) / 100
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/50" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-xl overflow-y-auto bg-white dark:bg-gray-800 shadow-xl border-l border-gray-200 dark:border-gray-700"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={`How ${target.employeeName}'s payroll tips were calculated`}
+      >
+        <div className="sticky top-0 flex items-start justify-between gap-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-4 py-4 sm:px-6">
+          <div>
+            <h2 className="text-lg font-semibold text-[var(--foreground)]">{target.employeeName}</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              how payroll tips were calculated{target.roleName ? ` as ${target.roleName.toLowerCase()}` : ''}
+              {configuredOn && `, as configured on ${format(parseISO(configuredOn), 'MMM d, yyyy').toLowerCase()}`}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+            aria-label="Close"
+          >
+            <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-4 py-4 sm:px-6">
+          {isLoading ? (
+            <LoadingSpinner />
+          ) : error ? (
+            <div className="text-red-600 dark:text-red-400 text-sm">{error}</div>
+          ) : days.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">no shifts in this date range.</p>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex justify-between text-sm font-medium text-[var(--foreground)]">
+                <span>total payroll tips</span>
+                <span>{formatMoney(totalPayrollTips)}</span>
+              </div>
+
+              {days.map(day => (
+                <section key={`${day.date}-${day.servicePeriod?.id ?? ''}`} className="rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+                  <h3 className="text-sm font-semibold text-[var(--foreground)]">
+                    {format(parseISO(day.date), 'EEEE, MMMM d, yyyy').toLowerCase()}
+                    {day.servicePeriod && <span className="font-normal text-gray-500 dark:text-gray-400"> · {day.servicePeriod.name.toLowerCase()}</span>}
+                  </h3>
+
+                  {(day.tipPools.length > 0 || day.distributionGroups.length > 0) && (
+                    <div className="mt-2 space-y-1 text-xs text-gray-500 dark:text-gray-400">
+                      {day.tipPools.map(pool => (
+                        <p key={pool.group}>
+                          {pool.group} ({formatWindow(pool)}): {formatMoney(pool.totalCreditTips)} credit - {formatMoney(pool.paidFromTips - pool.paidFromCash)} tipouts = {formatMoney(pool.netCreditTips)}{pool.paidFromCash > 0 ? ` (${formatMoney(pool.paidFromCash)} more paid from cash)` : ''} over {pool.totalHours.toFixed(2)} hours{pool.weighting !== 'hours' ? `, split by ${formatInput(pool.weighting)}` : ''}
+                        </p>
+                      ))}
+                      {day.distributionGroups.map(distribution => (
+                        <p key={`${distribution.tipoutType}-${distribution.group}`}>
+                          {distribution.tipoutType} to {distribution.group}{distribution.share !== null ? ` (${distribution.share}% split)` : ''} ({formatWindow(distribution)}): {formatMoney(distribution.amount)} over {distribution.totalHours.toFixed(2)} hours
+                          {distribution.carriedIn > 0 && `, including ${formatMoney(distribution.carriedIn)} carried forward`}
+                          {Object.entries(distribution.rolledIn).map(([type, amount]) => `, plus ${formatMoney(amount)} ${type} rolled in`).join('')}
+                          {distribution.minimumHourly !== null && `, guaranteed ${formatMoney(distribution.minimumHourly)}/hour`}
+                          {distribution.houseTopUp > 0 && ` (house topped up ${formatMoney(distribution.houseTopUp)})`}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  {day.shifts.map(shift => (
+                    <div key={shift.shiftId} className="mt-4">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-700 dark:text-gray-300">
+                          {shift.roleName.toLowerCase()} · {shift.hours.toFixed(2)} hours
+                        </span>
+                        <span className="font-medium text-[var(--foreground)]">{formatMoney(shift.payrollTips)}</span>
+                      </div>
+                      <ul className="mt-1 divide-y divide-gray-200 dark:divide-gray-700">
+                        {shift.steps.map((step, index) => (
+                          <TraceStep key={`${step.kind}-${step.tipoutType ?? ''}-${index}`} step={step} />
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </section>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import { AdminOnly } from '@/components/RoleBasedUI'
+import { PAYROLL_EARNING_KINDS, PAYROLL_EXPORT_ADAPTERS, PAYROLL_EXPORT_FORMATS } from '@/utils/payrollExport'
+import { EarningCodes, PayrollExportFormat } from '@/types/reports'
+
+const inputClassName = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2'
+
+// Codes each payroll export format imports its earnings under, edited one format at a time
+export default function EarningCodesForm() {
+  const [codesByFormat, setCodesByFormat] = useState<Record<PayrollExportFormat, EarningCodes> | null>(null)
+  const [format, setFormat] = useState<PayrollExportFormat>('csv')
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    const fetchCodes = async () => {
+      try {
+        const response = await fetch('/api/earning-codes')
+        if (!response.ok) {
+          throw new Error('Failed to fetch earning codes')
+        }
+        setCodesByFormat(await response.json())
+      } catch (err) {
+        setError('Failed to load earning codes')
+        console.error('Error loading earning codes:', err)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchCodes()
+  }, [])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!codesByFormat) return
+    setSaved(false)
+
+    try {
+      const response = await fetch('/api/earning-codes', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ format, codes: codesByFormat[format] }),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to save earning codes')
+      }
+      setCodesByFormat({ ...codesByFormat, [format]: await response.json() })
+      setError(null)
+      setSaved(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save earning codes')
+      console.error('Error saving earning codes:', err)
+    }
+  }
+
+  if (isLoading) return <LoadingSpinner />
+  if (!codesByFormat) return <div className="text-red-600 dark:text-red-400 text-sm">{error}</div>
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      {error && <div className="text-red-600 dark:text-red-400 text-sm">{error}</div>}
+      <div className="sm:w-1/3">
+        <label htmlFor="earningCodeFormat" className="block text-sm font-medium text-[var(--foreground)]">
+          export format
+        </label>
+        <div className="mt-2">
+          <select
+            id="earningCodeFormat"
+            value={format}
+            onChange={(e) => {
+              setFormat(e.target.value as PayrollExportFormat)
+              setSaved(false)
+            }}
+            className={inputClassName}
+          >
+            {PAYROLL_EXPORT_FORMATS.map(value => (
+              <option key={value} value={value}>{PAYROLL_EXPORT_ADAPTERS[value].label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-5">
+        {PAYROLL_EARNING_KINDS.map(kind => (
+          <div key={kind.value}>
+            <label htmlFor={`earningCode-${kind.value}`} className="block text-sm font-medium text-[var(--foreground)]">
+              {kind.label}
+            </label>
+            <div className="mt-2">
+              <input
+                type="text"
+                id={`earningCode-${kind.value}`}
+                value={codesByFormat[format][kind.value]}
+                placeholder={PAYROLL_EXPORT_ADAPTERS[format].defaultEarningCodes[kind.value]}
+                onChange={(e) => setCodesByFormat({ ...codesByFormat, [format]: { ...codesByFormat[format], [kind.value]: e.target.value } })}
+                className={inputClassName}
+                required
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <AdminOnly>
+        <div className="flex items-center justify-end space-x-3">
+          {saved && <span className="text-sm text-green-600 dark:text-green-400">saved</span>}
+          <button
+            type="submit"
+            className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+          >
+            save codes
+          </button>
+        </div>
+      </AdminOnly>
+    </form>
+  )
+}
@@ -7,6 +7,7 @@ import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { UserButton, useUser } from '@clerk/nextjs'
 import { AdminOnly } from './RoleBasedUI'
+import { UserRoles, isManager } from '@/lib/roles'
 import { dark } from '@clerk/themes'
 const navigation = [
   { name: 'home', href: '/' },
@@ -15,6 +16,11 @@ const navigation = [
   { name: 'employees', href: '/employees' },
   { name: 'roles', href: '/roles' },
   { name: 'reports', href: '/reports' },
+  { name: 'pay periods', href: '/pay-periods' },
+]
+// Staff only have their own tips to look at
+const staffNavigation = [
+  { name: 'my tips', href: '/my-tips' },
 ]
 
 function classNames(...classes: string[]) {
@@ -23,10 +29,11 @@ function classNames(...classes: string[]) {
 
 export default function Header() {
   const pathname = usePathname()
-  const { isSignedIn } = useUser()
+  const { isSignedIn, user } = useUser()
+  const links = isManager(user?.publicMetadata?.roles as UserRoles | undefined) ? navigation : staffNavigation
 
   return (
-    <Disclosure as="nav" className="bg-[var(--background)] shadow">
+    <Disclosure as="nav" className="bg-[var(--background)] shadow print:hidden">
       {({ open }) => (
         <>
           <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
@@ -39,7 +46,7 @@ export default function Header() {
                 </div>
                 {isSignedIn && (
                   <div className="hidden sm:ml-6 sm:flex sm:space-x-8">
-                    {navigation.map((item) => (
+                    {links.map((item) => (
                       <Link
                         key={item.name}
                         href={item.href}
@@ -98,7 +105,7 @@ export default function Header() {
 
           <Disclosure.Panel className="sm:hidden">
             <div className="space-y-1 pb-3 pt-2">
-              {isSignedIn && navigation.map((item) => (
+              {isSignedIn && links.map((item) => (
                 <Disclosure.Button
                   key={item.name}
                   as={Link}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import LoadingSpinner from '@/components/LoadingSpinner'
+
+type PayRateEntry = {
+  id: string
+  rate: number
+  effectiveFrom: string
+  effectiveTo: string | null
+  role?: { id: string; name: string; basePayRate: number }
+}
+
+type PayRateHistoryProps = {
+  // Pay rates endpoint of a role (its rates) or an employee (their overrides)
+  endpoint: string
+  // Roles an employee's override can be for; leave out for a role's own rates
+  roles?: { id: string; name: string }[]
+}
+
+const EMPTY_PAY_RATE = { roleId: '', rate: '', effectiveFrom: '', effectiveTo: '' }
+
+// Rates before 1971 are the ones a role was created with, which apply to every earlier shift
+const formatFrom = (date: string) => new Date(date).getUTCFullYear() < 1971 ? 'the start' : format(new Date(date), 'MMM d, yyyy').toLowerCase()
+
+const inputClassName = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white px-3 py-2'
+
+export default function PayRateHistory({ endpoint, roles }: PayRateHistoryProps) {
+  const [payRates, setPayRates] = useState<PayRateEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [newRate, setNewRate] = useState(EMPTY_PAY_RATE)
+  const isOverride = roles !== undefined
+
+  const fetchPayRates = useCallback(async () => {
+    try {
+      const response = await fetch(endpoint)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to fetch pay rates')
+      }
+      setPayRates(await response.json())
+    } catch (err) {
+      console.error('Error loading pay rates:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load pay rates')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [endpoint])
+
+  useEffect(() => {
+    fetchPayRates()
+  }, [fetchPayRates])
+
+  const handleAddRate = async () => {
+    if (!newRate.rate || (isOverride && !newRate.roleId)) return
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...(isOverride ? { roleId: newRate.roleId } : {}),
+          rate: Number(newRate.rate),
+          effectiveFrom: newRate.effectiveFrom || undefined,
+          effectiveTo: newRate.effectiveTo || undefined,
+        }),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to save pay rate')
+      }
+      setNewRate(EMPTY_PAY_RATE)
+      setError(null)
+      await fetchPayRates()
+    } catch (err) {
+      console.error('Error saving pay rate:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save pay rate')
+    }
+  }
+
+  const handleRemoveRate = async (payRate: PayRateEntry) => {
+    try {
+      const response = await fetch(`${endpoint}?payRateId=${payRate.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to remove pay rate')
+      }
+      setPayRates(payRates.filter(entry => entry.id !== payRate.id))
+    } catch (err) {
+      console.error('Error removing pay rate:', err)
+      setError(err instanceof Error ? err.message : 'Failed to remove pay rate')
+    }
+  }
+
+  if (isLoading) return <LoadingSpinner />
+
+  return (
+    <div className="space-y-4">
+      {error && <div className="text-red-600 dark:text-red-400 text-sm">{error}</div>}
+
+      {payRates.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {isOverride ? 'no overrides; paid at the role rate.' : 'no pay rates recorded yet.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {payRates.map(payRate => (
+            <li key={payRate.id} className="flex justify-between gap-4 py-2 text-sm">
+              <span className="text-[var(--foreground)]">
+                {payRate.role && <span className="font-medium">{payRate.role.name.toLowerCase()} · </span>}
+                ${payRate.rate.toFixed(2)}/hr
+                {payRate.role && <span className="text-gray-500 dark:text-gray-400"> (role rate ${payRate.role.basePayRate.toFixed(2)}/hr)</span>}
+              </span>
+              <span className="flex gap-4 text-gray-500 dark:text-gray-400">
+                {formatFrom(payRate.effectiveFrom)} to {payRate.effectiveTo ? format(new Date(payRate.effectiveTo), 'MMM d, yyyy').toLowerCase() : 'now'}
+                {isOverride && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveRate(payRate)}
+                    className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
+                  >
+                    remove
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-5 sm:items-end">
+        {isOverride && (
+          <select
+            aria-label="role"
+            value={newRate.roleId}
+            onChange={(e) => setNewRate({ ...newRate, roleId: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">select role</option>
+            {roles.map(role => (
+              <option key={role.id} value={role.id}>{role.name}</option>
+            ))}
+          </select>
+        )}
+        <input
+          type="number"
+          aria-label="rate per hour"
+          placeholder="$/hr"
+          min="0"
+          step="0.01"
+          value={newRate.rate}
+          onChange={(e) => setNewRate({ ...newRate, rate: e.target.value })}
+          className={inputClassName}
+        />
+        <input
+          type="date"
+          aria-label="effective from"
+          title="effective from (today if left empty)"
+          value={newRate.effectiveFrom}
+          onChange={(e) => setNewRate({ ...newRate, effectiveFrom: e.target.value })}
+          className={inputClassName}
+        />
+        <input
+          type="date"
+          aria-label="effective to"
+          title="effective to (until the next rate if left empty)"
+          value={newRate.effectiveTo}
+          onChange={(e) => setNewRate({ ...newRate, effectiveTo: e.target.value })}
+          className={inputClassName}
+        />
+        <button
+          type="button"
+          onClick={handleAddRate}
+          className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+        >
+          {isOverride ? 'add override' : 'schedule rate'}
+        </button>
+      </div>
+    </div>
+  )
+}
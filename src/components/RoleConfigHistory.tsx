@@ -0,0 +1,154 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import LoadingSpinner from '@/components/LoadingSpinner'
+import { TIPOUT_BASES } from '@/utils/tipoutCalculations'
+
+// A saved version of one of the role's configs, as returned by the history endpoint
+type ConfigVersion = {
+  id: string
+  tipoutType: string
+  percentageRate: string | number
+  basis: string
+  effectiveFrom: string
+  effectiveTo: string | null
+  receivesTipout: boolean
+  paysTipout: boolean
+  distributionGroup: string | null
+  tipPoolGroup: string | null
+  supersededAt: string | null
+  previousVersionId: string | null
+  changedBy: string | null
+  changeReason: string | null
+  createdAt: string
+}
+
+// The versions recorded by one save, plus the versions it removed without replacing
+type ConfigChange = {
+  recordedAt: string
+  changedBy: string | null
+  changeReason: string | null
+  versions: ConfigVersion[]
+  removed: ConfigVersion[]
+}
+
+const formatDate = (date: string) => format(new Date(date), 'MMM d, yyyy').toLowerCase()
+
+const describeVersion = (version: ConfigVersion) => {
+  const basis = TIPOUT_BASES.find(entry => entry.value === version.basis)?.label ?? version.basis
+  const what = version.receivesTipout
+    ? `receives ${version.tipoutType}${version.distributionGroup ? ` with ${version.distributionGroup}` : ''}`
+    : `pays ${version.tipoutType} at ${Number(version.percentageRate)}% of ${basis}`
+  const when = version.effectiveTo
+    ? `${formatDate(version.effectiveFrom)} to ${formatDate(version.effectiveTo)}`
+    : `from ${formatDate(version.effectiveFrom)}`
+  return `${what}, ${when}${version.tipPoolGroup ? `, pooled with ${version.tipPoolGroup}` : ''}`
+}
+
+// Groups versions by the save that recorded them, newest first
+const groupChanges = (versions: ConfigVersion[]): ConfigChange[] => {
+  const changes = new Map<string, ConfigChange>()
+  versions.forEach(version => {
+    const change = changes.get(version.createdAt) ?? {
+      recordedAt: version.createdAt,
+      changedBy: version.changedBy,
+      changeReason: version.changeReason,
+      versions: [],
+      removed: [],
+    }
+    change.versions.push(version)
+    changes.set(version.createdAt, change)
+  })
+
+  const replacedIds = new Set(versions.map(version => version.previousVersionId).filter(Boolean))
+  versions
+    .filter(version => version.supersededAt && !replacedIds.has(version.id))
+    .forEach(version => {
+      const change = changes.get(version.supersededAt!) ?? {
+        recordedAt: version.supersededAt!,
+        changedBy: null,
+        changeReason: null,
+        versions: [],
+        removed: [],
+      }
+      change.removed.push(version)
+      changes.set(version.supersededAt!, change)
+    })
+
+  return Array.from(changes.values()).sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))
+}
+
+export default function RoleConfigHistory({ roleId }: { roleId: string }) {
+  const [versions, setVersions] = useState<ConfigVersion[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(`/api/roles/${roleId}/config/history`)
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}))
+          throw new Error(errorData.error || 'Failed to fetch config history')
+        }
+        setVersions(await response.json())
+      } catch (err) {
+        console.error('Error loading config history:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load config history')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchHistory()
+  }, [roleId])
+
+  if (isLoading) return <LoadingSpinner />
+  if (error) return <div className="text-red-600 dark:text-red-400 text-sm">{error}</div>
+
+  const versionsById = new Map(versions.map(version => [version.id, version]))
+  const changes = groupChanges(versions)
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">no changes recorded yet.</p>
+  }
+
+  return (
+    <ol className="divide-y divide-gray-200 dark:divide-gray-700">
+      {changes.map(change => (
+        <li key={change.recordedAt} className="py-3">
+          <div className="flex flex-wrap justify-between gap-2 text-sm">
+            <span className="font-medium text-[var(--foreground)]">
+              {format(new Date(change.recordedAt), 'MMM d, yyyy h:mm a').toLowerCase()}
+              {change.changedBy && <span className="font-normal text-gray-500 dark:text-gray-400"> by {change.changedBy}</span>}
+            </span>
+            {change.changeReason && (
+              <span className="text-gray-500 dark:text-gray-400 italic">{change.changeReason}</span>
+            )}
+          </div>
+          <ul className="mt-1 space-y-1 text-xs text-gray-600 dark:text-gray-300">
+            {change.versions.map(version => {
+              const previous = version.previousVersionId ? versionsById.get(version.previousVersionId) : undefined
+              const previousDescription = previous ? describeVersion(previous) : null
+              return (
+                <li key={version.id}>
+                  {previous ? 'changed: ' : 'added: '}{describeVersion(version)}
+                  {previousDescription && previousDescription !== describeVersion(version) && (
+                    <span className="text-gray-400 dark:text-gray-500"> (was {previousDescription})</span>
+                  )}
+                  {!version.supersededAt && <span className="ml-1 text-green-600 dark:text-green-400">in use</span>}
+                </li>
+              )
+            })}
+            {change.removed.map(version => (
+              <li key={`removed-${version.id}`} className="text-red-600 dark:text-red-400">
+                removed: {describeVersion(version)}
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -4,6 +4,8 @@ import { useEffect, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { format } from 'date-fns'
 import LoadingSpinner from '@/components/LoadingSpinner'
+import { getDefaultTipoutBasis } from '@/utils/tipoutCalculations'
+import { ServicePeriod, TipoutBasis } from '@/types/reports'
 
 type Employee = {
   id: string
@@ -15,6 +17,7 @@ type RoleConfiguration = {
   tipoutType: string
   percentageRate: number
   paysTipout: boolean
+  basis?: TipoutBasis
 }
 
 type Role = {
@@ -31,6 +34,9 @@ type ShiftFormData = {
   cashTips: number
   creditTips: number
   liquorSales: number
+  foodSales: number
+  netSales: number
+  servicePeriodId?: string | null
 }
 
 type ShiftEntryFormProps = {
@@ -41,6 +47,7 @@ type ShiftEntryFormProps = {
 export default function ShiftEntryForm({ initialData, onSubmit }: ShiftEntryFormProps) {
   const [employees, setEmployees] = useState<Employee[]>([])
   const [roles, setRoles] = useState<Role[]>([])
+  const [servicePeriods, setServicePeriods] = useState<ServicePeriod[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedRole, setSelectedRole] = useState<Role | null>(null)
@@ -89,22 +96,28 @@ export default function ShiftEntryForm({ initialData, onSubmit }: ShiftEntryForm
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [employeesRes, rolesRes] = await Promise.all([
+        const [employeesRes, rolesRes, servicePeriodsRes] = await Promise.all([
           fetch('/api/employees'),
           fetch('/api/roles'),
+          fetch('/api/service-periods'),
         ])
 
-        if (!employeesRes.ok || !rolesRes.ok) {
+        if (!employeesRes.ok || !rolesRes.ok || !servicePeriodsRes.ok) {
           throw new Error('Failed to fetch data')
         }
 
-        const [employeesData, rolesData] = await Promise.all([
+        const [employeesData, rolesData, servicePeriodsData] = await Promise.all([
           employeesRes.json(),
           rolesRes.json(),
+          servicePeriodsRes.json(),
         ])
 
         setEmployees(employeesData)
         setRoles(rolesData)
+        // Inactive periods stay selectable on shifts that already use them
+        setServicePeriods(servicePeriodsData.filter((period: ServicePeriod) =>
+          period.active || period.id === initialData?.servicePeriodId
+        ))
       } catch (err) {
         setError('Failed to load form data')
         console.error('Error loading form data:', err)
@@ -114,7 +127,7 @@ export default function ShiftEntryForm({ initialData, onSubmit }: ShiftEntryForm
     }
 
     fetchData()
-  }, [])
+  }, [initialData?.servicePeriodId])
 
   const handleFormSubmit = async (data: ShiftFormData) => {
     setIsSubmitting(true)
@@ -131,7 +144,8 @@ export default function ShiftEntryForm({ initialData, onSubmit }: ShiftEntryForm
         })
 
         if (!response.ok) {
-          throw new Error('Failed to save shift')
+          const errorData = await response.json().catch(() => ({}))
+          throw new Error(errorData.error || 'Failed to save shift')
         }
 
         const result = await response.json()
@@ -140,7 +154,7 @@ export default function ShiftEntryForm({ initialData, onSubmit }: ShiftEntryForm
       }
     } catch (error) {
       console.error('Error submitting shift:', error)
-      setError('Failed to save shift')
+      setError(error instanceof Error ? error.message : 'Failed to save shift')
     } finally {
       setIsSubmitting(false)
     }
@@ -158,16 +172,24 @@ export default function ShiftEntryForm({ initialData, onSubmit }: ShiftEntryForm
   const isFieldRequired = (field: keyof ShiftFormData) => {
     if (!selectedRole) return false
 
+    const paysOnBasis = (...bases: TipoutBasis[]) =>
+      selectedRole.configs.some(config =>
+        !!config.tipoutType &&
+        config.paysTipout &&
+        bases.includes(config.basis ?? getDefaultTipoutBasis(config.tipoutType))
+      )
+
     switch (field) {
       case 'cashTips':
+        return paysOnBasis('total_tips')
       case 'creditTips':
-        return selectedRole.configs.some(config => 
-          (config.tipoutType === 'host' || config.tipoutType === 'sa') && config.paysTipout
-        )
+        return paysOnBasis('total_tips', 'credit_tips')
       case 'liquorSales':
-        return selectedRole.configs.some(config => 
-          config.tipoutType === 'bar' && config.paysTipout
-        )
+        return paysOnBasis('liquor_sales')
+      case 'foodSales':
+        return paysOnBasis('food_sales')
+      case 'netSales':
+        return paysOnBasis('net_sales')
       case 'hours':
         return true // Hours are always required
       default:
@@ -183,12 +205,22 @@ export default function ShiftEntryForm({ initialData, onSubmit }: ShiftEntryForm
       case 'cashTips':
       case 'creditTips':
         if (isFieldRequired(field)) {
-          return 'Required for roles that pay host or server assistant tipouts'
+          return 'Required for roles that pay tipouts based on tips'
         }
         return 'Not required for this role'
       case 'liquorSales':
         if (isFieldRequired(field)) {
-          return 'Required for roles that pay bar tipouts'
+          return 'Required for roles that pay tipouts based on liquor sales'
+        }
+        return 'Not required for this role'
+      case 'foodSales':
+        if (isFieldRequired(field)) {
+          return 'Required for roles that pay tipouts based on food sales'
+        }
+        return 'Not required for this role'
+      case 'netSales':
+        if (isFieldRequired(field)) {
+          return 'Required for roles that pay tipouts based on net sales'
         }
         return 'Not required for this role'
       case 'hours':
@@ -257,7 +289,7 @@ export default function ShiftEntryForm({ initialData, onSubmit }: ShiftEntryForm
           {/* Shift Details Section */}
           <div className="mb-8">
             <h3 className="text-base font-medium text-[var(--foreground)] mb-4">shift details</h3>
-            <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+            <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
               <div>
                 <label htmlFor="date" className="block text-sm font-medium text-[var(--foreground)]">
                   date <span className="text-red-500">*</span>
@@ -275,6 +307,31 @@ export default function ShiftEntryForm({ initialData, onSubmit }: ShiftEntryForm
                 </div>
               </div>
 
+              {servicePeriods.length > 0 && (
+                <div>
+                  <label htmlFor="servicePeriodId" className="block text-sm font-medium text-[var(--foreground)]">
+                    service period
+                  </label>
+                  <div className="mt-2">
+                    <select
+                      {...register('servicePeriodId')}
+                      id="servicePeriodId"
+                      className="block w-full rounded-md border-gray-300 shadow-sm px-3 py-2 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm dark:bg-gray-800 dark:border-gray-700 dark:text-white"
+                    >
+                      <option value="">none</option>
+                      {servicePeriods.map((period) => (
+                        <option key={period.id} value={period.id}>
+                          {period.name.toLowerCase()}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                      tips are pooled with others working the same day and service period
+                    </p>
+                  </div>
+                </div>
+              )}
+
               <div>
                 <label htmlFor="hours" className="block text-sm font-medium text-[var(--foreground)]">
                   hours <span className="text-red-500">*</span>
@@ -296,6 +353,13 @@ export default function ShiftEntryForm({ initialData, onSubmit }: ShiftEntryForm
                 </div>
               </div>
 
+            </div>
+          </div>
+
+          {/* Sales Section */}
+          <div className="mb-8">
+            <h3 className="text-base font-medium text-[var(--foreground)] mb-4">sales</h3>
+            <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
               <div>
                 <label htmlFor="liquorSales" className={`block text-sm font-medium ${!isFieldRequired('liquorSales') ? 'text-gray-400 dark:text-gray-500' : 'text-[var(--foreground)]'}`}>
                   liquor sales {isFieldRequired('liquorSales') && <span className="text-red-500">*</span>}
@@ -322,6 +386,58 @@ export default function ShiftEntryForm({ initialData, onSubmit }: ShiftEntryForm
                   <p className="mt-2 text-xs text-gray-500">{getFieldDescription('liquorSales')}</p>
                 </div>
               </div>
+              <div>
+                <label htmlFor="foodSales" className={`block text-sm font-medium ${!isFieldRequired('foodSales') ? 'text-gray-400 dark:text-gray-500' : 'text-[var(--foreground)]'}`}>
+                  food sales {isFieldRequired('foodSales') && <span className="text-red-500">*</span>}
+                </label>
+                <div className="mt-2">
+                  <input
+                    {...register('foodSales', {
+                      required: isFieldRequired('foodSales') ? 'Food sales amount is required' : false,
+                      min: { value: 0, message: 'Food sales must be positive' },
+                    })}
+                    type="number"
+                    step="0.01"
+                    id="foodSales"
+                    disabled={!isFieldRequired('foodSales')}
+                    className={`block w-full rounded-md shadow-sm px-3 py-2 sm:text-sm ${
+                      !isFieldRequired('foodSales') 
+                      ? 'bg-gray-100 dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-400 dark:text-gray-500 cursor-not-allowed opacity-60' 
+                      : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-700 text-[var(--foreground)] focus:border-indigo-500 focus:ring-indigo-500'
+                    }`}
+                  />
+                  {errors.foodSales && (
+                    <p className="mt-2 text-sm text-red-600 dark:text-red-400">{errors.foodSales.message}</p>
+                  )}
+                  <p className="mt-2 text-xs text-gray-500">{getFieldDescription('foodSales')}</p>
+                </div>
+              </div>
+              <div>
+                <label htmlFor="netSales" className={`block text-sm font-medium ${!isFieldRequired('netSales') ? 'text-gray-400 dark:text-gray-500' : 'text-[var(--foreground)]'}`}>
+                  net sales {isFieldRequired('netSales') && <span className="text-red-500">*</span>}
+                </label>
+                <div className="mt-2">
+                  <input
+                    {...register('netSales', {
+                      required: isFieldRequired('netSales') ? 'Net sales amount is required' : false,
+                      min: { value: 0, message: 'Net sales must be positive' },
+                    })}
+                    type="number"
+                    step="0.01"
+                    id="netSales"
+                    disabled={!isFieldRequired('netSales')}
+                    className={`block w-full rounded-md shadow-sm px-3 py-2 sm:text-sm ${
+                      !isFieldRequired('netSales') 
+                      ? 'bg-gray-100 dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-400 dark:text-gray-500 cursor-not-allowed opacity-60' 
+                      : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-700 text-[var(--foreground)] focus:border-indigo-500 focus:ring-indigo-500'
+                    }`}
+                  />
+                  {errors.netSales && (
+                    <p className="mt-2 text-sm text-red-600 dark:text-red-400">{errors.netSales.message}</p>
+                  )}
+                  <p className="mt-2 text-xs text-gray-500">{getFieldDescription('netSales')}</p>
+                </div>
+              </div>
             </div>
           </div>
 
@@ -0,0 +1,139 @@
+'use client'
+
+import { format } from 'date-fns'
+import { ShiftTipBreakdown, TipStatement, TipStatementTotals } from '@/types/reports'
+
+// Statement dates are plain days, so read them without shifting into local time
+const formatDay = (date: string) => format(new Date(date + 'T12:00:00'), 'MMM d, yyyy').toLowerCase()
+const formatMoney = (amount: number) => `$${amount.toFixed(2)}`
+
+const headerClassName = 'px-2 py-2 text-right text-xs font-semibold text-gray-900 dark:text-white print:text-black'
+const cellClassName = 'whitespace-nowrap px-2 py-1.5 text-right text-sm text-gray-700 dark:text-gray-300 print:text-black'
+
+// One employee's tip statement: every shift, its totals row, then the totals by role the report shows.
+// Each starts a new page when printed.
+export default function TipStatementView({ statement, typeName }: { statement: TipStatement; typeName: (key: string) => string }) {
+  const isPooled = statement.shifts.some(shift => shift.tipPoolGroup)
+  const hasHouseTopUps = statement.totals.houseTopUp > 0
+
+  const amountCells = (line: ShiftTipBreakdown | TipStatementTotals) => (
+    <>
+      <td className={cellClassName}>{formatMoney(line.grossCashTips)}</td>
+      <td className={cellClassName}>{formatMoney(line.grossCreditTips)}</td>
+      {isPooled && (
+        <>
+          <td className={cellClassName}>{line.poolCashShare === null ? '' : formatMoney(line.poolCashShare)}</td>
+          <td className={cellClassName}>{line.poolCreditShare === null ? '' : formatMoney(line.poolCreditShare)}</td>
+        </>
+      )}
+      {statement.tipoutTypes.map(type => (
+        <td key={type} className={cellClassName}>
+          {line.tipoutsPaid[type] ? `-${formatMoney(line.tipoutsPaid[type])}` : ''}
+          {line.tipoutsPaid[type] && line.tipoutsReceived[type] ? ' / ' : ''}
+          {line.tipoutsReceived[type] ? `+${formatMoney(line.tipoutsReceived[type])}` : ''}
+        </td>
+      ))}
+      {hasHouseTopUps && <td className={cellClassName}>{line.houseTopUp ? formatMoney(line.houseTopUp) : ''}</td>}
+      <td className={cellClassName}>{formatMoney(line.cashTips)}</td>
+      <td className={`${cellClassName} font-medium`}>{formatMoney(line.payrollTips)}</td>
+    </>
+  )
+
+  return (
+    <section className="mt-8 bg-white/50 dark:bg-gray-800/50 shadow sm:rounded-lg border border-gray-200 dark:border-gray-700 px-4 py-5 sm:p-6 print:mt-0 print:border-0 print:shadow-none print:p-0 print:break-after-page">
+      <div className="flex items-baseline justify-between gap-4">
+        <h2 className="text-lg font-semibold text-[var(--foreground)] print:text-black">{statement.employeeName}</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 print:text-black">
+          tip statement · {statement.startDate === statement.endDate ? formatDay(statement.startDate) : `${formatDay(statement.startDate)} to ${formatDay(statement.endDate)}`}
+        </p>
+      </div>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-300 dark:divide-gray-700">
+          <thead>
+            <tr>
+              <th scope="col" className={`${headerClassName} text-left`}>date</th>
+              <th scope="col" className={`${headerClassName} text-left`}>role</th>
+              <th scope="col" className={headerClassName}>hours</th>
+              <th scope="col" className={headerClassName}>cash tips</th>
+              <th scope="col" className={headerClassName}>credit tips</th>
+              {isPooled && (
+                <>
+                  <th scope="col" className={headerClassName}>pool cash share</th>
+                  <th scope="col" className={headerClassName}>pool credit share</th>
+                </>
+              )}
+              {statement.tipoutTypes.map(type => (
+                <th key={type} scope="col" className={headerClassName}>{typeName(type)} paid / received</th>
+              ))}
+              {hasHouseTopUps && <th scope="col" className={headerClassName}>house top-up</th>}
+              <th scope="col" className={headerClassName}>cash kept</th>
+              <th scope="col" className={headerClassName}>payroll tips</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {statement.shifts.map(shift => (
+              <tr key={shift.shiftId}>
+                <td className={`${cellClassName} text-left`}>
+                  {formatDay(shift.date)}
+                  {shift.servicePeriodName && <span className="text-gray-500 dark:text-gray-400 print:text-black"> · {shift.servicePeriodName.toLowerCase()}</span>}
+                </td>
+                <td className={`${cellClassName} text-left`}>
+                  {shift.roleName.toLowerCase()}
+                  {shift.tipPoolGroup && <span className="text-gray-500 dark:text-gray-400 print:text-black"> ({shift.tipPoolGroup} pool)</span>}
+                </td>
+                <td className={cellClassName}>{shift.hours.toFixed(2)}</td>
+                {amountCells(shift)}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="border-t-2 border-gray-300 dark:border-gray-600">
+            <tr className="font-semibold">
+              <td colSpan={2} className={`${cellClassName} text-left font-semibold`}>total ({statement.totals.shifts} shifts)</td>
+              <td className={`${cellClassName} font-semibold`}>{statement.totals.hours.toFixed(2)}</td>
+              {amountCells(statement.totals)}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <h3 className="mt-6 text-sm font-medium text-[var(--foreground)] print:text-black">Totals by Role</h3>
+      <div className="mt-2 overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-300 dark:divide-gray-700">
+          <thead>
+            <tr>
+              <th scope="col" className={`${headerClassName} text-left`}>role</th>
+              <th scope="col" className={headerClassName}>hours</th>
+              <th scope="col" className={headerClassName}>cash kept</th>
+              <th scope="col" className={headerClassName}>gross credit tips</th>
+              {statement.tipoutTypes.map(type => (
+                <th key={type} scope="col" className={headerClassName}>{typeName(type)} tipout</th>
+              ))}
+              {hasHouseTopUps && <th scope="col" className={headerClassName}>house top-up</th>}
+              <th scope="col" className={headerClassName}>payroll tips</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {statement.roles.map(role => (
+              <tr key={role.roleName}>
+                <td className={`${cellClassName} text-left`}>{role.roleName.toLowerCase()}</td>
+                <td className={cellClassName}>{role.totalHours.toFixed(2)}</td>
+                <td className={cellClassName}>{formatMoney(role.totalCashTips)}</td>
+                <td className={cellClassName}>{formatMoney(role.totalGrossCreditTips)}</td>
+                {statement.tipoutTypes.map(type => (
+                  <td key={type} className={cellClassName}>{formatMoney(role.totalTipouts[type] || 0)}</td>
+                ))}
+                {hasHouseTopUps && <td className={cellClassName}>{formatMoney(role.totalHouseTopUp || 0)}</td>}
+                <td className={`${cellClassName} font-medium`}>{formatMoney(role.totalPayrollTips)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-4 text-xs text-gray-500 dark:text-gray-400 print:text-black">
+        payroll tips are the credit tips (or pool credit share) less tipouts paid from them, plus tipouts received and any house top-up.
+        cash kept is the cash tips (or pool cash share) less tipouts paid from cash.
+      </p>
+    </section>
+  )
+}
@@ -1,5 +1,14 @@
-import { auth } from "@clerk/nextjs/server";
-import { UserRole } from "./roles";
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { UserRole, UserRoles, isManager } from "./roles";
+import { prisma } from "./prisma";
+import { forbiddenResponse, unauthorizedResponse } from "./authErrors";
+import { EmployeeScope, getRoleAccess } from "@/utils/access";
+
+type Session = Awaited<ReturnType<typeof auth>>;
+
+const getSessionRoles = (session: Session): UserRoles =>
+  ((session.sessionClaims?.metadata as { roles?: string[] } | undefined)?.roles || []) as UserRoles;
 
 export async function getCurrentUserRoles(): Promise<string[]> {
   const session = await auth();
@@ -23,4 +32,47 @@ export async function isAdmin(): Promise<boolean> {
   // Debug point for admin check
   console.log('Admin check result:', isAdminResult);
   return isAdminResult;
-} 
\ No newline at end of file
+} 
+/**
+ * A name to record against changes made by the signed-in user: their full name, else their email, else their user id.
+ */
+export async function getCurrentUserLabel(): Promise<string | null> {
+  const user = await currentUser();
+  if (!user) return null;
+  return user.fullName || user.primaryEmailAddress?.emailAddress || user.id;
+}
+
+/**
+ * Whose data the signed-in user may see (see EmployeeScope in utils/access).
+ */
+export async function getEmployeeScope(): Promise<EmployeeScope> {
+  const session = await auth();
+  if (!session.userId) return { all: false, employeeId: null };
+  if (isManager(getSessionRoles(session))) return { all: true };
+
+  const employee = await prisma.employee.findUnique({ where: { clerkUserId: session.userId }, select: { id: true } });
+  return { all: false, employeeId: employee?.id ?? null };
+}
+
+/**
+ * Guards an API route handler. Returns a 401 response when nobody is signed in, or a 403 when roles are given
+ * and the user has none of them; null means the handler can go ahead.
+ *
+ *   const denied = await requireRole(MANAGER_ROLES);
+ *   if (denied) return denied;
+ */
+export async function requireRole(roles?: UserRole[]): Promise<NextResponse | null> {
+  const session = await auth();
+  const access = getRoleAccess(session.userId, getSessionRoles(session), roles);
+  if (access === 'unauthorized') return unauthorizedResponse();
+  if (access === 'forbidden') return forbiddenResponse();
+  return null;
+}
+
+/**
+ * Guards an API route handler that anyone signed in may call, staff included. Routes staff can reach narrow
+ * what they return with getEmployeeScope.
+ */
+export function requireSession(): Promise<NextResponse | null> {
+  return requireRole();
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server'
+
+// The JSON errors for API calls that are not signed in or not allowed. Kept apart from ./auth so the
+// middleware, which can't load Prisma, sends the same ones.
+
+export function unauthorizedResponse(): NextResponse {
+  return NextResponse.json({ error: 'You must be signed in to do that' }, { status: 401 })
+}
+
+export function forbiddenResponse(message = 'You do not have permission to do that'): NextResponse {
+  return NextResponse.json({ error: message }, { status: 403 })
+}
@@ -0,0 +1,79 @@
+import { DistributionSplit, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { planConfigWindow } from '@/utils/effectiveConfig'
+
+type SplitInput = {
+  group: string
+  percentage: number
+}
+
+/**
+ * Selects the splits in effect on a date, among the versions in use.
+ */
+export function getSplitsInEffectFilter(date: Date): Prisma.DistributionSplitWhereInput {
+  return {
+    supersededAt: null,
+    effectiveFrom: { lte: date },
+    OR: [{ effectiveTo: null }, { effectiveTo: { gte: date } }],
+  }
+}
+
+// Supersedes a split version with a copy carrying new dates; the old version stays on record for reports run as configured earlier
+const reviseSplit = (split: DistributionSplit, dates: Partial<Pick<DistributionSplit, 'effectiveFrom' | 'effectiveTo'>>, at: Date, db: Prisma.TransactionClient) => [
+  db.distributionSplit.update({ where: { id: split.id }, data: { supersededAt: at } }),
+  copySplit(split, dates, at, db),
+]
+
+const copySplit = (split: DistributionSplit, dates: Partial<Pick<DistributionSplit, 'effectiveFrom' | 'effectiveTo'>>, at: Date, db: Prisma.TransactionClient) =>
+  db.distributionSplit.create({
+    data: {
+      tipoutType: split.tipoutType,
+      group: split.group,
+      percentage: split.percentage,
+      effectiveFrom: split.effectiveFrom,
+      effectiveTo: split.effectiveTo,
+      ...dates,
+      createdAt: at,
+    },
+  })
+
+/**
+ * Plans how a tipout type's pool is split between distribution groups from `effectiveFrom` to `effectiveTo` (inclusive),
+ * like a role config change: the type's splits already recorded are ended, split or replaced around the new window,
+ * as new versions, and without an effectiveTo it runs until the next split scheduled after it. An empty list shares
+ * the pool by hours over the window. Returns the window's end and the writes, made with `db`, to run in one transaction;
+ * the new splits are last.
+ */
+export async function planDistributionSplit(
+  tipoutType: string,
+  splits: SplitInput[],
+  effectiveFrom: Date,
+  requestedTo: Date | null,
+  at: Date,
+  db: Prisma.TransactionClient = prisma
+): Promise<{ effectiveTo: Date | null; writes: Prisma.PrismaPromise<DistributionSplit>[] }> {
+  const existing = await db.distributionSplit.findMany({ where: { tipoutType, supersededAt: null } })
+  const { effectiveTo, changes } = planConfigWindow(existing, effectiveFrom, requestedTo)
+
+  const writes = [
+    ...changes.flatMap(change => {
+      switch (change.kind) {
+        case 'end':
+          return reviseSplit(change.config, { effectiveTo: change.effectiveTo }, at, db)
+        case 'start':
+          return reviseSplit(change.config, { effectiveFrom: change.effectiveFrom }, at, db)
+        case 'split':
+          return [
+            ...reviseSplit(change.config, { effectiveTo: change.effectiveTo }, at, db),
+            copySplit(change.config, { effectiveFrom: change.resumeFrom }, at, db),
+          ]
+        case 'replace':
+          return [db.distributionSplit.update({ where: { id: change.config.id }, data: { supersededAt: at } })]
+      }
+    }),
+    ...splits.map(split => db.distributionSplit.create({
+      data: { tipoutType, group: split.group.trim(), percentage: Number(split.percentage), effectiveFrom, effectiveTo, createdAt: at },
+    })),
+  ]
+  return { effectiveTo, writes }
+}
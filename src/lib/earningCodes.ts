@@ -0,0 +1,46 @@
+import { prisma } from './prisma'
+import { PAYROLL_EARNING_KINDS, PAYROLL_EXPORT_ADAPTERS, PAYROLL_EXPORT_FORMATS } from '@/utils/payrollExport'
+import { EarningCodes, PayrollEarningKind, PayrollExportFormat } from '@/types/reports'
+
+/**
+ * Every export format's earning codes: the saved ones, and the format's defaults for any not saved.
+ */
+export async function getEarningCodes(): Promise<Record<PayrollExportFormat, EarningCodes>> {
+  const saved = await prisma.earningCode.findMany()
+
+  return Object.fromEntries(PAYROLL_EXPORT_FORMATS.map(format => [
+    format,
+    Object.fromEntries(PAYROLL_EARNING_KINDS.map(({ value: kind }) => [
+      kind,
+      saved.find(entry => entry.format === format && entry.kind === kind)?.code ?? PAYROLL_EXPORT_ADAPTERS[format].defaultEarningCodes[kind],
+    ])) as EarningCodes,
+  ])) as Record<PayrollExportFormat, EarningCodes>
+}
+
+/**
+ * Returns an error message for a format's earning codes, or null when they are valid.
+ */
+export function getEarningCodesError(codes: Partial<Record<PayrollEarningKind, unknown>>): string | null {
+  for (const { value: kind, label } of PAYROLL_EARNING_KINDS) {
+    const code = codes[kind]
+    if (code === undefined) continue
+    if (typeof code !== 'string' || !code.trim()) return `Earning code for ${label} cannot be empty`
+  }
+  const given = Object.values(codes).filter((code): code is string => typeof code === 'string').map(code => code.trim())
+  if (new Set(given).size !== given.length) return 'Each earning needs its own code'
+  return null
+}
+
+/**
+ * Saves a format's earning codes. Earnings left undefined keep their code.
+ */
+export async function updateEarningCodes(format: PayrollExportFormat, codes: Partial<EarningCodes>): Promise<EarningCodes> {
+  const changes = Object.entries(codes).filter((entry): entry is [PayrollEarningKind, string] => entry[1] !== undefined)
+
+  await prisma.$transaction(changes.map(([kind, code]) => prisma.earningCode.upsert({
+    where: { format_kind: { format, kind } },
+    create: { format, kind, code: code.trim() },
+    update: { code: code.trim() },
+  })))
+  return (await getEarningCodes())[format]
+}
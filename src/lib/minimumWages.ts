@@ -0,0 +1,76 @@
+import { MinimumWage } from '@prisma/client'
+import { prisma } from './prisma'
+import { planConfigWindow } from '@/utils/effectiveConfig'
+import { MinimumWageRate } from '@/types/reports'
+
+type MinimumWageInput = {
+  minimumWage: number
+  tippedWage: number
+  effectiveFrom: Date
+  effectiveTo: Date | null
+}
+
+/**
+ * Returns an error message for a pair of wage rates and their dates, or null when they are valid.
+ */
+export function getMinimumWageError(minimumWage: unknown, tippedWage: unknown, effectiveFrom: Date, effectiveTo: Date | null): string | null {
+  const isWage = (value: unknown) => value !== undefined && value !== null && value !== '' && Number.isFinite(Number(value)) && Number(value) >= 0
+  if (!isWage(minimumWage)) return 'Minimum wage must be zero or more'
+  if (!isWage(tippedWage)) return 'Tipped wage must be zero or more'
+  if (Number(tippedWage) > Number(minimumWage)) return 'Tipped wage cannot be more than the minimum wage'
+  if (isNaN(effectiveFrom.getTime()) || (effectiveTo && isNaN(effectiveTo.getTime()))) return 'Invalid effective date'
+  if (effectiveTo && effectiveTo < effectiveFrom) return 'effectiveTo cannot be before effectiveFrom'
+  return null
+}
+
+/**
+ * Records the minimum and tipped wage from `effectiveFrom` to `effectiveTo` (inclusive). Rates already recorded are
+ * ended, split or replaced around it so each date has one pair; without an effectiveTo it runs until the next one scheduled.
+ */
+export async function scheduleMinimumWage({ minimumWage, tippedWage, effectiveFrom, effectiveTo: requestedTo }: MinimumWageInput): Promise<MinimumWage> {
+  const existingWages = await prisma.minimumWage.findMany()
+  const { effectiveTo, changes } = planConfigWindow(existingWages, effectiveFrom, requestedTo)
+
+  const results = await prisma.$transaction([
+    ...changes.flatMap(change => {
+      switch (change.kind) {
+        case 'end':
+          return [prisma.minimumWage.update({ where: { id: change.config.id }, data: { effectiveTo: change.effectiveTo } })]
+        case 'start':
+          return [prisma.minimumWage.update({ where: { id: change.config.id }, data: { effectiveFrom: change.effectiveFrom } })]
+        case 'split':
+          return [
+            prisma.minimumWage.update({ where: { id: change.config.id }, data: { effectiveTo: change.effectiveTo } }),
+            prisma.minimumWage.create({
+              data: {
+                minimumWage: change.config.minimumWage,
+                tippedWage: change.config.tippedWage,
+                effectiveFrom: change.resumeFrom,
+                effectiveTo: change.config.effectiveTo,
+              },
+            }),
+          ]
+        case 'replace':
+          return [prisma.minimumWage.delete({ where: { id: change.config.id } })]
+      }
+    }),
+    prisma.minimumWage.create({ data: { minimumWage, tippedWage, effectiveFrom, effectiveTo } }),
+  ])
+
+  return results[results.length - 1]
+}
+
+/**
+ * Every recorded pair of wage rates, in the shape the report calculations take. There are few, so all are loaded.
+ */
+export async function fetchMinimumWageRates(): Promise<MinimumWageRate[]> {
+  const wages = await prisma.minimumWage.findMany({ orderBy: { effectiveFrom: 'asc' } })
+
+  return wages.map(wage => ({
+    id: wage.id,
+    minimumWage: Number(wage.minimumWage),
+    tippedWage: Number(wage.tippedWage),
+    effectiveFrom: wage.effectiveFrom.toISOString(),
+    effectiveTo: wage.effectiveTo ? wage.effectiveTo.toISOString() : null,
+  }))
+}
@@ -0,0 +1,98 @@
+import { format } from 'date-fns'
+import { PayPeriod, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { getPayrollSettings } from './payrollSettings'
+import { getPayPeriodRange } from '@/utils/payPeriods'
+import { getPoolingRange } from '@/utils/reportCalculations'
+
+// Any span of dates a change would affect; no `to` means open-ended
+export type DateWindow = {
+  from: Date
+  to: Date | null
+}
+
+const formatPeriod = (period: Pick<PayPeriod, 'startDate' | 'endDate'>) =>
+  `${format(period.startDate, 'MMM d, yyyy')} to ${format(period.endDate, 'MMM d, yyyy')}`
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * Checks whether a change reaching the given dates would touch a closed or exported pay period. A change moves the
+ * week and pay period pools and the overtime workweeks its dates fall in, so each window is widened to the workweeks
+ * and pay periods around it: a week split between two pay periods reaches into both.
+ * Run it with the transaction client the change is written with. The pay periods it checks stay locked until the
+ * change commits, so none can be closed in between.
+ * Returns an error message naming the first such period, or null when every date is still open.
+ */
+export async function findLockedPayPeriodError(windows: DateWindow[], db: Prisma.TransactionClient): Promise<string | null> {
+  const valid = windows.filter(window => !isNaN(window.from.getTime()) && (!window.to || !isNaN(window.to.getTime())))
+  if (valid.length === 0) return null
+
+  const settings = await getPayrollSettings()
+  const widened = valid.map(window => {
+    const range = getPoolingRange(toDay(window.from), toDay(window.to ?? window.from), settings)
+    return {
+      from: new Date(`${range.startDate}T00:00:00.000Z`),
+      to: window.to ? new Date(`${range.endDate}T23:59:59.999Z`) : null,
+    }
+  })
+
+  const overlapping = await db.payPeriod.findMany({
+    where: {
+      OR: widened.map(window => ({
+        endDate: { gte: window.from },
+        ...(window.to ? { startDate: { lte: window.to } } : {}),
+      })),
+    },
+    select: { id: true },
+  })
+  if (overlapping.length === 0) return null
+
+  // Closing one of them now waits for the change to commit, and one closed just before is seen as closed
+  const ids = overlapping.map(period => period.id)
+  await db.$queryRaw`SELECT id FROM "PayPeriod" WHERE id IN (${Prisma.join(ids)}) FOR SHARE`
+  const period = await db.payPeriod.findFirst({
+    where: { id: { in: ids }, status: { in: ['closed', 'exported'] } },
+    orderBy: { startDate: 'asc' },
+  })
+  if (!period) return null
+  return `Pay period ${formatPeriod(period)} is ${period.status}; reopen it to make changes`
+}
+
+/**
+ * Makes a change in an interactive transaction once findLockedPayPeriodError, run in the same transaction, finds
+ * the windows it reaches still open. Returns the change's result, or the error without making the change.
+ */
+export async function changeUnlessPayPeriodLocked<T>(
+  windows: DateWindow[],
+  change: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<{ result: T } | { error: string }> {
+  return prisma.$transaction(async tx => {
+    const error = await findLockedPayPeriodError(windows, tx)
+    if (error) return { error }
+    return { result: await change(tx) }
+  })
+}
+
+/**
+ * Opens the pay period a date falls in, sized by the frequency in payroll settings.
+ * Returns an error message instead when it would overlap a period already on record.
+ */
+export async function openPayPeriod(date: string): Promise<{ payPeriod: PayPeriod } | { error: string }> {
+  const settings = await getPayrollSettings()
+  const range = getPayPeriodRange(date, settings.payPeriodFrequency, settings.payPeriodAnchorDate)
+  const startDate = new Date(`${range.startDate}T00:00:00.000Z`)
+  const endDate = new Date(`${range.endDate}T23:59:59.999Z`)
+
+  const overlapping = await prisma.payPeriod.findFirst({
+    where: { startDate: { lte: endDate }, endDate: { gte: startDate } },
+  })
+  if (overlapping) {
+    return { error: `Pay period ${formatPeriod(overlapping)} already covers some of ${formatPeriod({ startDate, endDate })}` }
+  }
+
+  const payPeriod = await prisma.payPeriod.create({
+    data: { startDate, endDate, frequency: settings.payPeriodFrequency },
+  })
+  return { payPeriod }
+}
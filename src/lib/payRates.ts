@@ -0,0 +1,92 @@
+import { PayRate } from '@prisma/client'
+import { prisma } from './prisma'
+import { planConfigWindow } from '@/utils/effectiveConfig'
+
+// A new role's rate applies to every shift until it is changed
+export const EARLIEST_PAY_RATE_DATE = new Date(0)
+
+type PayRateInput = {
+  roleId: string
+  employeeId: string | null
+  rate: number
+  effectiveFrom: Date
+  effectiveTo: Date | null
+}
+
+/**
+ * Returns an error message for a pay rate and its dates, or null when they are valid.
+ */
+export function getPayRateError(rate: unknown, effectiveFrom: Date, effectiveTo: Date | null): string | null {
+  const value = Number(rate)
+  if (rate === undefined || rate === null || rate === '' || !Number.isFinite(value) || value < 0) {
+    return 'Pay rate must be zero or more'
+  }
+  if (isNaN(effectiveFrom.getTime()) || (effectiveTo && isNaN(effectiveTo.getTime()))) return 'Invalid effective date'
+  if (effectiveTo && effectiveTo < effectiveFrom) return 'effectiveTo cannot be before effectiveFrom'
+  return null
+}
+
+/**
+ * Records a role's base pay rate, or with an employeeId that employee's override of it, from `effectiveFrom`
+ * to `effectiveTo` (inclusive). Rates already recorded for the same role and employee are ended, split or
+ * replaced around it so each date has one rate; without an effectiveTo it runs until the next rate scheduled after it.
+ * Role.basePayRate is kept at the role's rate in effect today.
+ */
+export async function schedulePayRate({ roleId, employeeId, rate, effectiveFrom, effectiveTo: requestedTo }: PayRateInput): Promise<PayRate> {
+  const existingRates = await prisma.payRate.findMany({ where: { roleId, employeeId } })
+  const { effectiveTo, changes } = planConfigWindow(existingRates, effectiveFrom, requestedTo)
+
+  const results = await prisma.$transaction([
+    ...changes.flatMap(change => {
+      switch (change.kind) {
+        case 'end':
+          return [prisma.payRate.update({ where: { id: change.config.id }, data: { effectiveTo: change.effectiveTo } })]
+        case 'start':
+          return [prisma.payRate.update({ where: { id: change.config.id }, data: { effectiveFrom: change.effectiveFrom } })]
+        case 'split':
+          return [
+            prisma.payRate.update({ where: { id: change.config.id }, data: { effectiveTo: change.effectiveTo } }),
+            prisma.payRate.create({
+              data: { roleId, employeeId, rate: change.config.rate, effectiveFrom: change.resumeFrom, effectiveTo: change.config.effectiveTo },
+            }),
+          ]
+        case 'replace':
+          return [prisma.payRate.delete({ where: { id: change.config.id } })]
+      }
+    }),
+    prisma.payRate.create({ data: { roleId, employeeId, rate, effectiveFrom, effectiveTo } }),
+  ])
+
+  if (!employeeId) await syncCurrentBasePayRate(roleId)
+  return results[results.length - 1]
+}
+
+/**
+ * Copies the role's rate in effect today onto Role.basePayRate, which lists and forms show as the current rate.
+ */
+export async function syncCurrentBasePayRate(roleId: string): Promise<void> {
+  const now = new Date()
+  const current = await prisma.payRate.findFirst({
+    where: {
+      roleId,
+      employeeId: null,
+      effectiveFrom: { lte: now },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gte: now } }],
+    },
+    orderBy: { effectiveFrom: 'desc' },
+  })
+  if (current) {
+    await prisma.role.update({ where: { id: roleId }, data: { basePayRate: current.rate } })
+  }
+}
+
+/**
+ * Changes a role's base pay rate from today on when it differs from the current one; earlier shifts keep their rate.
+ */
+export async function changeBasePayRate(roleId: string, rate: number): Promise<void> {
+  const role = await prisma.role.findUnique({ where: { id: roleId }, select: { basePayRate: true } })
+  if (!role || Number(role.basePayRate) === rate) return
+  // Shift dates are stored at midnight UTC, so today's shifts are paid the new rate
+  const today = new Date(new Date().toISOString().split('T')[0])
+  await schedulePayRate({ roleId, employeeId: null, rate, effectiveFrom: today, effectiveTo: null })
+}
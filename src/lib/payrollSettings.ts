@@ -0,0 +1,102 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { DEFAULT_PAYROLL_SETTINGS, WEEKDAYS } from '@/utils/workweek'
+import { isPayPeriodFrequency } from '@/utils/payPeriods'
+import { PayPeriodFrequency, PayrollSettings } from '@/types/reports'
+
+const SETTINGS_ID = 'default'
+
+/**
+ * The saved workweek, overtime and pay period rules, or the defaults (Monday workweeks, time and a half past 40 hours,
+ * biweekly pay periods) until they are saved.
+ */
+export async function getPayrollSettings(db: Prisma.TransactionClient = prisma): Promise<PayrollSettings> {
+  const settings = await db.payrollSettings.findUnique({ where: { id: SETTINGS_ID } })
+  if (!settings) return DEFAULT_PAYROLL_SETTINGS
+
+  return {
+    workweekStartDay: settings.workweekStartDay,
+    overtimeThresholdHours: Number(settings.overtimeThresholdHours),
+    overtimeMultiplier: Number(settings.overtimeMultiplier),
+    payPeriodFrequency: settings.payPeriodFrequency as PayPeriodFrequency,
+    payPeriodAnchorDate: settings.payPeriodAnchorDate?.toISOString().slice(0, 10) ?? DEFAULT_PAYROLL_SETTINGS.payPeriodAnchorDate,
+  }
+}
+
+// A real calendar date written YYYY-MM-DD
+const isDateString = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  const date = new Date(`${value}T00:00:00.000Z`)
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+}
+
+/**
+ * Returns an error message for payroll rules, or null when they are valid.
+ * Weekly and biweekly pay periods must start on the workweek start day, so no workweek is split between two periods;
+ * pass the rules as they will be once saved for that to be checked.
+ */
+export function getPayrollSettingsError({
+  workweekStartDay,
+  overtimeThresholdHours,
+  overtimeMultiplier,
+  payPeriodFrequency,
+  payPeriodAnchorDate,
+}: Partial<Record<keyof PayrollSettings, unknown>>): string | null {
+  if (workweekStartDay !== undefined && (!Number.isInteger(Number(workweekStartDay)) || Number(workweekStartDay) < 0 || Number(workweekStartDay) > 6)) {
+    return 'Workweek start day must be 0 (Sunday) to 6 (Saturday)'
+  }
+  if (overtimeThresholdHours !== undefined && (!Number.isFinite(Number(overtimeThresholdHours)) || Number(overtimeThresholdHours) <= 0)) {
+    return 'Overtime threshold must be more than zero hours'
+  }
+  if (overtimeMultiplier !== undefined && (!Number.isFinite(Number(overtimeMultiplier)) || Number(overtimeMultiplier) < 1)) {
+    return 'Overtime multiplier must be at least 1'
+  }
+  if (payPeriodFrequency !== undefined && !isPayPeriodFrequency(payPeriodFrequency)) {
+    return `Invalid pay period frequency: ${payPeriodFrequency}`
+  }
+  if (payPeriodAnchorDate !== undefined && !isDateString(payPeriodAnchorDate)) {
+    return 'Pay period anchor date must be a YYYY-MM-DD date'
+  }
+  if (
+    payPeriodFrequency !== 'semi_monthly' && payPeriodAnchorDate !== undefined && workweekStartDay !== undefined &&
+    new Date(`${payPeriodAnchorDate}T00:00:00.000Z`).getUTCDay() !== Number(workweekStartDay)
+  ) {
+    return `Pay period anchor date must fall on the workweek start day (${WEEKDAYS[Number(workweekStartDay)]})`
+  }
+  return null
+}
+
+/**
+ * Whether saving these changes would change any of the current rules, rather than save them as they are.
+ */
+export function isPayrollSettingsChange(current: PayrollSettings, changes: Partial<Record<keyof PayrollSettings, unknown>>): boolean {
+  return (Object.keys(current) as (keyof PayrollSettings)[]).some(key => {
+    const value = changes[key]
+    if (value === undefined) return false
+    return typeof current[key] === 'number' ? Number(value) !== current[key] : value !== current[key]
+  })
+}
+
+/**
+ * Saves payroll rules. Fields left undefined keep their value.
+ */
+export async function updatePayrollSettings(changes: Partial<PayrollSettings>, db: Prisma.TransactionClient = prisma): Promise<PayrollSettings> {
+  const data = {
+    workweekStartDay: changes.workweekStartDay === undefined ? undefined : Number(changes.workweekStartDay),
+    overtimeThresholdHours: changes.overtimeThresholdHours === undefined ? undefined : Number(changes.overtimeThresholdHours),
+    overtimeMultiplier: changes.overtimeMultiplier === undefined ? undefined : Number(changes.overtimeMultiplier),
+    payPeriodFrequency: changes.payPeriodFrequency,
+    payPeriodAnchorDate: changes.payPeriodAnchorDate === undefined ? undefined : new Date(`${changes.payPeriodAnchorDate.slice(0, 10)}T00:00:00.000Z`),
+  }
+  await db.payrollSettings.upsert({
+    where: { id: SETTINGS_ID },
+    create: {
+      ...DEFAULT_PAYROLL_SETTINGS,
+      payPeriodAnchorDate: new Date(`${DEFAULT_PAYROLL_SETTINGS.payPeriodAnchorDate}T00:00:00.000Z`),
+      ...Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)),
+      id: SETTINGS_ID,
+    },
+    update: data,
+  })
+  return getPayrollSettings(db)
+}
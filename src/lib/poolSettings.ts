@@ -0,0 +1,219 @@
+import { Prisma, RoleConfig } from '@prisma/client'
+import { prisma } from './prisma'
+import { DateWindow } from './payPeriods'
+import { ConfigChangeTag, ConfigVersionData, copyConfigVersion, isConfigVersionChanged, reviseConfig } from './roleConfigs'
+import { ConfigPiece, applyChangesWithin } from '@/utils/effectiveConfig'
+import { isDistributionWeighting, isPoolingWindow, isAbsentRecipientPolicy, isTipoutBasis, isTipoutSourceBucket } from '@/utils/tipoutCalculations'
+
+type PoolSettingsConfig = {
+  tipoutType: string
+  tipPoolGroup?: string | null
+  poolWeighting?: string
+  poolWeight?: number | null
+  poolWindow?: string
+  distributionGroup?: string | null
+  distributionWeighting?: string
+  distributionWeight?: number | null
+  distributionWindow?: string
+  absentPolicy?: string
+  absentRollToGroup?: string | null
+  basis?: string
+  capPercentage?: number | null
+  capBasis?: string | null
+  floorPercentage?: number | null
+  floorBasis?: string | null
+  distributionMinimumHourly?: number | null
+  sourceBucket?: string
+}
+
+/**
+ * Checks a weighting and the role's weight for it.
+ * Returns an error message, or null when the pair is valid.
+ */
+export function getWeightingError(weighting: unknown, weight: unknown): string | null {
+  if (weighting === undefined) return null
+  if (!isDistributionWeighting(weighting)) return `Invalid distribution weighting: ${weighting}`
+
+  if (weight === undefined || weight === null) return null
+  const value = Number(weight)
+  if (!Number.isFinite(value) || value < 0) return 'Distribution weight must be a positive number'
+  if (weighting === 'fixed_percentage' && value > 100) return 'Fixed percentage must be between 0 and 100'
+  return null
+}
+
+/**
+ * Checks a pooling window. Returns an error message, or null when it is valid or not given.
+ */
+export function getPoolingWindowError(window: unknown): string | null {
+  if (window === undefined || isPoolingWindow(window)) return null
+  return `Invalid pooling window: ${window}`
+}
+
+/**
+ * Checks an absent recipient policy and, when rolling to another group, that a group is named.
+ * Returns an error message, or null when it is valid or not given.
+ */
+export function getAbsentPolicyError(policy: unknown, rollToGroup: unknown): string | null {
+  if (policy === undefined) return null
+  if (!isAbsentRecipientPolicy(policy)) return `Invalid absent recipient policy: ${policy}`
+  if (policy === 'roll_to_group' && (typeof rollToGroup !== 'string' || !rollToGroup.trim())) {
+    return 'A distribution group is required to roll tipouts to'
+  }
+  return null
+}
+
+/**
+ * Checks a tipout's cap and floor: percentages between 0 and 100 of valid bases, and, when both
+ * apply to the same basis, a floor no higher than the cap. Returns an error message, or null when they are valid or not given.
+ */
+export function getTipoutLimitError(config: Pick<PoolSettingsConfig, 'basis' | 'capPercentage' | 'capBasis' | 'floorPercentage' | 'floorBasis'>): string | null {
+  const limits = [
+    { name: 'Cap', percentage: config.capPercentage, basis: config.capBasis },
+    { name: 'Floor', percentage: config.floorPercentage, basis: config.floorBasis },
+  ]
+  for (const { name, percentage, basis } of limits) {
+    if (basis !== undefined && basis !== null && !isTipoutBasis(basis)) return `Invalid ${name.toLowerCase()} basis: ${basis}`
+    if (percentage === undefined || percentage === null) continue
+    const value = Number(percentage)
+    if (!Number.isFinite(value) || value < 0 || value > 100) return `${name} percentage must be between 0 and 100`
+  }
+
+  const { capPercentage, floorPercentage } = config
+  const sameBasis = (config.capBasis ?? config.basis) === (config.floorBasis ?? config.basis)
+  if (capPercentage != null && floorPercentage != null && sameBasis && Number(floorPercentage) > Number(capPercentage)) {
+    return 'Floor percentage cannot be higher than the cap'
+  }
+  return null
+}
+
+/**
+ * Checks a distribution group's minimum guarantee per hour. Returns an error message, or null when it is valid or not given.
+ */
+export function getMinimumGuaranteeError(minimumHourly: unknown): string | null {
+  if (minimumHourly === undefined || minimumHourly === null) return null
+  const value = Number(minimumHourly)
+  if (!Number.isFinite(value) || value < 0) return 'Minimum guarantee must be a positive amount per hour'
+  return null
+}
+
+/**
+ * Checks the bucket of tips a tipout is paid from. Returns an error message, or null when it is valid or not given.
+ */
+export function getSourceBucketError(bucket: unknown): string | null {
+  if (bucket === undefined || isTipoutSourceBucket(bucket)) return null
+  return `Invalid tipout source bucket: ${bucket}`
+}
+
+/**
+ * Checks a tipout type's split across distribution groups: named, distinct groups
+ * whose percentages add up to 100. An empty split is valid and means the type is not split.
+ * Returns an error message, or null when the split is valid.
+ */
+export function getDistributionSplitError(splits: { group?: unknown; percentage?: unknown }[]): string | null {
+  if (splits.length === 0) return null
+
+  const groups = new Set<string>()
+  let total = 0
+  for (const split of splits) {
+    if (typeof split.group !== 'string' || !split.group.trim()) return 'Every split needs a distribution group'
+    if (groups.has(split.group.trim())) return `Distribution group ${split.group} is split more than once`
+    groups.add(split.group.trim())
+
+    const percentage = Number(split.percentage)
+    if (!Number.isFinite(percentage) || percentage <= 0 || percentage > 100) {
+      return 'Split percentages must be between 0 and 100'
+    }
+    total += percentage
+  }
+
+  if (Math.abs(total - 100) > 0.001) return `Split percentages must add up to 100% (currently ${Number(total.toFixed(2))}%)`
+  return null
+}
+
+/**
+ * Returns the first weighting, pooling window, absent recipient policy, cap, floor, minimum guarantee
+ * or source bucket error in a role's configs, or null when all are valid.
+ */
+export function findPoolSettingsError(configs: PoolSettingsConfig[]): string | null {
+  for (const config of configs) {
+    const error = getWeightingError(config.poolWeighting, config.poolWeight)
+      ?? getWeightingError(config.distributionWeighting, config.distributionWeight)
+      ?? getPoolingWindowError(config.poolWindow)
+      ?? getPoolingWindowError(config.distributionWindow)
+      ?? getAbsentPolicyError(config.absentPolicy, config.absentRollToGroup)
+      ?? getTipoutLimitError(config)
+      ?? getMinimumGuaranteeError(config.distributionMinimumHourly)
+      ?? getSourceBucketError(config.sourceBucket)
+    if (error) return error
+  }
+  return null
+}
+
+// A role's config saved with new pool settings, and the window they take effect over
+export type DatedPoolSettingsConfig = PoolSettingsConfig & {
+  effectiveFrom: Date
+  effectiveTo: Date | null
+}
+
+/**
+ * A tip pool or distribution group is split one way and over one window for everyone in it, so saving
+ * a role's weighting and window applies them to the other roles' configs in the same pool or group.
+ * A distribution group's minimum guarantee is shared the same way.
+ * Only the dates inside the saved config's window change: another role's config running past either end of it is
+ * cut there, as the role's own configs are, and the parts outside keep their settings. The other roles' configs get
+ * new versions tagged with the same change, rather than being edited in place.
+ * Returns the writes, made with `db`, to run in the same transaction as the role's own change, and the windows they
+ * change, for the closed pay period check.
+ */
+export async function planSharedPoolSettings(
+  roleId: string,
+  configs: DatedPoolSettingsConfig[],
+  tag: ConfigChangeTag,
+  at: Date,
+  db: Prisma.TransactionClient = prisma
+): Promise<{ writes: Prisma.PrismaPromise<RoleConfig>[]; touched: DateWindow[] }> {
+  const otherConfigs = await db.roleConfig.findMany({
+    where: { roleId: { not: roleId }, supersededAt: null },
+  })
+  const changesById = new Map<string, { window: DateWindow; changes: Partial<ConfigVersionData> }[]>()
+  const addChanges = (config: RoleConfig, window: DateWindow, changes: Partial<ConfigVersionData>) => {
+    if (!isConfigVersionChanged(config, changes)) return
+    changesById.set(config.id, [...(changesById.get(config.id) ?? []), { window, changes }])
+  }
+
+  configs.forEach(config => {
+    const window = { from: config.effectiveFrom, to: config.effectiveTo }
+    if (config.tipPoolGroup && (config.poolWeighting || config.poolWindow)) {
+      otherConfigs
+        .filter(other => other.tipPoolGroup === config.tipPoolGroup)
+        .forEach(other => addChanges(other, window, { poolWeighting: config.poolWeighting, poolWindow: config.poolWindow }))
+    }
+    if (config.distributionGroup && (config.distributionWeighting || config.distributionWindow || config.distributionMinimumHourly !== undefined)) {
+      otherConfigs
+        .filter(other => other.tipoutType === config.tipoutType && other.distributionGroup === config.distributionGroup)
+        .forEach(other => addChanges(other, window, {
+          distributionWeighting: config.distributionWeighting,
+          distributionWindow: config.distributionWindow,
+          distributionMinimumHourly: config.distributionMinimumHourly,
+        }))
+    }
+  })
+
+  const writes: Prisma.PrismaPromise<RoleConfig>[] = []
+  const touched: DateWindow[] = []
+  otherConfigs.forEach(config => {
+    const pieces = (changesById.get(config.id) ?? []).reduce(
+      (current, { window, changes }) => applyChangesWithin(current, window, changes),
+      [{ effectiveFrom: config.effectiveFrom, effectiveTo: config.effectiveTo, changes: {} }] as ConfigPiece<ConfigVersionData>[]
+    )
+    if (!pieces.some(piece => isConfigVersionChanged(config, piece.changes))) return
+
+    // The first piece revises the config; any others are new versions of it for the rest of its window
+    pieces.forEach((piece, index) => {
+      const data = { ...piece.changes, effectiveFrom: piece.effectiveFrom, effectiveTo: piece.effectiveTo }
+      writes.push(...(index === 0 ? reviseConfig(config, data, tag, at, db) : [copyConfigVersion(config, data, tag, at, db)]))
+      if (isConfigVersionChanged(config, piece.changes)) touched.push({ from: piece.effectiveFrom, to: piece.effectiveTo })
+    })
+  })
+  return { writes, touched }
+}
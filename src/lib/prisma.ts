@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client'
+import { Prisma, PrismaClient } from '@prisma/client'
 
 const globalForPrisma = globalThis as unknown as {
   prisma: PrismaClient | undefined
@@ -6,4 +6,14 @@ const globalForPrisma = globalThis as unknown as {
 
 export const prisma = globalForPrisma.prisma ?? new PrismaClient()
 
-if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma 
\ No newline at end of file
+if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma 
+
+/**
+ * Runs writes made with an interactive transaction's client one after another, as `prisma.$transaction([...])` runs
+ * a batch, and returns their results in order.
+ */
+export async function runInOrder<T>(writes: Prisma.PrismaPromise<T>[]): Promise<T[]> {
+  const results: T[] = []
+  for (const write of writes) results.push(await write)
+  return results
+}
@@ -0,0 +1,58 @@
+import { TipoutType as PrismaTipoutType } from '@prisma/client';
+import { calculateReport } from '@/utils/reportCalculations';
+import { prisma as db } from '@/lib/prisma';
+import { loadReportInputs } from '@/lib/reportShifts';
+import { CalculatedReport, PayrollSettings } from '@/types/reports';
+
+/**
+ * Everything the reports page shows for a date range
+ */
+export type ReportData = CalculatedReport & {
+    roleConfigs: Record<string, Record<string, number>>; // Percentage rates per role, keyed by tipout type
+    tipoutTypes: PrismaTipoutType[];
+    payrollSettings: PayrollSettings;
+    configuredOn: string | null;
+};
+
+/**
+ * Calculates the report for a date range (inclusive) with the active tipout types and each role's rates,
+ * as served by /api/reports and exported by /api/reports/export.
+ * `configuredOn` (yyyy-MM-dd) reruns it with the role configs as they were saved on that date.
+ */
+export async function getReportData(startDate: string, endDate: string, configuredOn: string | null = null): Promise<ReportData> {
+    // Fetch raw shift data from DB for the date range, with the wage rates and payroll settings it is calculated against
+    const inputs = await loadReportInputs(startDate, endDate, configuredOn);
+    const allShiftsData = inputs.shifts;
+
+    // Fetch the active tipout types so the report can render one column per type
+    const tipoutTypes = await db.tipoutType.findMany({
+        where: { active: true },
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    });
+
+    // Get unique roles and their current configs
+    const roleConfigMap = new Map<string, Record<string, number>>();
+    allShiftsData.forEach(shift => {
+        if (!roleConfigMap.has(shift.role.name)) {
+            // Storing percentage rates directly for frontend display, keyed by tipout type
+            const roleConfigRates: Record<string, number> = {};
+            tipoutTypes.forEach(type => {
+                roleConfigRates[type.key] = shift.role.configs.find(c => c.tipoutType === type.key)?.percentageRate || 0;
+            });
+            roleConfigMap.set(shift.role.name, roleConfigRates);
+        }
+    });
+
+    // Calculate summaries using the utility function.
+    // Workweeks an employee's base pay and tips fell short of the minimum wage, and workweeks past the
+    // overtime threshold, come back too; the make-up and overtime premium are both in payrollTotal
+    const report = calculateReport(inputs);
+
+    return {
+        ...report,
+        roleConfigs: Object.fromEntries(roleConfigMap),
+        tipoutTypes,
+        payrollSettings: inputs.payrollSettings,
+        configuredOn,
+    };
+}
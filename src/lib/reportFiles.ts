@@ -0,0 +1,158 @@
+import ExcelJS from 'exceljs'
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib'
+import { ReportExportColumn, ReportExportTable, formatReportExportCell } from '@/utils/reportExport'
+
+// What the report covers, printed above every sheet and page
+export type ReportFileHeading = {
+  title: string
+  subtitle: string
+}
+
+const NUMBER_FORMATS: Record<ReportExportColumn['kind'], string | undefined> = {
+  text: undefined,
+  money: '$#,##0.00;[Red]-$#,##0.00',
+  hours: '0.00',
+  count: '0',
+}
+
+/**
+ * Renders the tables as an Excel workbook, one sheet per table, with the figures kept as numbers.
+ */
+export async function renderReportXlsx(tables: ReportExportTable[], heading: ReportFileHeading): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook()
+  workbook.created = new Date()
+
+  tables.forEach(table => {
+    // Sheet names are limited to 31 characters
+    const sheet = workbook.addWorksheet(table.title.slice(0, 31), { views: [{ state: 'frozen', ySplit: 3 }] })
+    sheet.addRow([`${heading.title}: ${table.title.toLowerCase()}`]).font = { bold: true, size: 12 }
+    sheet.addRow([heading.subtitle]).font = { italic: true, color: { argb: 'FF6B7280' } }
+    sheet.addRow(table.columns.map(column => column.header)).font = { bold: true }
+    table.rows.forEach(row => sheet.addRow(row))
+
+    table.columns.forEach((column, i) => {
+      const sheetColumn = sheet.getColumn(i + 1)
+      const widest = Math.max(column.header.length, ...table.rows.map(row => formatReportExportCell(column, row[i]).length))
+      sheetColumn.width = Math.min(Math.max(widest + 2, 10), 40)
+      const numFmt = NUMBER_FORMATS[column.kind]
+      if (numFmt) {
+        sheetColumn.eachCell((cell, rowNumber) => {
+          if (rowNumber > 3) cell.numFmt = numFmt
+        })
+      }
+    })
+  })
+
+  return Buffer.from(await workbook.xlsx.writeBuffer())
+}
+
+// Landscape US letter, in points
+const PAGE_SIZE: [number, number] = [792, 612]
+const MARGIN = 36
+const FONT_SIZE = 8
+const ROW_HEIGHT = 13
+const CELL_PADDING = 4
+const HEADING_HEIGHT = 44
+
+/**
+ * Renders the tables as a landscape PDF, starting a new page whenever one fills. A table that runs onto
+ * another page repeats its column headers there, and every page is numbered.
+ */
+export async function renderReportPdf(tables: ReportExportTable[], heading: ReportFileHeading): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(`${heading.title} ${heading.subtitle}`)
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+
+  // The standard fonts only cover Latin text; anything else would fail to encode
+  const supported = new Set(font.getCharacterSet())
+  const printable = (value: string) => Array.from(value).map(char => (supported.has(char.codePointAt(0)!) ? char : '?')).join('')
+
+  // Shortens text with an ellipsis until it fits the width
+  const fit = (value: string, width: number, cellFont: PDFFont) => {
+    let fitted = printable(value)
+    if (cellFont.widthOfTextAtSize(fitted, FONT_SIZE) <= width) return fitted
+    while (fitted.length > 0 && cellFont.widthOfTextAtSize(`${fitted}...`, FONT_SIZE) > width) fitted = fitted.slice(0, -1)
+    return `${fitted}...`
+  }
+
+  const usableWidth = PAGE_SIZE[0] - MARGIN * 2
+  let page: PDFPage = pdf.addPage(PAGE_SIZE)
+  let y = 0
+
+  // Heads the current page, on a fresh one unless this is the first
+  const startPage = (addPage = true) => {
+    if (addPage) page = pdf.addPage(PAGE_SIZE)
+    y = PAGE_SIZE[1] - MARGIN
+    page.drawText(printable(heading.title), { x: MARGIN, y: y - 12, size: 14, font: bold })
+    page.drawText(printable(heading.subtitle), { x: MARGIN, y: y - 26, size: FONT_SIZE, font, color: rgb(0.42, 0.45, 0.5) })
+    y -= HEADING_HEIGHT
+  }
+
+  startPage(false)
+
+  tables.forEach(table => {
+    // Columns sized to their widest text, then scaled down together if the table is wider than the page
+    const widths = table.columns.map((column, i) => Math.max(
+      bold.widthOfTextAtSize(printable(column.header), FONT_SIZE),
+      ...table.rows.map(row => font.widthOfTextAtSize(printable(formatReportExportCell(column, row[i])), FONT_SIZE)),
+    ) + CELL_PADDING * 2)
+    const scale = Math.min(1, usableWidth / widths.reduce((acc, width) => acc + width, 0))
+    const columnWidths = widths.map(width => width * scale)
+
+    const drawRow = (cells: string[], cellFont: PDFFont, shaded: boolean) => {
+      if (shaded) {
+        page.drawRectangle({ x: MARGIN, y: y - ROW_HEIGHT + 3, width: usableWidth, height: ROW_HEIGHT, color: rgb(0.95, 0.96, 0.97) })
+      }
+      let x = MARGIN
+      cells.forEach((cell, i) => {
+        const innerWidth = columnWidths[i] - CELL_PADDING * 2
+        const value = fit(cell, innerWidth, cellFont)
+        const textWidth = cellFont.widthOfTextAtSize(value, FONT_SIZE)
+        const alignRight = table.columns[i].kind !== 'text'
+        page.drawText(value, {
+          x: alignRight ? x + columnWidths[i] - CELL_PADDING - textWidth : x + CELL_PADDING,
+          y: y - ROW_HEIGHT + 6,
+          size: FONT_SIZE,
+          font: cellFont,
+        })
+        x += columnWidths[i]
+      })
+      y -= ROW_HEIGHT
+    }
+
+    const drawTableHeading = (continued: boolean) => {
+      page.drawText(printable(`${table.title}${continued ? ' (continued)' : ''}`), { x: MARGIN, y: y - 12, size: 11, font: bold })
+      y -= 20
+      drawRow(table.columns.map(column => column.header), bold, false)
+      page.drawLine({ start: { x: MARGIN, y: y + 3 }, end: { x: MARGIN + usableWidth, y: y + 3 }, thickness: 0.5, color: rgb(0.6, 0.6, 0.6) })
+    }
+
+    // Keep a table's heading with at least its first row
+    const isPageEmpty = y === PAGE_SIZE[1] - MARGIN - HEADING_HEIGHT
+    if ((table.startsPage && !isPageEmpty) || y - 20 - ROW_HEIGHT * 2 < MARGIN + 20) startPage()
+    drawTableHeading(false)
+    table.rows.forEach((row, rowIndex) => {
+      if (y - ROW_HEIGHT < MARGIN + 20) {
+        startPage()
+        drawTableHeading(true)
+      }
+      drawRow(row.map((value, i) => formatReportExportCell(table.columns[i], value)), font, rowIndex % 2 === 1)
+    })
+    y -= 16
+  })
+
+  const pages = pdf.getPages()
+  pages.forEach((pdfPage, i) => {
+    const label = `page ${i + 1} of ${pages.length}`
+    pdfPage.drawText(label, {
+      x: PAGE_SIZE[0] - MARGIN - font.widthOfTextAtSize(label, FONT_SIZE),
+      y: MARGIN / 2,
+      size: FONT_SIZE,
+      font,
+      color: rgb(0.42, 0.45, 0.5),
+    })
+  })
+
+  return pdf.save()
+}
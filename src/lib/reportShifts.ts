@@ -0,0 +1,171 @@
+import { ReportInputs, Shift as ReportShift, TipoutBasis, DistributionWeighting, PoolingWindow, AbsentRecipientPolicy, TipoutSourceBucket } from '@/types/reports';
+import { prisma as db } from '@/lib/prisma';
+import { getConfigVersionFilter } from '@/utils/configVersions';
+import { fetchMinimumWageRates } from '@/lib/minimumWages';
+import { getPayrollSettings } from '@/lib/payrollSettings';
+import { isEffectiveOn } from '@/utils/effectiveConfig';
+import { getPoolingRange } from '@/utils/reportCalculations';
+import { Shift as PrismaShift, Employee as PrismaEmployee, Role as PrismaRole, RoleConfig as PrismaRoleConfig, ServicePeriod as PrismaServicePeriod, PayRate as PrismaPayRate } from '@prisma/client';
+
+// This helps avoid using 'any'. Define it based on your actual include/select query.
+type ShiftWithIncludes = PrismaShift & {
+    employee: (Pick<PrismaEmployee, 'id' | 'name'> & { payRates: PrismaPayRate[] }) | null; // Or PrismaEmployee if all fields selected
+    role: (PrismaRole & {
+        configs: PrismaRoleConfig[];
+        payRates: PrismaPayRate[];
+    }) | null;
+    servicePeriod: Pick<PrismaServicePeriod, 'id' | 'name'> | null;
+};
+
+/**
+ * Reads a report's "as configured on" date (yyyy-MM-dd) as the end of that day, so changes saved during it count.
+ * Returns null when the date is not valid.
+ */
+export function parseConfiguredOn(configuredOn: string): Date | null {
+    const date = new Date(configuredOn + 'T23:59:59.999Z');
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Loads the shifts in a date range (inclusive) with their employee and role configs,
+ * converted to the plain numbers the report calculations work with.
+ * With `configuredOn`, the role configs are the versions that were saved at that moment rather than the current ones.
+ */
+export async function fetchShiftsFromDB(startDate: string, endDate: string, configuredOn?: Date): Promise<ReportShift[]> {
+    console.log(`Fetching shifts from DB: ${startDate} to ${endDate}`);
+
+    // Construct date objects for range query
+    const startDateTime = new Date(startDate + 'T00:00:00.000Z');
+    const endDateTime = new Date(endDate + 'T23:59:59.999Z');
+
+    // Splits of tipout types between distribution groups over the range, looked up as each receiving config's share
+    // on the shift's date, so a split changed since keeps paying earlier shifts as it was
+    const splits = (await db.distributionSplit.findMany({
+        where: {
+            AND: [
+                getConfigVersionFilter(configuredOn),
+                { effectiveFrom: { lte: endDateTime } },
+                { OR: [{ effectiveTo: null }, { effectiveTo: { gte: startDateTime } }] },
+            ],
+        },
+    })).map(split => ({
+        ...split,
+        effectiveFrom: split.effectiveFrom.toISOString(),
+        effectiveTo: split.effectiveTo ? split.effectiveTo.toISOString() : null,
+    }));
+    const getDistributionShare = (config: PrismaRoleConfig, date: string): number | null => {
+        if (!config.distributionGroup) return null;
+        const typeSplits = splits.filter(split => split.tipoutType === config.tipoutType && isEffectiveOn(split, date));
+        if (typeSplits.length === 0) return null;
+        const split = typeSplits.find(entry => entry.group === config.distributionGroup);
+        return split ? Number(split.percentage) : 0; // Groups left out of a type's split take no share of it
+    };
+
+    // Use the defined type for the result
+    const shifts: ShiftWithIncludes[] = await db.shift.findMany({
+        where: {
+            date: {
+                gte: startDateTime,
+                lte: endDateTime,
+            },
+        },
+        include: {
+            employee: {
+                select: { id: true, name: true, payRates: true },
+            },
+            role: {
+                include: { 
+                    configs: { where: getConfigVersionFilter(configuredOn) }, // This includes all fields from RoleConfig, including tipPoolGroup
+                    payRates: { where: { employeeId: null } },
+                }, 
+            },
+            servicePeriod: {
+                select: { id: true, name: true },
+            },
+        },
+        // Service periods in their admin-defined order within each day (e.g. lunch before dinner)
+        orderBy: [
+            { date: 'asc' },
+            { servicePeriod: { sortOrder: 'asc' } },
+        ],
+    });
+
+    // Map Prisma result to the ReportShift type, including tipPoolGroup
+    const reportShifts: ReportShift[] = shifts.filter(
+        // Ensure employee and role are non-null
+        (shift): shift is ShiftWithIncludes & { employee: NonNullable<ShiftWithIncludes['employee']>, role: NonNullable<ShiftWithIncludes['role']> } =>
+            !!shift.employee && !!shift.role
+    ).map((shift) => ({
+        id: shift.id,
+        date: shift.date.toISOString(),
+        hours: Number(shift.hours),
+        cashTips: Number(shift.cashTips),
+        creditTips: Number(shift.creditTips),
+        liquorSales: Number(shift.liquorSales),
+        foodSales: Number(shift.foodSales),
+        netSales: Number(shift.netSales),
+        servicePeriod: shift.servicePeriod,
+        employee: {
+            id: shift.employee.id,
+            name: shift.employee.name,
+        },
+        // The role's rates, plus the employee's overrides of them for this role
+        payRates: [...shift.role.payRates, ...shift.employee.payRates.filter(payRate => payRate.roleId === shift.roleId)].map(payRate => ({
+            id: payRate.id,
+            rate: Number(payRate.rate),
+            effectiveFrom: payRate.effectiveFrom.toISOString(),
+            effectiveTo: payRate.effectiveTo ? payRate.effectiveTo.toISOString() : null,
+            employeeId: payRate.employeeId,
+        })),
+        role: {
+            id: shift.role.id,
+            name: shift.role.name,
+            basePayRate: Number(shift.role.basePayRate),
+            // Map configs, ensuring the target type ReportShift['role']['configs'] is compatible
+            configs: (shift.role.configs || []).map((config) => ({
+                id: config.id,
+                tipoutType: config.tipoutType, // Assuming ReportShift uses string here
+                percentageRate: Number(config.percentageRate),
+                basis: config.basis as TipoutBasis,
+                effectiveFrom: config.effectiveFrom.toISOString(),
+                effectiveTo: config.effectiveTo ? config.effectiveTo.toISOString() : null,
+                receivesTipout: config.receivesTipout ?? false,
+                paysTipout: config.paysTipout ?? true,
+                distributionGroup: config.distributionGroup ?? undefined,
+                tipPoolGroup: config.tipPoolGroup ?? undefined, // Map the new field
+                poolWeighting: config.poolWeighting as DistributionWeighting,
+                poolWeight: config.poolWeight !== null ? Number(config.poolWeight) : null,
+                distributionWeighting: config.distributionWeighting as DistributionWeighting,
+                distributionWeight: config.distributionWeight !== null ? Number(config.distributionWeight) : null,
+                poolWindow: config.poolWindow as PoolingWindow,
+                distributionWindow: config.distributionWindow as PoolingWindow,
+                absentPolicy: config.absentPolicy as AbsentRecipientPolicy,
+                absentRollToGroup: config.absentRollToGroup,
+                distributionShare: getDistributionShare(config, shift.date.toISOString()),
+                capPercentage: config.capPercentage !== null ? Number(config.capPercentage) : null,
+                capBasis: config.capBasis as TipoutBasis | null,
+                floorPercentage: config.floorPercentage !== null ? Number(config.floorPercentage) : null,
+                floorBasis: config.floorBasis as TipoutBasis | null,
+                distributionMinimumHourly: config.distributionMinimumHourly !== null ? Number(config.distributionMinimumHourly) : null,
+                sourceBucket: config.sourceBucket as TipoutSourceBucket,
+            })),
+        },
+    }));
+
+    console.log(`Fetched ${reportShifts.length} shifts.`);
+    return reportShifts;
+}
+
+/**
+ * Loads everything a report over a date range is calculated from: its shifts, the minimum wages and the payroll settings.
+ * Shifts are loaded out to the edges of the workweeks and pay periods the range touches (see getPoolingRange),
+ * so week and pay period pools are whole; the report itself only covers startDate to endDate.
+ * `configuredOn` is the yyyy-MM-dd date to load the role configs as of, as in parseConfiguredOn.
+ */
+export async function loadReportInputs(startDate: string, endDate: string, configuredOn: string | null = null): Promise<ReportInputs> {
+    const payrollSettings = await getPayrollSettings();
+    const poolingRange = getPoolingRange(startDate, endDate, payrollSettings);
+    const shifts = await fetchShiftsFromDB(poolingRange.startDate, poolingRange.endDate, configuredOn ? parseConfiguredOn(configuredOn) ?? undefined : undefined);
+    const minimumWages = await fetchMinimumWageRates();
+    return { startDate, endDate, configuredOn, shifts, minimumWages, payrollSettings };
+}
@@ -0,0 +1,69 @@
+import { Prisma, ReportSnapshot as PrismaReportSnapshot } from '@prisma/client'
+import { prisma } from './prisma'
+import { getCurrentUserLabel } from './auth'
+import { loadReportInputs } from './reportShifts'
+import { calculateReport } from '@/utils/reportCalculations'
+import { diffReports } from '@/utils/reportDiff'
+import { CalculatedReport, EmployeeRoleSummary, ReportDiff, ReportInputs, ReportSnapshot, ReportSummary, WeeklyOvertime, WeeklyShortfall } from '@/types/reports'
+
+type SnapshotRequest = {
+  startDate: string
+  endDate: string
+  configuredOn: string | null
+  note: string | null
+}
+
+const toJson = (value: unknown) => value as Prisma.InputJsonValue
+
+/**
+ * Converts a stored snapshot to the shape the API returns.
+ */
+export function toReportSnapshot(row: PrismaReportSnapshot): ReportSnapshot {
+  return {
+    id: row.id,
+    startDate: row.startDate,
+    endDate: row.endDate,
+    configuredOn: row.configuredOn,
+    note: row.note,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt.toISOString(),
+    summary: row.summary as unknown as ReportSummary | null,
+    employeeSummaries: row.employeeSummaries as unknown as EmployeeRoleSummary[],
+    shortfalls: row.shortfalls as unknown as WeeklyShortfall[],
+    overtime: row.overtime as unknown as WeeklyOvertime[],
+    inputs: row.inputs as unknown as ReportInputs,
+  }
+}
+
+/**
+ * Calculates the report for a date range and saves it, with the exact inputs it was calculated from, as a snapshot.
+ */
+export async function createReportSnapshot({ startDate, endDate, configuredOn, note }: SnapshotRequest): Promise<ReportSnapshot> {
+  const inputs = await loadReportInputs(startDate, endDate, configuredOn)
+  const report = calculateReport(inputs)
+
+  const row = await prisma.reportSnapshot.create({
+    data: {
+      startDate,
+      endDate,
+      configuredOn,
+      note,
+      summary: report.summary ? toJson(report.summary) : Prisma.JsonNull,
+      employeeSummaries: toJson(report.employeeSummaries),
+      shortfalls: toJson(report.shortfalls),
+      overtime: toJson(report.overtime),
+      inputs: toJson(inputs),
+      createdBy: await getCurrentUserLabel(),
+    },
+  })
+  return toReportSnapshot(row)
+}
+
+/**
+ * Recalculates a snapshot's report from today's data (same dates, same "as configured on") and diffs the two.
+ */
+export async function diffReportSnapshot(snapshot: ReportSnapshot): Promise<{ recalculated: CalculatedReport; diff: ReportDiff }> {
+  const inputs = await loadReportInputs(snapshot.startDate, snapshot.endDate, snapshot.configuredOn)
+  const recalculated = calculateReport(inputs)
+  return { recalculated, diff: diffReports(snapshot, recalculated) }
+}
@@ -0,0 +1,129 @@
+import { format } from 'date-fns'
+import { Prisma, RoleConfig } from '@prisma/client'
+import { prisma } from './prisma'
+import { getCurrentUserLabel } from './auth'
+import { ConfigWindowChange, findOverlappingConfigs } from '@/utils/effectiveConfig'
+import { buildNextVersion, getRevisedWindows } from '@/utils/configVersions'
+
+type DatedConfig = {
+  tipoutType: string
+  effectiveFrom: string | Date
+  effectiveTo?: string | Date | null
+}
+
+const formatWindow = (config: DatedConfig) => {
+  const from = format(new Date(config.effectiveFrom), 'yyyy-MM-dd')
+  return config.effectiveTo ? `${from} to ${format(new Date(config.effectiveTo), 'yyyy-MM-dd')}` : `${from} onwards`
+}
+
+/**
+ * Checks that no two of a role's configs for the same tipout type are in effect at the same time,
+ * so every shift resolves to exactly one config per type. Returns an error message naming both windows, or null.
+ */
+export function findConfigOverlapError(configs: DatedConfig[]): string | null {
+  const overlap = findOverlappingConfigs(configs)
+  if (!overlap) return null
+  const [a, b] = overlap
+  return `Configurations for ${a.tipoutType} overlap: ${formatWindow(a)} and ${formatWindow(b)}`
+}
+
+export type AffectedShifts = {
+  startDate: string
+  endDate: string
+  shiftCount: number
+}
+
+/**
+ * Finds the role's shifts already worked between two dates (inclusive), which a backdated config change recalculates.
+ * Returns the dates of the first and last of them, or null when the change reaches no existing shift.
+ */
+export async function findAffectedShifts(roleId: string, from: Date, to: Date): Promise<AffectedShifts | null> {
+  if (to < from) return null
+
+  const shifts = await prisma.shift.findMany({
+    where: { roleId, date: { gte: from, lte: to } },
+    select: { date: true },
+    orderBy: { date: 'asc' },
+  })
+  if (shifts.length === 0) return null
+
+  return {
+    startDate: format(shifts[0].date, 'yyyy-MM-dd'),
+    endDate: format(shifts[shifts.length - 1].date, 'yyyy-MM-dd'),
+    shiftCount: shifts.length,
+  }
+}
+
+export type ConfigChangeTag = {
+  changedBy: string | null
+  changeReason: string | null
+}
+
+export type ConfigVersionData = Omit<Prisma.RoleConfigUncheckedCreateInput, 'roleId'>
+
+/**
+ * Tags a config change with the signed-in user and the reason given for it.
+ */
+export async function getConfigChangeTag(changeReason: unknown): Promise<ConfigChangeTag> {
+  const reason = typeof changeReason === 'string' ? changeReason.trim() : ''
+  return { changedBy: await getCurrentUserLabel(), changeReason: reason || null }
+}
+
+const toComparable = (value: unknown) => {
+  if (value instanceof Date) return value.getTime()
+  if (Prisma.Decimal.isDecimal(value)) return value.toNumber()
+  if (typeof value === 'string' && value !== '' && !isNaN(Number(value))) return Number(value)
+  return value ?? null
+}
+
+/**
+ * Whether saving `data` over a config version would change it. Fields left undefined keep the version's value.
+ */
+export function isConfigVersionChanged(config: RoleConfig, data: Partial<ConfigVersionData>): boolean {
+  return Object.entries(data).some(([key, value]) =>
+    value !== undefined && toComparable(config[key as keyof RoleConfig]) !== toComparable(value)
+  )
+}
+
+/**
+ * Records a new version copied from `config` with `data` applied, linked back to it. Fields left undefined keep their value.
+ * The write builders here take the client to write with, `db`: a transaction's, when the change is checked against
+ * closed pay periods in it.
+ */
+export function copyConfigVersion(config: RoleConfig, data: Partial<ConfigVersionData>, tag: ConfigChangeTag, at: Date, db: Prisma.TransactionClient = prisma) {
+  return db.roleConfig.create({ data: buildNextVersion(config, { ...data, ...tag }, at) })
+}
+
+/**
+ * Supersedes a config version with a new one carrying `data`, keeping the old version as history.
+ * Returns the writes to run in one transaction; the new version is the last.
+ */
+export function reviseConfig(config: RoleConfig, data: Partial<ConfigVersionData>, tag: ConfigChangeTag, at: Date, db: Prisma.TransactionClient = prisma) {
+  return [retireConfig(config, at, db), copyConfigVersion(config, data, tag, at, db)]
+}
+
+/**
+ * New versions of an existing config giving it the window it keeps once a new config is fitted in (see planConfigWindow),
+ * or its retirement when the new config replaces it. Returns the writes to run in one transaction.
+ */
+export function reviseConfigWindow(change: ConfigWindowChange<RoleConfig>, tag: ConfigChangeTag, at: Date, db: Prisma.TransactionClient = prisma) {
+  const windows = getRevisedWindows(change)
+  if (windows.length === 0) return [retireConfig(change.config, at, db)]
+  return windows.flatMap((window, index) =>
+    index === 0 ? reviseConfig(change.config, window, tag, at, db) : [copyConfigVersion(change.config, window, tag, at, db)]
+  )
+}
+
+/**
+ * Records a new config with no earlier version.
+ */
+export function createConfigVersion(roleId: string, data: ConfigVersionData, tag: ConfigChangeTag, at: Date, db: Prisma.TransactionClient = prisma) {
+  return db.roleConfig.create({ data: { ...data, ...tag, roleId, createdAt: at } })
+}
+
+/**
+ * Takes a config out of use without a replacement. It stays on record for reports run as configured earlier.
+ */
+export function retireConfig(config: RoleConfig, at: Date, db: Prisma.TransactionClient = prisma) {
+  return db.roleConfig.update({ where: { id: config.id }, data: { supersededAt: at } })
+}
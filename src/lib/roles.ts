@@ -1,10 +1,14 @@
 export enum UserRole {
   ADMIN = "admin",
-  USER = "user"
+  USER = "user",
+  STAFF = "staff"
 }
 
 export type UserRoles = UserRole[];
 
+// Roles that see every employee's data. Anyone signed in without one is staff, limited to their own.
+export const MANAGER_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.USER];
+
 export function hasRole(userRoles: UserRoles | undefined, role: UserRole): boolean {
   if (!userRoles) return false;
   return userRoles.includes(role);
@@ -12,4 +16,8 @@ export function hasRole(userRoles: UserRoles | undefined, role: UserRole): boole
 
 export function isAdmin(userRoles: UserRoles | undefined): boolean {
   return hasRole(userRoles, UserRole.ADMIN);
-} 
\ No newline at end of file
+}
+
+export function isManager(userRoles: UserRoles | undefined): boolean {
+  return MANAGER_ROLES.some(role => hasRole(userRoles, role));
+}
@@ -0,0 +1,40 @@
+import { TipoutType as PrismaTipoutType } from '@prisma/client';
+import { calculateTipStatements } from '@/utils/tipStatements';
+import { prisma as db } from '@/lib/prisma';
+import { loadReportInputs } from '@/lib/reportShifts';
+import { TipStatement } from '@/types/reports';
+
+export type TipStatementData = {
+    startDate: string;
+    endDate: string;
+    statements: TipStatement[];
+    tipoutTypes: PrismaTipoutType[]; // For the names of the types the statements list
+};
+
+/**
+ * Tip statements for a date range (inclusive), calculated from the shifts and role configs in use like the report:
+ * one employee's with an employeeId, otherwise one for everyone who worked.
+ */
+export async function getTipStatements(startDate: string, endDate: string, employeeId: string | null = null): Promise<TipStatementData> {
+    const inputs = await loadReportInputs(startDate, endDate);
+    const tipoutTypes = await db.tipoutType.findMany({ orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }] });
+
+    return {
+        startDate,
+        endDate,
+        statements: calculateTipStatements(inputs, employeeId),
+        tipoutTypes,
+    };
+}
+
+/**
+ * The first and last day (yyyy-MM-dd) of a pay period, or null when there is no such period.
+ */
+export async function getPayPeriodDates(payPeriodId: string): Promise<{ startDate: string; endDate: string } | null> {
+    const payPeriod = await db.payPeriod.findUnique({ where: { id: payPeriodId } });
+    if (!payPeriod) return null;
+    return {
+        startDate: payPeriod.startDate.toISOString().slice(0, 10),
+        endDate: payPeriod.endDate.toISOString().slice(0, 10),
+    };
+}
@@ -0,0 +1,59 @@
+import { prisma } from './prisma'
+import { getTipoutStages } from '@/utils/tipoutCalculations'
+
+/**
+ * Returns the keys that are not registered as tipout types.
+ * Role configurations may only reference types defined by an admin.
+ */
+export async function findUnknownTipoutTypes(keys: string[]): Promise<string[]> {
+  const uniqueKeys = Array.from(new Set(keys.filter(Boolean)))
+  if (uniqueKeys.length === 0) return []
+
+  const registered = await prisma.tipoutType.findMany({
+    where: { key: { in: uniqueKeys } },
+    select: { key: true },
+  })
+  const registeredKeys = new Set(registered.map(type => type.key))
+  return uniqueKeys.filter(key => !registeredKeys.has(key))
+}
+
+type StageConfig = {
+  tipoutType: string
+  basis?: string | null
+  paysTipout?: boolean | null
+  receivesTipout?: boolean | null
+  effectiveTo?: string | Date | null
+}
+
+/**
+ * Pairs each type a role receives with each type it pays out of those received tipouts.
+ */
+function getTipoutDependencies(configs: StageConfig[]): [string, string][] {
+  const receivedTypes = configs.filter(config => config.receivesTipout).map(config => config.tipoutType)
+  return configs
+    .filter(config => config.paysTipout !== false && config.basis === 'received_tipouts')
+    .flatMap(config => receivedTypes.map((receivedType): [string, string] => [receivedType, config.tipoutType]))
+}
+
+/**
+ * Checks that a role's configs, together with every other role's current configs, do not pay
+ * tipouts out of received tipouts in a loop (e.g. bar paid out of barback and barback out of bar).
+ * Only configs still in effect today are considered. Returns an error message naming the cycle, or null.
+ */
+export async function findTipoutCycleError(roleId: string, configs: StageConfig[]): Promise<string | null> {
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  const isCurrent = (config: StageConfig) => !config.effectiveTo || new Date(config.effectiveTo) >= today
+
+  const otherConfigs = await prisma.roleConfig.findMany({
+    where: { roleId: { not: roleId }, supersededAt: null, OR: [{ effectiveTo: null }, { effectiveTo: { gte: today } }] },
+    select: { roleId: true, tipoutType: true, basis: true, paysTipout: true, receivesTipout: true },
+  })
+  const configsByRole = new Map<string, StageConfig[]>([[roleId, configs.filter(isCurrent)]])
+  otherConfigs.forEach(config => {
+    configsByRole.set(config.roleId, [...(configsByRole.get(config.roleId) ?? []), config])
+  })
+
+  const { cycle } = getTipoutStages([], Array.from(configsByRole.values()).flatMap(getTipoutDependencies))
+  return cycle ? `Tipouts cannot be paid out of each other in a cycle: ${cycle.join(' → ')}` : null
+}
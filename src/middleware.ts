@@ -1,19 +1,26 @@
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server'
 import { NextResponse } from 'next/server'
-import type { NextRequest } from "next/server";
-import { UserRole } from "./lib/roles";
+import { UserRoles, isManager } from "./lib/roles";
+import { forbiddenResponse, unauthorizedResponse } from "./lib/authErrors";
+import { getApiRequestAccess } from "./utils/access";
 
 const isAdminRoute = createRouteMatcher(['/admin(.*)'])
 // Define public routes that don't require authentication
 const isPublicRoute = createRouteMatcher([
   '/', // Landing page
   '/sign-in(.*)', // Sign-in pages
-  '/api/(.*)', // API routes
   '/verification(.*)', // For email verification links
   // Special invitation paths for Clerk - these will contain tokens for valid invitations only
   '/sign-up/invitation/(.*)', // For Clerk invitation links
 ])
-
+// Staff (signed in without a manager role) only get their own shifts and tips. These pages, and GETs to the
+// API routes listed in utils/access, are all open to them; each route narrows what it returns to the employee linked to the user.
+const isStaffPage = createRouteMatcher([
+  '/my-tips(.*)',
+  '/sign-in(.*)',
+  '/verification(.*)',
+  '/sign-up/invitation/(.*)',
+])
 export default clerkMiddleware(async (auth, req) => {
   const session = await auth();
   const isAuthenticated = !!session.userId;
@@ -27,7 +34,20 @@ export default clerkMiddleware(async (auth, req) => {
     isAuthenticated
   });
   
-  // First check: redirect unauthenticated users to sign-in except for public routes
+  // First check: API calls need a session, and get a 401 rather than the sign-in page without one. Staff only
+  // get GETs to their own data. Each handler checks again, along with the roles it needs (see requireRole in lib/auth)
+  if (req.nextUrl.pathname.startsWith('/api/')) {
+    const manager = isManager(metadata?.roles as UserRoles | undefined)
+    const access = getApiRequestAccess({ signedIn: isAuthenticated, manager }, req.method, req.nextUrl.pathname)
+    if (access === 'unauthorized') {
+      return unauthorizedResponse()
+    }
+    if (access === 'forbidden') {
+      return forbiddenResponse('Staff can only view their own shifts and tips')
+    }
+  }
+
+  // Redirect unauthenticated users to sign-in except for public routes
   if (!isAuthenticated && !isPublicRoute(req)) {
     const signInUrl = new URL('/sign-in', req.url);
     // Add the original URL as a redirect parameter
@@ -41,6 +61,12 @@ export default clerkMiddleware(async (auth, req) => {
     return NextResponse.redirect(url)
   }
 
+  // Keep staff to their own pages
+  if (isAuthenticated && !isManager(metadata?.roles as UserRoles | undefined)
+    && !req.nextUrl.pathname.startsWith('/api/') && !isStaffPage(req)) {
+    return NextResponse.redirect(new URL('/my-tips', req.url))
+  }
+
   // Protect edit/delete operations (for authenticated users)
   const isProtectedOperation = createRouteMatcher([
     '/shifts/:id/edit',
@@ -11,14 +11,30 @@ export type Employee = {
  */
 export type RoleConfig = {
   id: string;
-  tipoutType: TipoutType;    // 'bar', 'host', 'sa', etc.
+  tipoutType: TipoutType;    // Key of a TipoutTypeDefinition, e.g. 'bar', 'host', 'busser'.
   percentageRate: number;
+  basis?: TipoutBasis;       // What percentageRate applies to. Defaults by tipout type when missing.
   effectiveFrom: string;
   effectiveTo: string | null;
   receivesTipout?: boolean;  // Whether this role receives tipout of this type
   paysTipout?: boolean;      // Whether this role pays tipout of this type
   distributionGroup?: string; // For pooling tipouts RECEIVED FROM others (e.g., 'bartenders', 'hosts')
   tipPoolGroup?: string;     // For pooling tips COLLECTED BY this role WITH others (e.g. "server_pool", "bartender_pool")
+  poolWeighting?: DistributionWeighting;         // How the tip pool is split. Defaults to 'hours'.
+  poolWeight?: number | null;                    // Points per hour or fixed percentage of the tip pool
+  distributionWeighting?: DistributionWeighting; // How the distribution group is split. Defaults to 'hours'.
+  distributionWeight?: number | null;            // Points per hour or fixed percentage of the distribution group
+  poolWindow?: PoolingWindow;                    // Span of shifts the tip pool is built over. Defaults to 'shift'.
+  distributionWindow?: PoolingWindow;            // Span of shifts the distribution group is built over. Defaults to 'shift'.
+  absentPolicy?: AbsentRecipientPolicy;          // What a paying role does with the tipout when no one receiving it worked. Defaults to 'skip'.
+  absentRollToGroup?: string | null;             // Distribution group that takes the tipout under the 'roll_to_group' policy
+  distributionShare?: number | null;             // Percentage of the type's pool the distributionGroup takes, from the type's DistributionSplit in effect on the shift's date. Null when the type is not split then.
+  capPercentage?: number | null;                 // Most the tipout may be, as a percentage of capBasis. No cap when null.
+  capBasis?: TipoutBasis | null;                 // What capPercentage applies to. Defaults to the tipout's basis.
+  floorPercentage?: number | null;               // Least the tipout may be, as a percentage of floorBasis. No floor when null.
+  floorBasis?: TipoutBasis | null;               // What floorPercentage applies to. Defaults to the tipout's basis.
+  distributionMinimumHourly?: number | null;     // Tipout per hour the house guarantees each shift in the distributionGroup, topping up any shortfall
+  sourceBucket?: TipoutSourceBucket;             // Which of the payer's tips the tipout is taken from. Defaults to 'credit'.
 };
 
 /**
@@ -37,7 +53,144 @@ export type Shift = {
   cashTips: number;
   creditTips: number;
   liquorSales: number;
+  foodSales?: number;
+  netSales?: number;
+  servicePeriod?: Pick<ServicePeriod, 'id' | 'name'> | null; // Pools are formed per day and service period
   configs?: RoleConfig[]; // Add optional configs property
+  payRates?: PayRate[]; // The role's base pay rates and the employee's overrides of them; role.basePayRate when none applies
+};
+
+/**
+ * Base pay per hour for a role over a span of dates. With an employeeId it is that employee's override of the role's rate.
+ */
+export type PayRate = {
+  id?: string;
+  rate: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  employeeId: string | null;
+};
+
+/**
+ * Hourly wages an employee must earn over a span of dates. Tips may be credited toward minimumWage,
+ * but base pay alone must reach tippedWage.
+ */
+export type MinimumWageRate = {
+  id?: string;
+  minimumWage: number;
+  tippedWage: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+};
+
+/**
+ * An employee's workweek in which base pay and tips fell short of the minimum wage, and the make-up the house owes for it.
+ */
+export type WeeklyShortfall = {
+  employeeId: string;
+  employeeName: string;
+  weekStart: string;                  // YYYY-MM-DD
+  weekEnd: string;                    // YYYY-MM-DD
+  hours: number;
+  basePay: number;
+  tips: number;                       // Cash kept plus payroll tips
+  minimumWageDue: number;             // Hours at the minimum wage in effect on each shift's date
+  tippedWageDue: number;              // Hours at the tipped wage in effect on each shift's date
+  makeUp: number;
+  makeUpInRange: number;              // Part of makeUp owed for the week's shifts within the report's dates, by hours
+  makeUpByRole: Record<string, number>; // makeUpInRange split across the roles worked that week by hours
+};
+
+/**
+ * How workweeks and overtime are defined for payroll.
+ */
+export type PayrollSettings = {
+  workweekStartDay: number;       // Weekday workweeks start on, 0 for Sunday to 6 for Saturday
+  overtimeThresholdHours: number; // Hours per workweek, across all roles, after which overtime is paid
+  overtimeMultiplier: number;     // Overtime hours are paid at this multiple of the regular rate, e.g. 1.5
+  payPeriodFrequency: PayPeriodFrequency; // Length of the pay periods opened from now on
+  payPeriodAnchorDate: string;    // YYYY-MM-DD first day of any weekly or biweekly period; the rest follow on from it
+};
+
+/**
+ * First and last day (YYYY-MM-DD, inclusive) of the dates a report covers
+ */
+export type DateRange = {
+  startDate: string;
+  endDate: string;
+};
+
+/**
+ * How often shifts are paid out. Weekly and biweekly periods count on from an anchor date; semi-monthly runs 1st-15th and 16th-end of month.
+ */
+export type PayPeriodFrequency = 'weekly' | 'biweekly' | 'semi_monthly';
+
+/**
+ * Where a pay period is in payroll: `open` while shifts are still entered, `closed` once payroll is run on it,
+ * `exported` once sent to the payroll provider. Closed and exported periods lock their shifts and role configs.
+ */
+/**
+ * Totals of one tip pool group across the employee/role rows that pooled into it
+ */
+export type TipPoolSummary = {
+  group: string;
+  totalHours: number;
+  totalGrossCreditTips: number;  // Credit tips collected into the pool
+  totalNetCreditShare: number;   // Credit tips taken back out of it
+  window: PoolingWindow | null;
+};
+
+/**
+ * File types a report can be exported to
+ */
+export type ReportExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+/**
+ * Layouts a report can be exported to payroll in: a generic CSV, or files laid out for Gusto, ADP or QuickBooks Payroll to import
+ */
+export type PayrollExportFormat = 'csv' | 'gusto' | 'adp' | 'quickbooks';
+
+/**
+ * The separate earnings a payroll export reports for each employee and role
+ */
+export type PayrollEarningKind = 'regular' | 'overtimePremium' | 'minimumWageMakeUp' | 'cashTips' | 'payrollTips';
+
+/**
+ * The code (or column, or payroll item) each earning is imported under in one export format
+ */
+export type EarningCodes = Record<PayrollEarningKind, string>;
+
+export type PayPeriodStatus = 'open' | 'closed' | 'exported';
+
+export type PayPeriod = {
+  id: string;
+  startDate: string;                  // First day, midnight UTC
+  endDate: string;                    // Last moment of the last day
+  frequency: PayPeriodFrequency;
+  status: PayPeriodStatus;
+  closedAt: string | null;
+  closedBy: string | null;
+  exportedAt: string | null;
+  exportedBy: string | null;
+  reopenedAt: string | null;
+  reopenedBy: string | null;
+};
+
+/**
+ * An employee's workweek past the overtime threshold, and the premium owed on top of straight-time pay for it.
+ */
+export type WeeklyOvertime = {
+  employeeId: string;
+  employeeName: string;
+  weekStart: string;                  // YYYY-MM-DD
+  weekEnd: string;                    // YYYY-MM-DD
+  hours: number;                      // Across all roles
+  overtimeHours: number;
+  regularRate: number;                // Straight-time pay for the week over its hours, blended across roles and rates
+  premium: number;                    // Overtime hours at (multiplier - 1) x the regular rate; straight time is already in base pay
+  premiumInRange: number;             // Part of the premium owed for the week's shifts within the report's dates, by hours
+  premiumByRole: Record<string, number>;       // premiumInRange split across the roles worked that week by hours
+  overtimeHoursByRole: Record<string, number>; // Overtime hours within the report's dates split the same way
 };
 
 /**
@@ -49,16 +202,22 @@ export type ReportSummary = {
   totalCashTips: number;
   totalCreditTips: number;
   totalLiquorSales: number;
-  totalBarTipoutPaid: number; // Total paid *into* bar pool
-  totalHostTipoutPaid: number;// Total paid *into* host pool
-  totalSaTipoutPaid: number;  // Total paid *into* sa pool
+  totalTipoutsPaid: Record<TipoutType, number>; // Total paid *into* each tipout type's distribution pool
+  absentTipouts: AbsentTipout[]; // Tipouts paid while no one receiving them worked, and where each went
+  totalTipoutLimitAdjustments: Record<TipoutType, number>; // What caps (negative) and floors (positive) changed the tipouts paid by
+  totalHouseTopUps: number; // Paid by the house to bring distribution groups up to their minimum guarantee
   // Averages - Note: These might be less meaningful when calculated over a range if pooling is daily
-  barTipsPerHour: number;
-  serverTipsPerHour: number;
-  barCashTipsPerHour: number;
-  barCreditTipsPerHour: number;
-  serverCashTipsPerHour: number;
-  serverCreditTipsPerHour: number;
+  receiverTipsPerHour: Record<TipoutType, TipsPerHour>; // Shifts receiving each tipout type, with everything paid into it
+  payerTipsPerHour: TipsPerHour; // Shifts paying tipouts without receiving any, after what they paid
+};
+
+/**
+ * Average tips per hour of a set of shifts across a report's range
+ */
+export type TipsPerHour = {
+  cash: number;
+  payroll: number; // Credit tips after tipouts, as paid through payroll
+  total: number;
 };
 
 /**
@@ -69,36 +228,311 @@ export type EmployeeRoleSummary = {
   employeeName: string;
   roleName: string;
   totalHours: number;
-  totalCashTips: number;
+  totalCashTips: number;     // Cash the employee keeps: pooled or original cash, less tipouts paid from cash
   totalCreditTips: number;
   totalGrossCreditTips: number; // Gross credit tips before pooling
+  totalTipoutsPaidFromCash: number; // Part of the tipouts paid that came out of cash rather than payroll tips
   /**
-   * Net amount for this employee/role: Positive=Received, Negative=Paid.
-   * For pooled roles, this is now (received from pool - paid to pool), so can be negative or positive.
+   * Net amount per tipout type for this employee/role: Positive=Received, Negative=Paid.
+   * For pooled roles, this is (received from pool - paid to pool), so can be negative or positive.
    */
-  totalBarTipout: number;
-  totalHostTipout: number;  // Net amount for this employee/role: +received / -paid
-  totalSaTipout: number;    // Net amount for this employee/role: +received / -paid
+  totalTipouts: Record<TipoutType, number>;
+  /**
+   * What caps (negative) and floors (positive) changed this employee/role's paid tipouts by, keyed by tipout type.
+   * Already included in totalTipouts.
+   */
+  totalTipoutLimitAdjustments: Record<TipoutType, number>;
+  totalHouseTopUp: number;   // Paid by the house to meet distribution group minimum guarantees; included in totalPayrollTips
   cashTipsPerHour: number;
   creditTipsPerHour: number; // Based on totalPayrollTips / totalHours
   totalTipsPerHour: number;  // Based on (totalCashTips + totalPayrollTips) / totalHours
-  basePayRate: number;
+  basePayRate: number;       // Hour-weighted average of the rates each shift was paid at
+  totalBasePay: number;      // Base pay for the hours worked, at the rate in effect on each shift's date
   totalPayrollTips: number;  // Represents the value used for payroll (CreditTips + Net Tipouts)
   totalLiquorSales: number;
-  payrollTotal: number;      // Calculated total payroll amount (Base Pay + Payroll Tips)
+  totalComplianceMakeUp: number; // Paid by the house to bring the employee up to the minimum wage, see WeeklyShortfall
+  totalOvertimeHours: number;   // This role's share of the employee's hours past the weekly overtime threshold
+  totalOvertimePremium: number; // This role's share of the overtime premium, see WeeklyOvertime
+  payrollTotal: number;      // Calculated total payroll amount (Base Pay + Payroll Tips + Compliance Make-Up + Overtime Premium)
   tipPoolGroup?: string | null; // Name of the tip pool group, if any
+  tipPoolWindow?: PoolingWindow | null; // Window the tip pool was built over
+  tipoutWindows?: Record<TipoutType, PoolingWindow>; // Window of each distribution group tipouts were received from
+};
+
+/**
+ * Everything a report is calculated from, so it can be recalculated or compared exactly later
+ */
+export type ReportInputs = {
+  startDate: string;            // YYYY-MM-DD
+  endDate: string;              // YYYY-MM-DD
+  configuredOn: string | null;  // YYYY-MM-DD the role configs were loaded as of; null for the configs in use
+  shifts: Shift[];              // With the role configs and pay rates each was calculated with
+  minimumWages: MinimumWageRate[];
+  payrollSettings: PayrollSettings;
+};
+
+/**
+ * What a report works out from its inputs
+ */
+export type CalculatedReport = {
+  summary: ReportSummary | null;
+  employeeSummaries: EmployeeRoleSummary[];
+  shortfalls: WeeklyShortfall[];
+  overtime: WeeklyOvertime[];
+};
+
+/**
+ * A frozen report: what it showed when it was taken, and the exact inputs it was calculated from. Never changed once saved.
+ */
+export type ReportSnapshot = CalculatedReport & {
+  id: string;
+  startDate: string;
+  endDate: string;
+  configuredOn: string | null;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  inputs: ReportInputs;
+};
+
+/**
+ * One total that differs between a snapshot and a recalculation. Money is compared to the cent, hours to the hundredth.
+ */
+export type ReportFieldChange = {
+  field: string;       // e.g. 'payrollTotal', or 'totalTipouts.bar' for one tipout type
+  before: number;
+  after: number;
+  difference: number;  // after - before
+};
+
+/**
+ * How an employee's totals changed between a snapshot and a recalculation, role by role
+ */
+export type EmployeeReportDiff = {
+  employeeId: string;
+  employeeName: string;
+  status: 'added' | 'removed' | 'changed';
+  changes: (ReportFieldChange & { roleName: string })[];
+  payrollTotalDifference: number; // Across all the employee's roles
+};
+
+export type ReportDiff = {
+  unchanged: boolean;
+  summaryChanges: ReportFieldChange[];
+  employees: EmployeeReportDiff[];
+};
+
+/**
+ * Where one shift's tips went, as a tip statement lists it.
+ * Summed over an employee's shifts in a role, the amounts come to that role's EmployeeRoleSummary totals.
+ */
+export type ShiftTipBreakdown = {
+  shiftId: string;
+  date: string;                   // YYYY-MM-DD
+  servicePeriodName: string | null;
+  employeeId: string;
+  employeeName: string;
+  roleName: string;
+  hours: number;
+  grossCashTips: number;          // Collected on the shift, before pooling and tipouts
+  grossCreditTips: number;
+  tipPoolGroup: string | null;
+  poolCashShare: number | null;   // The shift's share of its tip pool, after the tipouts the pool paid; null when not pooled
+  poolCreditShare: number | null;
+  tipoutsPaid: Record<TipoutType, number>;     // Including the shift's part of tipouts a pool paid
+  tipoutsReceived: Record<TipoutType, number>;
+  tipoutsPaidFromCash: number;    // Part of the tipouts the shift paid itself that came out of its cash
+  houseTopUp: number;
+  cashTips: number;               // Cash kept, as in totalCashTips
+  payrollTips: number;
+};
+
+/**
+ * A tip statement's amounts added up over its shifts
+ */
+export type TipStatementTotals = Omit<ShiftTipBreakdown,
+  'shiftId' | 'date' | 'servicePeriodName' | 'employeeId' | 'employeeName' | 'roleName' | 'tipPoolGroup' | 'poolCashShare' | 'poolCreditShare'> & {
+  shifts: number;
+  poolCashShare: number;          // Over pooled shifts only
+  poolCreditShare: number;
+};
+
+/**
+ * One employee's shifts over a date range, each with how its tips were reached, for them to check their pay against
+ */
+export type TipStatement = {
+  employeeId: string;
+  employeeName: string;
+  startDate: string;              // YYYY-MM-DD
+  endDate: string;                // YYYY-MM-DD
+  tipoutTypes: TipoutType[];      // Every type the employee paid or received, alphabetically
+  shifts: ShiftTipBreakdown[];    // By date, then service period and role
+  totals: TipStatementTotals;
+  roles: EmployeeRoleSummary[];   // The report's rows for the employee, which the totals add up to
+};
+
+/**
+ * Key of a tipout type defined in the tipout type registry (e.g. 'bar', 'host', 'sa', 'busser')
+ */
+export type TipoutType = string;
+
+/**
+ * The shift amount a tipout percentage is applied to. `received_tipouts` is what the shift received
+ * from tipouts calculated in earlier stages, e.g. bartenders tipping out barbacks from the bar tipout.
+ */
+export type TipoutBasis = 'total_tips' | 'credit_tips' | 'liquor_sales' | 'food_sales' | 'net_sales' | 'received_tipouts';
+
+/**
+ * How a tip pool or distribution group is split between the shifts in it:
+ * by hours worked, by points per hour, equally per employee, or by a fixed percentage per role
+ */
+export type DistributionWeighting = 'hours' | 'points' | 'equal' | 'fixed_percentage';
+
+/**
+ * The span of shifts a tip pool or distribution group is built over:
+ * one service (a day's service period), the whole day, the workweek, or the pay period,
+ * as set in the payroll settings
+ */
+export type PoolingWindow = 'shift' | 'day' | 'week' | 'pay_period';
+
+/**
+ * Which of a payer's tips a tipout is taken from: credit tips only (so it comes out of payroll tips),
+ * cash first with credit covering the rest, or cash and credit in proportion to what the payer holds of each
+ */
+export type TipoutSourceBucket = 'credit' | 'cash_first' | 'proportional';
+
+/**
+ * What happens to a tipout when no role receiving its type worked in the payer's window:
+ * the payer keeps it, it rolls to another distribution group, it goes to the house,
+ * or it is held and carried to the next day someone receiving it works
+ */
+export type AbsentRecipientPolicy = 'skip' | 'roll_to_group' | 'house' | 'carry_forward';
+
+/**
+ * A tipout paid under an absent recipient policy, and where the money went
+ */
+export type AbsentTipout = {
+  shiftId: string;
+  date: string;
+  employeeName: string;
+  roleName: string;
+  tipoutType: TipoutType;
+  amount: number;
+  policy: Exclude<AbsentRecipientPolicy, 'skip'>;
+  group: string | null;        // Distribution group that received it; null when it went to the house
+  receivedDate: string | null; // First day of the window it was received in; null when it went to the house
+};
+
+/**
+ * Admin-defined tipout type, stored in the TipoutType table
+ */
+export type TipoutTypeDefinition = {
+  id: string;
+  key: TipoutType;
+  name: string;
+  description: string | null;
+  sortOrder: number;
+  active: boolean;
 };
 
 /**
- * Valid tipout types in the system
+ * Percentage of a tipout type's pool one distribution group takes, stored in the DistributionSplit table.
+ * A type's splits in effect on a date add up to 100.
  */
-export type TipoutType = 'bar' | 'host' | 'sa';
+export type DistributionSplit = {
+  id: string;
+  tipoutType: TipoutType;
+  group: string;
+  percentage: number;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+};
 
 /**
- * Daily role presence tracking
+ * Admin-defined service period (e.g. lunch, dinner), stored in the ServicePeriod table
  */
-export type DailyRolePresence = {
-  hasHost: boolean;
-  hasSA: boolean;
-  hasBar: boolean;
-}; 
\ No newline at end of file
+export type ServicePeriod = {
+  id: string;
+  name: string;
+  sortOrder: number;
+  active: boolean;
+};
+
+/**
+ * Daily role presence tracking: whether any role receiving each tipout type worked
+ */
+export type DailyRolePresence = Record<TipoutType, boolean>;
+
+/**
+ * One step of a shift's payroll tip calculation, as recorded by the calculation trace.
+ * `amount` is what the step adds to (or, when negative, takes from) the shift's payroll tips,
+ * so the amounts of a shift's steps add up to its payroll tips.
+ */
+export type CalculationTraceStep = {
+  kind: 'original_tips' | 'tipout_paid' | 'pool_share' | 'tipout_received' | 'house_top_up';
+  label: string;
+  amount: number;
+  tipoutType?: TipoutType;
+  rate?: number;             // Percentage rate applied, when the step uses one
+  configIds: string[];       // RoleConfig ids the step was computed from
+  inputs: Record<string, string | number | boolean | null>;
+};
+
+/**
+ * How a single shift's payroll tips were reached
+ */
+export type ShiftCalculationTrace = {
+  shiftId: string;
+  date: string;
+  employeeId: string;
+  employeeName: string;
+  roleName: string;
+  hours: number;
+  tipPoolGroup: string | null;
+  servicePeriodName: string | null;
+  steps: CalculationTraceStep[];
+  payrollTips: number;
+};
+
+/**
+ * The window a pool's totals were built over, and the first and last day pooled in it
+ */
+export type PoolingWindowRange = {
+  window: PoolingWindow;
+  windowStart: string;
+  windowEnd: string;
+};
+
+/**
+ * Everything calculated for one day and service period: who was present, what each pool held and each shift's trace
+ */
+export type DailyCalculationTrace = {
+  date: string;
+  servicePeriod: Pick<ServicePeriod, 'id' | 'name'> | null; // Null for shifts logged without a service period
+  presence: DailyRolePresence;
+  tipoutPools: Record<TipoutType, number>; // Total paid into each tipout type's distribution pool
+  // Pool totals cover the whole window, which may reach beyond this day
+  tipPools: ({
+    group: string;
+    totalHours: number;
+    totalCashTips: number;
+    totalCreditTips: number;
+    paidFromTips: number;    // Tips-based tipouts deducted at pool level
+    paidFromCash: number;    // Part of paidFromTips taken from the pool's cash tips
+    netCreditTips: number;
+    weighting: DistributionWeighting;
+  } & PoolingWindowRange)[];
+  distributionGroups: ({
+    tipoutType: TipoutType;
+    group: string;
+    totalHours: number;
+    amount: number;          // Paid in over the whole window
+    weighting: DistributionWeighting;
+    share: number | null;    // Percentage of the type's pool the group takes; null when the type is not split
+    rolledIn: Record<TipoutType, number>; // Other types' tipouts rolled to this group because their receivers were absent
+    carriedIn: number;       // Part of `amount` carried forward from earlier days without a receiver
+    minimumHourly: number | null; // Tipout per hour the house guarantees each shift in the group
+    houseTopUp: number;      // Paid by the house to bring the group's shifts up to the minimum
+  } & PoolingWindowRange)[];
+  shifts: ShiftCalculationTrace[];
+};
@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import { canSeeEmployee, getApiRequestAccess, getRoleAccess } from './access';
+
+describe('getRoleAccess', () => {
+    it('should be unauthorized with no session', () => {
+        expect(getRoleAccess(null, [])).toBe('unauthorized');
+        expect(getRoleAccess(undefined, ['admin'], ['admin'])).toBe('unauthorized');
+    });
+
+    it('should let anyone signed in through when no roles are needed', () => {
+        expect(getRoleAccess('user_1', [])).toBe('allowed');
+    });
+
+    it('should forbid a user holding none of the roles needed', () => {
+        expect(getRoleAccess('user_1', [], ['admin', 'user'])).toBe('forbidden');
+        expect(getRoleAccess('user_1', ['user'], ['admin'])).toBe('forbidden');
+    });
+
+    it('should allow a user holding any of the roles needed', () => {
+        expect(getRoleAccess('user_1', ['user'], ['admin', 'user'])).toBe('allowed');
+    });
+});
+
+describe('getApiRequestAccess', () => {
+    const staff = { signedIn: true, manager: false };
+    const manager = { signedIn: true, manager: true };
+
+    it('should be unauthorized with no session', () => {
+        expect(getApiRequestAccess({ signedIn: false, manager: false }, 'GET', '/api/shifts')).toBe('unauthorized');
+    });
+
+    it('should let staff GET their own shifts, employee, pay periods and statements', () => {
+        expect(getApiRequestAccess(staff, 'GET', '/api/shifts')).toBe('allowed');
+        expect(getApiRequestAccess(staff, 'GET', '/api/shifts/shift_1')).toBe('allowed');
+        expect(getApiRequestAccess(staff, 'GET', '/api/employees/emp_1')).toBe('allowed');
+        expect(getApiRequestAccess(staff, 'GET', '/api/pay-periods')).toBe('allowed');
+        expect(getApiRequestAccess(staff, 'GET', '/api/reports/statements')).toBe('allowed');
+    });
+
+    it('should forbid staff from changing anything', () => {
+        expect(getApiRequestAccess(staff, 'POST', '/api/shifts')).toBe('forbidden');
+        expect(getApiRequestAccess(staff, 'PUT', '/api/shifts/shift_1')).toBe('forbidden');
+        expect(getApiRequestAccess(staff, 'DELETE', '/api/employees/emp_1')).toBe('forbidden');
+    });
+
+    it('should forbid staff from requesting reports', () => {
+        expect(getApiRequestAccess(staff, 'GET', '/api/reports')).toBe('forbidden');
+        expect(getApiRequestAccess(staff, 'GET', '/api/reports/explain')).toBe('forbidden');
+    });
+
+    it('should forbid staff from routes below the ones open to them', () => {
+        expect(getApiRequestAccess(staff, 'GET', '/api/employees/emp_1/pay-rates')).toBe('forbidden');
+    });
+
+    it('should let managers through to anything', () => {
+        expect(getApiRequestAccess(manager, 'POST', '/api/shifts')).toBe('allowed');
+        expect(getApiRequestAccess(manager, 'GET', '/api/reports')).toBe('allowed');
+    });
+});
+
+describe('canSeeEmployee', () => {
+    it('should let staff see only their own employee', () => {
+        const scope = { all: false as const, employeeId: 'emp_1' };
+        expect(canSeeEmployee(scope, 'emp_1')).toBe(true);
+        expect(canSeeEmployee(scope, 'emp_2')).toBe(false);
+        expect(canSeeEmployee(scope, null)).toBe(false);
+    });
+
+    it('should let staff with no linked employee see nobody', () => {
+        const scope = { all: false as const, employeeId: null };
+        expect(canSeeEmployee(scope, null)).toBe(false);
+        expect(canSeeEmployee(scope, 'emp_1')).toBe(false);
+    });
+
+    it('should let managers see every employee', () => {
+        expect(canSeeEmployee({ all: true }, 'emp_2')).toBe(true);
+    });
+});
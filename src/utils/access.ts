@@ -0,0 +1,47 @@
+// Who may reach what: the checks behind requireRole, the middleware's rules for staff, and whose data each user sees.
+// Kept free of Clerk and Prisma so the middleware can run them too.
+
+export type Access = 'allowed' | 'unauthorized' | 'forbidden';
+
+/**
+ * Whether a user may call a route needing one of `roles`, or without roles, any signed-in user:
+ * unauthorized when nobody is signed in, forbidden when they hold none of the roles.
+ */
+export const getRoleAccess = (userId: string | null | undefined, userRoles: string[], roles?: string[]): Access => {
+  if (!userId) return 'unauthorized';
+  if (roles && !roles.some(role => userRoles.includes(role))) return 'forbidden';
+  return 'allowed';
+};
+
+// API routes staff may GET. Each narrows what it returns to the employee linked to the user
+const STAFF_API_ROUTES = [
+  /^\/api\/employees\/?$/,
+  /^\/api\/employees\/[^/]+\/?$/,
+  /^\/api\/shifts\/?$/,
+  /^\/api\/shifts\/[^/]+\/?$/,
+  /^\/api\/pay-periods\/?$/,
+  /^\/api\/reports\/statements\/?$/,
+];
+
+/**
+ * Whether the middleware lets an API request through to its handler. Nobody signed in is unauthorized; staff (signed in
+ * without a manager role) are forbidden anything but GETs to the routes that narrow to their own shifts and tips.
+ */
+export const getApiRequestAccess = (user: { signedIn: boolean; manager: boolean }, method: string, pathname: string): Access => {
+  if (!user.signedIn) return 'unauthorized';
+  if (user.manager) return 'allowed';
+  return method === 'GET' && STAFF_API_ROUTES.some(route => route.test(pathname)) ? 'allowed' : 'forbidden';
+};
+
+/**
+ * Whose data the signed-in user may see. Managers (admins and users) see every employee's.
+ * Staff see only the employee linked to their user id: employeeId is null until one is linked, and then they see nothing.
+ */
+export type EmployeeScope = { all: true } | { all: false; employeeId: string | null };
+
+/**
+ * Whether the scope lets the user see this employee's data.
+ */
+export const canSeeEmployee = (scope: EmployeeScope, employeeId: string | null | undefined): boolean => {
+  return scope.all || (!!scope.employeeId && scope.employeeId === employeeId);
+};
@@ -0,0 +1,121 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateWeeklyShortfalls, applyComplianceMakeUp } from './compliance';
+import { ShiftEarnings } from './workweek';
+import { EmployeeRoleSummary, MinimumWageRate } from '@/types/reports';
+
+const alex = { id: 'emp1', name: 'Alex' };
+const blair = { id: 'emp2', name: 'Blair' };
+
+const wageRates: MinimumWageRate[] = [
+    { minimumWage: 15, tippedWage: 5, effectiveFrom: '2024-01-01', effectiveTo: '2024-06-30' },
+    { minimumWage: 16, tippedWage: 6, effectiveFrom: '2024-07-01', effectiveTo: null },
+];
+
+const earned = (employee: { id: string; name: string }, date: string, hours: number, basePay: number, cashTips: number, payrollTips: number, roleName = 'Server'): ShiftEarnings => ({
+    employee, roleName, date, hours, basePay, cashTips, payrollTips,
+});
+
+describe('calculateWeeklyShortfalls', () => {
+    it('should hold a week split between pay periods to the minimum wage whole and give each period the make-up for its shifts', () => {
+        const shifts = [
+            earned(alex, '2024-03-04', 5, 25, 10, 20),
+            earned(alex, '2024-03-06', 5, 25, 10, 20),
+        ];
+        const [shortfall] = calculateWeeklyShortfalls(shifts, wageRates, 1, { startDate: '2024-03-05', endDate: '2024-03-18' });
+
+        expect(shortfall).toMatchObject({ hours: 10, makeUp: 40, makeUpInRange: 20, makeUpByRole: { Server: 20 } });
+    });
+
+    it('should make up the gap when base pay plus tips fall short of the minimum wage', () => {
+        // 10h x $15 = $150 due; $50 base + $60 tips = $110 earned
+        const [shortfall, ...rest] = calculateWeeklyShortfalls([
+            earned(alex, '2024-03-04', 5, 25, 10, 20),
+            earned(alex, '2024-03-06', 5, 25, 10, 20),
+        ], wageRates);
+
+        expect(rest).toEqual([]);
+        expect(shortfall).toMatchObject({
+            employeeId: 'emp1',
+            weekStart: '2024-03-04',
+            weekEnd: '2024-03-10',
+            hours: 10,
+            basePay: 50,
+            tips: 60,
+            minimumWageDue: 150,
+            makeUp: 40,
+        });
+    });
+
+    it('should let a good shift cover a slow one in the same workweek, but not in the next', () => {
+        const shortfalls = calculateWeeklyShortfalls([
+            earned(alex, '2024-03-04', 5, 25, 0, 0),   // $75 due, $25 earned
+            earned(alex, '2024-03-08', 5, 25, 0, 100), // $75 due, $125 earned
+            earned(alex, '2024-03-11', 5, 25, 0, 0),   // next week: $75 due, $25 earned
+        ], wageRates);
+
+        expect(shortfalls.map(s => [s.weekStart, s.makeUp])).toEqual([['2024-03-11', 50]]);
+    });
+
+    it('should hold base pay alone to the tipped wage however much was tipped', () => {
+        // 10h x $5 tipped wage = $50, but only $30 base; tips cover the minimum wage
+        const [shortfall] = calculateWeeklyShortfalls([earned(alex, '2024-03-04', 10, 30, 200, 200)], wageRates);
+
+        expect(shortfall.tippedWageDue).toBe(50);
+        expect(shortfall.makeUp).toBe(20);
+    });
+
+    it('should hold each shift to the rates in effect on its date', () => {
+        // The rate rises on Wednesday Jul 3: 4h x $15 + 8h x $16 = $188 due
+        const midWeek: MinimumWageRate[] = [
+            { minimumWage: 15, tippedWage: 5, effectiveFrom: '2024-01-01', effectiveTo: '2024-07-02' },
+            { minimumWage: 16, tippedWage: 6, effectiveFrom: '2024-07-03', effectiveTo: null },
+        ];
+        const [shortfall] = calculateWeeklyShortfalls([
+            earned(alex, '2024-07-01', 4, 60, 0, 0),
+            earned(alex, '2024-07-03', 8, 48, 0, 0),
+        ], midWeek);
+
+        expect(shortfall.weekStart).toBe('2024-07-01');
+        expect(shortfall.minimumWageDue).toBe(188);
+        expect(shortfall.makeUp).toBe(80);
+    });
+
+    it('should split the make-up across the roles worked that week by hours', () => {
+        const [shortfall] = calculateWeeklyShortfalls([
+            earned(alex, '2024-03-04', 6, 0, 0, 0, 'Server'),
+            earned(alex, '2024-03-05', 3, 0, 0, 0, 'Host'),
+        ], [{ minimumWage: 10, tippedWage: 0, effectiveFrom: '2024-01-01', effectiveTo: null }]);
+
+        expect(shortfall.makeUp).toBe(90);
+        expect(shortfall.makeUpByRole).toEqual({ Server: 60, Host: 30 });
+    });
+
+    it('should follow the configured workweek start day', () => {
+        // Sunday Mar 10 closes a Monday-start week but opens a Sunday-start one
+        const shifts = [earned(alex, '2024-03-09', 5, 25, 0, 100), earned(alex, '2024-03-10', 5, 25, 0, 0)];
+
+        expect(calculateWeeklyShortfalls(shifts, wageRates)).toEqual([]);
+        expect(calculateWeeklyShortfalls(shifts, wageRates, 0).map(s => [s.weekStart, s.makeUp])).toEqual([['2024-03-10', 50]]);
+    });
+
+    it('should owe nothing without wage rates or when earnings reach the minimum', () => {
+        expect(calculateWeeklyShortfalls([earned(alex, '2024-03-04', 5, 0, 0, 0)], [])).toEqual([]);
+        expect(calculateWeeklyShortfalls([earned(blair, '2024-03-04', 5, 25, 50, 0)], wageRates)).toEqual([]);
+    });
+});
+
+describe('applyComplianceMakeUp', () => {
+    it('should add each week\'s make-up to the matching employee/role summary', () => {
+        const summary = { employeeId: 'emp1', roleName: 'Server', totalComplianceMakeUp: 0 } as EmployeeRoleSummary;
+        const other = { employeeId: 'emp2', roleName: 'Server', totalComplianceMakeUp: 0 } as EmployeeRoleSummary;
+        const shortfalls = calculateWeeklyShortfalls([
+            earned(alex, '2024-03-04', 2, 0, 0, 0),
+            earned(alex, '2024-03-11', 2, 0, 0, 0.1),
+        ], wageRates);
+
+        applyComplianceMakeUp([summary, other], shortfalls);
+
+        expect(summary.totalComplianceMakeUp).toBe(59.9);
+        expect(other.totalComplianceMakeUp).toBe(0);
+    });
+});
@@ -0,0 +1,84 @@
+// Minimum wage compliance: tips may count toward the minimum wage (a tip credit), but only workweek by workweek,
+// and base pay on its own must still reach the tipped wage. The house makes up any shortfall.
+import { toCents, fromCents, addMoney } from './money';
+import { resolveMinimumWage } from './effectiveConfig';
+import { ShiftEarnings, DEFAULT_PAYROLL_SETTINGS, getWorkweekEnd, groupByWorkweek, isDateInRange, splitWeekByRole } from './workweek';
+import { DateRange, EmployeeRoleSummary, MinimumWageRate, WeeklyShortfall } from '@/types/reports';
+
+/**
+ * Finds each employee's workweeks where base pay plus tips came to less than the minimum wage for the hours worked,
+ * or base pay alone to less than the tipped wage. The make-up is whichever of the two gaps is larger, split across
+ * the roles worked that week by hours. Shifts on dates without wage rates are left out.
+ * With a range, weeks are still held to the minimum wage whole, but only the make-up for their shifts within it
+ * is split across roles (see splitWeekByRole); weeks without a shift in the range are left out.
+ */
+export const calculateWeeklyShortfalls = (
+  earnings: ShiftEarnings[],
+  wageRates: MinimumWageRate[],
+  workweekStartDay: number = DEFAULT_PAYROLL_SETTINGS.workweekStartDay,
+  range?: DateRange,
+): WeeklyShortfall[] => {
+  const covered = earnings.filter(shift => resolveMinimumWage(wageRates, shift.date));
+  const shortfalls: WeeklyShortfall[] = [];
+
+  groupByWorkweek(covered, workweekStartDay).forEach(({ employee, weekStart, shifts }) => {
+    if (!shifts.some(shift => isDateInRange(shift.date, range))) return;
+    let hours = 0;
+    let basePay = 0;
+    let tipsCents = 0;
+    let minimumWageDue = 0;
+    let tippedWageDue = 0;
+    shifts.forEach(shift => {
+      // Rates can change mid-week, so each shift is held to the rates in effect on its own date
+      const wageRate = resolveMinimumWage(wageRates, shift.date)!;
+      hours += Number(shift.hours);
+      basePay += shift.basePay;
+      tipsCents += toCents(shift.cashTips) + toCents(shift.payrollTips);
+      minimumWageDue += Number(wageRate.minimumWage) * Number(shift.hours);
+      tippedWageDue += Number(wageRate.tippedWage) * Number(shift.hours);
+    });
+
+    const basePayCents = toCents(basePay);
+    const minimumWageDueCents = toCents(minimumWageDue);
+    const tippedWageDueCents = toCents(tippedWageDue);
+    const makeUpCents = Math.max(
+      minimumWageDueCents - (basePayCents + tipsCents),
+      tippedWageDueCents - basePayCents,
+      0,
+    );
+    if (makeUpCents === 0) return;
+
+    const { inRangeCents, hoursByRole, centsByRole } = splitWeekByRole(makeUpCents, shifts, range);
+    const roles = Array.from(hoursByRole.keys());
+    shortfalls.push({
+      employeeId: employee.id,
+      employeeName: employee.name,
+      weekStart,
+      weekEnd: getWorkweekEnd(weekStart),
+      hours,
+      basePay: fromCents(basePayCents),
+      tips: fromCents(tipsCents),
+      minimumWageDue: fromCents(minimumWageDueCents),
+      tippedWageDue: fromCents(tippedWageDueCents),
+      makeUp: fromCents(makeUpCents),
+      makeUpInRange: fromCents(inRangeCents),
+      makeUpByRole: Object.fromEntries(roles.map(role => [role, fromCents(centsByRole.get(role)!)])),
+    });
+  });
+
+  return shortfalls.sort((a, b) => a.weekStart.localeCompare(b.weekStart) || a.employeeName.localeCompare(b.employeeName));
+};
+
+/**
+ * Adds each shortfall's make-up to the employee/role summaries it was split across.
+ * payrollTotal is left for the caller to work out from the totals.
+ */
+export const applyComplianceMakeUp = (summaries: EmployeeRoleSummary[], shortfalls: WeeklyShortfall[]): void => {
+  const byKey = new Map(summaries.map(summary => [`${summary.employeeId}-${summary.roleName}`, summary]));
+  shortfalls.forEach(shortfall => {
+    Object.entries(shortfall.makeUpByRole).forEach(([roleName, amount]) => {
+      const summary = byKey.get(`${shortfall.employeeId}-${roleName}`);
+      if (summary) summary.totalComplianceMakeUp = addMoney(summary.totalComplianceMakeUp, amount);
+    });
+  });
+};
@@ -0,0 +1,123 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildNextVersion, getConfigVersionFilter, getRevisedWindows, ConfigVersionFilter } from './configVersions';
+import { planConfigWindow } from './effectiveConfig';
+
+type Version = {
+    id: string;
+    tipoutType: string;
+    percentageRate: number;
+    effectiveFrom: Date;
+    effectiveTo: Date | null;
+    previousVersionId: string | null;
+    createdAt: Date;
+    supersededAt: Date | null;
+};
+
+const at = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+const version = (id: string, percentageRate: number, createdAt: Date, changes: Partial<Version> = {}): Version => ({
+    id,
+    tipoutType: 'bar',
+    percentageRate,
+    effectiveFrom: at('2024-01-01'),
+    effectiveTo: null,
+    previousVersionId: null,
+    createdAt,
+    supersededAt: null,
+    ...changes,
+});
+
+// Supersedes a version the way reviseConfig does: the old row is stamped and a linked copy recorded
+const supersede = (history: Version[], id: string, newId: string, changes: Partial<Version>, when: Date): Version[] => {
+    const next = buildNextVersion(history.find(entry => entry.id === id)!, changes, when);
+    return [
+        ...history.map(entry => (entry.id === id ? { ...entry, supersededAt: when } : entry)),
+        { ...next, id: newId } as Version,
+    ];
+};
+
+// Applies a version filter the way the database does
+const matches = (filter: ConfigVersionFilter, entry: Version): boolean => {
+    if (!('createdAt' in filter)) return entry.supersededAt === null;
+    const configuredOn = filter.createdAt.lte;
+    return entry.createdAt <= configuredOn && (entry.supersededAt === null || entry.supersededAt > configuredOn);
+};
+
+describe('buildNextVersion', () => {
+    it('should copy the version with the changes applied, linked back to it', () => {
+        const original = version('v1', 10, at('2024-01-01'));
+        expect(buildNextVersion(original, { percentageRate: 12, effectiveTo: undefined }, at('2024-02-01'))).toEqual({
+            ...original,
+            percentageRate: 12,
+            id: undefined,
+            previousVersionId: 'v1',
+            supersededAt: null,
+            createdAt: at('2024-02-01'),
+            updatedAt: undefined,
+        });
+    });
+
+    it('should keep the superseded version on record as it was', () => {
+        const original = version('v1', 10, at('2024-01-01'));
+        const history = supersede([original], 'v1', 'v2', { percentageRate: 12 }, at('2024-02-01'));
+
+        expect(history).toHaveLength(2);
+        expect(history[0]).toEqual({ ...original, supersededAt: at('2024-02-01') });
+        expect(history[1]).toEqual(expect.objectContaining({ id: 'v2', percentageRate: 12, previousVersionId: 'v1', supersededAt: null }));
+    });
+});
+
+describe('getRevisedWindows', () => {
+    it('should give a config split around a new one two windows, one either side of it', () => {
+        const original = version('v1', 10, at('2024-01-01'));
+        const { changes } = planConfigWindow([original], at('2024-02-01'), at('2024-02-29'));
+        const [before, after] = getRevisedWindows(changes[0]).map(window => buildNextVersion(original, window, at('2024-01-15')));
+
+        expect(before).toEqual(expect.objectContaining({
+            effectiveFrom: at('2024-01-01'),
+            effectiveTo: new Date(at('2024-02-01').getTime() - 1),
+            previousVersionId: 'v1',
+        }));
+        expect(after).toEqual(expect.objectContaining({
+            effectiveFrom: new Date(at('2024-02-29').getTime() + 1),
+            effectiveTo: null,
+            previousVersionId: 'v1',
+        }));
+    });
+
+    it('should end, start or drop a config by how the new one overlaps it', () => {
+        const original = version('v1', 10, at('2024-01-01'));
+        expect(getRevisedWindows({ kind: 'end', config: original, effectiveTo: at('2024-01-31') })).toEqual([{ effectiveTo: at('2024-01-31') }]);
+        expect(getRevisedWindows({ kind: 'start', config: original, effectiveFrom: at('2024-03-01') })).toEqual([{ effectiveFrom: at('2024-03-01') }]);
+        expect(getRevisedWindows({ kind: 'replace', config: original })).toEqual([]);
+    });
+});
+
+describe('getConfigVersionFilter', () => {
+    // 10% from Jan 1, revised to 12% on Feb 1 and to 15% on Mar 1
+    const history = supersede(
+        supersede([version('v1', 10, at('2024-01-01'))], 'v1', 'v2', { percentageRate: 12 }, at('2024-02-01')),
+        'v2', 'v3', { percentageRate: 15 }, at('2024-03-01')
+    );
+    const loadAsOf = (configuredOn?: Date) => history.filter(entry => matches(getConfigVersionFilter(configuredOn), entry)).map(entry => entry.id);
+
+    it('should load the versions in use now without a date', () => {
+        expect(getConfigVersionFilter()).toEqual({ supersededAt: null });
+        expect(loadAsOf()).toEqual(['v3']);
+    });
+
+    it('should load the version that was in use at a moment', () => {
+        expect(loadAsOf(at('2024-01-15'))).toEqual(['v1']);
+        expect(loadAsOf(at('2024-02-15'))).toEqual(['v2']);
+        expect(loadAsOf(at('2024-03-15'))).toEqual(['v3']);
+    });
+
+    it('should load the new version from the moment it was recorded', () => {
+        expect(loadAsOf(new Date(at('2024-02-01').getTime() - 1))).toEqual(['v1']);
+        expect(loadAsOf(at('2024-02-01'))).toEqual(['v2']);
+    });
+
+    it('should load nothing from before the first version was recorded', () => {
+        expect(loadAsOf(at('2023-12-31'))).toEqual([]);
+    });
+});
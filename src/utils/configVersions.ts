@@ -0,0 +1,63 @@
+// Config versions: role configs are never edited. A change supersedes the version in use (stamping its supersededAt)
+// and records a new one linked back to it, so a report can be rerun with the versions in use at any moment.
+import { ConfigWindowChange } from './effectiveConfig';
+
+// Matches versioned rows by when they were recorded and superseded; fits role configs and distribution splits alike
+export type ConfigVersionFilter =
+  | { supersededAt: null }
+  | { createdAt: { lte: Date }; OR: ({ supersededAt: null } | { supersededAt: { gt: Date } })[] };
+
+/**
+ * Selects the config versions in use, or with `configuredOn`, the versions that were in use at that moment.
+ * Versions are never edited: a change supersedes one and records another, so this is how past reports are rerun as configured.
+ */
+export const getConfigVersionFilter = (configuredOn?: Date): ConfigVersionFilter => {
+  if (!configuredOn) return { supersededAt: null };
+  return {
+    createdAt: { lte: configuredOn },
+    OR: [{ supersededAt: null }, { supersededAt: { gt: configuredOn } }],
+  };
+};
+
+type NextVersion<T> = Omit<T, 'id' | 'previousVersionId' | 'supersededAt' | 'createdAt' | 'updatedAt'> & {
+  id: undefined;
+  previousVersionId: string;
+  supersededAt: null;
+  createdAt: Date;
+  updatedAt: undefined;
+};
+
+/**
+ * Fields of the version recorded in place of `version` at `at`: a copy with `changes` applied, linked back to it
+ * and in use until superseded in turn. Changes left undefined keep the version's value; the id is left to the database.
+ */
+export const buildNextVersion = <T extends { id: string }>(
+  version: T,
+  changes: { [field: string]: unknown },
+  at: Date
+): NextVersion<T> => ({
+  ...version,
+  ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+  id: undefined,
+  previousVersionId: version.id,
+  supersededAt: null,
+  createdAt: at,
+  updatedAt: undefined,
+});
+
+/**
+ * The windows an existing config keeps once a new one of its type is fitted in (see planConfigWindow), one per
+ * version to record for it: the first supersedes it, any second is copied alongside. A replaced config keeps none.
+ */
+export const getRevisedWindows = <T>(change: ConfigWindowChange<T>): { effectiveFrom?: Date; effectiveTo?: Date }[] => {
+  switch (change.kind) {
+    case 'end':
+      return [{ effectiveTo: change.effectiveTo }];
+    case 'start':
+      return [{ effectiveFrom: change.effectiveFrom }];
+    case 'split':
+      return [{ effectiveTo: change.effectiveTo }, { effectiveFrom: change.resumeFrom }];
+    case 'replace':
+      return [];
+  }
+};
@@ -0,0 +1,31 @@
+import { describe, it, expect } from '@jest/globals';
+import { escapeCsvCell } from './csv';
+
+describe('escapeCsvCell', () => {
+    it('should leave plain cells as they are', () => {
+        expect(escapeCsvCell('Alex Smith')).toBe('Alex Smith');
+        expect(escapeCsvCell('')).toBe('');
+    });
+
+    it('should quote cells with quotes, commas or line breaks', () => {
+        expect(escapeCsvCell('Smith, Alex')).toBe('"Smith, Alex"');
+        expect(escapeCsvCell('Alex "Al" Smith')).toBe('"Alex ""Al"" Smith"');
+        expect(escapeCsvCell('line\nbreak')).toBe('"line\nbreak"');
+    });
+
+    it('should prefix cells a spreadsheet would run as a formula so they open as text', () => {
+        expect(escapeCsvCell('=1+1')).toBe("'=1+1");
+        expect(escapeCsvCell('+SUM(A1:A2)')).toBe("'+SUM(A1:A2)");
+        expect(escapeCsvCell('-2+3')).toBe("'-2+3");
+        expect(escapeCsvCell('@cmd')).toBe("'@cmd");
+    });
+
+    it('should prefix a formula before quoting it', () => {
+        expect(escapeCsvCell('=HYPERLINK("http://example.com","x")')).toBe(`"'=HYPERLINK(""http://example.com"",""x"")"`);
+    });
+
+    it('should leave negative amounts as numbers', () => {
+        expect(escapeCsvCell('-10.00')).toBe('-10.00');
+        expect(escapeCsvCell('-3')).toBe('-3');
+    });
+});
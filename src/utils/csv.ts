@@ -0,0 +1,14 @@
+// CSV helpers shared by the report and payroll exports.
+
+// A cell a spreadsheet would read as a formula: one starting with =, +, - or @ that isn't just a number
+const isFormulaLike = (value: string) => /^[=+\-@]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value);
+
+/**
+ * Escapes a cell for CSV, quoting it when it holds a quote, comma or line break.
+ * Cells a spreadsheet would run as a formula (names like "=HYPERLINK(...)") get a leading ' so they open as text;
+ * negative amounts such as -10.00 are left as numbers.
+ */
+export const escapeCsvCell = (value: string): string => {
+  const cell = isFormulaLike(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
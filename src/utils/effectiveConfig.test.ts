@@ -0,0 +1,222 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+    isEffectiveOn,
+    resolveConfig,
+    resolveActiveTipoutTypes,
+    getShiftTipPoolConfig,
+    findOverlappingConfigs,
+    planConfigWindow,
+    applyChangesWithin,
+    ConfigPiece,
+    resolveBasePayRate,
+} from './effectiveConfig';
+
+type Config = {
+    id: string;
+    tipoutType: string;
+    effectiveFrom: string;
+    effectiveTo?: string | null;
+    tipPoolGroup?: string | null;
+};
+
+const config = (id: string, tipoutType: string, effectiveFrom: string, effectiveTo: string | null = null, tipPoolGroup: string | null = null): Config => ({
+    id, tipoutType, effectiveFrom, effectiveTo, tipPoolGroup,
+});
+
+describe('isEffectiveOn', () => {
+    it('should include both ends of the window', () => {
+        const window = config('a', 'bar', '2024-01-01', '2024-01-31');
+        expect(isEffectiveOn(window, '2024-01-01')).toBe(true);
+        expect(isEffectiveOn(window, '2024-01-31')).toBe(true);
+        expect(isEffectiveOn(window, '2023-12-31')).toBe(false);
+        expect(isEffectiveOn(window, '2024-02-01')).toBe(false);
+    });
+
+    it('should treat a missing effectiveTo as open-ended', () => {
+        expect(isEffectiveOn(config('a', 'bar', '2024-01-01'), '2030-06-01')).toBe(true);
+    });
+});
+
+describe('resolveConfig', () => {
+    it('should pick the config that started last when several are in effect, whatever their order', () => {
+        const older = config('older', 'bar', '2024-01-01');
+        const newer = config('newer', 'bar', '2024-02-01');
+        expect(resolveConfig([older, newer], 'bar', '2024-03-01')?.id).toBe('newer');
+        expect(resolveConfig([newer, older], 'bar', '2024-03-01')?.id).toBe('newer');
+    });
+
+    it('should only consider configs of the requested tipout type', () => {
+        const configs = [config('bar', 'bar', '2024-01-01'), config('host', 'host', '2024-02-01')];
+        expect(resolveConfig(configs, 'bar', '2024-03-01')?.id).toBe('bar');
+        expect(resolveConfig(configs, 'sa', '2024-03-01')).toBeNull();
+    });
+
+    it('should return null before a config takes effect and after it ends', () => {
+        const configs = [config('a', 'bar', '2024-02-01', '2024-02-29')];
+        expect(resolveConfig(configs, 'bar', '2024-01-15')).toBeNull();
+        expect(resolveConfig(configs, 'bar', '2024-03-01')).toBeNull();
+    });
+});
+
+describe('resolveActiveTipoutTypes', () => {
+    it('should list each type with a config in effect once', () => {
+        const configs = [
+            config('a', 'bar', '2024-01-01', '2024-01-31'),
+            config('b', 'bar', '2024-02-01'),
+            config('c', 'host', '2024-01-01', '2024-01-31'),
+        ];
+        expect(resolveActiveTipoutTypes(configs, '2024-02-15')).toEqual(['bar']);
+        expect(resolveActiveTipoutTypes(configs, '2024-01-15')).toEqual(['bar', 'host']);
+    });
+});
+
+describe('getShiftTipPoolConfig', () => {
+    it('should return the pooled config in effect on the shift date', () => {
+        const shift = {
+            date: '2024-02-15',
+            role: {
+                configs: [
+                    config('old', 'bar', '2024-01-01', '2024-01-31', 'servers'),
+                    config('new', 'bar', '2024-02-01', null, 'servers'),
+                    config('host', 'host', '2024-02-10'),
+                ],
+            },
+        };
+        expect(getShiftTipPoolConfig(shift)?.id).toBe('new');
+        expect(getShiftTipPoolConfig({ ...shift, date: '2023-12-01' })).toBeNull();
+    });
+});
+
+describe('findOverlappingConfigs', () => {
+    it('should find an open-ended config overlapping a later one', () => {
+        const configs = [config('a', 'bar', '2024-01-01'), config('b', 'bar', '2024-03-01', '2024-03-31')];
+        expect(findOverlappingConfigs(configs)?.map(c => c.id)).toEqual(['a', 'b']);
+    });
+
+    it('should count a shared boundary day as an overlap', () => {
+        const configs = [config('a', 'bar', '2024-01-01', '2024-01-31'), config('b', 'bar', '2024-01-31')];
+        expect(findOverlappingConfigs(configs)).not.toBeNull();
+    });
+
+    it('should allow back-to-back windows', () => {
+        const configs = [config('a', 'bar', '2024-01-01', '2024-01-31'), config('b', 'bar', '2024-02-01')];
+        expect(findOverlappingConfigs(configs)).toBeNull();
+    });
+
+    it('should not compare configs of different tipout types', () => {
+        const configs = [config('a', 'bar', '2024-01-01'), config('b', 'host', '2024-01-01')];
+        expect(findOverlappingConfigs(configs)).toBeNull();
+    });
+});
+
+describe('planConfigWindow', () => {
+    const at = (date: string) => new Date(`${date}T00:00:00.000Z`);
+    const justBefore = (date: string) => new Date(at(date).getTime() - 1);
+    const justAfter = (date: string) => new Date(at(date).getTime() + 1);
+
+    it('should end the current config just before a change takes effect', () => {
+        const current = config('current', 'bar', '2024-01-01T00:00:00.000Z');
+        const plan = planConfigWindow([current], at('2024-03-01'), null);
+        expect(plan.effectiveTo).toBeNull();
+        expect(plan.changes).toEqual([{ kind: 'end', config: current, effectiveTo: justBefore('2024-03-01') }]);
+    });
+
+    it('should split a config around a change with an end date', () => {
+        const current = config('current', 'bar', '2024-01-01T00:00:00.000Z');
+        const plan = planConfigWindow([current], at('2024-02-01'), at('2024-02-29'));
+        expect(plan.effectiveTo).toEqual(at('2024-02-29'));
+        expect(plan.changes).toEqual([
+            { kind: 'split', config: current, effectiveTo: justBefore('2024-02-01'), resumeFrom: justAfter('2024-02-29') },
+        ]);
+    });
+
+    it('should stop a backdated change where a scheduled one takes over', () => {
+        const current = config('current', 'bar', '2024-01-01T00:00:00.000Z', '2024-03-31T23:59:59.999Z');
+        const scheduled = config('scheduled', 'bar', '2024-04-01T00:00:00.000Z');
+        const plan = planConfigWindow([current, scheduled], at('2024-02-01'), null);
+        expect(plan.effectiveTo).toEqual(justBefore('2024-04-01'));
+        expect(plan.changes).toEqual([{ kind: 'end', config: current, effectiveTo: justBefore('2024-02-01') }]);
+    });
+
+    it('should push back a config that runs past the change and replace one inside it', () => {
+        const inside = config('inside', 'bar', '2024-02-10T00:00:00.000Z', '2024-02-20T00:00:00.000Z');
+        const later = config('later', 'bar', '2024-02-25T00:00:00.000Z');
+        const plan = planConfigWindow([inside, later], at('2024-02-01'), at('2024-03-01'));
+        expect(plan.changes).toEqual([
+            { kind: 'replace', config: inside },
+            { kind: 'start', config: later, effectiveFrom: justAfter('2024-03-01') },
+        ]);
+    });
+
+    it('should leave configs outside the change alone', () => {
+        const past = config('past', 'bar', '2023-01-01T00:00:00.000Z', '2023-12-31T00:00:00.000Z');
+        expect(planConfigWindow([past], at('2024-01-01'), null).changes).toEqual([]);
+    });
+});
+
+describe('applyChangesWithin', () => {
+    const at = (date: string) => new Date(`${date}T00:00:00.000Z`);
+    const justBefore = (date: string) => new Date(at(date).getTime() - 1);
+    const justAfter = (date: string) => new Date(at(date).getTime() + 1);
+    const whole: ConfigPiece<Record<string, string>>[] = [{ effectiveFrom: at('2024-01-01'), effectiveTo: null, changes: {} }];
+
+    it('should change only the part of a config inside a dated window', () => {
+        expect(applyChangesWithin(whole, { from: at('2024-02-01'), to: at('2024-02-29') }, { poolWindow: 'week' })).toEqual([
+            { effectiveFrom: at('2024-01-01'), effectiveTo: justBefore('2024-02-01'), changes: {} },
+            { effectiveFrom: at('2024-02-01'), effectiveTo: at('2024-02-29'), changes: { poolWindow: 'week' } },
+            { effectiveFrom: justAfter('2024-02-29'), effectiveTo: null, changes: {} },
+        ]);
+    });
+
+    it('should leave the past alone for a change with no end date', () => {
+        expect(applyChangesWithin(whole, { from: at('2024-03-01'), to: null }, { poolWindow: 'week' })).toEqual([
+            { effectiveFrom: at('2024-01-01'), effectiveTo: justBefore('2024-03-01'), changes: {} },
+            { effectiveFrom: at('2024-03-01'), effectiveTo: null, changes: { poolWindow: 'week' } },
+        ]);
+    });
+
+    it('should change the whole of a config starting inside an open-ended window', () => {
+        const later = [{ effectiveFrom: at('2024-04-01'), effectiveTo: null, changes: {} }];
+        expect(applyChangesWithin(later, { from: at('2024-03-01'), to: null }, { poolWindow: 'week' })).toEqual([
+            { effectiveFrom: at('2024-04-01'), effectiveTo: null, changes: { poolWindow: 'week' } },
+        ]);
+    });
+
+    it('should leave a config outside the window as it was', () => {
+        const past = [{ effectiveFrom: at('2023-01-01'), effectiveTo: at('2023-12-31'), changes: {} }];
+        expect(applyChangesWithin(past, { from: at('2024-01-01'), to: null }, { poolWindow: 'week' })).toEqual(past);
+    });
+
+    it('should keep earlier changes on the pieces a later window cuts', () => {
+        const first = applyChangesWithin(whole, { from: at('2024-02-01'), to: null }, { poolWindow: 'week' });
+        expect(applyChangesWithin(first, { from: at('2024-03-01'), to: null }, { poolWeighting: 'points' })).toEqual([
+            { effectiveFrom: at('2024-01-01'), effectiveTo: justBefore('2024-02-01'), changes: {} },
+            { effectiveFrom: at('2024-02-01'), effectiveTo: justBefore('2024-03-01'), changes: { poolWindow: 'week' } },
+            { effectiveFrom: at('2024-03-01'), effectiveTo: null, changes: { poolWindow: 'week', poolWeighting: 'points' } },
+        ]);
+    });
+});
+
+describe('resolveBasePayRate', () => {
+    const role = { basePayRate: 9 };
+    const payRates = [
+        { rate: 10, effectiveFrom: '2024-01-01', effectiveTo: '2024-01-31', employeeId: null },
+        { rate: 11, effectiveFrom: '2024-02-01', effectiveTo: null, employeeId: null },
+        { rate: 14, effectiveFrom: '2024-02-15', effectiveTo: '2024-02-20', employeeId: 'emp1' },
+    ];
+
+    it('should use the role rate in effect on the shift date', () => {
+        expect(resolveBasePayRate({ date: '2024-01-31', role, payRates })).toBe(10);
+        expect(resolveBasePayRate({ date: '2024-02-01', role, payRates })).toBe(11);
+    });
+
+    it('should use an employee override only while it is in effect', () => {
+        expect(resolveBasePayRate({ date: '2024-02-16', role, payRates })).toBe(14);
+        expect(resolveBasePayRate({ date: '2024-02-21', role, payRates })).toBe(11);
+    });
+
+    it('should fall back to the role rate when no rate covers the date', () => {
+        expect(resolveBasePayRate({ date: '2023-12-31', role, payRates })).toBe(9);
+        expect(resolveBasePayRate({ date: '2024-02-01', role })).toBe(9);
+    });
+});
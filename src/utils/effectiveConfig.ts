@@ -0,0 +1,194 @@
+// Resolves which role config is in effect on a date.
+// Every calculation looks configs up through here, so two modules can never settle the same lookup differently.
+import { parseISO } from 'date-fns';
+
+type EffectiveDated = {
+  effectiveFrom: string | Date;
+  effectiveTo?: string | Date | null;
+};
+
+type TypedConfig = EffectiveDated & { tipoutType: string };
+
+// Anything worked on a date by a role with configs, e.g. a shift
+type ConfigOwner<T> = {
+  date: string;
+  role?: { configs: T[] } | null;
+};
+
+const toTime = (value: string | Date): number => (value instanceof Date ? value : parseISO(value)).getTime();
+
+/**
+ * Whether a config is in effect on a date: on or after its effectiveFrom and, when it has one, on or before its effectiveTo.
+ */
+export const isEffectiveOn = (config: EffectiveDated, date: string): boolean => {
+  const time = toTime(date);
+  if (toTime(config.effectiveFrom) > time) return false;
+  return !config.effectiveTo || toTime(config.effectiveTo) >= time;
+};
+
+/**
+ * The config in effect on a date. Should several overlap (which saving a role prevents, see findOverlappingConfigs),
+ * the one that started last wins, and list order breaks a tie, so the answer never depends on which one a search hits first.
+ */
+const resolveLatest = <T extends EffectiveDated>(configs: T[], date: string): T | null => {
+  let latest: T | null = null;
+  for (const config of configs) {
+    if (!isEffectiveOn(config, date)) continue;
+    if (!latest || toTime(config.effectiveFrom) > toTime(latest.effectiveFrom)) latest = config;
+  }
+  return latest;
+};
+
+/**
+ * A role's config for a tipout type in effect on a date, or null when it has none.
+ */
+export const resolveConfig = <T extends TypedConfig>(configs: T[], tipoutType: string, date: string): T | null => {
+  return resolveLatest(configs.filter(config => config.tipoutType === tipoutType), date);
+};
+
+/**
+ * The tipout types a role has a config in effect for on a date.
+ */
+export const resolveActiveTipoutTypes = <T extends TypedConfig>(configs: T[], date: string): string[] => {
+  const types = Array.from(new Set(configs.map(config => config.tipoutType).filter(Boolean)));
+  return types.filter(type => resolveConfig(configs, type, date) !== null);
+};
+
+/**
+ * The config in effect for a shift's tipout type, on the shift's date.
+ */
+export const findActiveConfig = <T extends TypedConfig>(shift: ConfigOwner<T>, tipoutType: string): T | null => {
+  return resolveConfig(shift.role?.configs ?? [], tipoutType, shift.date);
+};
+
+/**
+ * The config in effect on a shift's date that puts it in a tip pool, or null when it is not pooled.
+ * A role belongs to one pool, which every one of its configs names (see the role edit page).
+ */
+export const getShiftTipPoolConfig = <T extends TypedConfig & { tipPoolGroup?: string | null }>(shift: ConfigOwner<T>): T | null => {
+  const configs = shift.role?.configs ?? [];
+  return resolveLatest(configs.filter(config => !!config.tipPoolGroup), shift.date);
+};
+
+/**
+ * Finds two configs for the same tipout type whose effective windows share at least one moment,
+ * counting a missing effectiveTo as open-ended. Returns the first such pair, or null when none overlap.
+ */
+export const findOverlappingConfigs = <T extends TypedConfig>(configs: T[]): [T, T] | null => {
+  const end = (config: T) => (config.effectiveTo ? toTime(config.effectiveTo) : Infinity);
+  for (let i = 0; i < configs.length; i++) {
+    for (let j = i + 1; j < configs.length; j++) {
+      const [a, b] = [configs[i], configs[j]];
+      if (a.tipoutType !== b.tipoutType) continue;
+      if (toTime(a.effectiveFrom) <= end(b) && toTime(b.effectiveFrom) <= end(a)) return [a, b];
+    }
+  }
+  return null;
+};
+
+// How an existing config makes room for a new one of the same type
+export type ConfigWindowChange<T> =
+  | { kind: 'end'; config: T; effectiveTo: Date } // started before the new window, now ends just before it
+  | { kind: 'start'; config: T; effectiveFrom: Date } // runs past the new window, now starts just after it
+  | { kind: 'split'; config: T; effectiveTo: Date; resumeFrom: Date } // spans the new window, so it pauses for it
+  | { kind: 'replace'; config: T }; // falls entirely inside the new window
+
+/**
+ * Works out how to fit a new config effective from `effectiveFrom` to `effectiveTo` (inclusive) in between
+ * a role's existing configs for the same tipout type, so that afterwards none of them overlap.
+ * Without an effectiveTo the new config runs until the next config scheduled after it, so a future-dated
+ * change is kept rather than swallowed. Neighbouring windows end and start a millisecond apart.
+ */
+export const planConfigWindow = <T extends EffectiveDated>(
+  configs: T[],
+  effectiveFrom: Date,
+  effectiveTo: Date | null
+): { effectiveTo: Date | null; changes: ConfigWindowChange<T>[] } => {
+  const from = effectiveFrom.getTime();
+  const nextStart = Math.min(...configs.map(config => toTime(config.effectiveFrom)).filter(start => start > from));
+  const to = effectiveTo ? effectiveTo.getTime() : Number.isFinite(nextStart) ? nextStart - 1 : Infinity;
+
+  const changes: ConfigWindowChange<T>[] = [];
+  for (const config of configs) {
+    const start = toTime(config.effectiveFrom);
+    const end = config.effectiveTo ? toTime(config.effectiveTo) : Infinity;
+    if (start > to || end < from) continue;
+
+    const startsBefore = start < from;
+    const endsAfter = end > to;
+    if (startsBefore && endsAfter) {
+      changes.push({ kind: 'split', config, effectiveTo: new Date(from - 1), resumeFrom: new Date(to + 1) });
+    } else if (startsBefore) {
+      changes.push({ kind: 'end', config, effectiveTo: new Date(from - 1) });
+    } else if (endsAfter) {
+      changes.push({ kind: 'start', config, effectiveFrom: new Date(to + 1) });
+    } else {
+      changes.push({ kind: 'replace', config });
+    }
+  }
+
+  return { effectiveTo: Number.isFinite(to) ? new Date(to) : null, changes };
+};
+
+// A stretch of a config's window with the changes to make over it
+export type ConfigPiece<C> = {
+  effectiveFrom: Date;
+  effectiveTo: Date | null;
+  changes: Partial<C>;
+};
+
+/**
+ * Works out how a config changes when `changes` apply only from `from` to `to` (inclusive, open-ended without a `to`):
+ * it is cut at the window's edges with planConfigWindow, and only the pieces inside take the changes.
+ * Start from a single piece covering the config, then apply each windowed change in turn. Returns the pieces in date order.
+ */
+export const applyChangesWithin = <C>(
+  pieces: ConfigPiece<C>[],
+  window: { from: Date; to: Date | null },
+  changes: Partial<C>
+): ConfigPiece<C>[] => {
+  const inside = (piece: ConfigPiece<C>): ConfigPiece<C> => ({ ...piece, changes: { ...piece.changes, ...changes } });
+  // An open-ended window takes in every piece starting in it, so only the one running into it needs cutting.
+  // planConfigWindow would otherwise stop the window where the next piece starts.
+  const candidates = window.to ? pieces : pieces.filter(piece => piece.effectiveFrom < window.from);
+  const { changes: fits } = planConfigWindow(candidates, window.from, window.to);
+
+  return pieces.flatMap((piece): ConfigPiece<C>[] => {
+    const fit = fits.find(change => change.config === piece);
+    if (!fit) return !window.to && piece.effectiveFrom >= window.from ? [inside(piece)] : [piece];
+    switch (fit.kind) {
+      case 'end':
+        return [{ ...piece, effectiveTo: fit.effectiveTo }, inside({ ...piece, effectiveFrom: window.from })];
+      case 'start':
+        return [inside({ ...piece, effectiveTo: window.to }), { ...piece, effectiveFrom: fit.effectiveFrom }];
+      case 'split':
+        return [
+          { ...piece, effectiveTo: fit.effectiveTo },
+          inside({ ...piece, effectiveFrom: window.from, effectiveTo: window.to }),
+          { ...piece, effectiveFrom: fit.resumeFrom },
+        ];
+      case 'replace':
+        return [inside(piece)];
+    }
+  });
+};
+
+type DatedPayRate = EffectiveDated & { rate: number; employeeId?: string | null };
+
+/**
+ * The base pay rate a shift is paid at: the employee's override in effect on the shift's date,
+ * else the role's rate in effect then, else the role's current rate.
+ */
+export const resolveBasePayRate = (shift: { date: string; role: { basePayRate: number }; payRates?: DatedPayRate[] }): number => {
+  const payRates = shift.payRates ?? [];
+  const rate = resolveLatest(payRates.filter(payRate => payRate.employeeId), shift.date)
+    ?? resolveLatest(payRates.filter(payRate => !payRate.employeeId), shift.date);
+  return rate ? Number(rate.rate) : Number(shift.role.basePayRate);
+};
+
+/**
+ * The minimum wage rates in effect on a date, or null when none are.
+ */
+export const resolveMinimumWage = <T extends EffectiveDated>(wageRates: T[], date: string): T | null => {
+  return resolveLatest(wageRates, date);
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import { toCents, fromCents, percentOfCents, allocateCents, addMoney } from './money';
+
+describe('toCents', () => {
+    it('should round dollar amounts to whole cents', () => {
+        expect(toCents(12.34)).toBe(1234);
+        expect(toCents(1.005)).toBe(101); // 1.005 * 100 is 100.4999... in floats
+        expect(toCents(0.1 + 0.2)).toBe(30);
+        expect(toCents(-4.2)).toBe(-420);
+    });
+
+    it('should treat non-finite amounts as zero', () => {
+        expect(toCents(NaN)).toBe(0);
+        expect(toCents(Infinity)).toBe(0);
+    });
+});
+
+describe('fromCents', () => {
+    it('should convert cents back to dollars', () => {
+        expect(fromCents(1234)).toBe(12.34);
+        expect(fromCents(-5)).toBe(-0.05);
+    });
+});
+
+describe('percentOfCents', () => {
+    it('should round half up to the nearest cent', () => {
+        expect(percentOfCents(28000, 5)).toBe(1400);
+        expect(percentOfCents(1050, 5)).toBe(53); // 52.5 -> 53
+        expect(percentOfCents(1234, 7)).toBe(86); // 86.38 -> 86
+    });
+});
+
+describe('allocateCents', () => {
+    it('should hand leftover pennies to the largest remainders', () => {
+        expect(allocateCents(1000, [1, 1, 1])).toEqual([334, 333, 333]);
+        expect(allocateCents(1000, [2, 3, 5])).toEqual([200, 300, 500]);
+        expect(allocateCents(100, [1.5, 2.5, 3])).toEqual([21, 36, 43]); // 21.43, 35.71, 42.86
+    });
+
+    it('should always add back up to the total', () => {
+        const weights = [7.25, 3.5, 8, 0.75, 6.1];
+        [1, 99, 12345, 77777].forEach(total => {
+            const shares = allocateCents(total, weights);
+            expect(shares.reduce((acc, share) => acc + share, 0)).toBe(total);
+        });
+    });
+
+    it('should be deterministic when remainders tie', () => {
+        expect(allocateCents(2, [1, 1, 1])).toEqual([1, 1, 0]);
+        expect(allocateCents(2, [1, 1, 1])).toEqual(allocateCents(2, [1, 1, 1]));
+    });
+
+    it('should give nothing to zero weights and split negative totals symmetrically', () => {
+        expect(allocateCents(100, [0, 1, 1])).toEqual([0, 50, 50]);
+        expect(allocateCents(-1000, [1, 1, 1])).toEqual([-334, -333, -333]);
+    });
+
+    it('should return zero shares when there is no weight to split by', () => {
+        expect(allocateCents(500, [0, 0])).toEqual([0, 0]);
+        expect(allocateCents(500, [])).toEqual([]);
+    });
+});
+
+describe('addMoney', () => {
+    it('should add dollar amounts without float drift', () => {
+        expect(addMoney(0.1, 0.2)).toBe(0.3);
+        expect(addMoney(10.01, 20.02, -5.03)).toBe(25);
+    });
+});
@@ -0,0 +1,77 @@
+// Money helpers for the tip engine.
+// All amounts are carried as integer cents while calculating, so every payout is
+// a whole cent and every split adds back up to exactly what was put in.
+
+/**
+ * Converts a dollar amount to whole cents.
+ * The amount is trimmed to a few decimals first so float noise (e.g. 1.005 * 100 = 100.49999...)
+ * does not decide which way a value rounds.
+ */
+export const toCents = (amount: number): number => {
+  const value = Number(amount);
+  if (!Number.isFinite(value)) return 0;
+  return Math.round(Number((value * 100).toFixed(6)));
+};
+
+/**
+ * Converts whole cents back to a dollar amount for display and JSON.
+ */
+export const fromCents = (cents: number): number => {
+  return cents / 100;
+};
+
+/**
+ * Takes a percentage of an amount in cents, rounded half up to the nearest cent.
+ */
+export const percentOfCents = (cents: number, percentageRate: number): number => {
+  const exact = (cents * Number(percentageRate)) / 100;
+  return Math.sign(exact) * Math.round(Number(Math.abs(exact).toFixed(6)));
+};
+
+/**
+ * Splits an amount in cents across weights (e.g. hours worked) using the largest remainder method.
+ * Every share is a whole cent and the shares always sum to `totalCents`.
+ * Leftover pennies go to the largest fractional remainders; ties go to the earliest entry,
+ * so the same inputs always produce the same split.
+ */
+export const allocateCents = (totalCents: number, weights: number[]): number[] => {
+  const shares = weights.map(() => 0);
+  const usableWeights = weights.map(weight => (Number.isFinite(weight) && weight > 0 ? weight : 0));
+  const totalWeight = usableWeights.reduce((acc, weight) => acc + weight, 0);
+  if (totalCents === 0 || totalWeight <= 0) return shares;
+
+  // Split the absolute amount so negative totals (e.g. a pool that owes more than it collected) round symmetrically
+  const sign = totalCents < 0 ? -1 : 1;
+  const absoluteCents = Math.abs(totalCents);
+
+  const remainders: { index: number; remainder: number }[] = [];
+  let allocated = 0;
+  usableWeights.forEach((weight, index) => {
+    const exact = (absoluteCents * weight) / totalWeight;
+    const floored = Math.floor(Number(exact.toFixed(6)));
+    shares[index] = floored;
+    allocated += floored;
+    remainders.push({ index, remainder: weight > 0 ? exact - floored : -1 });
+  });
+
+  remainders
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .slice(0, absoluteCents - allocated)
+    .forEach(({ index }) => { shares[index] += 1; });
+
+  return shares.map(share => share * sign);
+};
+
+/**
+ * Adds up amounts in cents.
+ */
+export const sumCents = (amounts: number[]): number => {
+  return amounts.reduce((acc, amount) => acc + amount, 0);
+};
+
+/**
+ * Adds dollar amounts through cents so repeated sums never pick up float drift.
+ */
+export const addMoney = (...amounts: number[]): number => {
+  return fromCents(sumCents(amounts.map(toCents)));
+};
@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateWeeklyOvertime, applyOvertime } from './overtime';
+import { ShiftEarnings, DEFAULT_PAYROLL_SETTINGS } from './workweek';
+import { EmployeeRoleSummary, WeeklyShortfall } from '@/types/reports';
+
+const alex = { id: 'emp1', name: 'Alex' };
+
+const earned = (date: string, hours: number, rate: number, roleName = 'Server', tips = 0): ShiftEarnings => ({
+    employee: alex, roleName, date, hours, basePay: hours * rate, cashTips: tips, payrollTips: 0,
+});
+
+// Five 8-hour days Monday to Friday, Mar 4-8 2024
+const fullWeek = (rate: number, roleName = 'Server') =>
+    ['2024-03-04', '2024-03-05', '2024-03-06', '2024-03-07', '2024-03-08'].map(date => earned(date, 8, rate, roleName));
+
+describe('calculateWeeklyOvertime', () => {
+    it('should pay half the regular rate again for hours past 40', () => {
+        const [week, ...rest] = calculateWeeklyOvertime([...fullWeek(20), earned('2024-03-09', 8, 20)]);
+
+        expect(rest).toEqual([]);
+        expect(week).toMatchObject({ weekStart: '2024-03-04', weekEnd: '2024-03-10', hours: 48, overtimeHours: 8, regularRate: 20, premium: 80 });
+    });
+
+    it('should combine hours across roles and blend their rates', () => {
+        // 40h serving at $10 + 8h bartending at $16: $528 / 48h = $11 regular rate
+        const [week] = calculateWeeklyOvertime([...fullWeek(10, 'Server'), earned('2024-03-09', 8, 16, 'Bartender')]);
+
+        expect(week.regularRate).toBe(11);
+        expect(week.premium).toBe(44);
+        expect(week.premiumByRole).toEqual({ Server: 36.67, Bartender: 7.33 });
+        expect(week.overtimeHoursByRole).toEqual({ Server: 6.67, Bartender: 1.33 });
+    });
+
+    it('should not carry hours from one workweek into the next', () => {
+        // Sunday Mar 10 ends a Monday-start week; Monday Mar 11 starts the next
+        const shifts = [...fullWeek(20), earned('2024-03-10', 4, 20), earned('2024-03-11', 8, 20)];
+
+        expect(calculateWeeklyOvertime(shifts).map(week => [week.weekStart, week.overtimeHours])).toEqual([['2024-03-04', 4]]);
+    });
+
+    it('should follow the configured workweek and overtime rules', () => {
+        const settings = { ...DEFAULT_PAYROLL_SETTINGS, workweekStartDay: 0, overtimeThresholdHours: 32, overtimeMultiplier: 2 };
+        // Sunday-start week of Mar 3 holds Monday to Friday: 40h, 8 past 32, paid double
+        const [week] = calculateWeeklyOvertime(fullWeek(15), settings);
+
+        expect(week.weekStart).toBe('2024-03-03');
+        expect(week.premium).toBe(120);
+    });
+
+    it('should hold the regular rate to at least the minimum wage when tips make up the difference', () => {
+        const shifts = [...fullWeek(5), earned('2024-03-09', 8, 5, 'Server', 200)];
+        const minimumWages = [{ minimumWage: 15, tippedWage: 5, effectiveFrom: '2024-01-01', effectiveTo: null }];
+
+        const [week] = calculateWeeklyOvertime(shifts, DEFAULT_PAYROLL_SETTINGS, [], minimumWages);
+
+        expect(week.regularRate).toBe(15);
+        expect(week.premium).toBe(60);
+    });
+
+    it('should count a minimum wage make-up as straight-time pay', () => {
+        const shifts = [...fullWeek(10), earned('2024-03-09', 8, 10)];
+        const shortfalls = [{ employeeId: 'emp1', weekStart: '2024-03-04', makeUp: 96 }] as WeeklyShortfall[];
+
+        // ($480 + $96) / 48h = $12
+        expect(calculateWeeklyOvertime(shifts, DEFAULT_PAYROLL_SETTINGS, shortfalls)[0].regularRate).toBe(12);
+    });
+
+    it('should work out a week split between pay periods whole and give each period the premium for its shifts', () => {
+        const shifts = [...fullWeek(20), earned('2024-03-09', 8, 20)];
+        // The week owes 8h x $10 = $80 premium; Thursday to Saturday are 24 of its 48 hours
+        const [later] = calculateWeeklyOvertime(shifts, DEFAULT_PAYROLL_SETTINGS, [], [], { startDate: '2024-03-07', endDate: '2024-03-20' });
+        const [earlier] = calculateWeeklyOvertime(shifts, DEFAULT_PAYROLL_SETTINGS, [], [], { startDate: '2024-02-22', endDate: '2024-03-06' });
+
+        expect(later).toMatchObject({ hours: 48, overtimeHours: 8, premium: 80, premiumInRange: 40, premiumByRole: { Server: 40 }, overtimeHoursByRole: { Server: 4 } });
+        expect(earlier).toMatchObject({ premium: 80, premiumInRange: 40, premiumByRole: { Server: 40 } });
+        expect(calculateWeeklyOvertime(shifts, DEFAULT_PAYROLL_SETTINGS, [], [], { startDate: '2024-03-11', endDate: '2024-03-24' })).toEqual([]);
+    });
+
+    it('should owe nothing at or under the threshold', () => {
+        expect(calculateWeeklyOvertime(fullWeek(20))).toEqual([]);
+    });
+});
+
+describe('applyOvertime', () => {
+    it('should add each week\'s hours and premium to the matching employee/role summary', () => {
+        const server = { employeeId: 'emp1', roleName: 'Server', totalOvertimeHours: 0, totalOvertimePremium: 0 } as EmployeeRoleSummary;
+        const bartender = { employeeId: 'emp1', roleName: 'Bartender', totalOvertimeHours: 0, totalOvertimePremium: 0 } as EmployeeRoleSummary;
+
+        applyOvertime([server, bartender], calculateWeeklyOvertime([...fullWeek(10, 'Server'), earned('2024-03-09', 8, 16, 'Bartender')]));
+
+        expect(server).toMatchObject({ totalOvertimeHours: 6.67, totalOvertimePremium: 36.67 });
+        expect(bartender).toMatchObject({ totalOvertimeHours: 1.33, totalOvertimePremium: 7.33 });
+    });
+});
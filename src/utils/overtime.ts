@@ -0,0 +1,84 @@
+// Weekly overtime: hours an employee works past the threshold in a workweek, counted across every role they worked,
+// earn a premium on top of the straight-time pay base pay already includes.
+import { toCents, fromCents, addMoney } from './money';
+import { resolveMinimumWage } from './effectiveConfig';
+import { ShiftEarnings, DEFAULT_PAYROLL_SETTINGS, getWorkweekEnd, groupByWorkweek, isDateInRange, splitWeekByRole } from './workweek';
+import { DateRange, EmployeeRoleSummary, MinimumWageRate, PayrollSettings, WeeklyOvertime, WeeklyShortfall } from '@/types/reports';
+
+/**
+ * Finds each employee's workweeks past the overtime threshold and the premium owed for them.
+ *
+ * The regular rate is blended: the week's straight-time pay (base pay at every role's and date's rate, plus any
+ * minimum wage make-up) over all its hours. Tips credited toward the minimum wage count as wages, so the rate is
+ * never below the minimum wage in effect. Straight time is already paid, so the premium is the overtime hours at
+ * (multiplier - 1) times that rate, split across the week's roles by hours.
+ *
+ * With a range, `earnings` should hold every shift of the weeks it touches: a week is worked out whole, and only
+ * the part of its premium for the shifts within the range is split across roles (see splitWeekByRole).
+ * Weeks without a shift in the range are left out.
+ */
+export const calculateWeeklyOvertime = (
+  earnings: ShiftEarnings[],
+  settings: PayrollSettings = DEFAULT_PAYROLL_SETTINGS,
+  shortfalls: WeeklyShortfall[] = [],
+  wageRates: MinimumWageRate[] = [],
+  range?: DateRange,
+): WeeklyOvertime[] => {
+  const makeUps = new Map(shortfalls.map(shortfall => [`${shortfall.employeeId}:${shortfall.weekStart}`, shortfall.makeUp]));
+  const overtime: WeeklyOvertime[] = [];
+
+  groupByWorkweek(earnings, settings.workweekStartDay).forEach(({ employee, weekStart, shifts }) => {
+    if (!shifts.some(shift => isDateInRange(shift.date, range))) return;
+    const hours = shifts.reduce((acc, shift) => acc + Number(shift.hours), 0);
+    const overtimeHours = hours - Number(settings.overtimeThresholdHours);
+    if (overtimeHours <= 0) return;
+
+    const straightTimePay = shifts.reduce((acc, shift) => acc + shift.basePay, 0) + (makeUps.get(`${employee.id}:${weekStart}`) ?? 0);
+    let minimumWageDue = 0;
+    let minimumWageHours = 0;
+    shifts.forEach(shift => {
+      const wageRate = resolveMinimumWage(wageRates, shift.date);
+      if (!wageRate) return;
+      minimumWageDue += Number(wageRate.minimumWage) * Number(shift.hours);
+      minimumWageHours += Number(shift.hours);
+    });
+    const regularRate = Math.max(straightTimePay / hours, minimumWageHours > 0 ? minimumWageDue / minimumWageHours : 0);
+
+    const premiumCents = toCents(overtimeHours * regularRate * (Number(settings.overtimeMultiplier) - 1));
+    if (premiumCents <= 0) return;
+
+    const { inRangeCents, hoursByRole, centsByRole } = splitWeekByRole(premiumCents, shifts, range);
+    const roles = Array.from(hoursByRole.keys());
+    overtime.push({
+      employeeId: employee.id,
+      employeeName: employee.name,
+      weekStart,
+      weekEnd: getWorkweekEnd(weekStart),
+      hours,
+      overtimeHours,
+      regularRate: Number(regularRate.toFixed(4)),
+      premium: fromCents(premiumCents),
+      premiumInRange: fromCents(inRangeCents),
+      premiumByRole: Object.fromEntries(roles.map(role => [role, fromCents(centsByRole.get(role)!)])),
+      overtimeHoursByRole: Object.fromEntries(roles.map(role => [role, Number((overtimeHours * hoursByRole.get(role)! / hours).toFixed(2))])),
+    });
+  });
+
+  return overtime.sort((a, b) => a.weekStart.localeCompare(b.weekStart) || a.employeeName.localeCompare(b.employeeName));
+};
+
+/**
+ * Adds each week's overtime hours and premium to the employee/role summaries they were split across.
+ * payrollTotal is left for the caller to work out from the totals.
+ */
+export const applyOvertime = (summaries: EmployeeRoleSummary[], overtime: WeeklyOvertime[]): void => {
+  const byKey = new Map(summaries.map(summary => [`${summary.employeeId}-${summary.roleName}`, summary]));
+  overtime.forEach(week => {
+    Object.entries(week.premiumByRole).forEach(([roleName, amount]) => {
+      const summary = byKey.get(`${week.employeeId}-${roleName}`);
+      if (!summary) return;
+      summary.totalOvertimePremium = addMoney(summary.totalOvertimePremium, amount);
+      summary.totalOvertimeHours = Number((summary.totalOvertimeHours + week.overtimeHoursByRole[roleName]).toFixed(2));
+    });
+  });
+};
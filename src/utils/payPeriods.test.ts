@@ -0,0 +1,46 @@
+import { describe, it, expect } from '@jest/globals';
+import { getPayPeriodRange, getPayPeriodTransition, isPayPeriodLocked } from './payPeriods';
+
+describe('getPayPeriodRange', () => {
+    it('should repeat weekly periods from the anchor date', () => {
+        expect(getPayPeriodRange('2024-03-06', 'weekly', '2024-01-01')).toEqual({ startDate: '2024-03-04', endDate: '2024-03-10' });
+        expect(getPayPeriodRange('2024-03-04', 'weekly', '2024-01-01')).toEqual({ startDate: '2024-03-04', endDate: '2024-03-10' });
+    });
+
+    it('should repeat biweekly periods from the anchor date, before it as well as after', () => {
+        expect(getPayPeriodRange('2024-01-20', 'biweekly', '2024-01-01')).toEqual({ startDate: '2024-01-15', endDate: '2024-01-28' });
+        expect(getPayPeriodRange('2023-12-31', 'biweekly', '2024-01-01')).toEqual({ startDate: '2023-12-18', endDate: '2023-12-31' });
+    });
+
+    it('should split months into the 1st-15th and 16th-end for semi-monthly periods', () => {
+        expect(getPayPeriodRange('2024-02-15', 'semi_monthly', '2024-01-01')).toEqual({ startDate: '2024-02-01', endDate: '2024-02-15' });
+        expect(getPayPeriodRange('2024-02-16', 'semi_monthly', '2024-01-01')).toEqual({ startDate: '2024-02-16', endDate: '2024-02-29' });
+        expect(getPayPeriodRange('2024-12-31', 'semi_monthly', '2024-01-01')).toEqual({ startDate: '2024-12-16', endDate: '2024-12-31' });
+    });
+});
+
+describe('getPayPeriodTransition', () => {
+    it('should move periods from open to closed to exported', () => {
+        expect(getPayPeriodTransition('open', 'close')).toBe('closed');
+        expect(getPayPeriodTransition('closed', 'export')).toBe('exported');
+    });
+
+    it('should reopen closed and exported periods', () => {
+        expect(getPayPeriodTransition('closed', 'reopen')).toBe('open');
+        expect(getPayPeriodTransition('exported', 'reopen')).toBe('open');
+    });
+
+    it('should refuse out-of-order transitions', () => {
+        expect(getPayPeriodTransition('open', 'export')).toBeNull();
+        expect(getPayPeriodTransition('exported', 'close')).toBeNull();
+        expect(getPayPeriodTransition('open', 'reopen')).toBeNull();
+    });
+});
+
+describe('isPayPeriodLocked', () => {
+    it('should lock closed and exported periods only', () => {
+        expect(isPayPeriodLocked('open')).toBe(false);
+        expect(isPayPeriodLocked('closed')).toBe(true);
+        expect(isPayPeriodLocked('exported')).toBe(true);
+    });
+});
@@ -0,0 +1,62 @@
+// Pay periods: the spans of shifts paid out together, and the states a period goes through as payroll is run.
+import { PayPeriodFrequency, PayPeriodStatus } from '@/types/reports';
+
+export const PAY_PERIOD_FREQUENCIES: { value: PayPeriodFrequency; label: string }[] = [
+  { value: 'weekly', label: 'weekly' },
+  { value: 'biweekly', label: 'every two weeks' },
+  { value: 'semi_monthly', label: 'twice a month (1st-15th, 16th-end)' },
+];
+
+export const isPayPeriodFrequency = (value: unknown): value is PayPeriodFrequency =>
+  PAY_PERIOD_FREQUENCIES.some(frequency => frequency.value === value);
+
+export type PayPeriodAction = 'close' | 'export' | 'reopen';
+
+// The status each action moves a period to, from the statuses it may be taken in
+const TRANSITIONS: Record<PayPeriodAction, { from: PayPeriodStatus[]; to: PayPeriodStatus }> = {
+  close: { from: ['open'], to: 'closed' },
+  export: { from: ['closed'], to: 'exported' },
+  reopen: { from: ['closed', 'exported'], to: 'open' },
+};
+
+export const isPayPeriodAction = (value: unknown): value is PayPeriodAction =>
+  typeof value === 'string' && value in TRANSITIONS;
+
+/**
+ * Whether a period in this status locks its shifts and role configs against changes.
+ */
+export const isPayPeriodLocked = (status: string): boolean => status === 'closed' || status === 'exported';
+
+/**
+ * The status an action moves a period to, or null when it cannot be taken from the period's current status.
+ */
+export const getPayPeriodTransition = (status: string, action: PayPeriodAction): PayPeriodStatus | null => {
+  const transition = TRANSITIONS[action];
+  return transition.from.includes(status as PayPeriodStatus) ? transition.to : null;
+};
+
+const toUTCDate = (date: string): Date => new Date(`${date.slice(0, 10)}T00:00:00.000Z`);
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * First and last day (YYYY-MM-DD) of the pay period a date falls in. Weekly and biweekly periods repeat every
+ * 7 or 14 days from `anchorDate`, before it as well as after; semi-monthly periods run 1st-15th and 16th-end of month.
+ */
+export const getPayPeriodRange = (date: string, frequency: PayPeriodFrequency, anchorDate: string): { startDate: string; endDate: string } => {
+  const day = toUTCDate(date);
+
+  if (frequency === 'semi_monthly') {
+    const year = day.getUTCFullYear();
+    const month = day.getUTCMonth();
+    return day.getUTCDate() <= 15
+      ? { startDate: toDateString(new Date(Date.UTC(year, month, 1))), endDate: toDateString(new Date(Date.UTC(year, month, 15))) }
+      : { startDate: toDateString(new Date(Date.UTC(year, month, 16))), endDate: toDateString(new Date(Date.UTC(year, month + 1, 0))) };
+  }
+
+  const length = frequency === 'weekly' ? 7 : 14;
+  const daysFromAnchor = Math.round((day.getTime() - toUTCDate(anchorDate).getTime()) / DAY_MS);
+  const offset = ((daysFromAnchor % length) + length) % length;
+  const start = new Date(day.getTime() - offset * DAY_MS);
+  return { startDate: toDateString(start), endDate: toDateString(new Date(start.getTime() + (length - 1) * DAY_MS)) };
+};
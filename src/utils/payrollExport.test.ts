@@ -0,0 +1,106 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildPayrollExportLines, findMissingExternalIds, renderPayrollExport, PAYROLL_EXPORT_ADAPTERS } from './payrollExport';
+import { EmployeeRoleSummary } from '@/types/reports';
+
+const row = (employeeId: string, employeeName: string, roleName: string, totals: Partial<EmployeeRoleSummary> = {}): EmployeeRoleSummary => ({
+    employeeId,
+    employeeName,
+    roleName,
+    totalHours: 10,
+    totalCashTips: 40,
+    totalCreditTips: 100,
+    totalPayrollTips: 90,
+    basePayRate: 12.5,
+    totalBasePay: 125,
+    totalComplianceMakeUp: 0,
+    totalOvertimeHours: 0,
+    totalOvertimePremium: 0,
+    payrollTotal: 215,
+    ...totals,
+} as EmployeeRoleSummary);
+
+const period = { startDate: '2024-03-04', endDate: '2024-03-17' };
+const csvCodes = PAYROLL_EXPORT_ADAPTERS.csv.defaultEarningCodes;
+
+describe('buildPayrollExportLines', () => {
+    it('should give base hours, overtime premium, make-up and each kind of tips their own earning code', () => {
+        const lines = buildPayrollExportLines(
+            [row('emp1', 'Alex Smith', 'Server', { totalOvertimeHours: 2, totalOvertimePremium: 12.5, totalComplianceMakeUp: 3.21 })],
+            { emp1: 'A-100' },
+            csvCodes,
+        );
+
+        expect(lines.map(line => [line.code, line.hours, line.rate, line.amount])).toEqual([
+            ['REG', 10, 12.5, 125],
+            ['OTP', 2, null, 12.5],
+            ['MWMU', null, null, 3.21],
+            ['CTIPS', null, null, 40],
+            ['TIPS', null, null, 90],
+        ]);
+        expect(lines.every(line => line.externalId === 'A-100')).toBe(true);
+    });
+
+    it('should leave out earnings of zero and order employees by name, then role', () => {
+        const lines = buildPayrollExportLines([
+            row('emp2', 'Blair', 'Server', { totalCashTips: 0 }),
+            row('emp1', 'Alex', 'Server', { totalCashTips: 0, totalPayrollTips: 0 }),
+            row('emp1', 'Alex', 'Bartender', { totalCashTips: 0, totalPayrollTips: 0 }),
+        ], {}, csvCodes);
+
+        expect(lines.map(line => `${line.employeeName} ${line.roleName} ${line.code}`)).toEqual([
+            'Alex Bartender REG',
+            'Alex Server REG',
+            'Blair Server REG',
+            'Blair Server TIPS',
+        ]);
+    });
+});
+
+describe('findMissingExternalIds', () => {
+    it('should name employees without a payroll ID only for formats that match on it', () => {
+        const lines = buildPayrollExportLines([row('emp1', 'Alex', 'Server'), row('emp2', 'Blair', 'Server')], { emp1: 'A-100' }, csvCodes);
+        expect(findMissingExternalIds('adp', lines)).toEqual(['Blair']);
+        expect(findMissingExternalIds('csv', lines)).toEqual([]);
+    });
+});
+
+describe('renderPayrollExport', () => {
+    const summaries = [row('emp1', 'Alex Smith', 'Server', { totalCashTips: 0, totalPayrollTips: 90.5 })];
+
+    it('should write the generic csv one line per earning, quoting values with commas', () => {
+        const lines = buildPayrollExportLines([row('emp1', 'Smith, Alex', 'Server', { totalCashTips: 0, totalPayrollTips: 0 })], {}, csvCodes);
+        expect(renderPayrollExport('csv', lines, period)).toBe(
+            'period_start,period_end,employee_id,external_id,employee_name,role,earning_code,hours,rate,amount\r\n' +
+            '2024-03-04,2024-03-17,emp1,,"Smith, Alex",Server,REG,10,12.50,125.00\r\n',
+        );
+    });
+
+    it('should keep names that look like formulas from running in a spreadsheet', () => {
+        const lines = buildPayrollExportLines([row('emp1', '=HYPERLINK("http://example.com")', 'Server', { totalCashTips: 0, totalPayrollTips: 0 })], {}, csvCodes);
+        expect(renderPayrollExport('csv', lines, period).split('\r\n')[1]).toBe(
+            `2024-03-04,2024-03-17,emp1,,"'=HYPERLINK(""http://example.com"")",Server,REG,10,12.50,125.00`,
+        );
+    });
+
+    it('should lay gusto out one row per employee and job with a column per earning', () => {
+        const lines = buildPayrollExportLines(summaries, { emp1: 'G-7' }, PAYROLL_EXPORT_ADAPTERS.gusto.defaultEarningCodes);
+        expect(renderPayrollExport('gusto', lines, period).split('\r\n')).toEqual([
+            'Employee ID,Last Name,First Name,Job Title,Regular Hours,Paycheck Tips',
+            'G-7,Smith,Alex,Server,10,90.50',
+            '',
+        ]);
+    });
+
+    it('should put adp base hours in the hours columns and other earnings in the earnings columns', () => {
+        const lines = buildPayrollExportLines(summaries, { emp1: '000123' }, PAYROLL_EXPORT_ADAPTERS.adp.defaultEarningCodes);
+        expect(renderPayrollExport('adp', lines, period).split('\r\n').slice(1, 3)).toEqual([
+            '000123,Alex Smith,Server,12.50,REG,10,,',
+            '000123,Alex Smith,Server,,,,TIP,90.50',
+        ]);
+    });
+
+    it('should list quickbooks payroll items with the pay period', () => {
+        const lines = buildPayrollExportLines(summaries, {}, PAYROLL_EXPORT_ADAPTERS.quickbooks.defaultEarningCodes);
+        expect(renderPayrollExport('quickbooks', lines, period).split('\r\n')[2]).toBe(',Alex Smith,Paycheck Tips,Server,,,90.50,2024-03-04,2024-03-17');
+    });
+});
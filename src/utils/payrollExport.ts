@@ -0,0 +1,189 @@
+// Payroll exports: a report's employee/role rows turned into files a payroll provider can import,
+// one line per employee, role and earning so each can be imported under its own earning code.
+import { toCents } from './money';
+import { escapeCsvCell } from './csv';
+import { EarningCodes, EmployeeRoleSummary, PayrollEarningKind, PayrollExportFormat } from '@/types/reports';
+
+export const PAYROLL_EARNING_KINDS: { value: PayrollEarningKind; label: string }[] = [
+  { value: 'regular', label: 'base hours' },
+  { value: 'overtimePremium', label: 'overtime premium' },
+  { value: 'minimumWageMakeUp', label: 'minimum wage make-up' },
+  { value: 'cashTips', label: 'cash tips' },
+  { value: 'payrollTips', label: 'credit/payroll tips' },
+];
+
+/**
+ * One earning of one employee in one role. Base hours carry their hours and rate; the rest are amounts.
+ * Cash tips were already taken home, so they are reported for tax rather than paid.
+ */
+export type PayrollExportLine = {
+  employeeId: string;
+  employeeName: string;
+  externalId: string | null; // The employee's ID in the payroll provider
+  roleName: string;
+  kind: PayrollEarningKind;
+  code: string;
+  hours: number | null;
+  rate: number | null;
+  amount: number;
+};
+
+type PayrollExportPeriod = {
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD
+};
+
+type PayrollExportAdapter = {
+  label: string;
+  // Providers match rows to employees by their own IDs, so every employee needs one mapped
+  requiresExternalId: boolean;
+  defaultEarningCodes: EarningCodes;
+  render: (lines: PayrollExportLine[], period: PayrollExportPeriod) => string[][];
+};
+
+const money = (value: number) => value.toFixed(2);
+const hours = (value: number | null) => (value === null ? '' : Number(value.toFixed(2)).toString());
+
+// Last word as the last name, the rest as the first
+const splitName = (name: string): [string, string] => {
+  const parts = name.trim().split(/\s+/);
+  return parts.length > 1 ? [parts.slice(0, -1).join(' '), parts[parts.length - 1]] : [parts[0] ?? '', ''];
+};
+
+// Lines of the same employee and role, in the order they were built
+const groupByEmployeeRole = (lines: PayrollExportLine[]): PayrollExportLine[][] => {
+  const groups = new Map<string, PayrollExportLine[]>();
+  lines.forEach(line => {
+    const key = `${line.employeeId}-${line.roleName}`;
+    groups.set(key, [...(groups.get(key) ?? []), line]);
+  });
+  return Array.from(groups.values());
+};
+
+export const PAYROLL_EXPORT_ADAPTERS: Record<PayrollExportFormat, PayrollExportAdapter> = {
+  csv: {
+    label: 'generic csv',
+    requiresExternalId: false,
+    defaultEarningCodes: { regular: 'REG', overtimePremium: 'OTP', minimumWageMakeUp: 'MWMU', cashTips: 'CTIPS', payrollTips: 'TIPS' },
+    render: (lines, period) => [
+      ['period_start', 'period_end', 'employee_id', 'external_id', 'employee_name', 'role', 'earning_code', 'hours', 'rate', 'amount'],
+      ...lines.map(line => [
+        period.startDate, period.endDate, line.employeeId, line.externalId ?? '', line.employeeName, line.roleName,
+        line.code, hours(line.hours), line.rate === null ? '' : money(line.rate), money(line.amount),
+      ]),
+    ],
+  },
+  // One row per employee and job, one column per earning, headed by its earning code
+  gusto: {
+    label: 'gusto',
+    requiresExternalId: true,
+    defaultEarningCodes: {
+      regular: 'Regular Hours',
+      overtimePremium: 'Overtime Premium',
+      minimumWageMakeUp: 'Minimum Wage Make-Up',
+      cashTips: 'Cash Tips',
+      payrollTips: 'Paycheck Tips',
+    },
+    render: (lines) => {
+      const codes = Array.from(new Set(lines.map(line => line.code)));
+      return [
+        ['Employee ID', 'Last Name', 'First Name', 'Job Title', ...codes],
+        ...groupByEmployeeRole(lines).map(group => {
+          const [firstName, lastName] = splitName(group[0].employeeName);
+          return [
+            group[0].externalId ?? '', lastName, firstName, group[0].roleName,
+            ...codes.map(code => {
+              const line = group.find(entry => entry.code === code);
+              if (!line) return '';
+              return line.kind === 'regular' ? hours(line.hours) : money(line.amount);
+            }),
+          ];
+        }),
+      ];
+    },
+  },
+  // Payroll batch layout: base hours go in the hours columns at a temporary rate, everything else in the earnings columns
+  adp: {
+    label: 'adp',
+    requiresExternalId: true,
+    defaultEarningCodes: { regular: 'REG', overtimePremium: 'OTP', minimumWageMakeUp: 'MWM', cashTips: 'CTP', payrollTips: 'TIP' },
+    render: (lines) => [
+      ['File #', 'Employee Name', 'Temp Dept', 'Temp Rate', 'Hours 3 Code', 'Hours 3 Amount', 'Earnings 3 Code', 'Earnings 3 Amount'],
+      ...lines.map(line => line.kind === 'regular'
+        ? [line.externalId ?? '', line.employeeName, line.roleName, line.rate === null ? '' : money(line.rate), line.code, hours(line.hours), '', '']
+        : [line.externalId ?? '', line.employeeName, line.roleName, '', '', '', line.code, money(line.amount)]),
+    ],
+  },
+  // Time and payroll item import; QuickBooks matches employees by name when no ID is mapped
+  quickbooks: {
+    label: 'quickbooks payroll',
+    requiresExternalId: false,
+    defaultEarningCodes: {
+      regular: 'Hourly Wage',
+      overtimePremium: 'Overtime Premium',
+      minimumWageMakeUp: 'Minimum Wage Make-Up',
+      cashTips: 'Cash Tips',
+      payrollTips: 'Paycheck Tips',
+    },
+    render: (lines, period) => [
+      ['Employee ID', 'Employee', 'Payroll Item', 'Class', 'Hours', 'Rate', 'Amount', 'Pay Period Start', 'Pay Period End'],
+      ...lines.map(line => [
+        line.externalId ?? '', line.employeeName, line.code, line.roleName, hours(line.hours),
+        line.rate === null ? '' : money(line.rate), money(line.amount), period.startDate, period.endDate,
+      ]),
+    ],
+  },
+};
+
+export const PAYROLL_EXPORT_FORMATS = Object.keys(PAYROLL_EXPORT_ADAPTERS) as PayrollExportFormat[];
+
+export const isPayrollExportFormat = (value: unknown): value is PayrollExportFormat =>
+  typeof value === 'string' && value in PAYROLL_EXPORT_ADAPTERS;
+
+/**
+ * Turns employee/role summaries into one export line per earning, leaving out earnings of zero.
+ * `externalIds` maps employee IDs to their IDs in the payroll provider.
+ */
+export const buildPayrollExportLines = (
+  summaries: EmployeeRoleSummary[],
+  externalIds: Record<string, string | null>,
+  codes: EarningCodes,
+): PayrollExportLine[] => {
+  const sorted = [...summaries].sort((a, b) => a.employeeName.localeCompare(b.employeeName) || a.roleName.localeCompare(b.roleName));
+
+  return sorted.flatMap(summary => {
+    const line = (kind: PayrollEarningKind, amount: number, hoursWorked: number | null = null, rate: number | null = null): PayrollExportLine => ({
+      employeeId: summary.employeeId,
+      employeeName: summary.employeeName,
+      externalId: externalIds[summary.employeeId] ?? null,
+      roleName: summary.roleName,
+      kind,
+      code: codes[kind],
+      hours: hoursWorked,
+      rate,
+      amount,
+    });
+
+    return [
+      line('regular', summary.totalBasePay, summary.totalHours, summary.basePayRate),
+      line('overtimePremium', summary.totalOvertimePremium, summary.totalOvertimeHours),
+      line('minimumWageMakeUp', summary.totalComplianceMakeUp),
+      line('cashTips', summary.totalCashTips),
+      line('payrollTips', summary.totalPayrollTips),
+    ].filter(entry => toCents(entry.amount) !== 0 || (entry.kind === 'regular' && Number(entry.hours) > 0));
+  });
+};
+
+/**
+ * Names of the employees an export cannot be imported for because they have no payroll ID mapped, or [] when none are missing.
+ */
+export const findMissingExternalIds = (format: PayrollExportFormat, lines: PayrollExportLine[]): string[] => {
+  if (!PAYROLL_EXPORT_ADAPTERS[format].requiresExternalId) return [];
+  return Array.from(new Set(lines.filter(line => !line.externalId).map(line => line.employeeName)));
+};
+
+/**
+ * Renders export lines in a format's layout as CSV text.
+ */
+export const renderPayrollExport = (format: PayrollExportFormat, lines: PayrollExportLine[], period: PayrollExportPeriod): string =>
+  PAYROLL_EXPORT_ADAPTERS[format].render(lines, period).map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
@@ -1,5 +1,6 @@
-import { calculateEmployeeRoleSummariesDaily, calculateOverallSummary } from './reportCalculations';
-import { Shift, EmployeeRoleSummary, RoleConfig, ReportSummary, TipoutType } from '@/types/reports'; // Assuming types are exported from here
+import { calculateEmployeeRoleSummariesDaily, calculateOverallSummary, explainShiftCalculations, calculateReport, getPoolingRange } from './reportCalculations';
+import { DEFAULT_PAYROLL_SETTINGS } from './workweek';
+import { Shift, EmployeeRoleSummary, RoleConfig, ReportSummary, TipoutType, PayRate, WeeklyShortfall, WeeklyOvertime } from '@/types/reports'; // Assuming types are exported from here
 
 // --- Mock Data Setup ---
 
@@ -116,9 +117,9 @@ describe('reportCalculations', () => {
             ];
             const summary = calculateOverallSummary(shifts);
             // Total Paid *Into* Pools
-            expect(summary.totalBarTipoutPaid).toBeCloseTo(100); // Only server pays bar
-            expect(summary.totalHostTipoutPaid).toBeCloseTo(14 + 7); // Server + Bar pay host
-            expect(summary.totalSaTipoutPaid).toBeCloseTo(0); // No SA shifts present
+            expect(summary.totalTipoutsPaid.bar).toBeCloseTo(100); // Only server pays bar
+            expect(summary.totalTipoutsPaid.host ?? 0).toBeCloseTo(14 + 7); // Server + Bar pay host
+            expect(summary.totalTipoutsPaid.sa ?? 0).toBeCloseTo(0); // No SA shifts present
         });
         
         it('should calculate total tipouts paid correctly (with SA)', () => {
@@ -131,11 +132,28 @@ describe('reportCalculations', () => {
             ];
             const summary = calculateOverallSummary(shifts);
             // Total Paid *Into* Pools
-            expect(summary.totalBarTipoutPaid).toBeCloseTo(100); // Only server pays bar
-            expect(summary.totalHostTipoutPaid).toBeCloseTo(14 + 7); // Server + Bar pay host
-            expect(summary.totalSaTipoutPaid).toBeCloseTo(8 + 4); // Server + Bar pay SA
+            expect(summary.totalTipoutsPaid.bar).toBeCloseTo(100); // Only server pays bar
+            expect(summary.totalTipoutsPaid.host ?? 0).toBeCloseTo(14 + 7); // Server + Bar pay host
+            expect(summary.totalTipoutsPaid.sa ?? 0).toBeCloseTo(8 + 4); // Server + Bar pay SA
         });
         
+        it('should average tips per hour for the receivers of every tipout type and for the payers', () => {
+            // An admin-defined type: servers pay 5% of tips to bussers
+            const roleBusServer = mockRole('roleBusSrv', 'Server', 3, [mockRoleConfig('cfgSrvBus', 'busser', 5)]);
+            const roleBusser = mockRole('roleBusser', 'Busser', 9, [
+                mockRoleConfig('cfgBusBus', 'busser', 0, { receivesTipout: true, paysTipout: false, distributionGroup: 'bussers' }),
+            ]);
+            const shifts: Shift[] = [
+                mockShift('s1', empDylan, roleBusServer, '2024-03-15', 4, 20, 80, 0), // Tips=100 -> Pays Busser=5
+                mockShift('s2', empAlex, roleBusser, '2024-03-15', 2, 0, 0, 0),
+            ];
+            const summary = calculateOverallSummary(shifts);
+
+            expect(summary.totalTipoutsPaid).toEqual({ busser: 5 });
+            expect(summary.receiverTipsPerHour).toEqual({ busser: { cash: 0, payroll: 2.5, total: 2.5 } }); // 5 over 2 hours
+            expect(summary.payerTipsPerHour).toEqual({ cash: 5, payroll: 18.75, total: 23.75 });          // 20 and 80 - 5 over 4 hours
+        });
+
         // Add more tests for average calculations if they become critical, 
         // but note they are less meaningful with daily pooling.
     });
@@ -164,16 +182,16 @@ describe('reportCalculations', () => {
             // Dylan (Server) - Pays 40 Bar Tipout
             expect(dylanSummary!.totalGrossCreditTips).toBeCloseTo(150);
             expect(dylanSummary!.totalCreditTips).toBeCloseTo(150); // Original credit shown for non-pooled
-            expect(dylanSummary!.totalBarTipout).toBeCloseTo(-40); // Net paid out
-            expect(dylanSummary!.totalHostTipout).toBeCloseTo(0);
+            expect(dylanSummary!.totalTipouts.bar ?? 0).toBeCloseTo(-40); // Net paid out
+            expect(dylanSummary!.totalTipouts.host ?? 0).toBeCloseTo(0);
             expect(dylanSummary!.totalPayrollTips).toBeCloseTo(150 - 40); // 110
             expect(dylanSummary!.payrollTotal).toBeCloseTo((3 * 8) + 110); // 24 + 110 = 134
 
             // Christina (Host) - Receives 40 Bar Tipout
             expect(christinaSummary!.totalGrossCreditTips).toBeCloseTo(0);
             expect(christinaSummary!.totalCreditTips).toBeCloseTo(0); // Original credit shown
-            expect(christinaSummary!.totalBarTipout).toBeCloseTo(40); // Net received
-            expect(christinaSummary!.totalHostTipout).toBeCloseTo(0);
+            expect(christinaSummary!.totalTipouts.bar ?? 0).toBeCloseTo(40); // Net received
+            expect(christinaSummary!.totalTipouts.host ?? 0).toBeCloseTo(0);
             expect(christinaSummary!.totalPayrollTips).toBeCloseTo(0 + 40); // 40
             expect(christinaSummary!.payrollTotal).toBeCloseTo((10 * 8) + 40); // 80 + 40 = 120
         });
@@ -210,9 +228,9 @@ describe('reportCalculations', () => {
             expect(dylanSummary!.totalCashTips).toBeCloseTo(8 * 6.6667); // 53.33
             expect(dylanSummary!.totalCreditTips).toBeCloseTo(8 * 8.1333); // 65.07
             expect(dylanSummary!.totalGrossCreditTips).toBeCloseTo(150);
-            expect(dylanSummary!.totalBarTipout).toBeCloseTo(-40); // Pays 10% of 400 liquor sales
-            expect(dylanSummary!.totalHostTipout).toBeCloseTo(0); // Pooled display
-            expect(dylanSummary!.totalSaTipout).toBeCloseTo(0); // Pooled display
+            expect(dylanSummary!.totalTipouts.bar ?? 0).toBeCloseTo(-40); // Pays 10% of 400 liquor sales
+            expect(dylanSummary!.totalTipouts.host ?? 0).toBeCloseTo(0); // Pooled display
+            expect(dylanSummary!.totalTipouts.sa ?? 0).toBeCloseTo(0); // Pooled display
             expect(dylanSummary!.totalPayrollTips).toBeCloseTo(8 * 8.1333 - 40); // 65.07 - 40 = 25.07
             expect(dylanSummary!.payrollTotal).toBeCloseTo((3 * 8) + 25.07); // 24 + 25.07 = 49.07
 
@@ -221,9 +239,9 @@ describe('reportCalculations', () => {
             expect(reganSummary!.totalCashTips).toBeCloseTo(7 * 6.6667); // 46.67
             expect(reganSummary!.totalCreditTips).toBeCloseTo(7 * 8.1333); // 56.93
             expect(reganSummary!.totalGrossCreditTips).toBeCloseTo(150);
-            expect(reganSummary!.totalBarTipout).toBeCloseTo(-30); // Pays 10% of 300 liquor sales
-            expect(reganSummary!.totalHostTipout).toBeCloseTo(0);
-            expect(reganSummary!.totalSaTipout).toBeCloseTo(0);
+            expect(reganSummary!.totalTipouts.bar ?? 0).toBeCloseTo(-30); // Pays 10% of 300 liquor sales
+            expect(reganSummary!.totalTipouts.host ?? 0).toBeCloseTo(0);
+            expect(reganSummary!.totalTipouts.sa ?? 0).toBeCloseTo(0);
             expect(reganSummary!.totalPayrollTips).toBeCloseTo(7 * 8.1333 - 30); // 56.93 - 30 = 26.93
             expect(reganSummary!.payrollTotal).toBeCloseTo((3 * 7) + 26.93); // 21 + 26.93 = 47.93
 
@@ -232,9 +250,9 @@ describe('reportCalculations', () => {
             expect(brigidSummary!.totalCashTips).toBeCloseTo(0);
             expect(brigidSummary!.totalCreditTips).toBeCloseTo(0);
             expect(brigidSummary!.totalGrossCreditTips).toBeCloseTo(0);
-            expect(brigidSummary!.totalBarTipout).toBeCloseTo(70); // Receives 10% of 700 total liquor sales
-            expect(brigidSummary!.totalHostTipout).toBeCloseTo(0);
-            expect(brigidSummary!.totalSaTipout).toBeCloseTo(0);
+            expect(brigidSummary!.totalTipouts.bar ?? 0).toBeCloseTo(70); // Receives 10% of 700 total liquor sales
+            expect(brigidSummary!.totalTipouts.host ?? 0).toBeCloseTo(0);
+            expect(brigidSummary!.totalTipouts.sa ?? 0).toBeCloseTo(0);
             expect(brigidSummary!.totalPayrollTips).toBeCloseTo(0 + 70); // 0 + 70 = 70
             expect(brigidSummary!.payrollTotal).toBeCloseTo((9 * 6) + 70); // 54 + 70 = 124
 
@@ -243,9 +261,9 @@ describe('reportCalculations', () => {
             expect(christinaSummary!.totalCashTips).toBeCloseTo(0);
             expect(christinaSummary!.totalCreditTips).toBeCloseTo(0);
             expect(christinaSummary!.totalGrossCreditTips).toBeCloseTo(0);
-            expect(christinaSummary!.totalBarTipout).toBeCloseTo(0);
-            expect(christinaSummary!.totalHostTipout).toBeCloseTo(28); // Receives 7% of 400 total tips
-            expect(christinaSummary!.totalSaTipout).toBeCloseTo(0);
+            expect(christinaSummary!.totalTipouts.bar ?? 0).toBeCloseTo(0);
+            expect(christinaSummary!.totalTipouts.host ?? 0).toBeCloseTo(28); // Receives 7% of 400 total tips
+            expect(christinaSummary!.totalTipouts.sa ?? 0).toBeCloseTo(0);
             expect(christinaSummary!.totalPayrollTips).toBeCloseTo(0 + 28); // 0 + 28 = 28
             expect(christinaSummary!.payrollTotal).toBeCloseTo((5 * 5) + 28); // 25 + 28 = 53
 
@@ -254,9 +272,9 @@ describe('reportCalculations', () => {
             expect(alexSummary!.totalCashTips).toBeCloseTo(0);
             expect(alexSummary!.totalCreditTips).toBeCloseTo(0);
             expect(alexSummary!.totalGrossCreditTips).toBeCloseTo(0);
-            expect(alexSummary!.totalBarTipout).toBeCloseTo(0);
-            expect(alexSummary!.totalHostTipout).toBeCloseTo(0);
-            expect(alexSummary!.totalSaTipout).toBeCloseTo(16); // Receives 4% of 400 total tips
+            expect(alexSummary!.totalTipouts.bar ?? 0).toBeCloseTo(0);
+            expect(alexSummary!.totalTipouts.host ?? 0).toBeCloseTo(0);
+            expect(alexSummary!.totalTipouts.sa ?? 0).toBeCloseTo(16); // Receives 4% of 400 total tips
             expect(alexSummary!.totalPayrollTips).toBeCloseTo(0 + 16); // 0 + 16 = 16
             expect(alexSummary!.payrollTotal).toBeCloseTo((4 * 4) + 16); // 16 + 16 = 32
         });
@@ -271,14 +289,48 @@ describe('reportCalculations', () => {
             
             expect(dylanSummary).toBeDefined();
             expect(dylanSummary!.totalHours).toBe(0);
-            expect(dylanSummary!.totalCashTips).toBeCloseTo(0); // Tips should be zeroed out due to pooling rate calc
-            expect(dylanSummary!.totalCreditTips).toBeCloseTo(0);
+            // With no hours in the pool it is split equally, so the only server keeps it less the host tipout
+            expect(dylanSummary!.totalCashTips).toBeCloseTo(50);
+            expect(dylanSummary!.totalCreditTips).toBeCloseTo(136);
             expect(dylanSummary!.totalGrossCreditTips).toBeCloseTo(150);
-            expect(dylanSummary!.totalPayrollTips).toBeCloseTo(0);
+            expect(dylanSummary!.totalPayrollTips).toBeCloseTo(136);
             expect(dylanSummary!.cashTipsPerHour).toBe(0);
             expect(dylanSummary!.creditTipsPerHour).toBe(0);
             expect(dylanSummary!.totalTipsPerHour).toBe(0);
-            expect(dylanSummary!.payrollTotal).toBeCloseTo(0);
+            expect(dylanSummary!.payrollTotal).toBeCloseTo(136);
+        });
+
+        it('should split pools to the cent and keep every pool balanced', () => {
+            const empSam = mockEmployee('emp6', 'Sam');
+            const shifts: Shift[] = [
+                mockShift('s1', empDylan, roleServer, '2024-03-15', 1, 10, 100, 0),
+                mockShift('s2', empRegan, roleServer, '2024-03-15', 1, 0, 0, 0),
+                mockShift('s3', empBrigid, roleServer, '2024-03-15', 1, 0, 0, 0),
+                mockShift('s4', empChristina, roleHost, '2024-03-15', 1, 0, 0, 0),
+                mockShift('s5', empAlex, roleHost, '2024-03-15', 1, 0, 0, 0),
+                mockShift('s6', empSam, roleHost, '2024-03-15', 1, 0, 0, 0),
+            ];
+            const summaries = calculateEmployeeRoleSummariesDaily(shifts);
+            const byName = (name: string) => summaries.find(s => s.employeeName === name)!;
+
+            // Host tipout: 7% of 110 total tips = 7.70, split 3 ways with the extra penny to the first host
+            expect(byName('Christina').totalPayrollTips).toBe(2.57);
+            expect(byName('Alex').totalPayrollTips).toBe(2.57);
+            expect(byName('Sam').totalPayrollTips).toBe(2.56);
+
+            // Server pool: 100 - 7.70 = 92.30 credit and 10.00 cash, split 3 ways by largest remainder
+            expect(byName('Dylan').totalPayrollTips).toBe(30.77);
+            expect(byName('Regan').totalPayrollTips).toBe(30.77);
+            expect(byName('Brigid').totalPayrollTips).toBe(30.76);
+            expect(byName('Dylan').totalCashTips).toBe(3.34);
+            expect(byName('Regan').totalCashTips).toBe(3.33);
+            expect(byName('Brigid').totalCashTips).toBe(3.33);
+
+            // Everything collected is paid back out, to the cent
+            const totalPayrollCents = summaries.reduce((acc, s) => acc + Math.round(s.totalPayrollTips * 100), 0);
+            const totalCashCents = summaries.reduce((acc, s) => acc + Math.round(s.totalCashTips * 100), 0);
+            expect(totalPayrollCents).toBe(10000);
+            expect(totalCashCents).toBe(1000);
         });
 
         it('should handle empty shifts array', () => {
@@ -287,4 +339,771 @@ describe('reportCalculations', () => {
         });
 
     });
-}); 
\ No newline at end of file
+
+    describe('explainShiftCalculations', () => {
+        const shifts: Shift[] = [
+            mockShift('s1', empDylan, roleServer, '2024-03-15', 8, 50, 150, 400),
+            mockShift('s2', empBrigid, roleBar, '2024-03-15', 6, 20, 80, 0),
+            mockShift('s3', empChristina, roleHost, '2024-03-15', 5, 0, 0, 0),
+        ];
+
+        it('should trace one day with every shift', () => {
+            const trace = explainShiftCalculations(shifts);
+            expect(trace).toHaveLength(1);
+            expect(trace[0].date).toBe('2024-03-15');
+            expect(trace[0].shifts.map(s => s.shiftId)).toEqual(['s1', 's2', 's3']);
+            expect(trace[0].tipoutPools.bar).toBeCloseTo(100); // 25% of 400 liquor sales
+        });
+
+        it('should list steps that add up to each shift\'s payroll tips', () => {
+            const trace = explainShiftCalculations(shifts);
+            const summaries = calculateEmployeeRoleSummariesDaily(shifts);
+
+            trace[0].shifts.forEach(shiftTrace => {
+                const stepCents = shiftTrace.steps.reduce((acc, step) => acc + Math.round(step.amount * 100), 0);
+                expect(stepCents).toBe(Math.round(shiftTrace.payrollTips * 100));
+
+                const summary = summaries.find(s => s.employeeId === shiftTrace.employeeId)!;
+                expect(shiftTrace.payrollTips).toBeCloseTo(summary.totalPayrollTips);
+            });
+        });
+
+        it('should record rates, config ids and where each tipout was paid from', () => {
+            const dylan = explainShiftCalculations(shifts)[0].shifts.find(s => s.shiftId === 's1')!;
+
+            const hostStep = dylan.steps.find(step => step.kind === 'tipout_paid' && step.tipoutType === 'host')!;
+            expect(hostStep.rate).toBe(7);
+            expect(hostStep.configIds).toEqual(['cfgSrvHost']);
+            expect(hostStep.inputs.paidFrom).toBe('pool');
+            expect(hostStep.amount).toBe(0);
+
+            const barStep = dylan.steps.find(step => step.kind === 'tipout_paid' && step.tipoutType === 'bar')!;
+            expect(barStep.inputs.paidFrom).toBe('individual');
+            expect(barStep.inputs.basis).toBe('liquor_sales');
+            expect(barStep.amount).toBeCloseTo(-100);
+
+            const poolStep = dylan.steps.find(step => step.kind === 'pool_share')!;
+            expect(poolStep.inputs.group).toBe('server_pool');
+
+            const christina = explainShiftCalculations(shifts)[0].shifts.find(s => s.shiftId === 's3')!;
+            const receivedStep = christina.steps.find(step => step.kind === 'tipout_received')!;
+            expect(receivedStep.tipoutType).toBe('host');
+            expect(receivedStep.configIds).toEqual(['cfgHostHost']);
+            expect(receivedStep.inputs.group).toBe('hosts');
+        });
+    });
+
+    describe('distribution weighting', () => {
+        const empSam = mockEmployee('emp6', 'Sam');
+
+        it('should split a tip pool by points per hour', () => {
+            const poolConfig = (id: string, points: number): RoleConfig => ({
+                ...mockRoleConfig(id, 'host', 0, { tipPoolGroup: 'points_pool' }),
+                poolWeighting: 'points',
+                poolWeight: points,
+            });
+            const roleLead = mockRole('roleLead', 'Lead Server', 3, [poolConfig('cfgLead', 1.2)]);
+            const roleTrainee = mockRole('roleTrainee', 'Trainee', 3, [poolConfig('cfgTrainee', 0.5)]);
+            const shifts: Shift[] = [
+                mockShift('s1', empDylan, roleLead, '2024-03-15', 5, 0, 100, 0), // 6 points
+                mockShift('s2', empRegan, roleTrainee, '2024-03-15', 4, 0, 62, 0), // 2 points
+            ];
+            const summaries = calculateEmployeeRoleSummariesDaily(shifts);
+
+            expect(summaries.find(s => s.employeeName === 'Dylan')!.totalPayrollTips).toBe(121.5); // 162 * 6/8
+            expect(summaries.find(s => s.employeeName === 'Regan')!.totalPayrollTips).toBe(40.5);  // 162 * 2/8
+        });
+
+        it('should split a tip pool equally per employee regardless of hours', () => {
+            const equalConfigs: RoleConfig[] = [{
+                ...mockRoleConfig('cfgEqual', 'host', 0, { tipPoolGroup: 'equal_pool' }),
+                poolWeighting: 'equal',
+            }];
+            const roleEqual = mockRole('roleEqual', 'Server', 3, equalConfigs);
+            const shifts: Shift[] = [
+                mockShift('s1', empDylan, roleEqual, '2024-03-15', 8, 30, 60, 0),
+                mockShift('s2', empRegan, roleEqual, '2024-03-15', 2, 0, 30, 0),
+                mockShift('s3', empBrigid, roleEqual, '2024-03-15', 5, 0, 0, 0),
+            ];
+            const summaries = calculateEmployeeRoleSummariesDaily(shifts);
+
+            summaries.forEach(summary => {
+                expect(summary.totalPayrollTips).toBe(30);
+                expect(summary.totalCashTips).toBe(10);
+            });
+        });
+
+        it('should split a distribution group by a fixed percentage per role', () => {
+            const receiveConfig = (id: string, percentage: number): RoleConfig => ({
+                ...mockRoleConfig(id, 'bar', 0, { receivesTipout: true, paysTipout: false, distributionGroup: 'bartenders' }),
+                distributionWeighting: 'fixed_percentage',
+                distributionWeight: percentage,
+            });
+            const roleBartender = mockRole('roleBartender', 'Bartender', 9, [receiveConfig('cfgBartender', 70)]);
+            const roleBarback = mockRole('roleBarback', 'Barback', 9, [receiveConfig('cfgBarback', 30)]);
+            const roleBarServer = mockRole('roleBarServer', 'Server', 3, [mockRoleConfig('cfgSrvBar10', 'bar', 10)]);
+
+            const shifts: Shift[] = [
+                mockShift('s1', empDylan, roleBarServer, '2024-03-15', 8, 0, 200, 1000), // Pays 100 bar tipout
+                mockShift('s2', empBrigid, roleBartender, '2024-03-15', 6, 0, 0, 0),
+                mockShift('s3', empSam, roleBartender, '2024-03-15', 2, 0, 0, 0),
+                mockShift('s4', empAlex, roleBarback, '2024-03-15', 4, 0, 0, 0),
+            ];
+            const summaries = calculateEmployeeRoleSummariesDaily(shifts);
+            const received = (name: string) => summaries.find(s => s.employeeName === name)!.totalTipouts.bar;
+
+            expect(received('Brigid')).toBe(52.5); // 70% split 6:2 by hours
+            expect(received('Sam')).toBe(17.5);
+            expect(received('Alex')).toBe(30);
+
+            // Without the barback working, bartenders share the whole pool
+            const withoutBarback = calculateEmployeeRoleSummariesDaily(shifts.slice(0, 3));
+            expect(withoutBarback.find(s => s.employeeName === 'Brigid')!.totalTipouts.bar).toBe(75);
+            expect(withoutBarback.find(s => s.employeeName === 'Sam')!.totalTipouts.bar).toBe(25);
+        });
+
+        it('should split a distribution group equally when its weights total zero', () => {
+            const receiveConfig = (id: string): RoleConfig => ({
+                ...mockRoleConfig(id, 'bar', 0, { receivesTipout: true, paysTipout: false, distributionGroup: 'bartenders' }),
+                distributionWeighting: 'fixed_percentage',
+                distributionWeight: null,
+            });
+            const roleBartender = mockRole('roleBartender', 'Bartender', 9, [receiveConfig('cfgBartender')]);
+            const roleBarback = mockRole('roleBarback', 'Barback', 9, [receiveConfig('cfgBarback')]);
+            const roleBarServer = mockRole('roleBarServer', 'Server', 3, [mockRoleConfig('cfgSrvBar10', 'bar', 10)]);
+
+            const shifts: Shift[] = [
+                mockShift('s1', empDylan, roleBarServer, '2024-03-15', 8, 0, 200, 1000), // Pays 100 bar tipout
+                mockShift('s2', empBrigid, roleBartender, '2024-03-15', 6, 0, 0, 0),
+                mockShift('s3', empAlex, roleBarback, '2024-03-15', 4, 0, 0, 0),
+            ];
+            const summaries = calculateEmployeeRoleSummariesDaily(shifts);
+            const received = (name: string) => summaries.find(s => s.employeeName === name)!.totalTipouts.bar;
+
+            expect(received('Brigid')).toBe(50);
+            expect(received('Alex')).toBe(50);
+        });
+
+        it('should split a tip pool equally when every role has 0 points', () => {
+            const poolConfig = (id: string): RoleConfig => ({
+                ...mockRoleConfig(id, 'host', 0, { tipPoolGroup: 'points_pool' }),
+                poolWeighting: 'points',
+                poolWeight: 0,
+            });
+            const roleLead = mockRole('roleLead', 'Lead Server', 3, [poolConfig('cfgLead')]);
+            const roleTrainee = mockRole('roleTrainee', 'Trainee', 3, [poolConfig('cfgTrainee')]);
+            const shifts: Shift[] = [
+                mockShift('s1', empDylan, roleLead, '2024-03-15', 5, 0, 100, 0),
+                mockShift('s2', empRegan, roleTrainee, '2024-03-15', 4, 0, 62, 0),
+            ];
+            const summaries = calculateEmployeeRoleSummariesDaily(shifts);
+
+            expect(summaries.find(s => s.employeeName === 'Dylan')!.totalPayrollTips).toBe(81);
+            expect(summaries.find(s => s.employeeName === 'Regan')!.totalPayrollTips).toBe(81);
+        });
+    });
+
+    describe('service periods', () => {
+        const lunch = { id: 'periodLunch', name: 'Lunch' };
+        const dinner = { id: 'periodDinner', name: 'Dinner' };
+
+        it('should pool and pay tipouts per day and service period', () => {
+            const shifts: Shift[] = [
+                { ...mockShift('s1', empDylan, roleServer, '2024-03-15', 4, 0, 100, 0), servicePeriod: lunch },
+                { ...mockShift('s2', empRegan, roleServer, '2024-03-15', 6, 0, 200, 0), servicePeriod: dinner },
+                { ...mockShift('s3', empChristina, roleHost, '2024-03-15', 5, 0, 0, 0), servicePeriod: dinner },
+            ];
+            const summaries = calculateEmployeeRoleSummariesDaily(shifts);
+            const payrollTips = (name: string) => summaries.find(s => s.employeeName === name)!.totalPayrollTips;
+
+            expect(payrollTips('Dylan')).toBe(100);      // No host at lunch, keeps the whole lunch pool
+            expect(payrollTips('Regan')).toBe(186);      // 200 - 7% host tipout
+            expect(payrollTips('Christina')).toBe(14);   // Only dinner's host tipout
+
+            // Without periods the whole day shares one pool and one host tipout
+            const wholeDay = calculateEmployeeRoleSummariesDaily(shifts.map(shift => ({ ...shift, servicePeriod: null })));
+            expect(wholeDay.find(s => s.employeeName === 'Dylan')!.totalPayrollTips).toBe(111.6); // 279 * 4/10
+            expect(wholeDay.find(s => s.employeeName === 'Christina')!.totalPayrollTips).toBe(21);
+        });
+
+        it('should trace each service period separately', () => {
+            const trace = explainShiftCalculations([
+                { ...mockShift('s1', empDylan, roleServer, '2024-03-15', 4, 0, 100, 0), servicePeriod: lunch },
+                { ...mockShift('s2', empRegan, roleServer, '2024-03-15', 6, 0, 200, 0), servicePeriod: dinner },
+            ]);
+
+            expect(trace.map(day => [day.date, day.servicePeriod?.name])).toEqual([
+                ['2024-03-15', 'Lunch'],
+                ['2024-03-15', 'Dinner'],
+            ]);
+            expect(trace[1].shifts[0].servicePeriodName).toBe('Dinner');
+        });
+    });
+
+    describe('pooling windows', () => {
+        it('should pool tips over a week when the pool is weekly', () => {
+            const weeklyConfigs: RoleConfig[] = [{
+                ...mockRoleConfig('cfgWeekly', 'bar', 0, { paysTipout: false, tipPoolGroup: 'weekly_pool' }),
+                poolWindow: 'week',
+            }];
+            const roleWeekly = mockRole('roleWeekly', 'Bar', 9, weeklyConfigs);
+            const shifts: Shift[] = [
+                mockShift('s1', empBrigid, roleWeekly, '2024-03-11', 5, 0, 100, 0), // Monday
+                mockShift('s2', empRegan, roleWeekly, '2024-03-17', 5, 0, 0, 0),    // Sunday, same week
+                mockShift('s3', empChristina, roleWeekly, '2024-03-18', 4, 0, 60, 0), // Next Monday
+            ];
+            const summaries = calculateEmployeeRoleSummariesDaily(shifts);
+            const payrollTips = (name: string) => summaries.find(s => s.employeeName === name)!.totalPayrollTips;
+
+            expect(payrollTips('Brigid')).toBe(50);
+            expect(payrollTips('Regan')).toBe(50);
+            expect(payrollTips('Christina')).toBe(60);
+            expect(summaries.find(s => s.employeeName === 'Brigid')!.tipPoolWindow).toBe('week');
+        });
+
+        it('should pay and split tipouts over the receiving group\'s window', () => {
+            const receiveConfig = (distributionWindow: RoleConfig['distributionWindow']): RoleConfig => ({
+                ...mockRoleConfig('cfgBartenderBar', 'bar', 0, { receivesTipout: true, paysTipout: false, distributionGroup: 'bartenders' }),
+                distributionWindow,
+            });
+            const roleBarServer = mockRole('roleBarServer', 'Server', 3, [mockRoleConfig('cfgSrvBar10', 'bar', 10)]);
+            const shiftsFor = (role: Shift['role']): Shift[] => [
+                mockShift('s1', empDylan, roleBarServer, '2024-03-11', 8, 0, 200, 1000), // Pays 100 bar tipout when a bartender is in the window
+                mockShift('s2', empBrigid, role, '2024-03-13', 6, 0, 0, 0),
+            ];
+
+            const weekly = calculateEmployeeRoleSummariesDaily(shiftsFor(mockRole('roleBartender', 'Bartender', 9, [receiveConfig('week')])));
+            expect(weekly.find(s => s.employeeName === 'Dylan')!.totalPayrollTips).toBe(100);
+            expect(weekly.find(s => s.employeeName === 'Brigid')!.totalTipouts.bar).toBe(100);
+            expect(weekly.find(s => s.employeeName === 'Brigid')!.tipoutWindows).toEqual({ bar: 'week' });
+
+            // Pooled per shift, nobody received bar tipout on Monday so none is paid
+            const perShift = calculateEmployeeRoleSummariesDaily(shiftsFor(mockRole('roleBartender', 'Bartender', 9, [receiveConfig('shift')])));
+            expect(perShift.find(s => s.employeeName === 'Dylan')!.totalPayrollTips).toBe(200);
+            expect(perShift.find(s => s.employeeName === 'Brigid')!.totalTipouts.bar).toBe(0);
+
+            const trace = explainShiftCalculations(shiftsFor(mockRole('roleBartender', 'Bartender', 9, [receiveConfig('week')])));
+            expect(trace[1].distributionGroups[0]).toEqual(expect.objectContaining({
+                window: 'week',
+                windowStart: '2024-03-13',
+                windowEnd: '2024-03-13',
+                amount: 100,
+            }));
+        });
+
+        const weeklyPoolRole = mockRole('roleWeekly', 'Bar', 9, [{
+            ...mockRoleConfig('cfgWeekly', 'bar', 0, { paysTipout: false, tipPoolGroup: 'weekly_pool' }),
+            poolWindow: 'week',
+        }]);
+
+        it('should start weekly pools on the workweek start day', () => {
+            const shifts: Shift[] = [
+                mockShift('s1', empBrigid, weeklyPoolRole, '2024-03-16', 5, 0, 100, 0), // Saturday
+                mockShift('s2', empRegan, weeklyPoolRole, '2024-03-17', 5, 0, 0, 0),    // Sunday
+                mockShift('s3', empChristina, weeklyPoolRole, '2024-03-18', 5, 0, 60, 0), // Monday
+            ];
+            const payrollTips = (summaries: EmployeeRoleSummary[], name: string) => summaries.find(s => s.employeeName === name)!.totalPayrollTips;
+
+            const mondayWeeks = calculateEmployeeRoleSummariesDaily(shifts);
+            expect(payrollTips(mondayWeeks, 'Brigid')).toBe(50);
+            expect(payrollTips(mondayWeeks, 'Regan')).toBe(50);
+            expect(payrollTips(mondayWeeks, 'Christina')).toBe(60);
+
+            const sundayWeeks = calculateEmployeeRoleSummariesDaily(shifts, { payrollSettings: { ...DEFAULT_PAYROLL_SETTINGS, workweekStartDay: 0 } });
+            expect(payrollTips(sundayWeeks, 'Brigid')).toBe(100);
+            expect(payrollTips(sundayWeeks, 'Regan')).toBe(30);
+            expect(payrollTips(sundayWeeks, 'Christina')).toBe(30);
+        });
+
+        it('should pool over each pay period when the pool is per pay period', () => {
+            const periodRole = mockRole('rolePeriod', 'Bar', 9, [{
+                ...mockRoleConfig('cfgPeriod', 'bar', 0, { paysTipout: false, tipPoolGroup: 'period_pool' }),
+                poolWindow: 'pay_period',
+            }]);
+            const shifts: Shift[] = [
+                mockShift('s1', empBrigid, periodRole, '2024-03-15', 5, 0, 100, 0),
+                mockShift('s2', empRegan, periodRole, '2024-03-19', 5, 0, 0, 0),
+            ];
+            const payrollTips = (summaries: EmployeeRoleSummary[], name: string) => summaries.find(s => s.employeeName === name)!.totalPayrollTips;
+
+            // Biweekly from 2024-03-04: the shifts fall in periods starting 03-04 and 03-18
+            const apart = calculateEmployeeRoleSummariesDaily(shifts, { payrollSettings: { ...DEFAULT_PAYROLL_SETTINGS, payPeriodAnchorDate: '2024-03-04' } });
+            expect(payrollTips(apart, 'Brigid')).toBe(100);
+            expect(payrollTips(apart, 'Regan')).toBe(0);
+
+            // Biweekly from 2024-03-11: both fall in the period 03-11 to 03-24
+            const together = calculateEmployeeRoleSummariesDaily(shifts, { payrollSettings: { ...DEFAULT_PAYROLL_SETTINGS, payPeriodAnchorDate: '2024-03-11' } });
+            expect(payrollTips(together, 'Brigid')).toBe(50);
+            expect(payrollTips(together, 'Regan')).toBe(50);
+        });
+
+        it('should load shifts out to the edges of the workweeks and pay periods a report touches', () => {
+            expect(getPoolingRange('2024-03-13', '2024-03-14', DEFAULT_PAYROLL_SETTINGS)).toEqual({ startDate: '2024-03-11', endDate: '2024-03-24' });
+            expect(getPoolingRange('2024-03-13', '2024-03-14', { ...DEFAULT_PAYROLL_SETTINGS, payPeriodFrequency: 'semi_monthly' }))
+                .toEqual({ startDate: '2024-03-01', endDate: '2024-03-17' });
+        });
+
+        it('should pool a week across the edge of the report range but only report the shifts within it', () => {
+            const report = calculateReport({
+                startDate: '2024-03-13',
+                endDate: '2024-03-17',
+                configuredOn: null,
+                shifts: [
+                    mockShift('s1', empBrigid, weeklyPoolRole, '2024-03-11', 5, 0, 100, 0), // Before the range, same week
+                    mockShift('s2', empRegan, weeklyPoolRole, '2024-03-14', 5, 0, 0, 0),
+                ],
+                minimumWages: [],
+                payrollSettings: DEFAULT_PAYROLL_SETTINGS,
+            });
+
+            expect(report.employeeSummaries.map(s => s.employeeName)).toEqual(['Regan']);
+            expect(report.employeeSummaries[0].totalPayrollTips).toBe(50);
+            expect(report.summary).toEqual(expect.objectContaining({ totalShifts: 1, totalHours: 5, totalCreditTips: 0 }));
+        });
+    });
+
+    describe('absent recipient policy', () => {
+        const payingRole = (absentPolicy: RoleConfig['absentPolicy'], absentRollToGroup: string | null = null) =>
+            mockRole('roleHostPayer', 'Server', 3, [{ ...mockRoleConfig('cfgSrvHost10', 'host', 10), absentPolicy, absentRollToGroup }]);
+
+        it('should leave the tipout with the payer by default', () => {
+            const shifts = [mockShift('s1', empDylan, payingRole(undefined), '2024-03-15', 5, 0, 200, 0)];
+
+            expect(calculateEmployeeRoleSummariesDaily(shifts)[0].totalPayrollTips).toBe(200);
+            expect(calculateOverallSummary(shifts).absentTipouts).toEqual([]);
+        });
+
+        it('should send the tipout to the house', () => {
+            const shifts = [mockShift('s1', empDylan, payingRole('house'), '2024-03-15', 5, 0, 200, 0)];
+
+            expect(calculateEmployeeRoleSummariesDaily(shifts)[0].totalPayrollTips).toBe(180);
+            const summary = calculateOverallSummary(shifts);
+            expect(summary.totalTipoutsPaid.host).toBe(20);
+            expect(summary.absentTipouts).toEqual([expect.objectContaining({
+                shiftId: 's1',
+                tipoutType: 'host',
+                amount: 20,
+                policy: 'house',
+                group: null,
+            })]);
+        });
+
+        it('should roll the tipout to another distribution group working the same day', () => {
+            const shifts = [
+                mockShift('s1', empDylan, payingRole('roll_to_group', 'support'), '2024-03-15', 5, 0, 200, 0),
+                mockShift('s2', empAlex, roleSA, '2024-03-15', 4, 0, 0, 0),
+            ];
+            const summaries = calculateEmployeeRoleSummariesDaily(shifts);
+
+            expect(summaries.find(s => s.employeeName === 'Dylan')!.totalPayrollTips).toBe(180);
+            expect(summaries.find(s => s.employeeName === 'Alex')!.totalTipouts.host).toBe(20);
+            expect(summaries.find(s => s.employeeName === 'Alex')!.totalPayrollTips).toBe(20);
+            expect(calculateOverallSummary(shifts).absentTipouts[0]).toEqual(expect.objectContaining({
+                policy: 'roll_to_group',
+                group: 'support',
+                receivedDate: '2024-03-15',
+            }));
+
+            const alexSteps = explainShiftCalculations(shifts)[0].shifts.find(shift => shift.employeeName === 'Alex')!.steps;
+            expect(alexSteps.find(step => step.tipoutType === 'host')).toEqual(expect.objectContaining({
+                kind: 'tipout_received',
+                label: 'host tipout received (rolled to support)',
+                amount: 20,
+            }));
+        });
+
+        it('should carry the tipout to the next day a receiver works', () => {
+            const shifts = [
+                mockShift('s1', empDylan, payingRole('carry_forward'), '2024-03-15', 5, 0, 200, 0),
+                mockShift('s2', empRegan, payingRole('carry_forward'), '2024-03-16', 5, 0, 100, 0),
+                mockShift('s3', empChristina, roleHost, '2024-03-16', 6, 0, 0, 0),
+            ];
+            const summaries = calculateEmployeeRoleSummariesDaily(shifts);
+
+            expect(summaries.find(s => s.employeeName === 'Dylan')!.totalPayrollTips).toBe(180);
+            expect(summaries.find(s => s.employeeName === 'Regan')!.totalPayrollTips).toBe(90);
+            expect(summaries.find(s => s.employeeName === 'Christina')!.totalTipouts.host).toBe(30);
+            expect(calculateOverallSummary(shifts).absentTipouts).toEqual([expect.objectContaining({
+                shiftId: 's1',
+                policy: 'carry_forward',
+                group: 'hosts',
+                receivedDate: '2024-03-16',
+            })]);
+
+            const trace = explainShiftCalculations(shifts);
+            expect(trace[1].distributionGroups[0]).toEqual(expect.objectContaining({ amount: 30, carriedIn: 20 }));
+            const dylanPaid = trace[0].shifts[0].steps.find(step => step.kind === 'tipout_paid')!;
+            expect(dylanPaid.inputs.paidTo).toBe('carried to hosts on 2024-03-16');
+        });
+
+        it('should leave the tipout with the payer when there is no later day to carry it to', () => {
+            const shifts = [mockShift('s1', empDylan, payingRole('carry_forward'), '2024-03-15', 5, 0, 200, 0)];
+
+            expect(calculateEmployeeRoleSummariesDaily(shifts)[0].totalPayrollTips).toBe(200);
+            expect(calculateOverallSummary(shifts).absentTipouts).toEqual([]);
+        });
+
+        it('should leave the tipout with the payer when the next day its receivers work is past the pay period', () => {
+            // Biweekly periods from Mar 4: the payer works the period's last day and a host the next period's first
+            const payer = mockShift('s1', empDylan, payingRole('carry_forward'), '2024-03-17', 5, 0, 200, 0);
+            const host = mockShift('s2', empChristina, roleHost, '2024-03-18', 6, 0, 0, 0);
+            const reportOn = (startDate: string, endDate: string) => calculateReport({
+                startDate,
+                endDate,
+                configuredOn: null,
+                shifts: [payer, host],
+                minimumWages: [],
+                payrollSettings: DEFAULT_PAYROLL_SETTINGS,
+            });
+
+            const first = reportOn('2024-03-04', '2024-03-17');
+            expect(first.employeeSummaries.map(s => [s.employeeName, s.totalPayrollTips])).toEqual([['Dylan', 200]]);
+            expect(first.summary!.absentTipouts).toEqual([]);
+
+            const next = reportOn('2024-03-18', '2024-03-31');
+            expect(next.employeeSummaries.map(s => [s.employeeName, s.totalPayrollTips])).toEqual([['Christina', 0]]);
+            expect(next.summary!.absentTipouts).toEqual([]);
+
+            // Across both periods at once it is carried
+            const both = reportOn('2024-03-04', '2024-03-31');
+            expect(both.employeeSummaries.map(s => [s.employeeName, s.totalPayrollTips]).sort()).toEqual([['Christina', 20], ['Dylan', 180]]);
+        });
+    });
+
+    describe('cascading tipouts', () => {
+        const roleBarServer = mockRole('roleBarServer', 'Server', 3, [mockRoleConfig('cfgSrvBar10', 'bar', 10)]);
+        const roleBartender = mockRole('roleBartender', 'Bartender', 9, [
+            mockRoleConfig('cfgBartenderBar', 'bar', 0, { receivesTipout: true, paysTipout: false, distributionGroup: 'bartenders' }),
+            { ...mockRoleConfig('cfgBartenderBarback', 'barback', 20), basis: 'received_tipouts' },
+        ]);
+        const roleBarback = mockRole('roleBarback', 'Barback', 8, [
+            mockRoleConfig('cfgBarbackBarback', 'barback', 0, { receivesTipout: true, paysTipout: false, distributionGroup: 'barbacks' }),
+        ]);
+        const shifts = [
+            mockShift('s1', empDylan, roleBarServer, '2024-03-15', 8, 0, 300, 1000), // Pays 100 bar tipout
+            mockShift('s2', empBrigid, roleBartender, '2024-03-15', 6, 0, 50, 0),   // Receives 100, pays 20% of it to barbacks
+            mockShift('s3', empAlex, roleBarback, '2024-03-15', 5, 0, 0, 0),
+        ];
+
+        it('should pay a later stage out of what was received in an earlier one', () => {
+            const summaries = calculateEmployeeRoleSummariesDaily(shifts);
+            const summaryFor = (name: string) => summaries.find(s => s.employeeName === name)!;
+
+            expect(summaryFor('Dylan').totalPayrollTips).toBe(200);
+            expect(summaryFor('Brigid').totalTipouts).toEqual({ bar: 100, barback: -20 });
+            expect(summaryFor('Brigid').totalPayrollTips).toBe(130);
+            expect(summaryFor('Alex').totalPayrollTips).toBe(20);
+            expect(calculateOverallSummary(shifts).totalTipoutsPaid).toEqual({ bar: 100, barback: 20 });
+        });
+
+        it('should trace the stage and the received amount a later stage was paid from', () => {
+            const brigid = explainShiftCalculations(shifts)[0].shifts.find(shift => shift.employeeName === 'Brigid')!;
+            const barbackPaid = brigid.steps.find(step => step.kind === 'tipout_paid' && step.tipoutType === 'barback')!;
+
+            expect(barbackPaid.inputs).toEqual(expect.objectContaining({ basis: 'received_tipouts', basisAmount: 100, stage: 1 }));
+            expect(brigid.steps.reduce((acc, step) => acc + step.amount, 0)).toBeCloseTo(brigid.payrollTips);
+        });
+
+        it('should refuse to calculate tipouts paid out of each other in a cycle', () => {
+            const roleLoop = mockRole('roleLoop', 'Barback', 8, [
+                mockRoleConfig('cfgLoopBarback', 'barback', 0, { receivesTipout: true, paysTipout: false, distributionGroup: 'barbacks' }),
+                { ...mockRoleConfig('cfgLoopBar', 'bar', 10), basis: 'received_tipouts' },
+            ]);
+
+            expect(() => calculateEmployeeRoleSummariesDaily([...shifts, mockShift('s4', empRegan, roleLoop, '2024-03-15', 4, 0, 0, 0)]))
+                .toThrow('bar → barback → bar');
+        });
+    });
+
+    describe('distribution splits', () => {
+        const roleSaPayer = mockRole('roleSaPayer', 'Server', 3, [mockRoleConfig('cfgSrvSa10', 'sa', 10)]);
+        const receivingRole = (name: string, group: string, distributionShare: number | null) => mockRole(`role${name}`, name, 8, [{
+            ...mockRoleConfig(`cfg${name}Sa`, 'sa', 0, { receivesTipout: true, paysTipout: false, distributionGroup: group }),
+            distributionShare,
+        }]);
+        const shiftsWith = (busserShare: number | null, runnerShare: number | null): Shift[] => [
+            mockShift('s1', empDylan, roleSaPayer, '2024-03-15', 8, 0, 300, 0), // Pays 30 sa tipout
+            mockShift('s2', empAlex, receivingRole('Busser', 'bussers', busserShare), '2024-03-15', 2, 0, 0, 0),
+            mockShift('s3', empRegan, receivingRole('Runner', 'runners', runnerShare), '2024-03-15', 8, 0, 0, 0),
+        ];
+        const receivedSa = (summaries: EmployeeRoleSummary[], name: string) => summaries.find(s => s.employeeName === name)!.totalTipouts.sa;
+
+        it('should give each group its percentage of the pool whatever hours it worked', () => {
+            const summaries = calculateEmployeeRoleSummariesDaily(shiftsWith(60, 40));
+
+            expect(receivedSa(summaries, 'Alex')).toBe(18);
+            expect(receivedSa(summaries, 'Regan')).toBe(12);
+            expect(receivedSa(summaries, 'Dylan')).toBe(-30);
+        });
+
+        it('should share the pool between groups by hours when the type is not split', () => {
+            const summaries = calculateEmployeeRoleSummariesDaily(shiftsWith(null, null));
+
+            expect(receivedSa(summaries, 'Alex')).toBe(6);
+            expect(receivedSa(summaries, 'Regan')).toBe(24);
+        });
+
+        it('should give the whole pool to the groups in the split that worked', () => {
+            const summaries = calculateEmployeeRoleSummariesDaily(shiftsWith(60, 40).filter(shift => shift.id !== 's3'));
+
+            expect(receivedSa(summaries, 'Alex')).toBe(30);
+        });
+
+        it('should show each group\'s share in the trace', () => {
+            const [day] = explainShiftCalculations(shiftsWith(60, 40));
+
+            expect(day.distributionGroups.map(({ group, share, amount }) => ({ group, share, amount }))).toEqual([
+                { group: 'bussers', share: 60, amount: 18 },
+                { group: 'runners', share: 40, amount: 12 },
+            ]);
+        });
+    });
+
+    describe('tipout caps, floors and minimum guarantees', () => {
+        const roleBartender = mockRole('roleBartender', 'Bartender', 9, [
+            mockRoleConfig('cfgBartenderBar', 'bar', 0, { receivesTipout: true, paysTipout: false, distributionGroup: 'bartenders' }),
+        ]);
+
+        it('should hold a tipout to its cap and report what the cap took off', () => {
+            const roleCappedServer = mockRole('roleCapped', 'Server', 3, [{
+                ...mockRoleConfig('cfgCappedBar', 'bar', 5), basis: 'liquor_sales', capPercentage: 40, capBasis: 'total_tips',
+            }]);
+            const shifts = [
+                mockShift('s1', empDylan, roleCappedServer, '2024-03-15', 5, 0, 100, 1000), // 5% of 1000 = 50, capped at 40% of 100 = 40
+                mockShift('s2', empAlex, roleBartender, '2024-03-15', 5, 0, 0, 0),
+            ];
+            const summaries = calculateEmployeeRoleSummariesDaily(shifts);
+            const server = summaries.find(s => s.employeeName === 'Dylan')!;
+
+            expect(server.totalTipouts.bar).toBe(-40);
+            expect(server.totalTipoutLimitAdjustments.bar).toBe(-10);
+            expect(server.totalPayrollTips).toBe(60);
+            expect(summaries.find(s => s.employeeName === 'Alex')!.totalTipouts.bar).toBe(40);
+            expect(calculateOverallSummary(shifts).totalTipoutLimitAdjustments).toEqual({ bar: -10 });
+        });
+
+        it('should raise a tipout to its floor', () => {
+            const roleFlooredServer = mockRole('roleFloored', 'Server', 3, [{
+                ...mockRoleConfig('cfgFlooredBar', 'bar', 5), basis: 'liquor_sales', floorPercentage: 10, floorBasis: 'total_tips',
+            }]);
+            const shifts = [
+                mockShift('s1', empDylan, roleFlooredServer, '2024-03-15', 5, 0, 200, 100), // 5% of 100 = 5, floored at 10% of 200 = 20
+                mockShift('s2', empAlex, roleBartender, '2024-03-15', 5, 0, 0, 0),
+            ];
+            const server = calculateEmployeeRoleSummariesDaily(shifts).find(s => s.employeeName === 'Dylan')!;
+
+            expect(server.totalTipouts.bar).toBe(-20);
+            expect(server.totalTipoutLimitAdjustments.bar).toBe(15);
+        });
+
+        it('should let the cap win when a floor is higher', () => {
+            const roleLimitedServer = mockRole('roleLimited', 'Server', 3, [{
+                ...mockRoleConfig('cfgLimitedBar', 'bar', 5), basis: 'liquor_sales',
+                capPercentage: 10, capBasis: 'total_tips', floorPercentage: 10, floorBasis: 'liquor_sales',
+            }]);
+            const shifts = [
+                mockShift('s1', empDylan, roleLimitedServer, '2024-03-15', 5, 0, 100, 500), // Floor 50, cap 10
+                mockShift('s2', empAlex, roleBartender, '2024-03-15', 5, 0, 0, 0),
+            ];
+
+            expect(calculateEmployeeRoleSummariesDaily(shifts).find(s => s.employeeName === 'Dylan')!.totalTipouts.bar).toBe(-10);
+        });
+
+        it('should have the house top up a group to its minimum per hour', () => {
+            const roleGuaranteedSA = mockRole('roleGuaranteedSA', 'SA', 2, [{
+                ...mockRoleConfig('cfgGuaranteedSa', 'sa', 0, { receivesTipout: true, paysTipout: false, distributionGroup: 'support' }),
+                distributionMinimumHourly: 5,
+            }]);
+            const shifts = [
+                mockShift('s1', empDylan, mockRole('roleSaPayer', 'Server', 3, [mockRoleConfig('cfgSrvSa10', 'sa', 10)]), '2024-03-15', 5, 0, 100, 0),
+                mockShift('s2', empAlex, roleGuaranteedSA, '2024-03-15', 4, 0, 0, 0), // Receives 10, guaranteed 4h x $5 = 20
+            ];
+            const sa = calculateEmployeeRoleSummariesDaily(shifts).find(s => s.employeeName === 'Alex')!;
+
+            expect(sa.totalTipouts.sa).toBe(10);
+            expect(sa.totalHouseTopUp).toBe(10);
+            expect(sa.totalPayrollTips).toBe(20);
+            expect(sa.payrollTotal).toBe(28);
+            expect(calculateOverallSummary(shifts).totalHouseTopUps).toBe(10);
+
+            const [day] = explainShiftCalculations(shifts);
+            const saTrace = day.shifts.find(shift => shift.shiftId === 's2')!;
+            expect(saTrace.steps.find(step => step.kind === 'house_top_up')?.amount).toBe(10);
+            expect(saTrace.steps.reduce((acc, step) => acc + step.amount, 0)).toBe(saTrace.payrollTips);
+            expect(day.distributionGroups[0]).toEqual(expect.objectContaining({ minimumHourly: 5, houseTopUp: 10 }));
+        });
+
+        it('should not top up a group that received its minimum', () => {
+            const roleGuaranteedSA = mockRole('roleGuaranteedSA', 'SA', 2, [{
+                ...mockRoleConfig('cfgGuaranteedSa', 'sa', 0, { receivesTipout: true, paysTipout: false, distributionGroup: 'support' }),
+                distributionMinimumHourly: 5,
+            }]);
+            const shifts = [
+                mockShift('s1', empDylan, mockRole('roleSaPayer', 'Server', 3, [mockRoleConfig('cfgSrvSa10', 'sa', 10)]), '2024-03-15', 5, 0, 500, 0),
+                mockShift('s2', empAlex, roleGuaranteedSA, '2024-03-15', 4, 0, 0, 0),
+            ];
+
+            expect(calculateEmployeeRoleSummariesDaily(shifts).find(s => s.employeeName === 'Alex')!.totalHouseTopUp).toBe(0);
+        });
+    });
+
+    describe('tipout source buckets', () => {
+        const payingRole = (sourceBucket: RoleConfig['sourceBucket'], tipPoolGroup?: string) =>
+            mockRole('roleCashPayer', 'Bartender', 9, [{ ...mockRoleConfig('cfgCashHost', 'host', 10, { tipPoolGroup }), sourceBucket }]);
+        const shiftsWith = (sourceBucket: RoleConfig['sourceBucket']) => [
+            mockShift('s1', empDylan, payingRole(sourceBucket), '2024-03-15', 5, 50, 150, 0), // Pays 10% of 200 = 20
+            mockShift('s2', empAlex, roleHost, '2024-03-15', 5, 0, 0, 0),
+        ];
+        const payer = (summaries: EmployeeRoleSummary[]) => summaries.find(s => s.employeeName === 'Dylan')!;
+
+        it('should take tipouts from credit tips by default', () => {
+            const summary = payer(calculateEmployeeRoleSummariesDaily(shiftsWith(undefined)));
+
+            expect(summary.totalCashTips).toBe(50);
+            expect(summary.totalPayrollTips).toBe(130);
+            expect(summary.totalTipoutsPaidFromCash).toBe(0);
+        });
+
+        it('should take tipouts from cash first', () => {
+            const summary = payer(calculateEmployeeRoleSummariesDaily(shiftsWith('cash_first')));
+
+            expect(summary.totalCashTips).toBe(30);
+            expect(summary.totalPayrollTips).toBe(150);
+            expect(summary.totalTipoutsPaidFromCash).toBe(20);
+            expect(summary.totalTipouts.host).toBe(-20);
+        });
+
+        it('should take tipouts from cash and credit pro rata', () => {
+            const summary = payer(calculateEmployeeRoleSummariesDaily(shiftsWith('proportional')));
+
+            expect(summary.totalCashTips).toBe(45);
+            expect(summary.totalPayrollTips).toBe(135);
+        });
+
+        it('should take a pool\'s tipouts from its cash first', () => {
+            const shifts = [
+                mockShift('s1', empDylan, payingRole('cash_first', 'bar_pool'), '2024-03-15', 5, 10, 190, 0), // Pays 20
+                mockShift('s2', empRegan, payingRole('cash_first', 'bar_pool'), '2024-03-15', 5, 0, 200, 0), // Pays 20
+                mockShift('s3', empAlex, roleHost, '2024-03-15', 5, 0, 0, 0),
+            ];
+            const summaries = calculateEmployeeRoleSummariesDaily(shifts);
+
+            // Pool: 10 cash, 390 credit; 40 of tipouts take all 10 cash and 30 credit
+            expect(payer(summaries).totalCashTips).toBe(0);
+            expect(payer(summaries).totalPayrollTips).toBe(180);
+            expect(summaries.find(s => s.employeeName === 'Regan')!.totalPayrollTips).toBe(180);
+
+            const [day] = explainShiftCalculations(shifts);
+            expect(day.tipPools[0]).toEqual(expect.objectContaining({ paidFromTips: 40, paidFromCash: 10, netCreditTips: 360 }));
+        });
+
+        it('should only take the credit part of a tipout out of payroll tips in the trace', () => {
+            const [day] = explainShiftCalculations(shiftsWith('proportional'));
+            const trace = day.shifts.find(shift => shift.shiftId === 's1')!;
+
+            expect(trace.steps.find(step => step.kind === 'tipout_paid')).toEqual(expect.objectContaining({
+                amount: -15,
+                inputs: expect.objectContaining({ sourceBucket: 'proportional', paidFromCash: 5 }),
+            }));
+            expect(trace.steps.reduce((acc, step) => acc + step.amount, 0)).toBe(trace.payrollTips);
+        });
+    });
+
+    describe('base pay rate history', () => {
+        const roleWithRates = mockRole('roleRated', 'Host', 10, []);
+        const rates: PayRate[] = [
+            { rate: 10, effectiveFrom: '2024-01-01', effectiveTo: '2024-03-14', employeeId: null },
+            { rate: 12, effectiveFrom: '2024-03-15', effectiveTo: null, employeeId: null },
+        ];
+        const shiftOn = (id: string, employee: { id: string; name: string }, date: string, hours: number, payRates = rates) =>
+            ({ ...mockShift(id, employee, roleWithRates, date, hours, 0, 0, 0), payRates });
+
+        it('should pay each shift the rate in effect on its date', () => {
+            const [summary] = calculateEmployeeRoleSummariesDaily([
+                shiftOn('s1', empAlex, '2024-03-14', 5), // 5 x 10
+                shiftOn('s2', empAlex, '2024-03-15', 5), // 5 x 12
+            ]);
+
+            expect(summary.totalBasePay).toBe(110);
+            expect(summary.basePayRate).toBe(11);
+            expect(summary.payrollTotal).toBe(110);
+        });
+
+        it('should prefer an employee override over the role rate', () => {
+            const withOverride = [...rates, { rate: 15, effectiveFrom: '2024-03-01', effectiveTo: null, employeeId: empAlex.id }];
+            const summaries = calculateEmployeeRoleSummariesDaily([
+                shiftOn('s1', empAlex, '2024-03-15', 4, withOverride),
+                shiftOn('s2', empDylan, '2024-03-15', 4),
+            ]);
+
+            expect(summaries.find(s => s.employeeName === 'Alex')!.payrollTotal).toBe(60);
+            expect(summaries.find(s => s.employeeName === 'Dylan')!.payrollTotal).toBe(48);
+        });
+
+        it('should fall back to the role\'s current rate without rate history', () => {
+            const [summary] = calculateEmployeeRoleSummariesDaily([mockShift('s1', empAlex, roleWithRates, '2024-03-15', 3, 0, 0, 0)]);
+
+            expect(summary.basePayRate).toBe(10);
+            expect(summary.payrollTotal).toBe(30);
+        });
+    });
+
+    describe('minimum wage compliance', () => {
+        const busserRole = mockRole('roleBusser', 'Busser', 5, []);
+        const minimumWages = [{ minimumWage: 15, tippedWage: 5, effectiveFrom: '2024-01-01', effectiveTo: null }];
+
+        it('should include the make-up for a short workweek in payrollTotal', () => {
+            const shortfalls: WeeklyShortfall[] = [];
+            const [summary] = calculateEmployeeRoleSummariesDaily([
+                mockShift('s1', empAlex, busserRole, '2024-03-04', 4, 10, 0, 0), // $20 base + $10 cash, $60 due
+            ], { minimumWages, shortfalls });
+
+            expect(shortfalls.map(s => s.makeUp)).toEqual([30]);
+            expect(summary.totalComplianceMakeUp).toBe(30);
+            expect(summary.payrollTotal).toBe(50);
+        });
+
+        it('should owe no make-up without wage rates', () => {
+            const [summary] = calculateEmployeeRoleSummariesDaily([mockShift('s1', empAlex, busserRole, '2024-03-04', 4, 0, 0, 0)]);
+
+            expect(summary.totalComplianceMakeUp).toBe(0);
+            expect(summary.payrollTotal).toBe(20);
+        });
+    });
+
+    describe('weekly overtime', () => {
+        const hostRole = mockRole('roleHost', 'Host', 10, []);
+        const weekOfShifts = (hours: number[]) => hours.map((h, i) => mockShift(`s${i}`, empAlex, hostRole, `2024-03-0${4 + i}`, h, 0, 0, 0));
+
+        it('should include the overtime premium in payrollTotal', () => {
+            const overtime: WeeklyOvertime[] = [];
+            const [summary] = calculateEmployeeRoleSummariesDaily(weekOfShifts([10, 10, 10, 10, 5]), { overtime });
+
+            expect(overtime.map(week => week.overtimeHours)).toEqual([5]);
+            expect(summary.totalOvertimeHours).toBe(5);
+            expect(summary.totalOvertimePremium).toBe(25);
+            expect(summary.payrollTotal).toBe(475);
+        });
+
+        it('should use the configured workweek start day', () => {
+            // Friday-start weeks split Mon-Thu from Fri-Sat, so neither passes 40 hours
+            const payrollSettings = { ...DEFAULT_PAYROLL_SETTINGS, workweekStartDay: 5 };
+            const [summary] = calculateEmployeeRoleSummariesDaily(weekOfShifts([10, 10, 10, 10, 5]), { payrollSettings });
+
+            expect(summary.totalOvertimePremium).toBe(0);
+            expect(summary.payrollTotal).toBe(450);
+        });
+
+        it('should count a whole week toward overtime but pay only the part for shifts in the range', () => {
+            // Thursday and Friday are 15 of the week's 45 hours, so they take a third of its $25 premium
+            const [summary] = calculateEmployeeRoleSummariesDaily(weekOfShifts([10, 10, 10, 10, 5]), {
+                range: { startDate: '2024-03-07', endDate: '2024-03-20' },
+            });
+
+            expect(summary.totalHours).toBe(15);
+            expect(summary.totalOvertimeHours).toBe(1.67);
+            expect(summary.totalOvertimePremium).toBe(8.33);
+            expect(summary.payrollTotal).toBe(158.33);
+        });
+    });
+});
@@ -1,435 +1,1145 @@
-import { calculateTipouts, roleReceivesTipoutType, rolePaysTipoutType, getRoleDistributionGroup } from './tipoutCalculations';
+import { calculateTipouts, roleReceivesTipoutType, rolePaysTipoutType, getRoleDistributionGroup, getActiveTipoutTypes, getTipoutBasis, isTipsBasis, getBasisAmount, getTipoutStages, calculateTipoutBeforeLimits, getTipoutSourceBucket, splitTipoutBySource } from './tipoutCalculations';
+import { toCents, fromCents, allocateCents, sumCents, addMoney } from './money';
+import { findActiveConfig, getShiftTipPoolConfig, resolveBasePayRate } from './effectiveConfig';
+import { calculateWeeklyShortfalls, applyComplianceMakeUp } from './compliance';
+import { calculateWeeklyOvertime, applyOvertime } from './overtime';
+import { ShiftEarnings, DEFAULT_PAYROLL_SETTINGS, getWorkweekStart, getWorkweekEnd, isDateInRange } from './workweek';
+import { getPayPeriodRange } from './payPeriods';
 import {
   Shift,
   ReportSummary,
   EmployeeRoleSummary,
   RoleConfig,
+  TipoutType,
+  DailyRolePresence,
+  DailyCalculationTrace,
+  CalculationTraceStep,
+  DistributionWeighting,
+  PoolingWindow,
+  AbsentRecipientPolicy,
+  AbsentTipout,
+  MinimumWageRate,
+  WeeklyShortfall,
+  PayrollSettings,
+  DateRange,
+  WeeklyOvertime,
+  ReportInputs,
+  CalculatedReport,
+  ShiftTipBreakdown,
+  TipsPerHour,
 } from '@/types/reports';
 
-import { isWithinInterval, parseISO, isBefore, isEqual } from 'date-fns';
-
-// Helper function to find the active configuration for a specific type and date
-const findActiveConfig = (shift: Shift, tipoutType: string): RoleConfig | null => {
-  if (!shift.role?.configs) return null;
-  
-  const shiftDate = parseISO(shift.date); // Parse the shift date string once
-  
-  const activeConfig = shift.role.configs.find(config => {
-    if (config.tipoutType !== tipoutType) return false;
-    
-    const effectiveFrom = parseISO(config.effectiveFrom);
-    const isAfterOrOnFrom = isEqual(shiftDate, effectiveFrom) || isBefore(effectiveFrom, shiftDate);
-    if (!isAfterOrOnFrom) return false;
-    
-    if (config.effectiveTo) {
-      const effectiveTo = parseISO(config.effectiveTo);
-      const isOnOrBeforeTo = isEqual(shiftDate, effectiveTo) || isBefore(shiftDate, effectiveTo);
-      return isOnOrBeforeTo;
-    } else {
-      return true;
-    }
+/**
+ * Key of the service a shift was worked in: its day plus its service period (e.g. lunch, dinner).
+ * Presence, tip pools and distribution pools are all computed per service, so lunch and dinner
+ * crews on the same day never share. Shifts without a period share their day with each other.
+ */
+const getServiceKey = (shift: Shift): string => {
+  const date = shift.date.slice(0, 10); // YYYY-MM-DD
+  return shift.servicePeriod ? `${date}:${shift.servicePeriod.id}` : date;
+};
+
+/**
+ * Key of the pooling window a shift falls in. Shifts with the same key are pooled together:
+ * `shift` pools each service (day + service period), `day` the whole day, `week` the workweek
+ * and `pay_period` the pay period, both as set in the payroll settings.
+ */
+const getWindowKey = (shift: Shift, window: PoolingWindow, settings: PayrollSettings): string => {
+  const date = shift.date.slice(0, 10);
+  switch (window) {
+    case 'day':
+      return date;
+    case 'week':
+      return getWorkweekStart(date, settings.workweekStartDay);
+    case 'pay_period':
+      return getPayPeriodRange(date, settings.payPeriodFrequency, settings.payPeriodAnchorDate).startDate;
+    default:
+      return getServiceKey(shift);
+  }
+};
+
+/**
+ * Dates (YYYY-MM-DD) to load shifts over for a report from startDate to endDate: out to the edges of the
+ * workweeks and pay periods the range starts and ends in, so week and pay period pools take in every
+ * shift of their window even when the report covers only part of it.
+ */
+export const getPoolingRange = (startDate: string, endDate: string, settings: PayrollSettings): DateRange => {
+  const { payPeriodFrequency, payPeriodAnchorDate, workweekStartDay } = settings;
+  const weekStart = getWorkweekStart(startDate, workweekStartDay);
+  const periodStart = getPayPeriodRange(startDate, payPeriodFrequency, payPeriodAnchorDate).startDate;
+  const weekEnd = getWorkweekEnd(getWorkweekStart(endDate, workweekStartDay));
+  const periodEnd = getPayPeriodRange(endDate, payPeriodFrequency, payPeriodAnchorDate).endDate;
+  return {
+    startDate: weekStart < periodStart ? weekStart : periodStart,
+    endDate: weekEnd > periodEnd ? weekEnd : periodEnd,
+  };
+};
+
+/**
+ * Whether a shift falls within the dates being reported on. Shifts outside them are only calculated
+ * alongside for the pools and tipouts they share with the shifts inside.
+ */
+const isInRange = (shift: Shift, range?: DateRange): boolean => isDateInRange(shift.date, range);
+
+/**
+ * First and last day of the shifts actually pooled in a window
+ */
+const getWindowRange = (shifts: Shift[], window: PoolingWindow): { window: PoolingWindow; windowStart: string; windowEnd: string } => {
+  const dates = shifts.map(shift => shift.date.slice(0, 10)).sort();
+  return { window, windowStart: dates[0], windowEnd: dates[dates.length - 1] };
+};
+
+/**
+ * Pooling window of the distribution group a shift receives a tipout type through.
+ */
+const getDistributionWindow = (shift: Shift, tipoutType: TipoutType): PoolingWindow => {
+  return findActiveConfig(shift, tipoutType)?.distributionWindow ?? 'shift';
+};
+
+/**
+ * Lists every tipout type any of the given shifts has an active configuration for.
+ */
+const getTipoutTypesForShifts = (shifts: Shift[]): TipoutType[] => {
+  const types = new Set<TipoutType>();
+  shifts.forEach(shift => getActiveTipoutTypes(shift).forEach(type => types.add(type)));
+  return Array.from(types);
+};
+
+/**
+ * Determines, per shift and tipout type, whether a role RECEIVING that type worked in the same
+ * pooling window as the shift, using the window of the receiving role's distribution group.
+ */
+const getPresenceByShift = <T extends Shift>(shifts: T[], tipoutTypes: TipoutType[], settings: PayrollSettings): Map<T, DailyRolePresence> => {
+  const receiverWindows = new Map<TipoutType, Set<PoolingWindow>>();
+  const receiverKeys = new Set<string>();
+  shifts.forEach(shift => {
+    tipoutTypes.forEach(type => {
+      if (!roleReceivesTipoutType(shift, type)) return;
+      const window = getDistributionWindow(shift, type);
+      if (!receiverWindows.has(type)) receiverWindows.set(type, new Set());
+      receiverWindows.get(type)!.add(window);
+      receiverKeys.add(`${type}|${window}|${getWindowKey(shift, window, settings)}`);
+    });
+  });
+
+  const presenceByShift = new Map<T, DailyRolePresence>();
+  shifts.forEach(shift => {
+    const presence: DailyRolePresence = {};
+    tipoutTypes.forEach(type => {
+      const windows = Array.from(receiverWindows.get(type) ?? []);
+      presence[type] = windows.some(window => receiverKeys.has(`${type}|${window}|${getWindowKey(shift, window, settings)}`));
+    });
+    presenceByShift.set(shift, presence);
   });
-  
-  return activeConfig || null;
+  return presenceByShift;
 };
 
 /**
- * Finds the tipPoolGroup for a given shift based on its active config.
+ * Keeps only the tipouts this shift's role actually pays into the distribution pools.
  */
-const getShiftTipPoolGroup = (shift: Shift): string | null => {
-  // Find any active config first, then check its tipPoolGroup
-  // This assumes a role belongs entirely to one pool based on any active config.
-  // A more precise approach might find the active config for a specific *pooling type* if that were a concept.
-  if (!shift.role?.configs) return null;
-  const shiftDate = parseISO(shift.date);
-  
-  const relevantConfig = shift.role.configs.find(config => {
-     // Check date effectivity first
-     const effectiveFrom = parseISO(config.effectiveFrom);
-     const isAfterOrOnFrom = isEqual(shiftDate, effectiveFrom) || isBefore(effectiveFrom, shiftDate);
-     if (!isAfterOrOnFrom) return false;
-     if (config.effectiveTo) {
-       const effectiveTo = parseISO(config.effectiveTo);
-       const isOnOrBeforeTo = isEqual(shiftDate, effectiveTo) || isBefore(shiftDate, effectiveTo);
-       if (!isOnOrBeforeTo) return false;
-     } 
-     // If effective, check if it defines a tip pool group
-     return config.tipPoolGroup; // Return true if tipPoolGroup is defined and truthy
+const getPaidTipouts = (shift: Shift, presence: DailyRolePresence): Record<TipoutType, number> => {
+  const tipouts = calculateTipouts(shift, presence);
+  const paid: Record<TipoutType, number> = {};
+  Object.entries(tipouts).forEach(([type, amount]) => {
+    paid[type] = rolePaysTipoutType(shift, type) ? amount : 0;
   });
+  return paid;
+};
 
-  return relevantConfig?.tipPoolGroup || null;
+/**
+ * Whether this shift's tipout of the given type is taken from its tips (as opposed to its sales).
+ */
+const isPaidFromTips = (shift: Shift, tipoutType: TipoutType): boolean => isTipsBasis(getTipoutBasis(shift, tipoutType));
+
+/**
+ * Sums tipout amounts (optionally only some types) in cents.
+ */
+const sumTipoutsCents = (tipouts: Record<TipoutType, number>, filter: (type: TipoutType) => boolean = () => true): number => {
+  return Object.entries(tipouts).reduce((acc, [type, amount]) => filter(type) ? acc + toCents(amount) : acc, 0);
+};
+
+const sumTipouts = (tipouts: Record<TipoutType, number>, filter: (type: TipoutType) => boolean = () => true): number => {
+  return fromCents(sumTipoutsCents(tipouts, filter));
 };
 
 // Helper type for intermediate calculations
+// A day's copy of a shift, keeping its original tips while pooling adjusts cashTips/creditTips
+type DailyShift = Shift & {
+  originalCashTips: number;
+  originalCreditTips: number;
+};
+
+// Pool money is tracked in cents so the shares handed back out add up exactly
+type TipPool = {
+  group: string;
+  window: PoolingWindow;
+  totalCashCents: number;
+  totalCreditCents: number;
+  totalHours: number;
+  shifts: DailyShift[];
+  // Track pool's total obligation for tipouts taken from tips, and how much of it came from cash
+  totalPaidFromTipsCents: number;
+  paidFromCashCents: number;
+  weighting: DistributionWeighting;
+};
+
+// Receiving shifts of one distribution group within one pooling window
+type DistributionGroup = {
+  type: TipoutType;
+  group: string;
+  window: PoolingWindow;
+  windowKey: string;
+  shifts: DailyShift[];
+  weighting: DistributionWeighting;
+  share: number | null; // Percentage of the type's pool the group takes; null when the type is not split
+  amountCents: number; // Its part of the tipouts of this type paid within the window, plus any carried forward to it
+  carriedInCents: number; // Part of amountCents carried forward from earlier days without a receiver
+  rolledInCents: Record<TipoutType, number>; // Other tipouts rolled to this group because their receivers were absent
+  receivedCents: number[]; // What each of its shifts received from it, in the same order as shifts
+  minimumHourly: number | null; // Tipout per hour the house guarantees each of its shifts
+  houseTopUpCents: number; // Paid by the house to bring its shifts up to minimumHourly
+};
+
+// What the house paid one shift to bring it up to its distribution group's minimum guarantee
+type HouseTopUp = {
+  distribution: DistributionGroup;
+  cents: number;
+  receivedCents: number; // What the shift received from the group before the top-up
+};
+
+// A tipout paid while no one receiving its type worked, sent on by the payer's absent recipient policy
+type AbsentTipoutRouting = {
+  shift: DailyShift;
+  type: TipoutType;
+  cents: number;
+  policy: Exclude<AbsentRecipientPolicy, 'skip'>;
+  distribution: DistributionGroup | null; // Group that takes it; null when it goes to the house
+};
+
+/**
+ * Copies shifts for calculation, keeping their original tips while pooling adjusts cashTips/creditTips.
+ */
+const toDailyShifts = (shifts: Shift[]): DailyShift[] => shifts.map(s => ({
+  ...s,
+  originalCashTips: Number(s.cashTips), // Ensure numbers
+  originalCreditTips: Number(s.creditTips), // Ensure numbers
+}));
+
+/**
+ * Groups receiving shifts by DISTRIBUTION group, over each group's window.
+ * Keyed by tipout type, group and window, so a group receiving several types is not double counted.
+ */
+const buildDistributionGroups = (shifts: DailyShift[], tipoutTypes: TipoutType[], settings: PayrollSettings): Map<string, DistributionGroup> => {
+  const distributionGroups = new Map<string, DistributionGroup>();
+  shifts.forEach(shift => {
+    tipoutTypes.forEach(type => {
+      const group = getRoleDistributionGroup(shift, type);
+      if (!group) return;
+      const window = getDistributionWindow(shift, type);
+      const windowKey = getWindowKey(shift, window, settings);
+      const key = `${type}:${group}|${window}|${windowKey}`;
+      if (!distributionGroups.has(key)) {
+        // Group members share one weighting and minimum; take them from the first receiving shift's config
+        const config = findActiveConfig(shift, type);
+        distributionGroups.set(key, {
+          type,
+          group,
+          window,
+          windowKey,
+          shifts: [],
+          weighting: config?.distributionWeighting ?? 'hours',
+          share: config?.distributionShare ?? null,
+          amountCents: 0,
+          carriedInCents: 0,
+          rolledInCents: {},
+          receivedCents: [],
+          minimumHourly: config?.distributionMinimumHourly ? Number(config.distributionMinimumHourly) : null,
+          houseTopUpCents: 0,
+        });
+      }
+      const distribution = distributionGroups.get(key)!;
+      distribution.shifts.push(shift);
+      distribution.receivedCents.push(0);
+    });
+  });
+  return distributionGroups;
+};
+
+/**
+ * How a tipout is divided between the groups receiving its type in the payer's window: by the type's split
+ * percentages, spread over the groups that worked, or by each group's hours when the type is not split
+ * (or only groups left out of the split worked). Groups without hours still take an even part,
+ * so a tipout always lands in a group.
+ */
+const getGroupSplitWeights = (groups: DistributionGroup[]): number[] => {
+  const shares = groups.map(distribution => distribution.share ?? 0);
+  if (groups.every(distribution => distribution.share !== null) && sumCents(shares) > 0) return shares;
+
+  const hours = groups.map(distribution => distribution.shifts.reduce((acc, shift) => acc + Number(shift.hours), 0));
+  return hours.some(groupHours => groupHours > 0) ? hours : groups.map(() => 1);
+};
+
+/**
+ * Distribution group that takes a tipout no one receiving its type was there for:
+ * the configured group under 'roll_to_group', if it worked in its own window around the shift,
+ * or under 'carry_forward' the first group receiving the same type on a later day. With a range, a tipout is only
+ * carried from a shift inside it to a day inside it: a report never loads the shifts of the range before it, so a carry
+ * across the range's edge would be taken from the payer in one report and paid to no one in the next.
+ */
+const findAbsentTipoutGroup = (
+  shift: DailyShift,
+  tipoutType: TipoutType,
+  config: RoleConfig,
+  distributionGroups: Map<string, DistributionGroup>,
+  settings: PayrollSettings,
+  range?: DateRange
+): DistributionGroup | null => {
+  const groups = Array.from(distributionGroups.values());
+  if (config.absentPolicy === 'roll_to_group') {
+    return groups.find(distribution =>
+      distribution.group === config.absentRollToGroup && getWindowKey(shift, distribution.window, settings) === distribution.windowKey
+    ) ?? null;
+  }
+
+  if (!isInRange(shift, range)) return null;
+  const date = shift.date.slice(0, 10);
+  let next: DistributionGroup | null = null;
+  let nextStart = '';
+  for (const distribution of groups) {
+    if (distribution.type !== tipoutType) continue;
+    const { windowStart } = getWindowRange(distribution.shifts, distribution.window);
+    if (windowStart > date && isDateInRange(windowStart, range) && (!next || windowStart < nextStart)) {
+      next = distribution;
+      nextStart = windowStart;
+    }
+  }
+  return next;
+};
+
+/**
+ * Orders the tipout types being calculated into stages (see getTipoutStages). A role paying a tipout
+ * out of the tipouts it receives makes that type wait until every type the role receives is split.
+ */
+const getStagesForShifts = (shifts: Shift[], tipoutTypes: TipoutType[]): Record<TipoutType, number> => {
+  const dependencies: [TipoutType, TipoutType][] = [];
+  shifts.forEach(shift => {
+    const receivedTypes = tipoutTypes.filter(type => roleReceivesTipoutType(shift, type));
+    tipoutTypes
+      .filter(type => rolePaysTipoutType(shift, type) && getTipoutBasis(shift, type) === 'received_tipouts')
+      .forEach(paidType => receivedTypes.forEach(receivedType => dependencies.push([receivedType, paidType])));
+  });
+
+  const { stages, cycle } = getTipoutStages(tipoutTypes, dependencies);
+  if (cycle) throw new Error(`Tipouts are paid out of each other in a cycle: ${cycle.join(' → ')}`);
+  return stages;
+};
+
+/**
+ * Works out presence, distribution groups, the tipouts every shift pays and what every shift receives.
+ * Tipout types are calculated stage by stage: tipouts paid from tips or sales first, based on the shift's
+ * ORIGINAL tips/sales, then tipouts paid out of what the shift received in the stages before.
+ * A tipout no one receiving it was there for is skipped, unless the paying config's absent recipient
+ * policy sends it on: to another group, to the house, or to the next day its receivers work. When that
+ * group or day is not among the shifts being calculated (or, for a carry, not in the range), the payer keeps the tipout
+ * as if the policy were 'skip'.
+ * Paid tipouts are held between their config's floor and cap. Once every stage is split, the house tops up
+ * any shift that received less than its distribution group's minimum per hour; top-ups are not a basis for tipouts.
+ */
+const routeTipouts = (allShifts: DailyShift[], tipoutTypes: TipoutType[], settings: PayrollSettings, range?: DateRange) => {
+  const presenceByShift = getPresenceByShift(allShifts, tipoutTypes, settings);
+  const distributionGroups = buildDistributionGroups(allShifts, tipoutTypes, settings);
+  const stages = getStagesForShifts(allShifts, tipoutTypes);
+  const paidTipoutsByShift = new Map<DailyShift, Record<TipoutType, number>>(allShifts.map(shift => [shift, {}]));
+  const receivedCentsByShift = new Map<DailyShift, Record<TipoutType, number>>();
+  // What each shift had received when a tipout paid out of received tipouts was taken, keyed by its type
+  const receivedBasisByShift = new Map<DailyShift, Record<TipoutType, number>>();
+  const absentTipouts: AbsentTipoutRouting[] = [];
+  // What caps and floors changed each shift's paid tipouts by, in cents
+  const limitAdjustmentsByShift = new Map<DailyShift, Record<TipoutType, number>>();
+  const everyonePresent: DailyRolePresence = Object.fromEntries(tipoutTypes.map(type => [type, true]));
+  const isInStage = (stage: number) => (type: TipoutType) => (stages[type] ?? 0) === stage;
+
+  Array.from(new Set(Object.values(stages))).sort((a, b) => a - b).forEach(stage => {
+    // --- Tipouts paid in this stage ---
+    allShifts.forEach(shift => {
+      const receivedCents = sumCents(Object.values(receivedCentsByShift.get(shift) ?? {}));
+      const basisShift = {
+        ...shift,
+        cashTips: shift.originalCashTips,
+        creditTips: shift.originalCreditTips,
+        receivedTipouts: fromCents(receivedCents),
+      };
+      const presence = presenceByShift.get(shift) ?? {};
+      const stageTipouts = getPaidTipouts(basisShift, presence);
+      const paidTipouts = paidTipoutsByShift.get(shift)!;
+
+      Object.keys(stageTipouts).filter(isInStage(stage)).forEach(type => {
+        paidTipouts[type] = stageTipouts[type];
+        if (getTipoutBasis(shift, type) === 'received_tipouts') {
+          receivedBasisByShift.set(shift, { ...receivedBasisByShift.get(shift), [type]: fromCents(receivedCents) });
+        }
+
+        if (presence[type] || !rolePaysTipoutType(shift, type)) return;
+        const config = findActiveConfig(shift, type);
+        const policy = config?.absentPolicy ?? 'skip';
+        if (!config || policy === 'skip') return;
+
+        const distribution = policy === 'house' ? null : findAbsentTipoutGroup(shift, type, config, distributionGroups, settings, range);
+        if (policy !== 'house' && !distribution) return;
+
+        const cents = toCents(getPaidTipouts(basisShift, everyonePresent)[type] || 0);
+        if (cents === 0) return;
+        paidTipouts[type] = fromCents(cents);
+        absentTipouts.push({ shift, type, cents, policy, distribution });
+      });
+
+      Object.keys(stageTipouts).filter(isInStage(stage)).forEach(type => {
+        if (!paidTipouts[type]) return;
+        const adjustmentCents = toCents(paidTipouts[type]) - toCents(calculateTipoutBeforeLimits(basisShift, type));
+        if (adjustmentCents !== 0) limitAdjustmentsByShift.set(shift, { ...limitAdjustmentsByShift.get(shift), [type]: adjustmentCents });
+      });
+    });
+
+    // --- Each tipout of this stage goes to the groups receiving its type in the payer's window ---
+    // When several groups receive it, it is divided between them (see getGroupSplitWeights)
+    const groupList = Array.from(distributionGroups.values());
+    allShifts.forEach(shift => {
+      Object.entries(paidTipoutsByShift.get(shift)!).filter(([type]) => isInStage(stage)(type)).forEach(([type, amount]) => {
+        const receivingGroups = groupList.filter(distribution =>
+          distribution.type === type && getWindowKey(shift, distribution.window, settings) === distribution.windowKey
+        );
+        const parts = allocateCents(toCents(amount), getGroupSplitWeights(receivingGroups));
+        receivingGroups.forEach((distribution, index) => { distribution.amountCents += parts[index]; });
+      });
+    });
+    // ...plus tipouts sent to it because their own receivers were absent
+    absentTipouts.filter(({ type }) => isInStage(stage)(type)).forEach(({ type, cents, policy, distribution }) => {
+      if (!distribution) return; // Went to the house
+      if (policy === 'carry_forward') {
+        distribution.amountCents += cents;
+        distribution.carriedInCents += cents;
+      } else {
+        distribution.rolledInCents[type] = (distribution.rolledInCents[type] || 0) + cents;
+      }
+    });
+
+    // --- Split each group's money by its weighting, keeping rolled in tipouts under their own type ---
+    // Leftover pennies go out by largest remainder
+    distributionGroups.forEach(distribution => {
+      const { type, shifts: groupShifts, weighting } = distribution;
+      const amounts: [TipoutType, number][] = Object.entries(distribution.rolledInCents).filter(([rolledType]) => isInStage(stage)(rolledType));
+      if (isInStage(stage)(type)) amounts.unshift([type, distribution.amountCents]);
+      if (amounts.length === 0) return;
+
+      const weights = getShareWeights(groupShifts, weighting, shift => findActiveConfig(shift, type)?.distributionWeight);
+      amounts.forEach(([receivedType, cents]) => {
+        const shares = allocateCents(cents, weights);
+        groupShifts.forEach((shift, index) => {
+          const received = receivedCentsByShift.get(shift) ?? {};
+          received[receivedType] = (received[receivedType] || 0) + shares[index];
+          receivedCentsByShift.set(shift, received);
+          distribution.receivedCents[index] += shares[index];
+        });
+      });
+    });
+  });
+
+  // --- The house tops up shifts that received less than their group's minimum per hour ---
+  const houseTopUpsByShift = new Map<DailyShift, HouseTopUp[]>();
+  distributionGroups.forEach(distribution => {
+    if (!distribution.minimumHourly) return;
+    distribution.shifts.forEach((shift, index) => {
+      const receivedCents = distribution.receivedCents[index];
+      const cents = toCents(distribution.minimumHourly! * Number(shift.hours)) - receivedCents;
+      if (cents <= 0) return;
+      distribution.houseTopUpCents += cents;
+      houseTopUpsByShift.set(shift, [...(houseTopUpsByShift.get(shift) ?? []), { distribution, cents, receivedCents }]);
+    });
+  });
+
+  return {
+    presenceByShift,
+    distributionGroups,
+    stages,
+    paidTipoutsByShift,
+    receivedCentsByShift,
+    receivedBasisByShift,
+    absentTipouts,
+    limitAdjustmentsByShift,
+    houseTopUpsByShift,
+  };
+};
+
+/**
+ * Describes where an absent recipient's tipout went, for the report
+ */
+const toAbsentTipout = ({ shift, type, cents, policy, distribution }: AbsentTipoutRouting): AbsentTipout => ({
+  shiftId: shift.id,
+  date: shift.date.slice(0, 10),
+  employeeName: shift.employee?.name ?? '',
+  roleName: shift.role?.name ?? '',
+  tipoutType: type,
+  amount: fromCents(cents),
+  policy,
+  group: distribution?.group ?? null,
+  receivedDate: distribution ? getWindowRange(distribution.shifts, distribution.window).windowStart : null,
+});
+
+/**
+ * Where an absent recipient's tipout went, as shown in the calculation trace
+ */
+const describeAbsentTipout = (routing: AbsentTipoutRouting): string => {
+  const { group, receivedDate } = toAbsentTipout(routing);
+  switch (routing.policy) {
+    case 'house':
+      return 'house';
+    case 'roll_to_group':
+      return `rolled to ${group}`;
+    case 'carry_forward':
+      return `carried to ${group} on ${receivedDate}`;
+  }
+};
+
+/**
+ * Weights used to split a tip pool or distribution group between its shifts.
+ * `getWeight` returns the role's points per hour or fixed percentage from the config placing the shift in the pool.
+ * When the weights come to nothing (no percentages set, every role on 0 points, or no hours worked), the shifts
+ * share equally instead, so the money paid in always goes out.
+ */
+const getShareWeights = (
+  shifts: DailyShift[],
+  weighting: DistributionWeighting,
+  getWeight: (shift: DailyShift) => number | null | undefined
+): number[] => {
+  const weights = getWeightingShares(shifts, weighting, getWeight);
+  return weights.some(weight => weight > 0) ? weights : getWeightingShares(shifts, 'equal', getWeight);
+};
+
+const getWeightingShares = (
+  shifts: DailyShift[],
+  weighting: DistributionWeighting,
+  getWeight: (shift: DailyShift) => number | null | undefined
+): number[] => {
+  switch (weighting) {
+    case 'points':
+      // Points per hour default to 1, which is the same as splitting by hours
+      return shifts.map(shift => Number(shift.hours) * Number(getWeight(shift) ?? 1));
+    case 'equal': {
+      // One share per employee, divided between their shifts in the pool
+      const shiftsPerEmployee = new Map<string, number>();
+      shifts.forEach(shift => {
+        const key = shift.employee?.id ?? shift.id;
+        shiftsPerEmployee.set(key, (shiftsPerEmployee.get(key) || 0) + 1);
+      });
+      return shifts.map(shift => 1 / shiftsPerEmployee.get(shift.employee?.id ?? shift.id)!);
+    }
+    case 'fixed_percentage': {
+      // Each role's percentage is divided between its shifts by hours; percentages of roles
+      // that did not work are spread over the roles that did
+      const roleHours = new Map<string, number>();
+      shifts.forEach(shift => roleHours.set(shift.role.name, (roleHours.get(shift.role.name) || 0) + Number(shift.hours)));
+      return shifts.map(shift => {
+        const hours = roleHours.get(shift.role.name) || 0;
+        return hours > 0 ? Number(getWeight(shift) ?? 0) * Number(shift.hours) / hours : 0;
+      });
+    }
+    default:
+      return shifts.map(shift => Number(shift.hours));
+  }
+};
+
 type ProcessedShift = Shift & {
   originalCashTips: number;
   originalCreditTips: number;
   tipPoolGroup: string | null;
-  // Store calculated paid/received amounts for THIS shift
-  paidBarTipout: number;
-  paidHostTipout: number;
-  paidSaTipout: number;
-  receivedBarTipout: number;
-  receivedHostTipout: number;
-  receivedSaTipout: number;
+  tipPoolWindow: PoolingWindow | null;
+  tipoutWindows: Record<TipoutType, PoolingWindow>; // Window of each distribution group the shift received from
+  // Store calculated paid/received amounts for THIS shift, keyed by tipout type
+  paidTipouts: Record<TipoutType, number>;
+  receivedTipouts: Record<TipoutType, number>;
+  limitAdjustments: Record<TipoutType, number>; // What caps and floors changed paidTipouts by
+  houseTopUp: number; // Paid by the house to meet distribution group minimums
+  paidFromCash: number; // Part of the tipouts this shift paid itself that came out of its cash
   payrollTips: number; // Calculated based on pooled/adjusted tips + net tipouts/payments
 };
 
 /**
  * Calculates the overall summary report for a given set of shifts.
+ * With a range, shifts outside it are only routed alongside, and only the shifts inside are totalled.
  * Note: Averages calculated here might be less meaningful if pooling is done daily.
  */
-export const calculateOverallSummary = (shiftsToProcess: Shift[]): ReportSummary => {
+export const calculateOverallSummary = (
+  shiftsToProcess: Shift[],
+  options: Pick<CalculationOptions, 'payrollSettings' | 'range'> = {}
+): ReportSummary => {
   const summary: ReportSummary = {
     totalShifts: 0,
     totalHours: 0,
     totalCashTips: 0,
     totalCreditTips: 0,
     totalLiquorSales: 0,
-    totalBarTipoutPaid: 0,
-    totalHostTipoutPaid: 0,
-    totalSaTipoutPaid: 0,
-    barTipsPerHour: 0,
-    serverTipsPerHour: 0,
-    barCashTipsPerHour: 0,
-    barCreditTipsPerHour: 0,
-    serverCashTipsPerHour: 0,
-    serverCreditTipsPerHour: 0,
+    totalTipoutsPaid: {},
+    absentTipouts: [],
+    totalTipoutLimitAdjustments: {},
+    totalHouseTopUps: 0,
+    receiverTipsPerHour: {},
+    payerTipsPerHour: { cash: 0, payroll: 0, total: 0 },
   };
 
-  if (shiftsToProcess.length === 0) {
+  const reportShifts = shiftsToProcess.filter(shift => isInRange(shift, options.range));
+  if (reportShifts.length === 0) {
     return summary; // Return empty summary if no shifts
   }
 
-  // Determine role presence for each day within the processed shifts
-  const dailyRolePresence = new Map<string, { hasHost: boolean; hasSA: boolean; hasBar: boolean }>();
-  shiftsToProcess.forEach(shift => {
-    const date = shift.date.slice(0, 10); // Use YYYY-MM-DD as key
-    if (!dailyRolePresence.has(date)) {
-      dailyRolePresence.set(date, { hasHost: false, hasSA: false, hasBar: false });
-    }
-    const dailyInfo = dailyRolePresence.get(date)!;
-    // Check RECEIVING roles to determine presence for payout calculation
-    if (roleReceivesTipoutType(shift, 'host')) dailyInfo.hasHost = true;
-    if (roleReceivesTipoutType(shift, 'sa')) dailyInfo.hasSA = true;
-    if (roleReceivesTipoutType(shift, 'bar')) dailyInfo.hasBar = true;
+  const tipoutTypes = getTipoutTypesForShifts(reportShifts);
+  tipoutTypes.forEach(type => { summary.totalTipoutsPaid[type] = 0; });
+
+  // Tipouts paid by a shift, based on its original tips/sales, whether a receiver worked in its window
+  // and, when none did, the payer's absent recipient policy
+  const allShifts = toDailyShifts(shiftsToProcess);
+  const { paidTipoutsByShift, absentTipouts, limitAdjustmentsByShift, houseTopUpsByShift } = routeTipouts(
+    allShifts,
+    getTipoutTypesForShifts(shiftsToProcess),
+    options.payrollSettings ?? DEFAULT_PAYROLL_SETTINGS,
+    options.range
+  );
+  const dailyShiftByShift = new Map(shiftsToProcess.map((shift, index) => [shift, allShifts[index]]));
+  const getShiftPaidTipouts = (shift: Shift) => paidTipoutsByShift.get(dailyShiftByShift.get(shift)!) ?? {};
+  summary.absentTipouts = absentTipouts.filter(({ shift }) => isInRange(shift, options.range)).map(toAbsentTipout);
+
+  // Caps, floors and house top-ups, reported apart from the tipouts they are part of
+  const limitAdjustmentCents: Record<TipoutType, number> = {};
+  limitAdjustmentsByShift.forEach((adjustments, shift) => {
+    if (!isInRange(shift, options.range)) return;
+    Object.entries(adjustments).forEach(([type, cents]) => {
+      limitAdjustmentCents[type] = (limitAdjustmentCents[type] || 0) + cents;
+    });
   });
+  summary.totalTipoutLimitAdjustments = Object.fromEntries(
+    Object.entries(limitAdjustmentCents).map(([type, cents]) => [type, fromCents(cents)])
+  );
+  summary.totalHouseTopUps = fromCents(sumCents(
+    Array.from(houseTopUpsByShift.entries())
+      .filter(([shift]) => isInRange(shift, options.range))
+      .flatMap(([, topUps]) => topUps.map(({ cents }) => cents))
+  ));
 
-  // Process all shifts for basic totals and calculate total tipouts paid into pools
-  shiftsToProcess.forEach(shift => {
+  // Process all shifts for basic totals and calculate total tipouts paid into pools (money summed in cents)
+  let totalCashCents = 0;
+  let totalCreditCents = 0;
+  let totalLiquorSalesCents = 0;
+  const tipoutsPaidCents: Record<TipoutType, number> = {};
+  reportShifts.forEach(shift => {
     summary.totalShifts += 1;
     summary.totalHours += Number(shift.hours);
-    summary.totalCashTips += Number(shift.cashTips);
-    summary.totalCreditTips += Number(shift.creditTips);
-    summary.totalLiquorSales += Number(shift.liquorSales);
-
-    // Determine if tipouts should be calculated based on daily presence
-    const date = shift.date.slice(0, 10);
-    const dailyInfo = dailyRolePresence.get(date) ?? { hasHost: false, hasSA: false, hasBar: false };
-    // Use original tips/sales to calculate the *contribution* amount
-    const shiftWithOriginalTips = {
-        ...shift,
-        cashTips: Number(shift.cashTips),
-        creditTips: Number(shift.creditTips)
-    };
-    const { barTipout, hostTipout, saTipout } = calculateTipouts(shiftWithOriginalTips, dailyInfo.hasHost, dailyInfo.hasSA, dailyInfo.hasBar);
+    totalCashCents += toCents(shift.cashTips);
+    totalCreditCents += toCents(shift.creditTips);
+    totalLiquorSalesCents += toCents(shift.liquorSales);
 
     // Accumulate total tipouts paid *by* relevant roles
-    if (rolePaysTipoutType(shift, 'bar')) {
-        summary.totalBarTipoutPaid += barTipout;
-    }
-    if (rolePaysTipoutType(shift, 'host')) {
-        summary.totalHostTipoutPaid += hostTipout;
-    }
-    if (rolePaysTipoutType(shift, 'sa')) {
-        summary.totalSaTipoutPaid += saTipout;
-    }
+    Object.entries(getShiftPaidTipouts(shift)).forEach(([type, amount]) => {
+      tipoutsPaidCents[type] = (tipoutsPaidCents[type] || 0) + toCents(amount);
+    });
+  });
+  summary.totalCashTips = fromCents(totalCashCents);
+  summary.totalCreditTips = fromCents(totalCreditCents);
+  summary.totalLiquorSales = fromCents(totalLiquorSalesCents);
+  Object.entries(tipoutsPaidCents).forEach(([type, cents]) => {
+    summary.totalTipoutsPaid[type] = fromCents(cents);
   });
 
   // --- Calculate Average Rates (Use with caution if using daily pooling) ---
   // These averages are calculated across the entire range.
-  const barShifts = shiftsToProcess.filter(shift => roleReceivesTipoutType(shift, 'bar'));
-  const serverShifts = shiftsToProcess.filter(shift => {
-    // Simple definition: Pays bar tipout but doesn't receive bar/host/sa
-    return rolePaysTipoutType(shift, 'bar') &&
-           !roleReceivesTipoutType(shift, 'bar') &&
-           !roleReceivesTipoutType(shift, 'host') &&
-           !roleReceivesTipoutType(shift, 'sa');
+  const getTipsPerHour = (shifts: Shift[], payrollTips: number): TipsPerHour => {
+    const hours = shifts.reduce((acc, shift) => acc + Number(shift.hours), 0);
+    const cashTips = shifts.reduce((acc, shift) => acc + Number(shift.cashTips), 0);
+    if (hours <= 0) return { cash: 0, payroll: 0, total: 0 };
+    return { cash: cashTips / hours, payroll: payrollTips / hours, total: (cashTips + payrollTips) / hours };
+  };
+  // Credit tips less the tipouts each shift paid, of every type or only those paid from tips (e.g. Host/SA)
+  const creditAfterTipouts = (shifts: Shift[], filter: (shift: Shift, type: TipoutType) => boolean) =>
+    shifts.reduce((acc, shift) => acc + Number(shift.creditTips) - sumTipouts(getShiftPaidTipouts(shift), type => filter(shift, type)), 0);
+
+  // Receivers of each type: CreditTips - PaidOut(tips-based) + ReceivedPool(type)
+  tipoutTypes.forEach(type => {
+    const receivers = reportShifts.filter(shift => roleReceivesTipoutType(shift, type));
+    summary.receiverTipsPerHour[type] = getTipsPerHour(receivers, creditAfterTipouts(receivers, isPaidFromTips) + summary.totalTipoutsPaid[type]);
   });
 
-  const barHours = barShifts.reduce((acc, shift) => acc + Number(shift.hours), 0);
-  const serverHours = serverShifts.reduce((acc, shift) => acc + Number(shift.hours), 0);
-
-  const barCashTips = barShifts.reduce((acc, shift) => acc + Number(shift.cashTips), 0);
-  const barCreditTips = barShifts.reduce((acc, shift) => acc + Number(shift.creditTips), 0);
-  const serverCashTips = serverShifts.reduce((acc, shift) => acc + Number(shift.cashTips), 0);
-  const serverCreditTips = serverShifts.reduce((acc, shift) => acc + Number(shift.creditTips), 0);
-
-  // Bartender tipouts paid to Host/SA (based on original tips/sales)
-  const bartenderHostSATipouts = barShifts.reduce((acc, shift) => {
-      const date = shift.date.slice(0, 10);
-      const dailyInfo = dailyRolePresence.get(date) ?? { hasHost: false, hasSA: false, hasBar: false };
-      const shiftWithOriginalTips = { ...shift, cashTips: Number(shift.cashTips), creditTips: Number(shift.creditTips) };
-      const { hostTipout, saTipout } = calculateTipouts(shiftWithOriginalTips, dailyInfo.hasHost, dailyInfo.hasSA, dailyInfo.hasBar);
-      let paid = 0;
-      if (rolePaysTipoutType(shift, 'host')) paid += hostTipout;
-      if (rolePaysTipoutType(shift, 'sa')) paid += saTipout;
-      return acc + paid;
-    }, 0);
-
-  // Server tipouts paid to Host/SA (based on original tips/sales)
-  const serverHostSATipouts = serverShifts.reduce((sum, shift) => {
-    const date = shift.date.slice(0, 10);
-    const dailyInfo = dailyRolePresence.get(date) ?? { hasHost: false, hasSA: false, hasBar: false };
-    const shiftWithOriginalTips = { ...shift, cashTips: Number(shift.cashTips), creditTips: Number(shift.creditTips) };
-    const { hostTipout, saTipout } = calculateTipouts(shiftWithOriginalTips, dailyInfo.hasHost, dailyInfo.hasSA, dailyInfo.hasBar);
-    let paid = 0;
-    if (rolePaysTipoutType(shift, 'host')) paid += hostTipout;
-    if (rolePaysTipoutType(shift, 'sa')) paid += saTipout;
-    return sum + paid;
-  }, 0);
-
-  // Calculate Payroll Tips for average rate calculation
-  const barPayrollTips = barCreditTips - bartenderHostSATipouts + summary.totalBarTipoutPaid; // CreditTips - PaidOut(Host/SA) + ReceivedPool(Bar)
-  const serverPayrollTips = serverCreditTips - serverHostSATipouts - summary.totalBarTipoutPaid; // CreditTips - PaidOut(Host/SA) - PaidOut(Bar)
-
-  // Calculate per-hour rates (Averages over the period)
-  summary.barCashTipsPerHour = barHours > 0 ? barCashTips / barHours : 0;
-  summary.barCreditTipsPerHour = barHours > 0 ? barPayrollTips / barHours : 0;
-  summary.barTipsPerHour = barHours > 0 ? (barCashTips + barPayrollTips) / barHours : 0;
-
-  summary.serverCashTipsPerHour = serverHours > 0 ? serverCashTips / serverHours : 0;
-  summary.serverCreditTipsPerHour = serverHours > 0 ? serverPayrollTips / serverHours : 0;
-  summary.serverTipsPerHour = serverHours > 0 ? (serverCashTips + serverPayrollTips) / serverHours : 0;
+  // Payers (pay a tipout type but receive none): CreditTips - PaidOut(every type)
+  const payers = reportShifts.filter(shift =>
+    tipoutTypes.some(type => rolePaysTipoutType(shift, type)) && !tipoutTypes.some(type => roleReceivesTipoutType(shift, type))
+  );
+  summary.payerTipsPerHour = getTipsPerHour(payers, creditAfterTipouts(payers, () => true));
 
   return summary;
 };
 
 /**
- * Calculates employee/role summaries, performing tip pooling and distribution daily.
+ * Lists the steps that took a shift from the tips it collected to its payroll tips.
+ * Step amounts add up to the shift's payroll tips; tips-based tipouts of a pooled shift
+ * are shown with amount 0 because they are deducted from the pool as a whole.
  */
-export const calculateEmployeeRoleSummariesDaily = (shiftsToProcess: Shift[]): EmployeeRoleSummary[] => {
-  const dailyProcessedShifts: ProcessedShift[] = [];
+const buildShiftTraceSteps = (shift: DailyShift, context: {
+  paidTipouts: Record<TipoutType, number>;
+  receivedTipouts: Record<TipoutType, number>;
+  presence: DailyRolePresence;
+  stages: Record<TipoutType, number>;
+  receivedBasis: Record<TipoutType, number>;
+  absentTipouts: AbsentTipoutRouting[];
+  limitAdjustments: Record<TipoutType, number>;
+  houseTopUps: HouseTopUp[];
+  paidFromCash: Record<TipoutType, number>; // Cents of each tipout the shift paid itself from cash
+  pool?: TipPool;
+  distributionGroups: DailyCalculationTrace['distributionGroups'];
+}): CalculationTraceStep[] => {
+  const { paidTipouts, receivedTipouts, presence, absentTipouts, limitAdjustments, houseTopUps, pool } = context;
+  const steps: CalculationTraceStep[] = [];
+  const originalShift = { ...shift, cashTips: shift.originalCashTips, creditTips: shift.originalCreditTips };
 
-  // Get unique dates from the shifts to process
-  const uniqueDates = Array.from(new Set(shiftsToProcess.map(shift => shift.date.slice(0, 10))));
-
-  // --- Process Day by Day ---
-  uniqueDates.forEach(date => {
-    const originalDailyShifts = shiftsToProcess.filter(shift => shift.date.slice(0, 10) === date);
-    if (originalDailyShifts.length === 0) return; // Skip if no shifts on this date
-
-    // --- 0. PREPARE: Create copies with original tips preserved ---
-    // We need original tips for calculating tipouts PAID, but will modify tips for pooling.
-    const dailyShifts: (Shift & { originalCashTips: number, originalCreditTips: number })[] = originalDailyShifts.map(s => ({
-        ...s,
-        originalCashTips: Number(s.cashTips), // Ensure numbers
-        originalCreditTips: Number(s.creditTips), // Ensure numbers
-    }));
-
-    // --- 1. TIP POOLING (Based on tipPoolGroup) ---
-    const tipPools = new Map<string, {
-      totalCashTips: number;
-      totalCreditTips: number;
-      totalHours: number;
-      shifts: (Shift & { originalCashTips: number, originalCreditTips: number })[];
-      // Add fields to track pool's total tipout obligations
-      totalPaidBarTipout: number;
-      totalPaidHostTipout: number;
-      totalPaidSaTipout: number;
-    }>();
-
-    // Determine daily role presence first (needed for pool tipout calculation)
-    let dailyHasHost = false;
-    let dailyHasSA = false;
-    let dailyHasBar = false;
-    dailyShifts.forEach(shift => {
-      // Check if an active config exists for the type and receivesTipout is not explicitly false
-      if (roleReceivesTipoutType(shift, 'host')) dailyHasHost = true;
-      if (roleReceivesTipoutType(shift, 'sa')) dailyHasSA = true;
-      if (roleReceivesTipoutType(shift, 'bar')) dailyHasBar = true;
+  steps.push({
+    kind: 'original_tips',
+    label: pool ? 'tips collected (pooled)' : 'credit tips collected',
+    amount: pool ? 0 : shift.originalCreditTips,
+    configIds: [],
+    inputs: {
+      hours: Number(shift.hours),
+      cashTips: shift.originalCashTips,
+      creditTips: shift.originalCreditTips,
+    },
+  });
+
+  Object.entries(paidTipouts).forEach(([type, paid]) => {
+    const config = findActiveConfig(shift, type);
+    if (!config || !rolePaysTipoutType(shift, type)) return;
+
+    const basis = getTipoutBasis(shift, type);
+    const paidFromPool = !!pool && isPaidFromTips(shift, type);
+    const absentTipout = absentTipouts.find(routing => routing.type === type);
+    const limitAdjustmentCents = limitAdjustments[type] || 0;
+    const paidFromCashCents = context.paidFromCash[type] || 0;
+    const sourceBucket = getTipoutSourceBucket(shift, type);
+    steps.push({
+      kind: 'tipout_paid',
+      label: paidFromPool ? `${type} tipout paid (deducted from tip pool)` : `${type} tipout paid`,
+      // Only the part paid from credit comes out of payroll tips
+      amount: paidFromPool ? 0 : -fromCents(toCents(paid) - paidFromCashCents),
+      tipoutType: type,
+      rate: Number(config.percentageRate),
+      configIds: [config.id],
+      inputs: {
+        basis,
+        basisAmount: basis === 'received_tipouts' ? context.receivedBasis[type] ?? 0 : getBasisAmount(originalShift, basis),
+        ...(context.stages[type] ? { stage: context.stages[type] } : {}),
+        receiverPresent: !!presence[type],
+        ...(limitAdjustmentCents ? {
+          calculatedAmount: fromCents(toCents(paid) - limitAdjustmentCents),
+          limit: limitAdjustmentCents < 0 ? 'cap' : 'floor',
+        } : {}),
+        tipoutAmount: paid,
+        paidFrom: paidFromPool ? 'pool' : 'individual',
+        ...(sourceBucket !== 'credit' ? { sourceBucket } : {}),
+        ...(paidFromCashCents ? { paidFromCash: fromCents(paidFromCashCents) } : {}),
+        ...(absentTipout ? { absentPolicy: absentTipout.policy, paidTo: describeAbsentTipout(absentTipout) } : {}),
+      },
     });
+  });
 
-    // Group shifts into pools and calculate pool's gross tips/hours
-    dailyShifts.forEach(shift => {
-      const poolGroup = getShiftTipPoolGroup(shift);
-      if (poolGroup) {
-        if (!tipPools.has(poolGroup)) {
-          tipPools.set(poolGroup, {
-            totalCashTips: 0,
-            totalCreditTips: 0,
-            totalHours: 0,
-            shifts: [],
-            totalPaidBarTipout: 0,
-            totalPaidHostTipout: 0,
-            totalPaidSaTipout: 0
-          });
-        }
-        const pool = tipPools.get(poolGroup)!;
-        pool.totalCashTips += shift.originalCashTips; // Pool based on original collected tips
-        pool.totalCreditTips += shift.originalCreditTips;
-        pool.totalHours += Number(shift.hours);
-        pool.shifts.push(shift);
-      }
-      // Shifts not in a pool are processed later individually
+  if (pool) {
+    const poolConfig = getShiftTipPoolConfig(shift);
+    steps.push({
+      kind: 'pool_share',
+      label: `share of ${poolConfig?.tipPoolGroup ?? 'tip'} pool`,
+      amount: shift.creditTips,
+      configIds: poolConfig ? [poolConfig.id] : [],
+      inputs: {
+        group: poolConfig?.tipPoolGroup ?? null,
+        window: pool.window,
+        weighting: pool.weighting,
+        weight: poolConfig?.poolWeight ?? null,
+        shiftHours: Number(shift.hours),
+        poolHours: pool.totalHours,
+        poolCashTips: fromCents(pool.totalCashCents),
+        poolCreditTips: fromCents(pool.totalCreditCents),
+        poolPaidFromTips: fromCents(pool.totalPaidFromTipsCents),
+        poolPaidFromCash: fromCents(pool.paidFromCashCents),
+        poolNetCreditTips: fromCents(pool.totalCreditCents - (pool.totalPaidFromTipsCents - pool.paidFromCashCents)),
+        cashShare: shift.cashTips,
+        creditShare: shift.creditTips,
+      },
     });
+  }
 
-    // Calculate total tipouts paid BY each pool and then the net rates
-    tipPools.forEach((pool) => {
-      // Calculate total tipouts paid by this pool's shifts using ORIGINAL tips
-      pool.shifts.forEach(shiftInPool => {
-        const shiftWithOriginalTips = {
-          ...shiftInPool,
-          cashTips: shiftInPool.originalCashTips,
-          creditTips: shiftInPool.originalCreditTips
-        };
-        const { barTipout, hostTipout, saTipout } = calculateTipouts(shiftWithOriginalTips, dailyHasHost, dailyHasSA, dailyHasBar);
-        // Accumulate tipouts the POOL is responsible for paying out
-        if (rolePaysTipoutType(shiftInPool, 'bar')) pool.totalPaidBarTipout += barTipout;
-        if (rolePaysTipoutType(shiftInPool, 'host')) pool.totalPaidHostTipout += hostTipout;
-        if (rolePaysTipoutType(shiftInPool, 'sa')) pool.totalPaidSaTipout += saTipout;
+  Object.entries(receivedTipouts).forEach(([type, received]) => {
+    const group = getRoleDistributionGroup(shift, type);
+    const config = findActiveConfig(shift, type);
+    if (!group || !config) {
+      // Tipouts of a type this role does not receive can still be rolled to one of its groups
+      const rolledTo = context.distributionGroups.find(entry =>
+        entry.rolledIn[type] && getRoleDistributionGroup(shift, entry.tipoutType) === entry.group
+      );
+      if (!rolledTo || received === 0) return;
+      const groupConfig = findActiveConfig(shift, rolledTo.tipoutType);
+      steps.push({
+        kind: 'tipout_received',
+        label: `${type} tipout received (rolled to ${rolledTo.group})`,
+        amount: received,
+        tipoutType: type,
+        configIds: groupConfig ? [groupConfig.id] : [],
+        inputs: {
+          group: rolledTo.group,
+          window: rolledTo.window,
+          weighting: rolledTo.weighting,
+          weight: groupConfig?.distributionWeight ?? null,
+          shiftHours: Number(shift.hours),
+          groupHours: rolledTo.totalHours,
+          poolAmount: rolledTo.rolledIn[type],
+        },
       });
+      return;
+    }
 
-      // Calculate NET pool tips (assuming tipouts paid from credit)
-      // Pool pays Host and SA tipouts. Bar tipout is paid individually.
-      const poolNetCashTips = pool.totalCashTips;
-      const poolNetCreditTips = pool.totalCreditTips - pool.totalPaidHostTipout - pool.totalPaidSaTipout;
-
-      if (pool.totalHours > 0) {
-        const netPoolCashRate = poolNetCashTips / pool.totalHours;
-        const netPoolCreditRate = poolNetCreditTips / pool.totalHours;
+    const distribution = context.distributionGroups.find(entry => entry.tipoutType === type && entry.group === group);
+    steps.push({
+      kind: 'tipout_received',
+      label: `${type} tipout received (${group})`,
+      amount: received,
+      tipoutType: type,
+      configIds: [config.id],
+      inputs: {
+        group,
+        window: distribution?.window ?? 'shift',
+        weighting: distribution?.weighting ?? 'hours',
+        weight: config.distributionWeight ?? null,
+        shiftHours: Number(shift.hours),
+        groupHours: distribution?.totalHours ?? 0,
+        poolAmount: distribution?.amount ?? 0,
+        ...(distribution?.share != null ? { groupShare: distribution.share } : {}),
+        ...(distribution?.carriedIn ? { carriedIn: distribution.carriedIn } : {}),
+      },
+    });
+  });
 
-        // Adjust each shift's tips to reflect their NET share of the pool
-        pool.shifts.forEach(shift => {
-          shift.cashTips = Number(shift.hours) * netPoolCashRate; // NET cash share
-          shift.creditTips = Number(shift.hours) * netPoolCreditRate; // NET credit share (after pool deductions)
-          console.log(`Shift ${shift.id} (${shift.role?.name}) NET adjusted tips: Cash=$${shift.cashTips.toFixed(2)}, Credit=$${shift.creditTips.toFixed(2)} from NET pool rate`);
-        });
-      } else {
-         pool.shifts.forEach(shift => {
-            shift.cashTips = 0;
-            shift.creditTips = 0;
-         });
-      }
+  houseTopUps.forEach(({ distribution, cents, receivedCents }) => {
+    const config = findActiveConfig(shift, distribution.type);
+    steps.push({
+      kind: 'house_top_up',
+      label: `house top-up to ${distribution.group} minimum`,
+      amount: fromCents(cents),
+      tipoutType: distribution.type,
+      configIds: config ? [config.id] : [],
+      inputs: {
+        group: distribution.group,
+        minimumHourly: distribution.minimumHourly,
+        shiftHours: Number(shift.hours),
+        guaranteed: fromCents(receivedCents + cents),
+        received: fromCents(receivedCents),
+      },
     });
-    // Shifts NOT in a pool retain their original cashTips/creditTips at this stage.
+  });
+
+  return steps;
+};
 
-    // --- 2. Calculate total daily tipout pools (paid INTO distribution pools) ---
-    // Calculated based on ORIGINAL performance of ALL shifts.
-    let dailyBarTipoutPool = 0;
-    let dailyHostTipoutPool = 0;
-    let dailySATipoutPool = 0;
+type CalculationOptions = {
+  // When given, one entry per day and service period is pushed describing how every shift's payroll tips were reached
+  trace?: DailyCalculationTrace[];
+  // Minimum and tipped wage rates to hold each employee's workweeks to; no make-up is owed without them
+  minimumWages?: MinimumWageRate[];
+  // When given, every workweek an employee fell short of the minimum wage is pushed here
+  shortfalls?: WeeklyShortfall[];
+  // Workweek start day and overtime rules. Defaults to Monday workweeks with time and a half past 40 hours.
+  payrollSettings?: PayrollSettings;
+  // When given, every workweek an employee worked overtime is pushed here
+  overtime?: WeeklyOvertime[];
+  // When given, where each shift's tips went is pushed here, for tip statements
+  shiftTips?: ShiftTipBreakdown[];
+  // Dates being reported on. Shifts outside them still pool and route tipouts with the shifts inside
+  // (see getPoolingRange) and count toward their workweeks, but are left out of the trace, summaries and shift tips.
+  range?: DateRange;
+};
 
-    dailyShifts.forEach(shift => {
-      const shiftWithOriginalTips = {
-          ...shift,
-          cashTips: shift.originalCashTips,
-          creditTips: shift.originalCreditTips
-      };
-      const { barTipout, hostTipout, saTipout } = calculateTipouts(shiftWithOriginalTips, dailyHasHost, dailyHasSA, dailyHasBar);
-      if (rolePaysTipoutType(shift, 'bar')) dailyBarTipoutPool += barTipout;
-      if (rolePaysTipoutType(shift, 'host')) dailyHostTipoutPool += hostTipout;
-      if (rolePaysTipoutType(shift, 'sa')) dailySATipoutPool += saTipout;
+/**
+ * Calculates employee/role summaries. Tip pools and distribution groups are each built over
+ * their own pooling window (service, day, week or pay period); payroll tips are then worked out shift by shift.
+ */
+export const calculateEmployeeRoleSummariesDaily = (shiftsToProcess: Shift[], options: CalculationOptions = {}): EmployeeRoleSummary[] => {
+  const dailyProcessedShifts: ProcessedShift[] = [];
+
+  // --- 0. PREPARE: Create copies with original tips preserved ---
+  // We need original tips for calculating tipouts PAID, but will modify tips for pooling.
+  const allShifts = toDailyShifts(shiftsToProcess);
+  const tipoutTypes = getTipoutTypesForShifts(allShifts);
+  const payrollSettings = options.payrollSettings ?? DEFAULT_PAYROLL_SETTINGS;
+
+  // --- 1. Presence, distribution groups, and the tipouts each shift pays and receives, stage by stage (see routeTipouts) ---
+  const {
+    presenceByShift,
+    distributionGroups,
+    stages,
+    paidTipoutsByShift,
+    receivedCentsByShift,
+    receivedBasisByShift,
+    absentTipouts,
+    limitAdjustmentsByShift,
+    houseTopUpsByShift,
+  } = routeTipouts(allShifts, tipoutTypes, payrollSettings, options.range);
+  const getOriginalPaidTipouts = (shift: DailyShift) => paidTipoutsByShift.get(shift) ?? {};
+
+  // --- 2. TIP POOLING (Based on tipPoolGroup, over the pool's window) ---
+  const tipPools = new Map<string, TipPool>();
+
+  // Group shifts into pools and calculate pool's gross tips/hours
+  allShifts.forEach(shift => {
+    const poolConfig = getShiftTipPoolConfig(shift);
+    const poolGroup = poolConfig?.tipPoolGroup;
+    if (!poolConfig || !poolGroup) return; // Shifts not in a pool are processed later individually
+
+    const window = poolConfig.poolWindow ?? 'shift';
+    const key = `${poolGroup}|${getWindowKey(shift, window, payrollSettings)}`;
+    if (!tipPools.has(key)) {
+      tipPools.set(key, {
+        group: poolGroup,
+        window,
+        totalCashCents: 0,
+        totalCreditCents: 0,
+        totalHours: 0,
+        shifts: [],
+        totalPaidFromTipsCents: 0,
+        paidFromCashCents: 0,
+        // Pool members share one weighting; take it from the first shift's pool config
+        weighting: poolConfig.poolWeighting ?? 'hours',
+      });
+    }
+    const pool = tipPools.get(key)!;
+    pool.totalCashCents += toCents(shift.originalCashTips); // Pool based on original collected tips
+    pool.totalCreditCents += toCents(shift.originalCreditTips);
+    pool.totalHours += Number(shift.hours);
+    pool.shifts.push(shift);
+  });
+
+  // Calculate total tipouts paid BY each pool and then each shift's share
+  const shiftPools = new Map<DailyShift, TipPool>();
+  tipPools.forEach((pool) => {
+    // Accumulate tipouts the POOL is responsible for paying out, using ORIGINAL tips,
+    // each taken from the pool's cash or credit by the paying config's source bucket
+    pool.shifts.forEach(shiftInPool => {
+      Object.entries(getOriginalPaidTipouts(shiftInPool)).forEach(([type, amount]) => {
+        if (!isPaidFromTips(shiftInPool, type)) return;
+        const { cashCents } = splitTipoutBySource(
+          toCents(amount),
+          getTipoutSourceBucket(shiftInPool, type),
+          pool.totalCashCents - pool.paidFromCashCents,
+          pool.totalCreditCents - (pool.totalPaidFromTipsCents - pool.paidFromCashCents)
+        );
+        pool.totalPaidFromTipsCents += toCents(amount);
+        pool.paidFromCashCents += cashCents;
+      });
     });
 
-    // --- 4. Calculate daily hours for roles within DISTRIBUTION groups (for receiving tipouts) ---
-    const dailyDistributionGroupHours = new Map<string, number>();
-    dailyShifts.forEach(shift => {
-      const barGroup = getRoleDistributionGroup(shift, 'bar');
-      if (barGroup) dailyDistributionGroupHours.set(barGroup, (dailyDistributionGroupHours.get(barGroup) || 0) + Number(shift.hours));
+    // Calculate NET pool tips
+    // Pool pays tipouts based on tips (e.g. Host, SA). Tipouts based on sales (e.g. Bar) are paid individually.
+    const poolNetCashCents = pool.totalCashCents - pool.paidFromCashCents;
+    const poolNetCreditCents = pool.totalCreditCents - (pool.totalPaidFromTipsCents - pool.paidFromCashCents);
 
-      const hostGroup = getRoleDistributionGroup(shift, 'host');
-      if (hostGroup) dailyDistributionGroupHours.set(hostGroup, (dailyDistributionGroupHours.get(hostGroup) || 0) + Number(shift.hours));
+    // Split by the pool's weighting; leftover pennies go out by largest remainder.
+    // With no weight to split by (e.g. nobody logged hours) every share is zero.
+    const poolWeights = getShareWeights(pool.shifts, pool.weighting, shift => getShiftTipPoolConfig(shift)?.poolWeight);
+    const cashShares = allocateCents(poolNetCashCents, poolWeights);
+    const creditShares = allocateCents(poolNetCreditCents, poolWeights);
 
-      const saGroup = getRoleDistributionGroup(shift, 'sa');
-      if (saGroup) dailyDistributionGroupHours.set(saGroup, (dailyDistributionGroupHours.get(saGroup) || 0) + Number(shift.hours));
+    // Adjust each shift's tips to reflect their NET share of the pool
+    pool.shifts.forEach((shift, index) => {
+      shift.cashTips = fromCents(cashShares[index]); // NET cash share
+      shift.creditTips = fromCents(creditShares[index]); // NET credit share (after pool deductions)
+      shiftPools.set(shift, pool);
     });
+  });
+  // Shifts NOT in a pool retain their original cashTips/creditTips at this stage.
 
+  // --- 3. Process each service (day + service period): final payroll tips per shift ---
+  // Services outside the report's range are still worked out, for the workweeks they share with it
+  const serviceKeys = Array.from(new Set(allShifts.map(getServiceKey)));
+  serviceKeys.forEach(serviceKey => {
+    const dailyShifts = allShifts.filter(shift => getServiceKey(shift) === serviceKey);
+    if (dailyShifts.length === 0) return; // Skip if no shifts on this date
+    const date = dailyShifts[0].date.slice(0, 10);
+    const servicePeriod = dailyShifts[0].servicePeriod ?? null;
+
+    let dayTrace: DailyCalculationTrace | null = null;
+    if (options.trace && isInRange(dailyShifts[0], options.range)) {
+      // Pools and groups this service's shifts took part in; their totals cover the whole window
+      const dayPools = Array.from(new Set(dailyShifts.map(shift => shiftPools.get(shift)).filter((pool): pool is TipPool => !!pool)));
+      const dayGroups = Array.from(distributionGroups.values()).filter(distribution =>
+        distribution.shifts.some(shift => dailyShifts.includes(shift))
+      );
+      const dailyPresence: DailyRolePresence = {};
+      const dailyTipoutPoolCents: Record<TipoutType, number> = {};
+      dailyShifts.forEach(shift => {
+        Object.entries(presenceByShift.get(shift) ?? {}).forEach(([type, present]) => {
+          dailyPresence[type] = !!dailyPresence[type] || present;
+        });
+        Object.entries(getOriginalPaidTipouts(shift)).forEach(([type, amount]) => {
+          dailyTipoutPoolCents[type] = (dailyTipoutPoolCents[type] || 0) + toCents(amount);
+        });
+      });
+
+      dayTrace = {
+        date,
+        servicePeriod: servicePeriod ? { id: servicePeriod.id, name: servicePeriod.name } : null,
+        presence: dailyPresence,
+        tipoutPools: Object.fromEntries(Object.entries(dailyTipoutPoolCents).map(([type, cents]) => [type, fromCents(cents)])),
+        tipPools: dayPools.map(pool => ({
+          group: pool.group,
+          ...getWindowRange(pool.shifts, pool.window),
+          totalHours: pool.totalHours,
+          totalCashTips: fromCents(pool.totalCashCents),
+          totalCreditTips: fromCents(pool.totalCreditCents),
+          paidFromTips: fromCents(pool.totalPaidFromTipsCents),
+          paidFromCash: fromCents(pool.paidFromCashCents),
+          netCreditTips: fromCents(pool.totalCreditCents - (pool.totalPaidFromTipsCents - pool.paidFromCashCents)),
+          weighting: pool.weighting,
+        })),
+        distributionGroups: dayGroups.map(distribution => ({
+          tipoutType: distribution.type,
+          group: distribution.group,
+          ...getWindowRange(distribution.shifts, distribution.window),
+          totalHours: distribution.shifts.reduce((acc, shift) => acc + Number(shift.hours), 0),
+          amount: fromCents(distribution.amountCents),
+          weighting: distribution.weighting,
+          share: distribution.share,
+          rolledIn: Object.fromEntries(Object.entries(distribution.rolledInCents).map(([type, cents]) => [type, fromCents(cents)])),
+          carriedIn: fromCents(distribution.carriedInCents),
+          minimumHourly: distribution.minimumHourly,
+          houseTopUp: fromCents(distribution.houseTopUpCents),
+        })),
+        shifts: [],
+      };
+    }
 
-    // --- 5. Process each shift for the day: Calculate paid/received tipouts and final payroll tips ---
     dailyShifts.forEach(shift => {
       if (!shift.employee || !shift.role) return;
 
-      let payrollTips = 0;
+      let payrollTipsCents = 0;
 
-      // --- Calculate Received Tipouts (Based on daily pools and shift hours) ---
-      let receivedBar = 0;
-      let receivedHost = 0;
-      let receivedSA = 0;
-
-      if (roleReceivesTipoutType(shift, 'bar')) {
-        const distributionGroup = getRoleDistributionGroup(shift, 'bar');
-        const groupTotalHours = distributionGroup ? dailyDistributionGroupHours.get(distributionGroup) : 0;
-        if (distributionGroup && groupTotalHours && groupTotalHours > 0 && dailyBarTipoutPool > 0) {
-          receivedBar = (Number(shift.hours) / groupTotalHours) * dailyBarTipoutPool;
-        }
-      }
-      if (roleReceivesTipoutType(shift, 'host')) {
-          const distributionGroup = getRoleDistributionGroup(shift, 'host');
-          const groupTotalHours = distributionGroup ? dailyDistributionGroupHours.get(distributionGroup) : 0;
-          if (distributionGroup && groupTotalHours && groupTotalHours > 0 && dailyHostTipoutPool > 0) {
-            receivedHost = (Number(shift.hours) / groupTotalHours) * dailyHostTipoutPool;
-          }
-      }
-      if (roleReceivesTipoutType(shift, 'sa')) {
-          const distributionGroup = getRoleDistributionGroup(shift, 'sa');
-          const groupTotalHours = distributionGroup ? dailyDistributionGroupHours.get(distributionGroup) : 0;
-          if (distributionGroup && groupTotalHours && groupTotalHours > 0 && dailySATipoutPool > 0) {
-            receivedSA = (Number(shift.hours) / groupTotalHours) * dailySATipoutPool;
-          }
-      }
+      // --- Received Tipouts (this shift's share of its distribution groups) ---
+      const receivedCents = receivedCentsByShift.get(shift) ?? {};
+      const receivedTipouts: Record<TipoutType, number> = {};
+      tipoutTypes.forEach(type => {
+        receivedTipouts[type] = fromCents(receivedCents[type] || 0);
+      });
 
       // --- Calculate Paid Tipouts (Based on THIS shift's ORIGINAL tips/sales) ---
-      const shiftWithOriginalTips = {
-        ...shift,
-        cashTips: shift.originalCashTips,
-        creditTips: shift.originalCreditTips
-      };
-      const { barTipout, hostTipout, saTipout } = calculateTipouts(shiftWithOriginalTips, dailyHasHost, dailyHasSA, dailyHasBar);
+      const paidTipouts = getOriginalPaidTipouts(shift);
 
-      const paidBar = rolePaysTipoutType(shift, 'bar') ? barTipout : 0;
-      const paidHost = rolePaysTipoutType(shift, 'host') ? hostTipout : 0;
-      const paidSA = rolePaysTipoutType(shift, 'sa') ? saTipout : 0;
+      const totalReceivedCents = sumTipoutsCents(receivedTipouts);
 
+      // --- House top-ups to distribution group minimums, paid on top of what was received ---
+      const houseTopUps = houseTopUpsByShift.get(shift) ?? [];
+      const houseTopUpCents = sumCents(houseTopUps.map(({ cents }) => cents));
+      const limitAdjustmentCents = limitAdjustmentsByShift.get(shift) ?? {};
 
       // --- Calculate Payroll Tips ---
-      const isInPool = !!getShiftTipPoolGroup(shift);
-
-      if (isInPool) {
-        // Payroll Tips for pooled = Net Pooled Credit Share + Received Tipouts - Paid Bar Tipout (Host/SA handled by pool)
-        payrollTips = shift.creditTips + receivedBar + receivedHost + receivedSA - paidBar; // Use adjusted shift.creditTips
-         console.log(`Pooled Shift ${shift.id} Payroll: ${shift.creditTips.toFixed(2)} (Net Pool) + ${receivedBar.toFixed(2)} (Rec Bar) + ${receivedHost.toFixed(2)} (Rec Host) + ${receivedSA.toFixed(2)} (Rec SA) - ${paidBar.toFixed(2)} (Paid Bar) = ${payrollTips.toFixed(2)}`);
-      } else {
-        // Payroll Tips for non-pooled = Original Credit Tips + Received Tipouts - Paid Tipouts
-        payrollTips = shift.originalCreditTips + receivedBar + receivedHost + receivedSA - paidBar - paidHost - paidSA;
-        console.log(`Non-Pooled Shift ${shift.id} Payroll: ${shift.originalCreditTips.toFixed(2)} (Orig) + ${receivedBar.toFixed(2)} (Rec Bar) + ${receivedHost.toFixed(2)} (Rec Host) + ${receivedSA.toFixed(2)} (Rec SA) - ${paidBar.toFixed(2)} (Paid Bar) - ${paidHost.toFixed(2)} (Paid Host) - ${paidSA.toFixed(2)} (Paid SA) = ${payrollTips.toFixed(2)}`);
-
+      const pool = shiftPools.get(shift);
+      if (!pool) {
         // Use original tips for the base cash/credit display if not pooled
         shift.cashTips = shift.originalCashTips;
         shift.creditTips = shift.originalCreditTips;
       }
 
+      // Tipouts this shift pays itself (all of them, or only sales-based ones when pooled; see isPaidFromTips),
+      // each taken from its cash or credit tips by the paying config's source bucket
+      const paidFromCashCents: Record<TipoutType, number> = {};
+      let cashLeftCents = toCents(shift.cashTips);
+      let creditLeftCents = toCents(shift.creditTips);
+      Object.entries(paidTipouts).forEach(([type, amount]) => {
+        if (pool && isPaidFromTips(shift, type)) return;
+        const { cashCents, creditCents } = splitTipoutBySource(toCents(amount), getTipoutSourceBucket(shift, type), cashLeftCents, creditLeftCents);
+        cashLeftCents -= cashCents;
+        creditLeftCents -= creditCents;
+        if (cashCents !== 0) paidFromCashCents[type] = cashCents;
+      });
+      const totalPaidFromCashCents = sumCents(Object.values(paidFromCashCents));
+
+      // Payroll Tips = credit left after tipouts paid individually from it (of the net pooled share or original credit tips)
+      // + Received Tipouts + House Top-Ups
+      payrollTipsCents = creditLeftCents + totalReceivedCents + houseTopUpCents;
+
+      // Windows the shift's pooled and received amounts were built over, for the report
+      const tipoutWindows: Record<TipoutType, PoolingWindow> = {};
+      tipoutTypes.forEach(type => {
+        if (getRoleDistributionGroup(shift, type)) tipoutWindows[type] = getDistributionWindow(shift, type);
+      });
+
+      if (dayTrace) {
+        dayTrace.shifts.push({
+          shiftId: shift.id,
+          date,
+          employeeId: shift.employee.id,
+          employeeName: shift.employee.name,
+          roleName: shift.role.name,
+          hours: Number(shift.hours),
+          tipPoolGroup: pool?.group ?? null,
+          servicePeriodName: servicePeriod?.name ?? null,
+          steps: buildShiftTraceSteps(shift, {
+            paidTipouts,
+            receivedTipouts,
+            presence: presenceByShift.get(shift) ?? {},
+            stages,
+            receivedBasis: receivedBasisByShift.get(shift) ?? {},
+            absentTipouts: absentTipouts.filter(routing => routing.shift === shift),
+            limitAdjustments: limitAdjustmentCents,
+            houseTopUps,
+            paidFromCash: paidFromCashCents,
+            pool,
+            distributionGroups: dayTrace.distributionGroups,
+          }),
+          payrollTips: fromCents(payrollTipsCents),
+        });
+      }
+
       // Store the processed shift data for final aggregation
       dailyProcessedShifts.push({
         ...shift, // Includes original or net pooled cash/credit tips
+        cashTips: fromCents(cashLeftCents), // Less tipouts this shift paid from cash
         originalCashTips: shift.originalCashTips,
         originalCreditTips: shift.originalCreditTips,
         // Store the specific paid/received amounts for this shift for summary display
-        paidBarTipout: paidBar,
-        paidHostTipout: paidHost,
-        paidSaTipout: paidSA,
-        receivedBarTipout: receivedBar,
-        receivedHostTipout: receivedHost,
-        receivedSaTipout: receivedSA,
-        payrollTips, // Contains the final payroll-relevant tip amount
-        tipPoolGroup: getShiftTipPoolGroup(shift),
+        paidTipouts,
+        receivedTipouts,
+        limitAdjustments: Object.fromEntries(Object.entries(limitAdjustmentCents).map(([type, cents]) => [type, fromCents(cents)])),
+        houseTopUp: fromCents(houseTopUpCents),
+        paidFromCash: fromCents(totalPaidFromCashCents),
+        payrollTips: fromCents(payrollTipsCents), // Contains the final payroll-relevant tip amount
+        tipPoolGroup: pool?.group ?? null,
+        tipPoolWindow: pool?.window ?? null,
+        tipoutWindows,
       });
     });
-  }); // --- End of daily loop ---
 
-  // --- 6. Aggregate Processed Shifts into Final Summaries ---
+    if (dayTrace) options.trace?.push(dayTrace);
+  }); // --- End of service loop ---
+
+  // --- 4. Aggregate Processed Shifts into Final Summaries ---
   const summaries = new Map<string, EmployeeRoleSummary>();
+  // Base pay before rounding, so hours at one rate add up exactly as rate x total hours
+  const exactBasePay = new Map<string, number>();
+  const earnings: ShiftEarnings[] = [];
   dailyProcessedShifts.forEach(procShift => {
+      // Each shift is paid the base rate in effect on its date, which can change mid-period
+      const basePay = resolveBasePayRate(procShift) * Number(procShift.hours);
+      earnings.push({
+        employee: procShift.employee,
+        roleName: procShift.role.name,
+        date: procShift.date,
+        hours: Number(procShift.hours),
+        basePay,
+        cashTips: procShift.cashTips,
+        payrollTips: procShift.payrollTips,
+      });
+      // Shifts outside the report's range only count toward their workweeks
+      if (!isInRange(procShift, options.range)) return;
+
       const key = `${procShift.employee.id}-${procShift.role.name}`;
       let existing = summaries.get(key);
 
@@ -442,41 +1152,89 @@ export const calculateEmployeeRoleSummariesDaily = (shiftsToProcess: Shift[]): E
                 totalCashTips: 0,        // Accumulate NET cash tips (pooled or original)
                 totalCreditTips: 0,      // Accumulate NET credit tips (pooled or original) - Base for display
                 totalGrossCreditTips: 0, // Accumulate original gross credit tips
-                // These now represent Received - Paid for this employee/role combo
-                totalBarTipout: 0,
-                totalHostTipout: 0,
-                totalSaTipout: 0,
+                totalTipoutsPaidFromCash: 0,
+                // Received - Paid for this employee/role combo, keyed by tipout type
+                totalTipouts: {},
+                totalTipoutLimitAdjustments: {},
+                totalHouseTopUp: 0,
                 cashTipsPerHour: 0,
                 creditTipsPerHour: 0,
                 totalTipsPerHour: 0,
-                basePayRate: Number(procShift.role.basePayRate),
+                basePayRate: resolveBasePayRate(procShift),
+                totalBasePay: 0,
                 totalPayrollTips: 0,     // Accumulate final payrollTips amount
                 totalLiquorSales: 0,
+                totalComplianceMakeUp: 0,
+                totalOvertimeHours: 0,
+                totalOvertimePremium: 0,
                 payrollTotal: 0,
                 tipPoolGroup: procShift.tipPoolGroup, // Assign first time, assume constant
+                tipPoolWindow: procShift.tipPoolWindow,
+                tipoutWindows: {},
             };
         }
 
 
       // Accumulate totals from the processed shift
       existing.totalHours += Number(procShift.hours);
-      existing.totalCashTips += procShift.cashTips; // Use net pooled or original cash
-      existing.totalCreditTips += procShift.creditTips; // Use net pooled or original credit (base for display)
-      existing.totalGrossCreditTips += procShift.originalCreditTips; // Accumulate original gross credit
-      existing.totalLiquorSales += Number(procShift.liquorSales);
+      existing.totalCashTips = addMoney(existing.totalCashTips, procShift.cashTips); // Use net pooled or original cash
+      existing.totalCreditTips = addMoney(existing.totalCreditTips, procShift.creditTips); // Use net pooled or original credit (base for display)
+      existing.totalGrossCreditTips = addMoney(existing.totalGrossCreditTips, procShift.originalCreditTips); // Accumulate original gross credit
+      existing.totalTipoutsPaidFromCash = addMoney(existing.totalTipoutsPaidFromCash, procShift.paidFromCash);
+      existing.totalLiquorSales = addMoney(existing.totalLiquorSales, Number(procShift.liquorSales));
       // Accumulate Net Tipouts (Received - Paid for this summary group)
-      existing.totalBarTipout += procShift.receivedBarTipout - procShift.paidBarTipout;
-      existing.totalHostTipout += procShift.receivedHostTipout - procShift.paidHostTipout;
-      existing.totalSaTipout += procShift.receivedSaTipout - procShift.paidSaTipout;
-      existing.totalPayrollTips += procShift.payrollTips; // Use the calculated payrollTips
-      // Update base pay rate - might need logic if it can change mid-period for same emp/role
-      existing.basePayRate = Number(procShift.role.basePayRate);
+      const shiftTipoutTypes = new Set([...Object.keys(procShift.receivedTipouts), ...Object.keys(procShift.paidTipouts)]);
+      shiftTipoutTypes.forEach(type => {
+        existing!.totalTipouts[type] = addMoney(existing!.totalTipouts[type] || 0,
+          procShift.receivedTipouts[type] || 0, -(procShift.paidTipouts[type] || 0));
+      });
+      Object.entries(procShift.limitAdjustments).forEach(([type, amount]) => {
+        existing!.totalTipoutLimitAdjustments[type] = addMoney(existing!.totalTipoutLimitAdjustments[type] || 0, amount);
+      });
+      existing.totalHouseTopUp = addMoney(existing.totalHouseTopUp, procShift.houseTopUp);
+      Object.assign(existing.tipoutWindows!, procShift.tipoutWindows);
+      existing.totalPayrollTips = addMoney(existing.totalPayrollTips, procShift.payrollTips); // Use the calculated payrollTips
+      exactBasePay.set(key, (exactBasePay.get(key) ?? 0) + basePay);
+      options.shiftTips?.push({
+        shiftId: procShift.id,
+        date: procShift.date.slice(0, 10),
+        servicePeriodName: procShift.servicePeriod?.name ?? null,
+        employeeId: procShift.employee.id,
+        employeeName: procShift.employee.name,
+        roleName: procShift.role.name,
+        hours: Number(procShift.hours),
+        grossCashTips: procShift.originalCashTips,
+        grossCreditTips: procShift.originalCreditTips,
+        tipPoolGroup: procShift.tipPoolGroup,
+        // Cash kept plus what this shift paid from it is what it had after pooling
+        poolCashShare: procShift.tipPoolGroup ? addMoney(procShift.cashTips, procShift.paidFromCash) : null,
+        poolCreditShare: procShift.tipPoolGroup ? procShift.creditTips : null,
+        tipoutsPaid: { ...procShift.paidTipouts },
+        tipoutsReceived: { ...procShift.receivedTipouts },
+        tipoutsPaidFromCash: procShift.paidFromCash,
+        houseTopUp: procShift.houseTopUp,
+        cashTips: procShift.cashTips,
+        payrollTips: procShift.payrollTips,
+      });
 
       summaries.set(key, existing);
   });
 
-  // --- 7. Final calculations on aggregated summaries ---
-  const finalSummaries = Array.from(summaries.values());
+  // --- 5. Final calculations on aggregated summaries ---
+  const finalSummaries = Array.from(summaries.entries()).map(([key, summary]) => {
+    const basePay = exactBasePay.get(key) ?? 0;
+    summary.totalBasePay = fromCents(toCents(basePay));
+    if (summary.totalHours > 0) summary.basePayRate = Number((basePay / summary.totalHours).toFixed(4));
+    return summary;
+  });
+  // --- 6. Workweeks: make up minimum wage shortfalls, then pay the overtime premium on the blended regular rate ---
+  // Weeks are worked out whole; each report takes the part owed for its own shifts
+  const shortfalls = calculateWeeklyShortfalls(earnings, options.minimumWages ?? [], payrollSettings.workweekStartDay, options.range);
+  applyComplianceMakeUp(finalSummaries, shortfalls);
+  options.shortfalls?.push(...shortfalls);
+  const overtime = calculateWeeklyOvertime(earnings, payrollSettings, shortfalls, options.minimumWages ?? [], options.range);
+  applyOvertime(finalSummaries, overtime);
+  options.overtime?.push(...overtime);
   finalSummaries.forEach(summary => {
     // Calculate final per-hour rates based on aggregated totals
     // Cash tips per hour uses the net/original cash amount.
@@ -486,18 +1244,10 @@ export const calculateEmployeeRoleSummariesDaily = (shiftsToProcess: Shift[]): E
     // Total tips per hour is cash + payroll tips component.
     summary.totalTipsPerHour = summary.totalHours > 0 ? (summary.totalCashTips + summary.totalPayrollTips) / summary.totalHours : 0;
 
-    // Calculate final payroll total
-    summary.payrollTotal = (summary.basePayRate * summary.totalHours) + summary.totalPayrollTips;
-
-    // Optional: Round final values for cleaner display
-    summary.totalCashTips = parseFloat(summary.totalCashTips.toFixed(2));
-    summary.totalCreditTips = parseFloat(summary.totalCreditTips.toFixed(2)); // This is the NET pool or original amount
-    summary.totalGrossCreditTips = parseFloat(summary.totalGrossCreditTips.toFixed(2));
-    summary.totalBarTipout = parseFloat(summary.totalBarTipout.toFixed(2));
-    summary.totalHostTipout = parseFloat(summary.totalHostTipout.toFixed(2));
-    summary.totalSaTipout = parseFloat(summary.totalSaTipout.toFixed(2));
-    summary.totalPayrollTips = parseFloat(summary.totalPayrollTips.toFixed(2));
-    summary.payrollTotal = parseFloat(summary.payrollTotal.toFixed(2));
+    // Calculate final payroll total (base pay rounded to the cent; tip, make-up and premium amounts are already whole cents)
+    summary.payrollTotal = addMoney(summary.totalBasePay, summary.totalPayrollTips, summary.totalComplianceMakeUp, summary.totalOvertimePremium);
+
+    // Round per-hour rates for cleaner display
     summary.cashTipsPerHour = parseFloat(summary.cashTipsPerHour.toFixed(2));
     summary.creditTipsPerHour = parseFloat(summary.creditTipsPerHour.toFixed(2));
     summary.totalTipsPerHour = parseFloat(summary.totalTipsPerHour.toFixed(2));
@@ -506,4 +1256,38 @@ export const calculateEmployeeRoleSummariesDaily = (shiftsToProcess: Shift[]): E
   });
 
   return finalSummaries;
-}; 
\ No newline at end of file
+};
+
+/**
+ * Runs the daily calculation and returns its trace instead of the summaries,
+ * so a payroll tip amount can be explained step by step.
+ */
+export const explainShiftCalculations = (
+  shiftsToProcess: Shift[],
+  options: Pick<CalculationOptions, 'payrollSettings' | 'range'> = {}
+): DailyCalculationTrace[] => {
+  const trace: DailyCalculationTrace[] = [];
+  calculateEmployeeRoleSummariesDaily(shiftsToProcess, { ...options, trace });
+  return trace;
+};
+
+/**
+ * Works out a whole report from its inputs alone, so a frozen report can be recalculated exactly as it was taken.
+ * Shifts loaded around the report's dates only pool alongside the shifts within them.
+ */
+export const calculateReport = (inputs: ReportInputs): CalculatedReport => {
+  const range = { startDate: inputs.startDate, endDate: inputs.endDate };
+  if (!inputs.shifts.some(shift => isInRange(shift, range))) return { summary: null, employeeSummaries: [], shortfalls: [], overtime: [] };
+
+  const shortfalls: WeeklyShortfall[] = [];
+  const overtime: WeeklyOvertime[] = [];
+  const employeeSummaries = calculateEmployeeRoleSummariesDaily(inputs.shifts, {
+    minimumWages: inputs.minimumWages,
+    shortfalls,
+    payrollSettings: inputs.payrollSettings,
+    overtime,
+    range,
+  });
+  const summary = calculateOverallSummary(inputs.shifts, { payrollSettings: inputs.payrollSettings, range });
+  return { summary, employeeSummaries, shortfalls, overtime };
+};
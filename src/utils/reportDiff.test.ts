@@ -0,0 +1,109 @@
+import { describe, it, expect } from '@jest/globals';
+import { diffReports } from './reportDiff';
+import { EmployeeRoleSummary, ReportSummary } from '@/types/reports';
+
+const row = (employeeId: string, employeeName: string, roleName: string, totals: Partial<EmployeeRoleSummary> = {}): EmployeeRoleSummary => ({
+    employeeId,
+    employeeName,
+    roleName,
+    totalHours: 8,
+    totalCashTips: 50,
+    totalCreditTips: 100,
+    totalGrossCreditTips: 100,
+    totalTipoutsPaidFromCash: 0,
+    totalTipouts: { bar: -10 },
+    totalTipoutLimitAdjustments: {},
+    totalHouseTopUp: 0,
+    cashTipsPerHour: 6.25,
+    creditTipsPerHour: 11.25,
+    totalTipsPerHour: 17.5,
+    basePayRate: 10,
+    totalBasePay: 80,
+    totalPayrollTips: 90,
+    totalComplianceMakeUp: 0,
+    totalOvertimeHours: 0,
+    totalOvertimePremium: 0,
+    payrollTotal: 170,
+    ...totals,
+} as EmployeeRoleSummary);
+
+const summary = (totals: Partial<ReportSummary> = {}): ReportSummary => ({
+    totalShifts: 2,
+    totalHours: 16,
+    totalCashTips: 100,
+    totalCreditTips: 200,
+    totalLiquorSales: 300,
+    totalTipoutsPaid: { bar: 20 },
+    absentTipouts: [],
+    totalTipoutLimitAdjustments: {},
+    totalHouseTopUps: 0,
+    ...totals,
+} as ReportSummary);
+
+describe('diffReports', () => {
+    it('should report nothing when a recalculation matches the snapshot', () => {
+        const report = { summary: summary(), employeeSummaries: [row('emp1', 'Alex', 'Server')] };
+        expect(diffReports(report, { summary: summary(), employeeSummaries: [row('emp1', 'Alex', 'Server')] })).toEqual({
+            unchanged: true,
+            summaryChanges: [],
+            employees: [],
+        });
+    });
+
+    it('should ignore differences smaller than a cent', () => {
+        const before = { summary: summary(), employeeSummaries: [row('emp1', 'Alex', 'Server', { payrollTotal: 170.001 })] };
+        const after = { summary: summary(), employeeSummaries: [row('emp1', 'Alex', 'Server', { payrollTotal: 170.004 })] };
+        expect(diffReports(before, after).unchanged).toBe(true);
+    });
+
+    it('should list each changed total per employee and role, to the cent', () => {
+        const before = { summary: summary(), employeeSummaries: [row('emp1', 'Alex', 'Server'), row('emp1', 'Alex', 'Bartender')] };
+        const after = {
+            summary: summary({ totalHours: 17.5, totalTipoutsPaid: { bar: 20.01 } }),
+            employeeSummaries: [
+                row('emp1', 'Alex', 'Server', { totalHours: 9.5, totalBasePay: 95, payrollTotal: 185 }),
+                row('emp1', 'Alex', 'Bartender', { totalTipouts: { bar: -10, host: -0.01 }, totalPayrollTips: 89.99, payrollTotal: 169.99 }),
+            ],
+        };
+
+        const diff = diffReports(before, after);
+
+        expect(diff.unchanged).toBe(false);
+        expect(diff.summaryChanges).toEqual([
+            { field: 'totalHours', before: 16, after: 17.5, difference: 1.5 },
+            { field: 'totalTipoutsPaid.bar', before: 20, after: 20.01, difference: 0.01 },
+        ]);
+        expect(diff.employees).toEqual([{
+            employeeId: 'emp1',
+            employeeName: 'Alex',
+            status: 'changed',
+            payrollTotalDifference: 14.99,
+            changes: [
+                { roleName: 'Bartender', field: 'totalPayrollTips', before: 90, after: 89.99, difference: -0.01 },
+                { roleName: 'Bartender', field: 'payrollTotal', before: 170, after: 169.99, difference: -0.01 },
+                { roleName: 'Bartender', field: 'totalTipouts.host', before: 0, after: -0.01, difference: -0.01 },
+                { roleName: 'Server', field: 'totalHours', before: 8, after: 9.5, difference: 1.5 },
+                { roleName: 'Server', field: 'totalBasePay', before: 80, after: 95, difference: 15 },
+                { roleName: 'Server', field: 'payrollTotal', before: 170, after: 185, difference: 15 },
+            ],
+        }]);
+    });
+
+    it('should mark employees only in the recalculation as added and only in the snapshot as removed', () => {
+        const before = { summary: summary(), employeeSummaries: [row('emp1', 'Alex', 'Server'), row('emp2', 'Blair', 'Server')] };
+        const after = { summary: summary(), employeeSummaries: [row('emp1', 'Alex', 'Server'), row('emp3', 'Casey', 'Host')] };
+
+        const diff = diffReports(before, after);
+
+        expect(diff.employees.map(e => [e.employeeName, e.status, e.payrollTotalDifference])).toEqual([
+            ['Blair', 'removed', -170],
+            ['Casey', 'added', 170],
+        ]);
+        expect(diff.employees[1].changes).toContainEqual({ roleName: 'Host', field: 'payrollTotal', before: 0, after: 170, difference: 170 });
+    });
+
+    it('should treat a snapshot without a summary as all zeros', () => {
+        const diff = diffReports({ summary: null, employeeSummaries: [] }, { summary: summary({ totalShifts: 1 }), employeeSummaries: [] });
+        expect(diff.summaryChanges).toContainEqual({ field: 'totalShifts', before: 0, after: 1, difference: 1 });
+    });
+});
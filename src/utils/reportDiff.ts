@@ -0,0 +1,99 @@
+// Compares a frozen report with a fresh recalculation, so a report handed to payroll cannot drift unnoticed.
+import { toCents, fromCents } from './money';
+import { EmployeeRoleSummary, EmployeeReportDiff, ReportDiff, ReportFieldChange, ReportSummary } from '@/types/reports';
+
+// Totals compared on each employee/role row and on the overall summary. Hours are not money, so compare to the hundredth.
+const EMPLOYEE_MONEY_FIELDS = [
+  'totalCashTips',
+  'totalCreditTips',
+  'totalPayrollTips',
+  'totalHouseTopUp',
+  'totalBasePay',
+  'totalComplianceMakeUp',
+  'totalOvertimePremium',
+  'payrollTotal',
+] as const;
+const EMPLOYEE_HOUR_FIELDS = ['totalHours', 'totalOvertimeHours'] as const;
+const SUMMARY_MONEY_FIELDS = ['totalCashTips', 'totalCreditTips', 'totalLiquorSales', 'totalHouseTopUps'] as const;
+const SUMMARY_COUNT_FIELDS = ['totalShifts', 'totalHours'] as const;
+
+const toHundredths = (value: number): number => Math.round(Number(value || 0) * 100);
+
+/**
+ * Lists the fields whose values differ, comparing each as whole cents (or hundredths of an hour).
+ * `byType` fields are maps keyed by tipout type, compared type by type.
+ */
+const compareFields = <T>(
+  before: T | null | undefined,
+  after: T | null | undefined,
+  fields: { money: readonly string[]; other: readonly string[]; byType: readonly string[] },
+): ReportFieldChange[] => {
+  const read = (row: T | null | undefined, field: string): number => Number((row as Record<string, unknown> | null | undefined)?.[field] ?? 0);
+  const changes: ReportFieldChange[] = [];
+
+  const compare = (field: string, beforeValue: number, afterValue: number, isMoney: boolean) => {
+    const differenceUnits = isMoney ? toCents(afterValue) - toCents(beforeValue) : toHundredths(afterValue) - toHundredths(beforeValue);
+    if (differenceUnits === 0) return;
+    changes.push({ field, before: beforeValue, after: afterValue, difference: fromCents(differenceUnits) });
+  };
+
+  fields.other.forEach(field => compare(field, read(before, field), read(after, field), false));
+  fields.money.forEach(field => compare(field, read(before, field), read(after, field), true));
+  fields.byType.forEach(field => {
+    const beforeMap = ((before as Record<string, unknown> | null | undefined)?.[field] ?? {}) as Record<string, number>;
+    const afterMap = ((after as Record<string, unknown> | null | undefined)?.[field] ?? {}) as Record<string, number>;
+    const types = Array.from(new Set([...Object.keys(beforeMap), ...Object.keys(afterMap)])).sort();
+    types.forEach(type => compare(`${field}.${type}`, Number(beforeMap[type] ?? 0), Number(afterMap[type] ?? 0), true));
+  });
+
+  return changes;
+};
+
+/**
+ * Diffs a snapshot's report against a recalculation of it: overall totals, then each employee's totals role by role.
+ * An employee only in the recalculation is `added`, only in the snapshot `removed`; employees with no differences are left out.
+ */
+export const diffReports = (
+  before: { summary: ReportSummary | null; employeeSummaries: EmployeeRoleSummary[] },
+  after: { summary: ReportSummary | null; employeeSummaries: EmployeeRoleSummary[] },
+): ReportDiff => {
+  const summaryChanges = compareFields(before.summary, after.summary, {
+    money: SUMMARY_MONEY_FIELDS,
+    other: SUMMARY_COUNT_FIELDS,
+    byType: ['totalTipoutsPaid'],
+  });
+
+  const rowKey = (row: EmployeeRoleSummary) => `${row.employeeId}-${row.roleName}`;
+  const beforeRows = new Map(before.employeeSummaries.map(row => [rowKey(row), row]));
+  const afterRows = new Map(after.employeeSummaries.map(row => [rowKey(row), row]));
+  const employeeIds = Array.from(new Set([...before.employeeSummaries, ...after.employeeSummaries].map(row => row.employeeId)));
+
+  const employees: EmployeeReportDiff[] = [];
+  employeeIds.forEach(employeeId => {
+    const beforeForEmployee = before.employeeSummaries.filter(row => row.employeeId === employeeId);
+    const afterForEmployee = after.employeeSummaries.filter(row => row.employeeId === employeeId);
+    const roleNames = Array.from(new Set([...beforeForEmployee, ...afterForEmployee].map(row => row.roleName))).sort();
+
+    const changes = roleNames.flatMap(roleName => {
+      const key = `${employeeId}-${roleName}`;
+      return compareFields(beforeRows.get(key), afterRows.get(key), {
+        money: EMPLOYEE_MONEY_FIELDS,
+        other: EMPLOYEE_HOUR_FIELDS,
+        byType: ['totalTipouts'],
+      }).map(change => ({ ...change, roleName }));
+    });
+    if (changes.length === 0) return;
+
+    const sumPayroll = (rows: EmployeeRoleSummary[]) => rows.reduce((acc, row) => acc + toCents(row.payrollTotal), 0);
+    employees.push({
+      employeeId,
+      employeeName: (afterForEmployee[0] ?? beforeForEmployee[0]).employeeName,
+      status: beforeForEmployee.length === 0 ? 'added' : afterForEmployee.length === 0 ? 'removed' : 'changed',
+      changes,
+      payrollTotalDifference: fromCents(sumPayroll(afterForEmployee) - sumPayroll(beforeForEmployee)),
+    });
+  });
+
+  employees.sort((a, b) => a.employeeName.localeCompare(b.employeeName));
+  return { unchanged: summaryChanges.length === 0 && employees.length === 0, summaryChanges, employees };
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildReportExportTables, renderReportCsv } from './reportExport';
+import { EmployeeRoleSummary, ReportSummary } from '@/types/reports';
+
+const row = (employeeId: string, employeeName: string, roleName: string, totals: Partial<EmployeeRoleSummary> = {}): EmployeeRoleSummary => ({
+    employeeId,
+    employeeName,
+    roleName,
+    totalHours: 5,
+    totalCashTips: 50,
+    totalCreditTips: 100,
+    totalGrossCreditTips: 100,
+    totalTipoutsPaidFromCash: 0,
+    totalTipouts: { bar: -10 },
+    totalTipoutLimitAdjustments: {},
+    totalHouseTopUp: 0,
+    cashTipsPerHour: 10,
+    creditTipsPerHour: 18,
+    totalTipsPerHour: 28,
+    basePayRate: 10,
+    totalBasePay: 50,
+    totalPayrollTips: 90,
+    totalLiquorSales: 0,
+    totalComplianceMakeUp: 0,
+    totalOvertimeHours: 0,
+    totalOvertimePremium: 0,
+    payrollTotal: 140,
+    ...totals,
+} as EmployeeRoleSummary);
+
+const summary = {
+    totalShifts: 3,
+    totalHours: 15,
+    totalCashTips: 150,
+    totalCreditTips: 300,
+    totalLiquorSales: 0,
+    totalTipoutsPaid: { bar: 30 },
+    totalHouseTopUps: 0,
+} as unknown as ReportSummary;
+
+const data = {
+    summary,
+    employeeSummaries: [
+        row('emp2', 'Blair', 'Server', { tipPoolGroup: 'servers', tipPoolWindow: 'day' }),
+        row('emp1', 'Alex', 'Server', { tipPoolGroup: 'servers', tipPoolWindow: 'day' }),
+        row('emp1', 'Alex', 'Bartender', { totalOvertimeHours: 1, totalOvertimePremium: 7.5, payrollTotal: 147.5 }),
+    ],
+    tipoutTypes: [{ key: 'bar', name: 'Bar' }],
+};
+
+describe('buildReportExportTables', () => {
+    it('should lay out the summary, the employee breakdown and the tip pools', () => {
+        const tables = buildReportExportTables(data, { groupByEmployee: false });
+        expect(tables.map(table => table.title)).toEqual(['Summary', 'Employee Breakdown by Role', 'Tip Pool Summaries']);
+
+        const [, employees, pools] = tables;
+        expect(employees.columns.map(column => column.header)).toEqual([
+            'employee', 'role', 'hours', 'cash tips', 'gross credit tips', 'credit tips', 'liquor sales', 'bar tipout',
+            'payroll tips', 'total tips/hour', 'base pay rate', 'total $/hour', 'overtime hours', 'overtime', 'payroll total',
+        ]);
+        expect(employees.rows.map(r => [r[0], r[1], r[r.length - 1]])).toEqual([
+            ['Alex', 'Bartender', 147.5],
+            ['Alex', 'Server', 140],
+            ['Blair', 'Server', 140],
+        ]);
+        expect(pools.rows).toEqual([['servers', 'per day', 10, 200, 200]]);
+    });
+
+    it('should group rows by employee and keep to one employee when asked, without the columns no one has amounts in', () => {
+        const [, employees] = buildReportExportTables({ ...data, employeeSummaries: data.employeeSummaries.slice(0, 2) }, { groupByEmployee: true, employeeId: 'emp1' });
+        expect(employees.title).toBe('Employee Breakdown');
+        expect(employees.columns.map(column => column.header)).not.toContain('overtime');
+        expect(employees.rows).toHaveLength(1);
+        expect(employees.rows[0][0]).toBe('Alex');
+    });
+});
+
+describe('renderReportCsv', () => {
+    it('should write each table under its title with money to two decimals', () => {
+        const csv = renderReportCsv(buildReportExportTables({ ...data, employeeSummaries: [] }, { groupByEmployee: true }));
+        expect(csv.split('\r\n').slice(0, 4)).toEqual([
+            'Summary',
+            'shifts,hours,cash tips,credit tips,liquor sales,bar tipouts paid',
+            '3,15.00,150.00,300.00,0.00,30.00',
+            '',
+        ]);
+    });
+
+    it('should keep text that looks like a formula from running but leave negative amounts as numbers', () => {
+        const csv = renderReportCsv([{
+            title: 'Employees',
+            columns: [{ header: 'employee', kind: 'text' }, { header: 'bar tipouts', kind: 'money' }],
+            rows: [['@SUM(A1:A9)', -10]],
+        }]);
+        expect(csv.split('\r\n')[2]).toBe("'@SUM(A1:A9),-10.00");
+    });
+});
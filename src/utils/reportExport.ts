@@ -0,0 +1,169 @@
+// Report exports: the reports page's summary, employee/role table and tip pools laid out as plain tables,
+// which the CSV, XLSX and PDF exports each render in their own way.
+import { getPoolingWindowLabel } from './tipoutCalculations';
+import { groupSummariesByEmployee, summarizeTipPools } from './reportGrouping';
+import { escapeCsvCell } from './csv';
+import { EmployeeRoleSummary, ReportExportFormat, ReportSummary } from '@/types/reports';
+
+export type ReportExportColumn = {
+  header: string;
+  kind: 'text' | 'money' | 'hours' | 'count';
+};
+
+export type ReportExportTable = {
+  title: string;
+  columns: ReportExportColumn[];
+  rows: (string | number)[][];
+  startsPage?: boolean; // In a PDF, begin the table on a page of its own
+};
+
+type ReportExportData = {
+  summary: ReportSummary | null;
+  employeeSummaries: EmployeeRoleSummary[];
+  tipoutTypes: { key: string; name: string }[];
+};
+
+type ReportExportOptions = {
+  groupByEmployee: boolean;   // One row per employee, as with the page's group-by-employee toggle
+  employeeId?: string | null; // Only this employee's rows
+};
+
+export const REPORT_EXPORT_FORMATS: { value: ReportExportFormat; label: string; contentType: string }[] = [
+  { value: 'csv', label: 'csv', contentType: 'text/csv; charset=utf-8' },
+  { value: 'xlsx', label: 'excel', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  { value: 'pdf', label: 'pdf', contentType: 'application/pdf' },
+];
+
+export const isReportExportFormat = (value: unknown): value is ReportExportFormat =>
+  REPORT_EXPORT_FORMATS.some(format => format.value === value);
+
+const text = (header: string): ReportExportColumn => ({ header, kind: 'text' });
+const money = (header: string): ReportExportColumn => ({ header, kind: 'money' });
+const hours = (header: string): ReportExportColumn => ({ header, kind: 'hours' });
+
+/**
+ * Lays a report out as the tables the page shows: the overall summary, the employee/role breakdown
+ * (with the same optional columns the page shows only when they have amounts) and the tip pool summaries.
+ */
+export const buildReportExportTables = (data: ReportExportData, { groupByEmployee, employeeId }: ReportExportOptions): ReportExportTable[] => {
+  const tables: ReportExportTable[] = [];
+
+  if (data.summary) {
+    const summary = data.summary;
+    const hasHouseTopUps = (summary.totalHouseTopUps || 0) > 0;
+    tables.push({
+      title: 'Summary',
+      columns: [
+        { header: 'shifts', kind: 'count' },
+        hours('hours'),
+        money('cash tips'),
+        money('credit tips'),
+        money('liquor sales'),
+        ...data.tipoutTypes.map(type => money(`${type.name.toLowerCase()} tipouts paid`)),
+        ...(hasHouseTopUps ? [money('house top-ups')] : []),
+      ],
+      rows: [[
+        summary.totalShifts,
+        summary.totalHours,
+        summary.totalCashTips,
+        summary.totalCreditTips,
+        summary.totalLiquorSales,
+        ...data.tipoutTypes.map(type => summary.totalTipoutsPaid[type.key] || 0),
+        ...(hasHouseTopUps ? [summary.totalHouseTopUps] : []),
+      ]],
+    });
+  }
+
+  const filtered = employeeId ? data.employeeSummaries.filter(summary => summary.employeeId === employeeId) : data.employeeSummaries;
+  const rows = (groupByEmployee ? groupSummariesByEmployee(filtered) : filtered)
+    .slice()
+    .sort((a, b) => a.employeeName.localeCompare(b.employeeName) || a.roleName.localeCompare(b.roleName));
+  const hasHouseTopUps = rows.some(row => (row.totalHouseTopUp || 0) > 0);
+  const hasOvertime = rows.some(row => (row.totalOvertimePremium || 0) > 0);
+  const hasComplianceMakeUps = rows.some(row => (row.totalComplianceMakeUp || 0) > 0);
+
+  tables.push({
+    title: groupByEmployee ? 'Employee Breakdown' : 'Employee Breakdown by Role',
+    columns: [
+      text('employee'),
+      ...(groupByEmployee ? [] : [text('role')]),
+      hours('hours'),
+      money('cash tips'),
+      money('gross credit tips'),
+      money('credit tips'),
+      money('liquor sales'),
+      ...data.tipoutTypes.map(type => money(`${type.name.toLowerCase()} tipout`)),
+      ...(hasHouseTopUps ? [money('house top-up')] : []),
+      money('payroll tips'),
+      money('total tips/hour'),
+      money('base pay rate'),
+      money('total $/hour'),
+      ...(hasOvertime ? [hours('overtime hours'), money('overtime')] : []),
+      ...(hasComplianceMakeUps ? [money('min. wage make-up')] : []),
+      money('payroll total'),
+    ],
+    rows: rows.map(row => [
+      row.employeeName,
+      ...(groupByEmployee ? [] : [row.roleName]),
+      row.totalHours,
+      row.totalCashTips,
+      row.totalGrossCreditTips,
+      row.totalCreditTips,
+      row.totalLiquorSales,
+      ...data.tipoutTypes.map(type => row.totalTipouts[type.key] || 0),
+      ...(hasHouseTopUps ? [row.totalHouseTopUp || 0] : []),
+      row.totalPayrollTips,
+      row.totalTipsPerHour,
+      row.basePayRate,
+      row.totalTipsPerHour + row.basePayRate,
+      ...(hasOvertime ? [row.totalOvertimeHours || 0, row.totalOvertimePremium || 0] : []),
+      ...(hasComplianceMakeUps ? [row.totalComplianceMakeUp || 0] : []),
+      row.payrollTotal,
+    ]),
+  });
+
+  const pools = summarizeTipPools(filtered);
+  if (pools.length > 0) {
+    tables.push({
+      title: 'Tip Pool Summaries',
+      columns: [text('pool'), text('pooled'), hours('hours'), money('gross credit tips'), money('net credit share')],
+      rows: pools.map(pool => [
+        pool.group,
+        pool.window ? getPoolingWindowLabel(pool.window) : '',
+        pool.totalHours,
+        pool.totalGrossCreditTips,
+        pool.totalNetCreditShare,
+      ]),
+    });
+  }
+
+  return tables;
+};
+
+/**
+ * A cell as text: money and hours to two decimals, counts as whole numbers.
+ */
+export const formatReportExportCell = (column: ReportExportColumn, value: string | number): string => {
+  if (typeof value === 'string') return value;
+  switch (column.kind) {
+    case 'money':
+    case 'hours':
+      return value.toFixed(2);
+    case 'count':
+      return Math.round(value).toString();
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Renders the tables one after another as CSV, each under its title and separated by a blank line.
+ */
+export const renderReportCsv = (tables: ReportExportTable[]): string =>
+  tables
+    .map(table => [
+      [table.title],
+      table.columns.map(column => column.header),
+      ...table.rows.map(row => row.map((value, i) => formatReportExportCell(table.columns[i], value))),
+    ].map(row => row.map(escapeCsvCell).join(',')).join('\r\n'))
+    .join('\r\n\r\n') + '\r\n';
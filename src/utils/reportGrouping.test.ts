@@ -0,0 +1,62 @@
+import { describe, it, expect } from '@jest/globals';
+import { groupSummariesByEmployee, summarizeTipPools } from './reportGrouping';
+import { EmployeeRoleSummary } from '@/types/reports';
+
+const row = (employeeId: string, roleName: string, totals: Partial<EmployeeRoleSummary> = {}): EmployeeRoleSummary => ({
+    employeeId,
+    employeeName: employeeId === 'emp1' ? 'Alex' : 'Blair',
+    roleName,
+    totalHours: 5,
+    totalCashTips: 50,
+    totalCreditTips: 100,
+    totalGrossCreditTips: 120,
+    totalTipoutsPaidFromCash: 0,
+    totalTipouts: { bar: -10 },
+    totalTipoutLimitAdjustments: {},
+    totalHouseTopUp: 0,
+    cashTipsPerHour: 10,
+    creditTipsPerHour: 18,
+    totalTipsPerHour: 28,
+    basePayRate: 10,
+    totalBasePay: 50,
+    totalPayrollTips: 90,
+    totalLiquorSales: 0,
+    totalComplianceMakeUp: 0,
+    totalOvertimeHours: 0,
+    totalOvertimePremium: 0,
+    payrollTotal: 140,
+    ...totals,
+} as EmployeeRoleSummary);
+
+describe('groupSummariesByEmployee', () => {
+    it('should combine an employee\'s roles and hour-weight the base pay rate', () => {
+        const [alex, blair] = groupSummariesByEmployee([
+            row('emp1', 'Server'),
+            row('emp1', 'Bartender', { totalHours: 15, basePayRate: 14, totalTipouts: { bar: 10, host: 5 }, totalPayrollTips: 110 }),
+            row('emp2', 'Server'),
+        ]);
+
+        expect(alex).toMatchObject({
+            roleName: 'All Roles',
+            totalHours: 20,
+            totalTipouts: { bar: 0, host: 5 },
+            totalPayrollTips: 200,
+            basePayRate: 13,
+            payrollTotal: 280,
+            totalTipsPerHour: (100 + 200) / 20,
+        });
+        expect(blair.roleName).toBe('Server');
+    });
+});
+
+describe('summarizeTipPools', () => {
+    it('should total each pool over the rows that pooled into it', () => {
+        expect(summarizeTipPools([
+            row('emp1', 'Server', { tipPoolGroup: 'servers', tipPoolWindow: 'day' }),
+            row('emp2', 'Server', { tipPoolGroup: 'servers', tipPoolWindow: 'day', totalCreditTips: 80 }),
+            row('emp1', 'Bartender'),
+        ])).toEqual([
+            { group: 'servers', totalHours: 10, totalGrossCreditTips: 240, totalNetCreditShare: 180, window: 'day' },
+        ]);
+    });
+});
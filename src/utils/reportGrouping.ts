@@ -0,0 +1,100 @@
+// Regroupings of a report's employee/role rows, shared by the reports page and the report exports.
+import { EmployeeRoleSummary, TipPoolSummary } from '@/types/reports';
+
+/**
+ * Combines each employee's roles into one 'All Roles' row. Employees who worked a single role keep their row.
+ * Per-hour figures are recomputed over the combined hours, and the base pay rate is hour-weighted.
+ */
+export function groupSummariesByEmployee(summaries: EmployeeRoleSummary[]): EmployeeRoleSummary[] {
+  const grouped = new Map<string, EmployeeRoleSummary[]>()
+  for (const summary of summaries) {
+    const key = summary.employeeId
+    if (!grouped.has(key)) grouped.set(key, [])
+    grouped.get(key)!.push(summary)
+  }
+  const result: EmployeeRoleSummary[] = []
+  for (const [employeeId, summariesForEmployee] of grouped.entries()) {
+    if (summariesForEmployee.length === 1) {
+      result.push(summariesForEmployee[0])
+    } else {
+      const agg = {
+        employeeId,
+        employeeName: summariesForEmployee[0].employeeName,
+        roleName: 'All Roles',
+        totalHours: 0,
+        totalCashTips: 0,
+        totalCreditTips: 0,
+        totalGrossCreditTips: 0,
+        totalTipoutsPaidFromCash: 0,
+        totalTipouts: {},
+        totalTipoutLimitAdjustments: {},
+        totalHouseTopUp: 0,
+        cashTipsPerHour: 0,
+        creditTipsPerHour: 0,
+        totalTipsPerHour: 0,
+        basePayRate: 0,
+        totalBasePay: 0,
+        totalPayrollTips: 0,
+        totalLiquorSales: 0,
+        totalComplianceMakeUp: 0,
+        totalOvertimeHours: 0,
+        totalOvertimePremium: 0,
+        payrollTotal: 0,
+      } as EmployeeRoleSummary
+      for (const summary of summariesForEmployee) {
+        agg.totalHours += summary.totalHours
+        agg.totalCashTips += summary.totalCashTips
+        agg.totalCreditTips += summary.totalCreditTips
+        agg.totalGrossCreditTips += summary.totalGrossCreditTips
+        agg.totalTipoutsPaidFromCash += summary.totalTipoutsPaidFromCash || 0
+        for (const [type, amount] of Object.entries(summary.totalTipouts)) {
+          agg.totalTipouts[type] = (agg.totalTipouts[type] || 0) + amount
+        }
+        for (const [type, amount] of Object.entries(summary.totalTipoutLimitAdjustments || {})) {
+          agg.totalTipoutLimitAdjustments[type] = (agg.totalTipoutLimitAdjustments[type] || 0) + amount
+        }
+        agg.totalHouseTopUp += summary.totalHouseTopUp || 0
+        agg.tipoutWindows = { ...agg.tipoutWindows, ...summary.tipoutWindows }
+        agg.totalLiquorSales += summary.totalLiquorSales
+        agg.basePayRate += summary.basePayRate * summary.totalHours
+        agg.totalBasePay += summary.totalBasePay || 0
+        agg.totalPayrollTips = (agg.totalPayrollTips || 0) + (summary.totalPayrollTips || 0)
+        agg.totalComplianceMakeUp += summary.totalComplianceMakeUp || 0
+        agg.totalOvertimeHours += summary.totalOvertimeHours || 0
+        agg.totalOvertimePremium += summary.totalOvertimePremium || 0
+        agg.payrollTotal = (agg.payrollTotal || 0) + (summary.payrollTotal || 0)
+      }
+      agg.cashTipsPerHour = agg.totalHours > 0 ? agg.totalCashTips / agg.totalHours : 0;
+      agg.creditTipsPerHour = agg.totalHours > 0 ? (agg.totalPayrollTips ?? 0) / agg.totalHours : 0;
+      agg.totalTipsPerHour = agg.totalHours > 0
+        ? (agg.totalCashTips + (agg.totalPayrollTips ?? 0)) / agg.totalHours
+        : 0
+      agg.basePayRate = agg.totalHours > 0 ? agg.basePayRate / agg.totalHours : 0
+      result.push(agg)
+    }
+  }
+  return result
+}
+
+/**
+ * Totals each tip pool group over the rows that pooled into it, in the order the groups first appear.
+ * Rows already grouped by employee no longer carry a pool, so pass the per-role rows.
+ */
+export function summarizeTipPools(summaries: EmployeeRoleSummary[]): TipPoolSummary[] {
+  const pools = new Map<string, TipPoolSummary>()
+  for (const summary of summaries) {
+    if (!summary.tipPoolGroup) continue
+    const pool = pools.get(summary.tipPoolGroup) ?? {
+      group: summary.tipPoolGroup,
+      totalHours: 0,
+      totalGrossCreditTips: 0,
+      totalNetCreditShare: 0,
+      window: summary.tipPoolWindow ?? null,
+    }
+    pool.totalHours += summary.totalHours
+    pool.totalGrossCreditTips += summary.totalGrossCreditTips
+    pool.totalNetCreditShare += summary.totalCreditTips
+    pools.set(summary.tipPoolGroup, pool)
+  }
+  return Array.from(pools.values())
+}
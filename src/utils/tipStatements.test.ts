@@ -0,0 +1,153 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildTipStatementTables, calculateTipStatements, totalTipStatementByDay } from './tipStatements';
+import { DEFAULT_PAYROLL_SETTINGS } from './workweek';
+import { ReportInputs, RoleConfig, Shift, TipStatement } from '@/types/reports';
+
+const config = (id: string, tipoutType: string, percentageRate: number, options: Partial<RoleConfig> = {}): RoleConfig => ({
+    id,
+    tipoutType,
+    percentageRate,
+    effectiveFrom: '2024-01-01',
+    effectiveTo: null,
+    receivesTipout: false,
+    paysTipout: true,
+    ...options,
+});
+
+const server = { name: 'Server', basePayRate: 3, configs: [
+    config('srvBar', 'bar', 10, { tipPoolGroup: 'servers' }),
+    config('srvHost', 'host', 5, { tipPoolGroup: 'servers' }),
+] };
+const bartender = { name: 'Bar', basePayRate: 9, configs: [
+    config('barBar', 'bar', 0, { receivesTipout: true, paysTipout: false, distributionGroup: 'bartenders' }),
+] };
+const host = { name: 'Host', basePayRate: 10, configs: [
+    config('hostHost', 'host', 0, { receivesTipout: true, paysTipout: false, distributionGroup: 'hosts' }),
+] };
+
+const shift = (id: string, employeeId: string, role: Shift['role'], date: string, hours: number, cashTips: number, creditTips: number, liquorSales = 0): Shift => ({
+    id,
+    employee: { id: employeeId, name: { dylan: 'Dylan', regan: 'Regan', brigid: 'Brigid', christina: 'Christina' }[employeeId]! },
+    role,
+    date,
+    hours,
+    cashTips,
+    creditTips,
+    liquorSales,
+});
+
+const inputs: ReportInputs = {
+    startDate: '2024-03-15',
+    endDate: '2024-03-16',
+    configuredOn: null,
+    shifts: [
+        shift('s1', 'dylan', server, '2024-03-15', 8, 50, 150.37, 400),
+        shift('s2', 'regan', server, '2024-03-15', 7, 40, 149.63, 300),
+        shift('s3', 'brigid', bartender, '2024-03-15', 6, 20, 30),
+        shift('s4', 'christina', host, '2024-03-15', 5, 0, 0),
+        shift('s5', 'dylan', server, '2024-03-16', 6, 30, 120, 250),
+        shift('s6', 'dylan', bartender, '2024-03-16', 3, 10, 15),
+        shift('s7', 'christina', host, '2024-03-16', 4, 0, 0),
+    ],
+    minimumWages: [],
+    payrollSettings: DEFAULT_PAYROLL_SETTINGS,
+};
+
+const statementFor = (statements: TipStatement[], employeeId: string) => statements.find(statement => statement.employeeId === employeeId)!;
+
+describe('calculateTipStatements', () => {
+    it('should give everyone who worked a statement, by name', () => {
+        expect(calculateTipStatements(inputs).map(statement => statement.employeeName)).toEqual(['Brigid', 'Christina', 'Dylan', 'Regan']);
+    });
+
+    it('should add up to the report rows for every role the employee worked', () => {
+        calculateTipStatements(inputs).forEach(statement => {
+            statement.roles.forEach(role => {
+                const shifts = statement.shifts.filter(line => line.roleName === role.roleName);
+                const sum = (amount: (line: typeof shifts[number]) => number) => shifts.reduce((acc, line) => acc + amount(line), 0);
+                expect(sum(line => line.hours)).toBeCloseTo(role.totalHours, 2);
+                expect(sum(line => line.cashTips)).toBeCloseTo(role.totalCashTips, 2);
+                expect(sum(line => line.grossCreditTips)).toBeCloseTo(role.totalGrossCreditTips, 2);
+                expect(sum(line => line.tipoutsPaidFromCash)).toBeCloseTo(role.totalTipoutsPaidFromCash, 2);
+                expect(sum(line => line.houseTopUp)).toBeCloseTo(role.totalHouseTopUp, 2);
+                expect(sum(line => line.payrollTips)).toBeCloseTo(role.totalPayrollTips, 2);
+                Object.entries(role.totalTipouts).forEach(([type, net]) => {
+                    expect(sum(line => (line.tipoutsReceived[type] || 0) - (line.tipoutsPaid[type] || 0))).toBeCloseTo(net, 2);
+                });
+            });
+            expect(statement.totals.payrollTips).toBeCloseTo(statement.roles.reduce((acc, role) => acc + role.totalPayrollTips, 0), 2);
+            expect(statement.totals.cashTips).toBeCloseTo(statement.roles.reduce((acc, role) => acc + role.totalCashTips, 0), 2);
+        });
+    });
+
+    it('should list shifts by date with the gross tips collected on each', () => {
+        const dylan = statementFor(calculateTipStatements(inputs), 'dylan');
+        expect(dylan.shifts.map(line => [line.date, line.roleName])).toEqual([
+            ['2024-03-15', 'Server'],
+            ['2024-03-16', 'Bar'],
+            ['2024-03-16', 'Server'],
+        ]);
+        expect(dylan.shifts[0]).toMatchObject({ grossCashTips: 50, grossCreditTips: 150.37, tipPoolGroup: 'servers' });
+        expect(dylan.totals).toMatchObject({ shifts: 3, hours: 17, grossCashTips: 90, grossCreditTips: 285.37 });
+    });
+
+    it('should show a pooled shift its share of the pool and an unpooled one none', () => {
+        const statements = calculateTipStatements(inputs);
+        const [dylan, regan] = [statementFor(statements, 'dylan').shifts[0], statementFor(statements, 'regan').shifts[0]];
+        // The servers pooled 90 cash and 300 credit over 15 hours; 5% of tips went to the host, out of the credit
+        expect(dylan.poolCashShare! + regan.poolCashShare!).toBeCloseTo(90, 2);
+        expect(dylan.poolCreditShare! + regan.poolCreditShare!).toBeCloseTo(300 - 19.5, 2);
+        expect(dylan.poolCreditShare).toBeCloseTo(280.5 * 8 / 15, 2);
+        expect(statementFor(statements, 'brigid').shifts[0].poolCreditShare).toBeNull();
+    });
+
+    it('should list tipouts paid and received by type, and only the types with amounts', () => {
+        const statements = calculateTipStatements(inputs);
+        const brigid = statementFor(statements, 'brigid');
+        expect(brigid.tipoutTypes).toEqual(['bar']);
+        expect(brigid.totals.tipoutsReceived.bar).toBeCloseTo(70, 2); // 10% of the servers' 700 in liquor sales
+        expect(statementFor(statements, 'dylan').tipoutTypes).toEqual(['bar', 'host']);
+    });
+
+    it('should calculate one employee against everyone who worked', () => {
+        const [regan] = calculateTipStatements(inputs, 'regan');
+        expect(regan).toEqual(statementFor(calculateTipStatements(inputs), 'regan'));
+        expect(calculateTipStatements(inputs, 'nobody')).toEqual([]);
+    });
+});
+
+describe('buildTipStatementTables', () => {
+    it('should end the shift table with the totals and start each statement on a new page', () => {
+        const dylan = statementFor(calculateTipStatements(inputs), 'dylan');
+        const [shifts, roles] = buildTipStatementTables(dylan, { bar: 'Bar', host: 'Host' });
+        expect(shifts.startsPage).toBe(true);
+        expect(shifts.columns.map(column => column.header)).toEqual([
+            'date', 'service', 'role', 'hours', 'cash tips', 'credit tips', 'pool cash share', 'pool credit share',
+            'bar paid', 'bar received', 'host paid', 'host received', 'cash kept', 'payroll tips',
+        ]);
+        expect(shifts.rows).toHaveLength(4);
+        expect(shifts.rows[3].slice(0, 4)).toEqual(['total (3 shifts)', '', '', 17]);
+        expect(shifts.rows[3][shifts.rows[3].length - 1]).toBe(dylan.totals.payrollTips);
+        expect(roles.rows.map(row => row[0])).toEqual(['Bar', 'Server']);
+    });
+
+    it('should leave out pool shares when no shift was pooled', () => {
+        const brigid = statementFor(calculateTipStatements(inputs), 'brigid');
+        const [shifts] = buildTipStatementTables(brigid);
+        expect(shifts.columns.map(column => column.header)).not.toContain('pool cash share');
+        expect(shifts.columns.map(column => column.header)).toContain('bar received');
+    });
+});
+
+describe('totalTipStatementByDay', () => {
+    it('should add up each day across the roles worked that day', () => {
+        const dylan = statementFor(calculateTipStatements(inputs), 'dylan');
+        const days = totalTipStatementByDay(dylan);
+        expect(days.map(day => [day.date, day.totals.shifts, day.totals.hours])).toEqual([
+            ['2024-03-15', 1, 8],
+            ['2024-03-16', 2, 9],
+        ]);
+        expect(days[1].totals.payrollTips).toBeCloseTo(dylan.shifts[1].payrollTips + dylan.shifts[2].payrollTips, 2);
+        expect(days.reduce((acc, day) => acc + day.totals.payrollTips, 0)).toBeCloseTo(dylan.totals.payrollTips, 2);
+    });
+});
@@ -0,0 +1,199 @@
+// Tip statements: every shift an employee worked over a date range and where its tips went, added up so
+// the totals are the report's EmployeeRoleSummary rows for them.
+import { addMoney } from './money';
+import { calculateEmployeeRoleSummariesDaily } from './reportCalculations';
+import { ReportExportColumn, ReportExportTable } from './reportExport';
+import { EmployeeRoleSummary, ReportInputs, ShiftTipBreakdown, TipStatement, TipStatementTotals, TipoutType } from '@/types/reports';
+
+const addTipouts = (totals: Record<TipoutType, number>, amounts: Record<TipoutType, number>) => {
+  Object.entries(amounts).forEach(([type, amount]) => {
+    totals[type] = addMoney(totals[type] || 0, amount);
+  });
+};
+
+/**
+ * Adds up a statement's shifts. Pool shares are summed over the pooled shifts only.
+ */
+export const totalTipStatementShifts = (shifts: ShiftTipBreakdown[]): TipStatementTotals => {
+  const totals: TipStatementTotals = {
+    shifts: 0,
+    hours: 0,
+    grossCashTips: 0,
+    grossCreditTips: 0,
+    poolCashShare: 0,
+    poolCreditShare: 0,
+    tipoutsPaid: {},
+    tipoutsReceived: {},
+    tipoutsPaidFromCash: 0,
+    houseTopUp: 0,
+    cashTips: 0,
+    payrollTips: 0,
+  };
+  shifts.forEach(shift => {
+    totals.shifts += 1;
+    totals.hours += shift.hours;
+    totals.grossCashTips = addMoney(totals.grossCashTips, shift.grossCashTips);
+    totals.grossCreditTips = addMoney(totals.grossCreditTips, shift.grossCreditTips);
+    totals.poolCashShare = addMoney(totals.poolCashShare, shift.poolCashShare ?? 0);
+    totals.poolCreditShare = addMoney(totals.poolCreditShare, shift.poolCreditShare ?? 0);
+    addTipouts(totals.tipoutsPaid, shift.tipoutsPaid);
+    addTipouts(totals.tipoutsReceived, shift.tipoutsReceived);
+    totals.tipoutsPaidFromCash = addMoney(totals.tipoutsPaidFromCash, shift.tipoutsPaidFromCash);
+    totals.houseTopUp = addMoney(totals.houseTopUp, shift.houseTopUp);
+    totals.cashTips = addMoney(totals.cashTips, shift.cashTips);
+    totals.payrollTips = addMoney(totals.payrollTips, shift.payrollTips);
+  });
+  totals.hours = Number(totals.hours.toFixed(2));
+  return totals;
+};
+
+/**
+ * A statement's shifts added up day by day, in date order.
+ */
+export const totalTipStatementByDay = (statement: TipStatement): { date: string; totals: TipStatementTotals }[] => {
+  const shiftsByDate = new Map<string, ShiftTipBreakdown[]>();
+  statement.shifts.forEach(shift => {
+    shiftsByDate.set(shift.date, [...(shiftsByDate.get(shift.date) ?? []), shift]);
+  });
+  return Array.from(shiftsByDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, shifts]) => ({ date, totals: totalTipStatementShifts(shifts) }));
+};
+
+/**
+ * Gathers each employee's shift breakdowns and report rows into a statement, by employee name.
+ */
+export const buildTipStatements = (
+  shiftTips: ShiftTipBreakdown[],
+  employeeSummaries: EmployeeRoleSummary[],
+  startDate: string,
+  endDate: string,
+): TipStatement[] => {
+  const shiftsByEmployee = new Map<string, ShiftTipBreakdown[]>();
+  shiftTips.forEach(shift => {
+    shiftsByEmployee.set(shift.employeeId, [...(shiftsByEmployee.get(shift.employeeId) ?? []), shift]);
+  });
+
+  return Array.from(shiftsByEmployee.entries())
+    .map(([employeeId, shifts]): TipStatement => {
+      const sorted = shifts.slice().sort((a, b) =>
+        a.date.localeCompare(b.date)
+        || (a.servicePeriodName ?? '').localeCompare(b.servicePeriodName ?? '')
+        || a.roleName.localeCompare(b.roleName));
+      // Every type comes back for every shift, mostly at zero; only list the ones with amounts
+      const tipoutTypes = new Set<TipoutType>();
+      sorted.forEach(shift => {
+        [shift.tipoutsPaid, shift.tipoutsReceived].forEach(amounts => {
+          Object.entries(amounts).forEach(([type, amount]) => {
+            if (amount !== 0) tipoutTypes.add(type);
+          });
+        });
+      });
+      return {
+        employeeId,
+        employeeName: sorted[0].employeeName,
+        startDate,
+        endDate,
+        tipoutTypes: Array.from(tipoutTypes).sort(),
+        shifts: sorted,
+        totals: totalTipStatementShifts(sorted),
+        roles: employeeSummaries
+          .filter(summary => summary.employeeId === employeeId)
+          .sort((a, b) => a.roleName.localeCompare(b.roleName)),
+      };
+    })
+    .sort((a, b) => a.employeeName.localeCompare(b.employeeName));
+};
+
+/**
+ * Works out the tip statements for a report's inputs: one employee's with an employeeId, otherwise everyone's.
+ * The whole range is calculated either way, since pools and tipouts depend on who else worked.
+ */
+export const calculateTipStatements = (inputs: ReportInputs, employeeId: string | null = null): TipStatement[] => {
+  const shiftTips: ShiftTipBreakdown[] = [];
+  const employeeSummaries = calculateEmployeeRoleSummariesDaily(inputs.shifts, {
+    minimumWages: inputs.minimumWages,
+    payrollSettings: inputs.payrollSettings,
+    shiftTips,
+    range: { startDate: inputs.startDate, endDate: inputs.endDate },
+  });
+  const statements = buildTipStatements(shiftTips, employeeSummaries, inputs.startDate, inputs.endDate);
+  return employeeId ? statements.filter(statement => statement.employeeId === employeeId) : statements;
+};
+
+const text = (header: string): ReportExportColumn => ({ header, kind: 'text' });
+const money = (header: string): ReportExportColumn => ({ header, kind: 'money' });
+const hours = (header: string): ReportExportColumn => ({ header, kind: 'hours' });
+
+/**
+ * Lays a statement out as two tables for the PDF: its shifts with a totals row, then the totals by role as the
+ * report shows them. Pool share columns only appear when a shift was pooled, as do house top-ups when there are any.
+ */
+export const buildTipStatementTables = (statement: TipStatement, tipoutTypeNames: Record<TipoutType, string> = {}): ReportExportTable[] => {
+  const typeName = (type: TipoutType) => (tipoutTypeNames[type] ?? type).toLowerCase();
+  const isPooled = statement.shifts.some(shift => shift.tipPoolGroup);
+  const hasHouseTopUps = statement.totals.houseTopUp > 0;
+  const amounts = (line: Pick<TipStatementTotals, 'grossCashTips' | 'grossCreditTips' | 'tipoutsPaid' | 'tipoutsReceived' | 'houseTopUp' | 'cashTips' | 'payrollTips'> & {
+    poolCashShare: number | null;
+    poolCreditShare: number | null;
+  }) => [
+    line.grossCashTips,
+    line.grossCreditTips,
+    ...(isPooled ? [line.poolCashShare ?? '', line.poolCreditShare ?? ''] : []),
+    ...statement.tipoutTypes.flatMap(type => [line.tipoutsPaid[type] || 0, line.tipoutsReceived[type] || 0]),
+    ...(hasHouseTopUps ? [line.houseTopUp] : []),
+    line.cashTips,
+    line.payrollTips,
+  ];
+
+  return [
+    {
+      title: statement.employeeName,
+      startsPage: true,
+      columns: [
+        text('date'),
+        text('service'),
+        text('role'),
+        hours('hours'),
+        money('cash tips'),
+        money('credit tips'),
+        ...(isPooled ? [money('pool cash share'), money('pool credit share')] : []),
+        ...statement.tipoutTypes.flatMap(type => [money(`${typeName(type)} paid`), money(`${typeName(type)} received`)]),
+        ...(hasHouseTopUps ? [money('house top-up')] : []),
+        money('cash kept'),
+        money('payroll tips'),
+      ],
+      rows: [
+        ...statement.shifts.map(shift => [
+          shift.date,
+          shift.servicePeriodName ?? '',
+          shift.roleName,
+          shift.hours,
+          ...amounts(shift),
+        ]),
+        [`total (${statement.totals.shifts} shifts)`, '', '', statement.totals.hours, ...amounts(statement.totals)],
+      ],
+    },
+    {
+      title: `${statement.employeeName}: Totals by Role`,
+      columns: [
+        text('role'),
+        hours('hours'),
+        money('cash kept'),
+        money('gross credit tips'),
+        ...statement.tipoutTypes.map(type => money(`${typeName(type)} tipout`)),
+        ...(hasHouseTopUps ? [money('house top-up')] : []),
+        money('payroll tips'),
+      ],
+      rows: statement.roles.map(role => [
+        role.roleName,
+        role.totalHours,
+        role.totalCashTips,
+        role.totalGrossCreditTips,
+        ...statement.tipoutTypes.map(type => role.totalTipouts[type] || 0),
+        ...(hasHouseTopUps ? [role.totalHouseTopUp || 0] : []),
+        role.totalPayrollTips,
+      ]),
+    },
+  ];
+};
@@ -1,5 +1,5 @@
 import { describe, it, expect } from '@jest/globals';
-import { calculateTipouts, roleReceivesTipoutType, rolePaysTipoutType, getRoleDistributionGroup } from './tipoutCalculations';
+import { calculateTipouts, roleReceivesTipoutType, rolePaysTipoutType, getRoleDistributionGroup, getActiveTipoutTypes, getTipoutBasis, getTipoutStages, getTipoutLimits, splitTipoutBySource } from './tipoutCalculations';
 // We need to import the types. Adjust the path if they are defined elsewhere or re-define them here.
 // Assuming types might be in a central types file or directly in tipoutCalculations.ts and exported.
 // If they are not exported from './tipoutCalculations', this will need adjustment.
@@ -12,11 +12,16 @@ type RoleConfig = {
   id: string;
   tipoutType: string;
   percentageRate: number;
+  basis?: 'total_tips' | 'credit_tips' | 'liquor_sales' | 'food_sales' | 'net_sales';
   effectiveFrom: string;
   effectiveTo: string | null;
   paysTipout?: boolean;
   receivesTipout?: boolean;
   distributionGroup?: string;
+  capPercentage?: number | null;
+  capBasis?: 'total_tips' | 'credit_tips' | 'liquor_sales' | 'food_sales' | 'net_sales' | null;
+  floorPercentage?: number | null;
+  floorBasis?: 'total_tips' | 'credit_tips' | 'liquor_sales' | 'food_sales' | 'net_sales' | null;
 };
 
 type Shift = {
@@ -33,6 +38,8 @@ type Shift = {
   cashTips: number;
   creditTips: number;
   liquorSales: number;
+  foodSales?: number;
+  netSales?: number;
 };
 
 
@@ -57,6 +64,8 @@ const createMockShift = (overrides: Partial<Shift> & { roleConfigs?: RoleConfig[
     };
 };
 
+const ALL_PRESENT = { bar: true, host: true, sa: true };
+
 // --- calculateTipouts Tests ---
 
 describe('calculateTipouts', () => {
@@ -67,9 +76,9 @@ describe('calculateTipouts', () => {
             role: { name: 'Server', basePayRate: 10, configs: undefined as unknown as RoleConfig[] } // Force undefined configs
         });
 
-        expect(calculateTipouts(shiftWithoutRole, true, true, true)).toEqual({ barTipout: 0, hostTipout: 0, saTipout: 0 });
+        expect(calculateTipouts(shiftWithoutRole, ALL_PRESENT)).toEqual({});
         // Check the case where role exists but configs array is missing/undefined
-        expect(calculateTipouts(shiftWithoutConfigs, true, true, true)).toEqual({ barTipout: 0, hostTipout: 0, saTipout: 0 });
+        expect(calculateTipouts(shiftWithoutConfigs, ALL_PRESENT)).toEqual({});
      });
 
 
@@ -81,10 +90,10 @@ describe('calculateTipouts', () => {
         ];
         const shift = createMockShift({ roleConfigs: configs });
 
-        expect(calculateTipouts(shift, true, true, true)).toEqual({ barTipout: 25, hostTipout: 3, saTipout: 6 });
+        expect(calculateTipouts(shift, ALL_PRESENT)).toEqual({ bar: 25, host: 3, sa: 6 });
     });
 
-    it('should respect the hasHost, hasSA, and hasBar flags', () => {
+    it('should only calculate tipouts for types with a receiving role present', () => {
          const configs: RoleConfig[] = [
             { id: 'cfg1', tipoutType: 'bar', percentageRate: 5, effectiveFrom: '2023-01-01', effectiveTo: null, paysTipout: true },
             { id: 'cfg2', tipoutType: 'host', percentageRate: 1, effectiveFrom: '2023-01-01', effectiveTo: null, paysTipout: true },
@@ -93,13 +102,13 @@ describe('calculateTipouts', () => {
         const shift = createMockShift({ roleConfigs: configs });
 
         // No Bar present
-        expect(calculateTipouts(shift, true, true, false)).toEqual({ barTipout: 0, hostTipout: 3, saTipout: 6 });
-        // No Host present (Note: Current implementation has host check commented out, test reflects that)
-        expect(calculateTipouts(shift, false, true, true)).toEqual({ barTipout: 25, hostTipout: 3, saTipout: 6 }); // If check re-enabled, hostTipout should be 0
+        expect(calculateTipouts(shift, { bar: false, host: true, sa: true })).toEqual({ bar: 0, host: 3, sa: 6 });
+        // No Host present
+        expect(calculateTipouts(shift, { bar: true, host: false, sa: true })).toEqual({ bar: 25, host: 0, sa: 6 });
         // No SA present
-        expect(calculateTipouts(shift, true, false, true)).toEqual({ barTipout: 25, hostTipout: 3, saTipout: 0 });
+        expect(calculateTipouts(shift, { bar: true, host: true, sa: false })).toEqual({ bar: 25, host: 3, sa: 0 });
         // None present
-        expect(calculateTipouts(shift, false, false, false)).toEqual({ barTipout: 0, hostTipout: 3, saTipout: 0 }); // If host check re-enabled, hostTipout should be 0
+        expect(calculateTipouts(shift, {})).toEqual({ bar: 0, host: 0, sa: 0 });
     });
 
      it('should not calculate tipout if paysTipout is false', () => {
@@ -110,7 +119,7 @@ describe('calculateTipouts', () => {
         ];
         const shift = createMockShift({ roleConfigs: configs });
 
-        expect(calculateTipouts(shift, true, true, true)).toEqual({ barTipout: 0, hostTipout: 3, saTipout: 0 });
+        expect(calculateTipouts(shift, ALL_PRESENT)).toEqual({ bar: 0, host: 3, sa: 0 });
      });
 
      it('should handle zero tips and sales correctly', () => {
@@ -121,7 +130,7 @@ describe('calculateTipouts', () => {
         ];
         const shift = createMockShift({ roleConfigs: configs, cashTips: 0, creditTips: 0, liquorSales: 0 });
 
-        expect(calculateTipouts(shift, true, true, true)).toEqual({ barTipout: 0, hostTipout: 0, saTipout: 0 });
+        expect(calculateTipouts(shift, ALL_PRESENT)).toEqual({ bar: 0, host: 0, sa: 0 });
      });
 
      it('should handle cases where percentageRate is zero', () => {
@@ -132,7 +141,7 @@ describe('calculateTipouts', () => {
         ];
         const shift = createMockShift({ roleConfigs: configs });
 
-        expect(calculateTipouts(shift, true, true, true)).toEqual({ barTipout: 0, hostTipout: 0, saTipout: 0 });
+        expect(calculateTipouts(shift, ALL_PRESENT)).toEqual({ bar: 0, host: 0, sa: 0 });
     });
 
     it('should calculate bar tipout based on individual liquor sales after pooling', () => {
@@ -145,13 +154,121 @@ describe('calculateTipouts', () => {
 
         // Bar tipout is calculated based on individual liquor sales after pooling
         // 10% of 400 liquor sales = 40
-        expect(calculateTipouts(shift, true, true, true)).toEqual({ barTipout: 40, hostTipout: 14, saTipout: 8 });
+        expect(calculateTipouts(shift, ALL_PRESENT)).toEqual({ bar: 40, host: 14, sa: 8 });
     });
 });
 
 
 // --- roleReceivesTipoutType Tests ---
 
+describe('calculateTipouts with admin-defined types', () => {
+    it('should calculate custom tipout types as a percentage of total tips', () => {
+        const configs: RoleConfig[] = [
+            { id: 'cfg1', tipoutType: 'kitchen', percentageRate: 3, effectiveFrom: '2023-01-01', effectiveTo: null, paysTipout: true }, // 3% of total tips (300) = 9
+        ];
+        const shift = createMockShift({ roleConfigs: configs });
+
+        expect(calculateTipouts(shift, { kitchen: true })).toEqual({ kitchen: 9 });
+        expect(calculateTipouts(shift, { kitchen: false })).toEqual({ kitchen: 0 });
+    });
+});
+
+describe('calculateTipouts with a configured basis', () => {
+    it('should apply each rate to the basis configured on the role config', () => {
+        const configs: RoleConfig[] = [
+            { id: 'cfg1', tipoutType: 'host', percentageRate: 2, basis: 'credit_tips', effectiveFrom: '2023-01-01', effectiveTo: null, paysTipout: true }, // 2% of credit tips (200) = 4
+            { id: 'cfg2', tipoutType: 'bar', percentageRate: 5, basis: 'total_tips', effectiveFrom: '2023-01-01', effectiveTo: null, paysTipout: true }, // 5% of total tips (300) = 15
+            { id: 'cfg3', tipoutType: 'kitchen', percentageRate: 1, basis: 'food_sales', effectiveFrom: '2023-01-01', effectiveTo: null, paysTipout: true }, // 1% of food sales (800) = 8
+            { id: 'cfg4', tipoutType: 'sa', percentageRate: 0.5, basis: 'net_sales', effectiveFrom: '2023-01-01', effectiveTo: null, paysTipout: true }, // 0.5% of net sales (1200) = 6
+        ];
+        const shift = createMockShift({ roleConfigs: configs, foodSales: 800, netSales: 1200 });
+
+        expect(calculateTipouts(shift, { host: true, bar: true, kitchen: true, sa: true })).toEqual({ host: 4, bar: 15, kitchen: 8, sa: 6 });
+    });
+
+    it('should fall back to liquor sales for bar and total tips for other types when no basis is set', () => {
+        const configs: RoleConfig[] = [
+            { id: 'cfg1', tipoutType: 'bar', percentageRate: 5, effectiveFrom: '2023-01-01', effectiveTo: null, paysTipout: true },
+            { id: 'cfg2', tipoutType: 'host', percentageRate: 2, effectiveFrom: '2023-01-01', effectiveTo: null, paysTipout: true },
+        ];
+        const shift = createMockShift({ roleConfigs: configs });
+
+        expect(getTipoutBasis(shift, 'bar')).toBe('liquor_sales');
+        expect(getTipoutBasis(shift, 'host')).toBe('total_tips');
+    });
+
+    it('should treat missing food and net sales as zero', () => {
+        const configs: RoleConfig[] = [
+            { id: 'cfg1', tipoutType: 'kitchen', percentageRate: 1, basis: 'food_sales', effectiveFrom: '2023-01-01', effectiveTo: null, paysTipout: true },
+        ];
+        const shift = createMockShift({ roleConfigs: configs });
+
+        expect(calculateTipouts(shift, { kitchen: true })).toEqual({ kitchen: 0 });
+    });
+});
+
+describe('calculateTipouts with a cap or floor', () => {
+    it('should hold a tipout to a cap on another basis', () => {
+        const configs: RoleConfig[] = [
+            // 10% of liquor sales (500) = 50, capped at 10% of total tips (300) = 30
+            { id: 'cfg1', tipoutType: 'bar', percentageRate: 10, basis: 'liquor_sales', capPercentage: 10, capBasis: 'total_tips', effectiveFrom: '2023-01-01', effectiveTo: null, paysTipout: true },
+        ];
+        const shift = createMockShift({ roleConfigs: configs });
+
+        expect(calculateTipouts(shift, ALL_PRESENT)).toEqual({ bar: 30 });
+        expect(getTipoutLimits(shift, 'bar')).toEqual({ cap: 30, floor: null });
+    });
+
+    it('should raise a tipout to its floor, measured on the tipout basis when none is set', () => {
+        const configs: RoleConfig[] = [
+            // 1% of total tips (300) = 3, floored at 2% of total tips = 6
+            { id: 'cfg1', tipoutType: 'host', percentageRate: 1, floorPercentage: 2, effectiveFrom: '2023-01-01', effectiveTo: null, paysTipout: true },
+        ];
+        const shift = createMockShift({ roleConfigs: configs });
+
+        expect(calculateTipouts(shift, ALL_PRESENT)).toEqual({ host: 6 });
+    });
+
+    it('should not apply a floor when no one receiving the tipout worked', () => {
+        const configs: RoleConfig[] = [
+            { id: 'cfg1', tipoutType: 'host', percentageRate: 1, floorPercentage: 2, effectiveFrom: '2023-01-01', effectiveTo: null, paysTipout: true },
+        ];
+        const shift = createMockShift({ roleConfigs: configs });
+
+        expect(calculateTipouts(shift, { host: false })).toEqual({ host: 0 });
+    });
+});
+
+describe('splitTipoutBySource', () => {
+    it('should take the whole tipout from credit by default', () => {
+        expect(splitTipoutBySource(2000, 'credit', 5000, 15000)).toEqual({ cashCents: 0, creditCents: 2000 });
+    });
+
+    it('should take from cash first and cover the rest from credit', () => {
+        expect(splitTipoutBySource(2000, 'cash_first', 5000, 15000)).toEqual({ cashCents: 2000, creditCents: 0 });
+        expect(splitTipoutBySource(2000, 'cash_first', 500, 15000)).toEqual({ cashCents: 500, creditCents: 1500 });
+    });
+
+    it('should split in proportion to the cash and credit held', () => {
+        expect(splitTipoutBySource(2000, 'proportional', 5000, 15000)).toEqual({ cashCents: 500, creditCents: 1500 });
+        expect(splitTipoutBySource(1000, 'proportional', 0, 0)).toEqual({ cashCents: 0, creditCents: 1000 });
+    });
+});
+
+describe('getActiveTipoutTypes', () => {
+    it('should list each tipout type with a config active on the shift date once', () => {
+        const configs: RoleConfig[] = [
+            { id: 'cfg1', tipoutType: 'host', percentageRate: 1, effectiveFrom: '2023-01-01', effectiveTo: '2023-06-30', paysTipout: true },
+            { id: 'cfg2', tipoutType: 'host', percentageRate: 2, effectiveFrom: '2023-07-01', effectiveTo: null, paysTipout: true },
+            { id: 'cfg3', tipoutType: 'kitchen', percentageRate: 3, effectiveFrom: '2023-01-01', effectiveTo: null, paysTipout: true },
+            { id: 'cfg4', tipoutType: 'sa', percentageRate: 2, effectiveFrom: '2025-01-01', effectiveTo: null, paysTipout: true }, // Not yet active
+        ];
+        const shift = createMockShift({ roleConfigs: configs });
+
+        expect(getActiveTipoutTypes(shift)).toEqual(['host', 'kitchen']);
+    });
+});
+
 describe('roleReceivesTipoutType', () => {
     const configs: RoleConfig[] = [
         { id: 'cfg1', tipoutType: 'bar', percentageRate: 5, effectiveFrom: '2023-01-01', effectiveTo: null, receivesTipout: true }, // Explicitly true
@@ -306,10 +423,10 @@ describe('findActiveConfig', () => {
         const shiftJan = createDatedMockShift('2024-01-15', configs);
         const shiftFeb = createDatedMockShift('2024-02-15', configs);
 
-        // Jan shift uses 1% -> hostTipout = (100+200) * 0.01 = 3
-        expect(calculateTipouts(shiftJan, true, false, false).hostTipout).toBeCloseTo(3);
-        // Feb shift uses 2% -> hostTipout = (100+200) * 0.02 = 6
-        expect(calculateTipouts(shiftFeb, true, false, false).hostTipout).toBeCloseTo(6);
+        // Jan shift uses 1% -> host tipout = (100+200) * 0.01 = 3
+        expect(calculateTipouts(shiftJan, { host: true }).host).toBeCloseTo(3);
+        // Feb shift uses 2% -> host tipout = (100+200) * 0.02 = 6
+        expect(calculateTipouts(shiftFeb, { host: true }).host).toBeCloseTo(6);
     });
 
     it('should handle effectiveTo date correctly', () => {
@@ -320,9 +437,9 @@ describe('findActiveConfig', () => {
         const shiftAfterEnd = createDatedMockShift('2024-01-16', configs);
 
         // Shift on end date uses the config
-        expect(calculateTipouts(shiftOnEnd, true, false, false).hostTipout).toBeCloseTo(3);
+        expect(calculateTipouts(shiftOnEnd, { host: true }).host).toBeCloseTo(3);
          // Shift after end date does not use the config
-        expect(calculateTipouts(shiftAfterEnd, true, false, false).hostTipout).toBeCloseTo(0);
+        expect(calculateTipouts(shiftAfterEnd, { host: true }).host ?? 0).toBeCloseTo(0);
     });
 
      it('should handle effectiveFrom date correctly', () => {
@@ -333,9 +450,9 @@ describe('findActiveConfig', () => {
         const shiftBeforeStart = createDatedMockShift('2024-01-14', configs);
 
         // Shift on start date uses the config
-        expect(calculateTipouts(shiftOnStart, true, false, false).hostTipout).toBeCloseTo(3);
+        expect(calculateTipouts(shiftOnStart, { host: true }).host).toBeCloseTo(3);
         // Shift before start date does not use the config
-        expect(calculateTipouts(shiftBeforeStart, true, false, false).hostTipout).toBeCloseTo(0);
+        expect(calculateTipouts(shiftBeforeStart, { host: true }).host ?? 0).toBeCloseTo(0);
      });
 
      it('should return null if no config is active for the date', () => {
@@ -343,6 +460,27 @@ describe('findActiveConfig', () => {
             { id: 'cfg1', tipoutType: 'host', percentageRate: 1, effectiveFrom: '2024-02-01', effectiveTo: null, paysTipout: true }, // Only active from Feb
         ];
         const shiftJan = createDatedMockShift('2024-01-15', configs);
-        expect(calculateTipouts(shiftJan, true, false, false).hostTipout).toBeCloseTo(0);
+        expect(calculateTipouts(shiftJan, { host: true }).host ?? 0).toBeCloseTo(0);
      });
-}); 
\ No newline at end of file
+}); 
+describe('getTipoutStages', () => {
+    it('should put types paid out of other tipouts after the types they are paid out of', () => {
+        const { stages, cycle } = getTipoutStages(['bar', 'host', 'barback', 'busser', 'runner'], [
+            ['bar', 'barback'],
+            ['host', 'busser'],
+            ['barback', 'runner'],
+        ]);
+
+        expect(cycle).toBeNull();
+        expect(stages).toEqual({ bar: 0, host: 0, barback: 1, busser: 1, runner: 2 });
+    });
+
+    it('should report the types around a cycle', () => {
+        const { cycle } = getTipoutStages(['bar', 'barback', 'host'], [
+            ['bar', 'barback'],
+            ['barback', 'bar'],
+        ]);
+
+        expect(cycle).toEqual(['bar', 'barback', 'bar']);
+    });
+});
@@ -1,3 +1,7 @@
+import { TipoutBasis, DistributionWeighting, PoolingWindow, AbsentRecipientPolicy, TipoutSourceBucket } from '@/types/reports';
+import { toCents, fromCents, percentOfCents } from './money';
+import { findActiveConfig, resolveActiveTipoutTypes } from './effectiveConfig';
+
 // Type definitions
 type Employee = {
   id: string;
@@ -8,11 +12,17 @@ type RoleConfig = {
   id: string;
   tipoutType: string;
   percentageRate: number;
+  basis?: TipoutBasis;       // What percentageRate applies to (defaults by tipout type)
   effectiveFrom: string;
   effectiveTo: string | null;
   paysTipout?: boolean;      // Whether this role pays tipout of this type
   receivesTipout?: boolean;  // Whether this role receives tipout of this type
   distributionGroup?: string; // For pooling tipouts (e.g., 'bartenders', 'hosts')
+  capPercentage?: number | null;   // Most the tipout may be, as a percentage of capBasis
+  capBasis?: TipoutBasis | null;
+  floorPercentage?: number | null; // Least the tipout may be, as a percentage of floorBasis
+  floorBasis?: TipoutBasis | null;
+  sourceBucket?: TipoutSourceBucket; // Which of the payer's tips the tipout is taken from
 };
 
 type Shift = {
@@ -29,91 +39,282 @@ type Shift = {
   cashTips: number;
   creditTips: number;
   liquorSales: number;
+  foodSales?: number;
+  netSales?: number;
+  receivedTipouts?: number; // Received from tipouts of earlier stages, for the received_tipouts basis
 };
 
-import { isWithinInterval, parseISO, isBefore, isEqual } from 'date-fns';
-
-// Helper function to find the active configuration for a specific type and date
-const findActiveConfig = (shift: Shift, tipoutType: string): RoleConfig | null => {
-  if (!shift.role?.configs) return null;
-  
-  const shiftDate = parseISO(shift.date); // Parse the shift date string once
-  
-  const activeConfig = shift.role.configs.find(config => {
-    if (config.tipoutType !== tipoutType) return false;
-    
-    const effectiveFrom = parseISO(config.effectiveFrom);
-    // Check if shift date is on or after effectiveFrom
-    const isAfterOrOnFrom = isEqual(shiftDate, effectiveFrom) || isBefore(effectiveFrom, shiftDate);
-    if (!isAfterOrOnFrom) return false;
-    
-    // Check effectiveTo
-    if (config.effectiveTo) {
-      const effectiveTo = parseISO(config.effectiveTo);
-      // Check if shift date is on or before effectiveTo
-      const isOnOrBeforeTo = isEqual(shiftDate, effectiveTo) || isBefore(shiftDate, effectiveTo);
-      return isOnOrBeforeTo;
-    } else {
-      // If effectiveTo is null, it's active indefinitely from effectiveFrom
-      return true;
-    }
+/**
+ * Every supported tipout basis, in display order
+ */
+export const TIPOUT_BASES: { value: TipoutBasis; label: string }[] = [
+  { value: 'total_tips', label: 'total tips' },
+  { value: 'credit_tips', label: 'credit tips' },
+  { value: 'liquor_sales', label: 'liquor sales' },
+  { value: 'food_sales', label: 'food sales' },
+  { value: 'net_sales', label: 'net sales' },
+  { value: 'received_tipouts', label: 'tipouts received' },
+];
+
+export const isTipoutBasis = (value: unknown): value is TipoutBasis => {
+  return TIPOUT_BASES.some(basis => basis.value === value);
+};
+
+/**
+ * Every supported way of splitting a tip pool or distribution group, in display order
+ */
+export const DISTRIBUTION_WEIGHTINGS: { value: DistributionWeighting; label: string }[] = [
+  { value: 'hours', label: 'hours worked' },
+  { value: 'points', label: 'points per hour' },
+  { value: 'equal', label: 'equal share' },
+  { value: 'fixed_percentage', label: 'fixed % per role' },
+];
+
+export const isDistributionWeighting = (value: unknown): value is DistributionWeighting => {
+  return DISTRIBUTION_WEIGHTINGS.some(weighting => weighting.value === value);
+};
+
+/**
+ * Every supported span a tip pool or distribution group can be built over, in display order
+ */
+export const POOLING_WINDOWS: { value: PoolingWindow; label: string }[] = [
+  { value: 'shift', label: 'per shift' },
+  { value: 'day', label: 'per day' },
+  { value: 'week', label: 'per week' },
+  { value: 'pay_period', label: 'per pay period' },
+];
+
+export const isPoolingWindow = (value: unknown): value is PoolingWindow => {
+  return POOLING_WINDOWS.some(window => window.value === value);
+};
+
+/**
+ * Display label of a pooling window, e.g. 'per week'
+ */
+export const getPoolingWindowLabel = (window: PoolingWindow): string => {
+  return POOLING_WINDOWS.find(option => option.value === window)?.label ?? window;
+};
+
+/**
+ * Every supported way of handling a tipout when no one receiving it worked, in display order
+ */
+export const ABSENT_RECIPIENT_POLICIES: { value: AbsentRecipientPolicy; label: string }[] = [
+  { value: 'skip', label: 'payer keeps it' },
+  { value: 'roll_to_group', label: 'roll to another group' },
+  { value: 'house', label: 'goes to the house' },
+  { value: 'carry_forward', label: 'carry to the next day' },
+];
+
+export const isAbsentRecipientPolicy = (value: unknown): value is AbsentRecipientPolicy => {
+  return ABSENT_RECIPIENT_POLICIES.some(policy => policy.value === value);
+};
+
+/**
+ * Every supported bucket of tips a tipout can be paid from, in display order
+ */
+export const TIPOUT_SOURCE_BUCKETS: { value: TipoutSourceBucket; label: string }[] = [
+  { value: 'credit', label: 'credit tips' },
+  { value: 'cash_first', label: 'cash first' },
+  { value: 'proportional', label: 'cash and credit pro rata' },
+];
+
+export const isTipoutSourceBucket = (value: unknown): value is TipoutSourceBucket => {
+  return TIPOUT_SOURCE_BUCKETS.some(bucket => bucket.value === value);
+};
+
+/**
+ * Which of the payer's tips a tipout of this type is taken from, based on ACTIVE config. Defaults to credit tips.
+ */
+export const getTipoutSourceBucket = (shift: Shift, tipoutType: string): TipoutSourceBucket => {
+  return findActiveConfig(shift, tipoutType)?.sourceBucket ?? 'credit';
+};
+
+/**
+ * Splits a tipout (in cents) into the part paid from cash and the part paid from credit:
+ * all from credit, from whatever cash is left before touching credit, or in proportion to the cash and credit left.
+ * Credit covers whatever cash cannot, so the parts always add up to the tipout.
+ */
+export const splitTipoutBySource = (
+  cents: number,
+  bucket: TipoutSourceBucket,
+  availableCashCents: number,
+  availableCreditCents: number
+): { cashCents: number; creditCents: number } => {
+  const cash = Math.max(0, availableCashCents);
+  const credit = Math.max(0, availableCreditCents);
+  let cashCents = 0;
+  if (bucket === 'cash_first') {
+    cashCents = Math.min(cents, cash);
+  } else if (bucket === 'proportional' && cash + credit > 0) {
+    cashCents = Math.min(cash, Math.round(Number(((cents * cash) / (cash + credit)).toFixed(6))));
+  }
+  cashCents = Math.max(0, cashCents);
+  return { cashCents, creditCents: cents - cashCents };
+};
+
+/**
+ * Basis used when a config does not specify one: bar tipouts have always been
+ * a share of liquor sales, everything else a share of total tips.
+ */
+export const getDefaultTipoutBasis = (tipoutType: string): TipoutBasis => {
+  return tipoutType === 'bar' ? 'liquor_sales' : 'total_tips';
+};
+
+/**
+ * Whether a basis is one of the shift's tip amounts rather than its sales.
+ * Tips-based tipouts are deducted from a tip pool; sales-based tipouts are paid individually.
+ */
+export const isTipsBasis = (basis: TipoutBasis): boolean => {
+  return basis === 'total_tips' || basis === 'credit_tips';
+};
+
+/**
+ * The amount of a shift a tipout percentage applies to
+ */
+export const getBasisAmount = (shift: Shift, basis: TipoutBasis): number => {
+  switch (basis) {
+    case 'total_tips':
+      return Number(shift.cashTips) + Number(shift.creditTips);
+    case 'credit_tips':
+      return Number(shift.creditTips);
+    case 'liquor_sales':
+      return Number(shift.liquorSales);
+    case 'food_sales':
+      return Number(shift.foodSales ?? 0);
+    case 'net_sales':
+      return Number(shift.netSales ?? 0);
+    case 'received_tipouts':
+      return Number(shift.receivedTipouts ?? 0);
+  }
+};
+
+/**
+ * Orders tipout types into the stages they are calculated in. `dependencies` pairs a type with a type
+ * paid out of it (e.g. ['bar', 'barback'] when bartenders tip out barbacks from their bar tipout);
+ * a type comes one stage after the latest type it is paid out of, and types paid from tips or sales are stage 0.
+ * When the dependencies loop back on themselves, `cycle` lists the types around the loop.
+ */
+export const getTipoutStages = (
+  types: string[],
+  dependencies: [string, string][]
+): { stages: Record<string, number>; cycle: string[] | null } => {
+  const paidOutOf = new Map<string, string[]>();
+  dependencies.forEach(([source, type]) => {
+    paidOutOf.set(type, [...(paidOutOf.get(type) ?? []), source]);
   });
-  
-  return activeConfig || null;
+
+  const stages: Record<string, number> = {};
+  const visiting: string[] = [];
+  let cycle: string[] | null = null;
+  const visit = (type: string): number => {
+    if (type in stages) return stages[type];
+    const index = visiting.indexOf(type);
+    if (index !== -1) {
+      cycle = cycle ?? [...visiting.slice(index), type];
+      return 0;
+    }
+    visiting.push(type);
+    const stage = Math.max(-1, ...(paidOutOf.get(type) ?? []).map(visit)) + 1;
+    visiting.pop();
+    stages[type] = stage;
+    return stage;
+  };
+  [...types, ...dependencies.flat()].forEach(visit);
+
+  return { stages, cycle };
+};
+
+/**
+ * Helper function to get the basis of a role's tipout type based on ACTIVE config
+ */
+export const getTipoutBasis = (shift: Shift, tipoutType: string): TipoutBasis => {
+  const activeConfig = findActiveConfig(shift, tipoutType);
+  return activeConfig?.basis ?? getDefaultTipoutBasis(tipoutType);
+};
+
+/**
+ * Lists the tipout types the shift's role has an ACTIVE configuration for on the shift's date
+ */
+export const getActiveTipoutTypes = (shift: Shift): string[] => {
+  if (!shift.role?.configs) return [];
+  return resolveActiveTipoutTypes(shift.role.configs, shift.date);
+};
+
+/**
+ * A shift's tipout of one type as its rate times its basis, before any cap or floor, rounded to the cent.
+ * Ignores whether anyone receiving it worked.
+ */
+export const calculateTipoutBeforeLimits = (shift: Shift, tipoutType: string): number => {
+  const activeConfig = findActiveConfig(shift, tipoutType);
+  if (!activeConfig) return 0;
+  const basis = activeConfig.basis ?? getDefaultTipoutBasis(tipoutType);
+  return fromCents(percentOfCents(toCents(getBasisAmount(shift, basis)), activeConfig.percentageRate));
+};
+
+/**
+ * The most and least a shift's tipout of one type may be under its ACTIVE config's cap and floor,
+ * e.g. a bar tipout of 5% of liquor sales capped at 40% of the server's tips. Null when there is no such rule.
+ */
+export const getTipoutLimits = (shift: Shift, tipoutType: string): { cap: number | null; floor: number | null } => {
+  const activeConfig = findActiveConfig(shift, tipoutType);
+  if (!activeConfig) return { cap: null, floor: null };
+
+  const basis = activeConfig.basis ?? getDefaultTipoutBasis(tipoutType);
+  const limit = (percentage: number | null | undefined, limitBasis: TipoutBasis | null | undefined): number | null => {
+    if (percentage === null || percentage === undefined) return null;
+    return fromCents(percentOfCents(toCents(getBasisAmount(shift, limitBasis ?? basis)), percentage));
+  };
+  return {
+    cap: limit(activeConfig.capPercentage, activeConfig.capBasis),
+    floor: limit(activeConfig.floorPercentage, activeConfig.floorBasis),
+  };
+};
+
+/**
+ * Raises a tipout to its floor and then holds it to its cap, so a cap always wins over a floor.
+ */
+export const applyTipoutLimits = (shift: Shift, tipoutType: string, amount: number): number => {
+  const { cap, floor } = getTipoutLimits(shift, tipoutType);
+  let limited = amount;
+  if (floor !== null && limited < floor) limited = floor;
+  if (cap !== null && limited > cap) limited = cap;
+  return limited;
 };
 
 /**
  * Calculate tipouts for a shift based on ACTIVE role configurations for the shift's date
  * 
  * @param shift The shift to calculate tipouts for
- * @param hasHost Whether hosts worked that day (affects host tipouts)
- * @param hasSA Whether SAs worked that day (affects SA tipouts)
- * @param hasBar Whether bartenders worked that day (affects bar tipouts)
- * @returns Object containing calculated tipout amounts
+ * @param presence Whether a role receiving each tipout type worked that day, keyed by tipout type
+ * @returns Calculated tipout amount for each tipout type the role is configured for, rounded to the cent
+ *          and held between the config's floor and cap
  */
-export const calculateTipouts = (shift: Shift, hasHost: boolean, hasSA: boolean, hasBar: boolean = false): { barTipout: number, hostTipout: number, saTipout: number } => {
-  if (!shift.role?.configs) return { barTipout: 0, hostTipout: 0, saTipout: 0 };
+export const calculateTipouts = (shift: Shift, presence: Record<string, boolean>): Record<string, number> => {
+  if (!shift.role?.configs) return {};
 
   console.log('calculateTipouts input:', { 
     shiftId: shift.id,
     role: shift.role.name,
     configs: shift.role.configs.length,
-    hasHost, 
-    hasSA,
-    hasBar
+    presence
   });
 
-  const totalTips = Number(shift.cashTips) + Number(shift.creditTips);
-  let barTipout = 0;
-  let hostTipout = 0;
-  let saTipout = 0;
+  const tipouts: Record<string, number> = {};
 
-  // Find ACTIVE config for each tipout type
-  const activeBarConfig = findActiveConfig(shift, 'bar');
-  const activeHostConfig = findActiveConfig(shift, 'host');
-  const activeSaConfig = findActiveConfig(shift, 'sa');
+  getActiveTipoutTypes(shift).forEach(tipoutType => {
+    const activeConfig = findActiveConfig(shift, tipoutType);
+    tipouts[tipoutType] = 0;
 
-  // Calculate Bar Tipout
-  if (hasBar && activeBarConfig && activeBarConfig.paysTipout !== false) {
-    barTipout = Number(shift.liquorSales) * (activeBarConfig.percentageRate / 100);
-    console.log(`Calculated bar tipout: ${barTipout} using rate ${activeBarConfig.percentageRate}%`);
-  }
-
-  // Calculate Host Tipout
-  if (hasHost && activeHostConfig && activeHostConfig.paysTipout !== false) {
-    hostTipout = totalTips * (activeHostConfig.percentageRate / 100);
-    console.log(`Calculated host tipout: ${hostTipout} using rate ${activeHostConfig.percentageRate}%`);
-  }
+    // Skip the tipout when no one receiving it worked that day
+    if (!presence[tipoutType] || !activeConfig || activeConfig.paysTipout === false) return;
 
-  // Calculate SA Tipout
-  if (hasSA && activeSaConfig && activeSaConfig.paysTipout !== false) {
-    saTipout = totalTips * (activeSaConfig.percentageRate / 100);
-    console.log(`Calculated SA tipout: ${saTipout} using rate ${activeSaConfig.percentageRate}%`);
-  }
+    const basis = activeConfig.basis ?? getDefaultTipoutBasis(tipoutType);
+    tipouts[tipoutType] = applyTipoutLimits(shift, tipoutType, calculateTipoutBeforeLimits(shift, tipoutType));
+    console.log(`Calculated ${tipoutType} tipout: ${tipouts[tipoutType]} using rate ${activeConfig.percentageRate}% of ${basis}`);
+  });
 
-  const result = { barTipout, hostTipout, saTipout };
-  console.log('Final tipout calculation:', result);
-  return result;
+  console.log('Final tipout calculation:', tipouts);
+  return tipouts;
 };
 
 /**
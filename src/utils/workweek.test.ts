@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import { getWorkweekStart, getWorkweekEnd, groupByWorkweek, ShiftEarnings } from './workweek';
+
+const earned = (employeeId: string, date: string): ShiftEarnings => ({
+    employee: { id: employeeId, name: employeeId }, roleName: 'Server', date, hours: 5, basePay: 0, cashTips: 0, payrollTips: 0,
+});
+
+describe('getWorkweekStart', () => {
+    it('should start workweeks on Monday by default', () => {
+        expect(getWorkweekStart('2024-03-04')).toBe('2024-03-04'); // Monday
+        expect(getWorkweekStart('2024-03-10')).toBe('2024-03-04'); // Sunday
+        expect(getWorkweekStart('2024-03-11T00:00:00.000Z')).toBe('2024-03-11');
+    });
+
+    it('should start workweeks on the configured day', () => {
+        expect(getWorkweekStart('2024-03-10', 0)).toBe('2024-03-10'); // Sunday start
+        expect(getWorkweekStart('2024-03-09', 0)).toBe('2024-03-03');
+        expect(getWorkweekStart('2024-03-06', 3)).toBe('2024-03-06'); // Wednesday start
+        expect(getWorkweekStart('2024-03-05', 3)).toBe('2024-02-28');
+    });
+});
+
+describe('getWorkweekEnd', () => {
+    it('should end six days after the start, across months', () => {
+        expect(getWorkweekEnd('2024-02-26')).toBe('2024-03-03');
+    });
+});
+
+describe('groupByWorkweek', () => {
+    it('should group shifts per employee and workweek', () => {
+        const weeks = groupByWorkweek([
+            earned('a', '2024-03-04'),
+            earned('b', '2024-03-05'),
+            earned('a', '2024-03-10'),
+            earned('a', '2024-03-11'),
+        ], 1);
+
+        expect(weeks.map(week => [week.employee.id, week.weekStart, week.shifts.length])).toEqual([
+            ['a', '2024-03-04', 2],
+            ['b', '2024-03-04', 1],
+            ['a', '2024-03-11', 1],
+        ]);
+    });
+});
@@ -0,0 +1,98 @@
+// Workweeks: the fixed, recurring seven days that minimum wage and overtime are both worked out over.
+// Each employee's hours are combined across every role they worked in the week.
+import { DateRange, Employee, PayrollSettings } from '@/types/reports';
+import { allocateCents } from './money';
+
+export const DEFAULT_PAYROLL_SETTINGS: PayrollSettings = {
+  workweekStartDay: 1, // Monday
+  overtimeThresholdHours: 40,
+  overtimeMultiplier: 1.5,
+  payPeriodFrequency: 'biweekly',
+  payPeriodAnchorDate: '2024-01-01', // A Monday
+};
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * What a shift earned the employee once its tips were calculated.
+ */
+export type ShiftEarnings = {
+  employee: Employee;
+  roleName: string;
+  date: string;
+  hours: number;
+  basePay: number;     // Before rounding, so a week's base pay adds up exactly
+  cashTips: number;    // Cash kept, after tipouts paid from cash
+  payrollTips: number;
+};
+
+/**
+ * First day of the workweek a date falls in, as YYYY-MM-DD. `startDay` is the weekday workweeks start on, 0 for Sunday.
+ */
+export const getWorkweekStart = (date: string, startDay: number = DEFAULT_PAYROLL_SETTINGS.workweekStartDay): string => {
+  const weekStart = new Date(`${date.slice(0, 10)}T00:00:00.000Z`);
+  weekStart.setUTCDate(weekStart.getUTCDate() - (weekStart.getUTCDay() - startDay + 7) % 7);
+  return weekStart.toISOString().slice(0, 10);
+};
+
+/**
+ * Last day of the workweek starting on `weekStart`, as YYYY-MM-DD.
+ */
+export const getWorkweekEnd = (weekStart: string): string => {
+  const weekEnd = new Date(`${weekStart}T00:00:00.000Z`);
+  weekEnd.setUTCDate(weekEnd.getUTCDate() + 6);
+  return weekEnd.toISOString().slice(0, 10);
+};
+
+/**
+ * Groups shift earnings by employee and workweek, in the order each week was first seen.
+ */
+export const groupByWorkweek = (earnings: ShiftEarnings[], startDay: number): { employee: Employee; weekStart: string; shifts: ShiftEarnings[] }[] => {
+  const weeks = new Map<string, { employee: Employee; weekStart: string; shifts: ShiftEarnings[] }>();
+  earnings.forEach(shift => {
+    const weekStart = getWorkweekStart(shift.date, startDay);
+    const key = `${shift.employee.id}:${weekStart}`;
+    const week = weeks.get(key) ?? { employee: shift.employee, weekStart, shifts: [] };
+    week.shifts.push(shift);
+    weeks.set(key, week);
+  });
+  return Array.from(weeks.values());
+};
+
+/**
+ * Hours each role was worked in a set of shifts, in the order the roles first appear.
+ */
+export const sumHoursByRole = (shifts: ShiftEarnings[]): Map<string, number> => {
+  const hoursByRole = new Map<string, number>();
+  shifts.forEach(shift => hoursByRole.set(shift.roleName, (hoursByRole.get(shift.roleName) ?? 0) + Number(shift.hours)));
+  return hoursByRole;
+};
+
+/**
+ * Whether a date falls within a report's dates; every date does without a range.
+ */
+export const isDateInRange = (date: string, range?: DateRange): boolean => {
+  const day = date.slice(0, 10);
+  return !range || (day >= range.startDate && day <= range.endDate);
+};
+
+/**
+ * Splits a week's amount (in cents) by hours between its shifts within the report's dates and the rest, which is
+ * paid with whichever period holds them, then the part within the dates across their roles by hours.
+ */
+export const splitWeekByRole = (
+  cents: number,
+  shifts: ShiftEarnings[],
+  range?: DateRange,
+): { inRangeCents: number; hoursByRole: Map<string, number>; centsByRole: Map<string, number> } => {
+  const inRange = shifts.filter(shift => isDateInRange(shift.date, range));
+  const hoursOf = (list: ShiftEarnings[]) => list.reduce((acc, shift) => acc + Number(shift.hours), 0);
+  const [inRangeCents] = inRange.length === shifts.length
+    ? [cents]
+    : allocateCents(cents, [hoursOf(inRange), hoursOf(shifts) - hoursOf(inRange)]);
+
+  const hoursByRole = sumHoursByRole(inRange);
+  const roles = Array.from(hoursByRole.keys());
+  const roleCents = allocateCents(inRangeCents, roles.map(role => hoursByRole.get(role)!));
+  return { inRangeCents, hoursByRole, centsByRole: new Map(roles.map((role, i) => [role, roleCents[i]])) };
+};